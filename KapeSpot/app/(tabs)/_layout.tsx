@@ -6,6 +6,7 @@ import { HapticTab } from '@/components/haptic-tab';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { OfflineSyncService } from '@/lib/offline-sync';
+import { startPrintQueue } from '@/lib/print-queue';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
@@ -26,6 +27,12 @@ export default function TabLayout() {
     checkAuth();
   }, []);
 
+  // Print jobs keep going in the background, whichever screen is open
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startPrintQueue();
+  }, [isAuthenticated]);
+
   // Show loading state
   if (isAuthenticated === null) {
     return null;
@@ -65,12 +72,54 @@ export default function TabLayout() {
           title: 'Order Status',
         }}
       />
+      <Tabs.Screen
+        name="tables"
+        options={{
+          title: 'Tables',
+        }}
+      />
+      <Tabs.Screen
+        name="customers"
+        options={{
+          title: 'Customers',
+        }}
+      />
       <Tabs.Screen
         name="sales-expense"
         options={{
           title: 'Sales & Expense',
         }}
       />
+      <Tabs.Screen
+        name="ingredients"
+        options={{
+          title: 'Ingredients',
+        }}
+      />
+      <Tabs.Screen
+        name="conflicts"
+        options={{
+          title: 'Sync Conflicts',
+        }}
+      />
+      <Tabs.Screen
+        name="pricing"
+        options={{
+          title: 'Pricing',
+        }}
+      />
+      <Tabs.Screen
+        name="print-queue"
+        options={{
+          title: 'Print Queue',
+        }}
+      />
+      <Tabs.Screen
+        name="printers"
+        options={{
+          title: 'Printers & Stations',
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
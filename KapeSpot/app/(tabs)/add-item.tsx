@@ -33,6 +33,15 @@ import {
     updateDoc
 } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
+import ModifierGroupsEditor from '@/components/inventory/ModifierGroupsEditor';
+import { ModifierGroup } from '@/types/modifier';
+import { normalizeModifierGroups } from '@/lib/modifiers';
+import RecipeEditor from '@/components/inventory/RecipeEditor';
+import BundleEditor from '@/components/inventory/BundleEditor';
+import { BundleSlot } from '@/types/bundle';
+import { BundleCandidate, loadBundleCandidates, normalizeBundleSlots } from '@/lib/bundles';
+import { Ingredient, RecipeComponent } from '@/types/ingredient';
+import { loadIngredients, normalizeRecipe } from '@/lib/ingredients';
 
 interface Category {
     id: string;
@@ -113,6 +122,12 @@ export default function AddItemScreen() {
         cupName: ''
     });
 
+    const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+    const [recipe, setRecipe] = useState<RecipeComponent[]>([]);
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+    const [bundleSlots, setBundleSlots] = useState<BundleSlot[]>([]);
+    const [bundleItems, setBundleItems] = useState<BundleCandidate[]>([]);
+
     const [imageUri, setImageUri] = useState<string | null>(null);
     const [imageBase64, setImageBase64] = useState<string | null>(null);
 
@@ -453,6 +468,9 @@ export default function AddItemScreen() {
                 stocks: parseInt(newItem.stocks) || 0,
                 description: newItem.description,
                 cupName: newItem.cupName,
+                modifierGroups: normalizeModifierGroups(modifierGroups),
+                bundleSlots: normalizeBundleSlots(bundleSlots),
+                recipe: normalizeRecipe(recipe),
                 status: true,
                 sales: 0,
                 created_at: new Date().toISOString(),
@@ -619,6 +637,9 @@ export default function AddItemScreen() {
             description: '',
             cupName: ''
         });
+        setModifierGroups([]);
+        setRecipe([]);
+        setBundleSlots([]);
         setImageUri(null);
         setImageBase64(null);
         router.back();
@@ -679,6 +700,8 @@ export default function AddItemScreen() {
     useFocusEffect(
         React.useCallback(() => {
             refreshCups();
+            loadIngredients().then(setIngredients);
+            loadBundleCandidates().then(setBundleItems);
         }, [])
     );
 
@@ -949,6 +972,40 @@ export default function AddItemScreen() {
                                     />
                                 </ThemedView>
 
+                                {/* Modifier groups (size, sugar level, add-ons) */}
+                                <ThemedView style={styles.formGroup}>
+                                    <ThemedText style={styles.label}>Modifiers</ThemedText>
+                                    <ModifierGroupsEditor
+                                        groups={modifierGroups}
+                                        onChange={setModifierGroups}
+                                        ingredients={ingredients}
+                                        cupNames={cups.map(cup => cup.name)}
+                                        disabled={loading}
+                                    />
+                                </ThemedView>
+
+                                {/* Recipe - ingredients depleted per item sold */}
+                                <ThemedView style={styles.formGroup}>
+                                    <ThemedText style={styles.label}>Recipe</ThemedText>
+                                    <RecipeEditor
+                                        recipe={recipe}
+                                        ingredients={ingredients}
+                                        onChange={setRecipe}
+                                        disabled={loading}
+                                    />
+                                </ThemedView>
+
+                                {/* Bundle - combo of other items, stock comes from the components */}
+                                <ThemedView style={styles.formGroup}>
+                                    <ThemedText style={styles.label}>Bundle</ThemedText>
+                                    <BundleEditor
+                                        slots={bundleSlots}
+                                        onChange={setBundleSlots}
+                                        items={bundleItems}
+                                        disabled={loading}
+                                    />
+                                </ThemedView>
+
                                 {/* IMAGE UPLOAD SECTION - MOVED TO BOTTOM */}
                                 <ThemedView style={styles.imageSection}>
                                     <ThemedText style={styles.sectionHeader}>Upload Image</ThemedText>
@@ -0,0 +1,497 @@
+// app/(tabs)/conflicts.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import { NetworkScanner } from '@/lib/network-scanner';
+import { OfflineSyncService } from '@/lib/offline-sync';
+import { getCurrentUser } from '@/lib/manager-approval';
+import {
+    formatConflictValue,
+    getConflictFieldLabel,
+    getConflictLog,
+    resolveConflict
+} from '@/lib/conflicts';
+import { SyncOperation, SyncOperationType } from '@/lib/sync-engine';
+import { ConflictChoice, ConflictDecision, SyncConflict } from '@/types/conflict';
+
+const COLLECTION_LABELS: Record<SyncConflict['collection'], string> = {
+    items: 'Item',
+    cups: 'Cup',
+    orders: 'Order'
+};
+
+const OPERATION_LABELS: Record<SyncOperationType, string> = {
+    CREATE_ITEM: 'New item',
+    UPDATE_ITEM: 'Item edit',
+    DELETE_ITEM: 'Item delete',
+    CREATE_CATEGORY: 'New category',
+    UPDATE_CATEGORY: 'Category edit',
+    DELETE_CATEGORY: 'Category delete',
+    CREATE_CUP: 'New cup',
+    UPDATE_CUP: 'Cup edit',
+    DELETE_CUP: 'Cup delete',
+    CREATE_ORDER: 'Order',
+    UPDATE_ORDER: 'Order update',
+    ADD_ORDER_ITEMS: 'Items added to order',
+    MERGE_ORDERS: 'Order merge',
+    CREATE_REFUND: 'Refund',
+    SAVE_CUSTOMER: 'Customer',
+    SAVE_LOYALTY_ENTRY: 'Loyalty entry',
+    SAVE_CREDIT_ENTRY: 'Credit entry'
+};
+
+const describeOperation = (operation: SyncOperation): string => {
+    const data = operation.data || {};
+    const name = data.name || data.orderId || data.customerName || operation.id;
+    return `${OPERATION_LABELS[operation.type] || operation.type}: ${name}`;
+};
+
+export default function ConflictsScreen() {
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [adminName, setAdminName] = useState('');
+    const [isOnlineMode, setIsOnlineMode] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+    const [decisions, setDecisions] = useState<ConflictDecision[]>([]);
+    const [deadLetters, setDeadLetters] = useState<SyncOperation[]>([]);
+    // conflictId -> field -> choice
+    const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const user = await getCurrentUser();
+            setIsAdmin(user?.role === 'admin');
+            setAdminName(user?.name || user?.username || '');
+
+            const mode = await NetworkScanner.getApiBaseUrl();
+            setIsOnlineMode(mode === 'online');
+
+            setConflicts(await OfflineSyncService.getInstance().getConflicts());
+            setDeadLetters(await OfflineSyncService.getInstance().getDeadLetterItems());
+            setDecisions(await getConflictLog());
+        } catch (error) {
+            console.error('❌ Error loading sync conflicts:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useFocusEffect(
+        React.useCallback(() => {
+            loadData();
+        }, [])
+    );
+
+    const choose = (conflictId: string, field: string, choice: ConflictChoice) => {
+        setChoices(prev => ({ ...prev, [conflictId]: { ...(prev[conflictId] || {}), [field]: choice } }));
+    };
+
+    const handleResolve = async (conflict: SyncConflict) => {
+        const conflictChoices = choices[conflict.id] || {};
+
+        if (conflict.fields.some(field => !conflictChoices[field.field])) {
+            Alert.alert('Choose a Version', 'Pick which version wins for every field first.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Conflicts can only be resolved while online.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await resolveConflict(conflict, conflictChoices, adminName);
+            setChoices(prev => {
+                const { [conflict.id]: _resolved, ...rest } = prev;
+                return rest;
+            });
+            await loadData();
+        } catch (error) {
+            console.error('❌ Error resolving conflict:', error);
+            Alert.alert('Error', 'Failed to resolve conflict.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRetry = async (operation: SyncOperation) => {
+        setLoading(true);
+        try {
+            await OfflineSyncService.getInstance().retryDeadLetterItem(operation.id);
+            await loadData();
+        } catch (error) {
+            console.error('❌ Error retrying failed sync:', error);
+            Alert.alert('Error', 'Failed to put the change back in the sync queue.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDiscard = (operation: SyncOperation) => {
+        Alert.alert(
+            'Discard Change',
+            `"${describeOperation(operation)}" will never reach the server. Later edits of the same record will sync without it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Discard',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await OfflineSyncService.getInstance().discardDeadLetterItem(operation.id);
+                            await loadData();
+                        } catch (error) {
+                            console.error('❌ Error discarding failed sync:', error);
+                            Alert.alert('Error', 'Failed to discard the change.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="items" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Sync Conflicts</ThemedText>
+                        <TouchableOpacity style={styles.reloadButton} onPress={loadData} disabled={loading}>
+                            <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                        </TouchableOpacity>
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="git-merge" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Waiting for a Decision</ThemedText>
+                            {!isOnlineMode && (
+                                <ThemedText style={styles.offlineBadge}>OFFLINE - read only</ThemedText>
+                            )}
+                        </ThemedView>
+
+                        {conflicts.length === 0 ? (
+                            <ThemedText style={styles.infoText}>
+                                No conflicts. Offline edits that clash with changes from another device show up here.
+                            </ThemedText>
+                        ) : (
+                            conflicts.map(conflict => (
+                                <ThemedView key={conflict.id} style={styles.listRow}>
+                                    <ThemedText style={styles.listTitle}>
+                                        {COLLECTION_LABELS[conflict.collection]}: {conflict.entityName}
+                                    </ThemedText>
+                                    <ThemedText style={styles.listSubtitle}>
+                                        Detected {new Date(conflict.detectedAt).toLocaleString()}
+                                    </ThemedText>
+
+                                    {conflict.fields.map(field => {
+                                        const choice = choices[conflict.id]?.[field.field];
+                                        return (
+                                            <ThemedView key={field.field} style={styles.fieldRow}>
+                                                <ThemedText style={styles.fieldLabel}>
+                                                    {getConflictFieldLabel(field.field)}
+                                                </ThemedText>
+                                                <ThemedText style={styles.fieldBase}>
+                                                    Was {formatConflictValue(field.field, field.base)}
+                                                </ThemedText>
+                                                <ThemedView style={styles.choiceRow}>
+                                                    {(['local', 'remote'] as ConflictChoice[]).map(side => (
+                                                        <TouchableOpacity
+                                                            key={side}
+                                                            style={[styles.choiceButton, choice === side && styles.choiceButtonActive]}
+                                                            onPress={() => choose(conflict.id, field.field, side)}
+                                                            disabled={!isAdmin}
+                                                        >
+                                                            <Text style={[styles.choiceLabel, choice === side && styles.choiceTextActive]}>
+                                                                {side === 'local' ? 'This tablet' : 'Other device'}
+                                                            </Text>
+                                                            <Text
+                                                                style={[styles.choiceValue, choice === side && styles.choiceTextActive]}
+                                                                numberOfLines={3}
+                                                            >
+                                                                {formatConflictValue(field.field, side === 'local' ? field.local : field.remote)}
+                                                            </Text>
+                                                        </TouchableOpacity>
+                                                    ))}
+                                                </ThemedView>
+                                            </ThemedView>
+                                        );
+                                    })}
+
+                                    {isAdmin ? (
+                                        <TouchableOpacity
+                                            style={styles.primaryButton}
+                                            onPress={() => handleResolve(conflict)}
+                                            disabled={loading}
+                                        >
+                                            <ThemedText style={styles.primaryButtonText}>Apply Decision</ThemedText>
+                                        </TouchableOpacity>
+                                    ) : (
+                                        <ThemedText style={styles.infoText}>Only administrators can resolve conflicts.</ThemedText>
+                                    )}
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="alert-octagon" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Failed to Sync</ThemedText>
+                        </ThemedView>
+
+                        {deadLetters.length === 0 ? (
+                            <ThemedText style={styles.infoText}>
+                                No failed changes. Offline changes the server kept rejecting show up here.
+                            </ThemedText>
+                        ) : (
+                            deadLetters.map(operation => (
+                                <ThemedView key={operation.id} style={styles.listRow}>
+                                    <ThemedText style={styles.listTitle}>{describeOperation(operation)}</ThemedText>
+                                    <ThemedText style={styles.listSubtitle}>
+                                        Gave up {operation.failedAt ? new Date(operation.failedAt).toLocaleString() : ''}
+                                        {' '}after {operation.retryCount} attempt{operation.retryCount === 1 ? '' : 's'}
+                                    </ThemedText>
+                                    {operation.lastError && (
+                                        <ThemedText style={styles.errorText}>{operation.lastError}</ThemedText>
+                                    )}
+                                    <ThemedView style={styles.choiceRow}>
+                                        <TouchableOpacity
+                                            style={[styles.primaryButton, styles.actionButton]}
+                                            onPress={() => handleRetry(operation)}
+                                            disabled={loading}
+                                        >
+                                            <ThemedText style={styles.primaryButtonText}>Retry</ThemedText>
+                                        </TouchableOpacity>
+                                        {isAdmin && (
+                                            <TouchableOpacity
+                                                style={[styles.secondaryButton, styles.actionButton]}
+                                                onPress={() => handleDiscard(operation)}
+                                                disabled={loading}
+                                            >
+                                                <ThemedText style={styles.secondaryButtonText}>Discard</ThemedText>
+                                            </TouchableOpacity>
+                                        )}
+                                    </ThemedView>
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="book-open" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Decision Log</ThemedText>
+                        </ThemedView>
+
+                        {decisions.length === 0 ? (
+                            <ThemedText style={styles.infoText}>No decisions yet.</ThemedText>
+                        ) : (
+                            decisions.map(decision => (
+                                <ThemedView key={decision.conflictId} style={styles.listRow}>
+                                    <ThemedText style={styles.listTitle}>
+                                        {COLLECTION_LABELS[decision.collection]}: {decision.entityName}
+                                    </ThemedText>
+                                    <ThemedText style={styles.listSubtitle}>
+                                        {new Date(decision.decidedAt).toLocaleString()}
+                                        {decision.decidedBy ? ` · ${decision.decidedBy}` : ''}
+                                    </ThemedText>
+                                    {decision.fields.map(field => (
+                                        <ThemedText key={field.field} style={styles.logLine}>
+                                            {getConflictFieldLabel(field.field)}: kept{' '}
+                                            {formatConflictValue(field.field, field.choice === 'local' ? field.local : field.remote)}
+                                            {field.choice === 'local' ? ' (this tablet)' : ' (other device)'}
+                                        </ThemedText>
+                                    ))}
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    offlineBadge: {
+        fontSize: 11,
+        color: '#DC2626',
+        fontWeight: '600',
+        marginLeft: 'auto',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    listRow: {
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+        marginBottom: 6,
+    },
+    fieldRow: {
+        marginBottom: 10,
+        backgroundColor: 'transparent',
+    },
+    fieldLabel: {
+        fontSize: 13,
+        fontWeight: 'bold',
+        color: '#874E3B',
+    },
+    fieldBase: {
+        fontSize: 12,
+        color: '#B08968',
+        marginBottom: 4,
+    },
+    choiceRow: {
+        flexDirection: 'row',
+        gap: 8,
+        backgroundColor: 'transparent',
+    },
+    choiceButton: {
+        flex: 1,
+        padding: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    choiceButtonActive: {
+        backgroundColor: '#874E3B',
+    },
+    choiceLabel: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: '#874E3B',
+        marginBottom: 2,
+    },
+    choiceValue: {
+        fontSize: 14,
+        color: '#5A3921',
+    },
+    choiceTextActive: {
+        color: '#FFFEEA',
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    secondaryButton: {
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#DC2626',
+        alignItems: 'center',
+    },
+    secondaryButtonText: {
+        color: '#DC2626',
+        fontWeight: '600',
+    },
+    actionButton: {
+        flex: 1,
+        marginTop: 6,
+    },
+    errorText: {
+        fontSize: 12,
+        color: '#DC2626',
+    },
+    logLine: {
+        fontSize: 13,
+        color: '#5A3921',
+    },
+});
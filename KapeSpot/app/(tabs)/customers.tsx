@@ -0,0 +1,654 @@
+// app/(tabs)/customers.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TextInput,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import {
+    createCustomer,
+    getLastOrder,
+    loadCustomerOrders,
+    loadCustomers,
+    saveCustomer,
+    searchCustomers,
+    validateCustomer
+} from '@/lib/customers';
+import { Customer, CustomerOrder } from '@/types/customer';
+import { LoyaltyEntry } from '@/types/loyalty';
+import { describeLoyaltyEntry, getLoyaltyBalance, loadLoyaltyLedger } from '@/lib/loyalty';
+import { CreditEntry } from '@/types/credit';
+import { TenderType } from '@/types/payment';
+import {
+    describeCreditEntry,
+    getAvailableCredit,
+    getCreditBalance,
+    getCreditLimit,
+    loadCreditLedger,
+    recordCreditPayment
+} from '@/lib/credit';
+import { TENDER_OPTIONS, roundMoney, tenderRequiresReference } from '@/lib/payments';
+import { getCurrentUser } from '@/lib/manager-approval';
+
+export default function CustomersScreen() {
+    const [loading, setLoading] = useState(false);
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [search, setSearch] = useState('');
+    const [selected, setSelected] = useState<Customer | null>(null);
+    const [form, setForm] = useState<Customer | null>(null); // the selected (or new) customer being edited
+    const [orders, setOrders] = useState<CustomerOrder[]>([]);
+    const [loadingOrders, setLoadingOrders] = useState(false);
+    const [ledger, setLedger] = useState<LoyaltyEntry[]>([]);
+    const [creditEntries, setCreditEntries] = useState<CreditEntry[]>([]);
+    const [creditLimitText, setCreditLimitText] = useState('');
+    const [paymentAmount, setPaymentAmount] = useState('');
+    const [paymentTender, setPaymentTender] = useState<TenderType>('cash');
+    const [paymentReference, setPaymentReference] = useState('');
+    const [savingPayment, setSavingPayment] = useState(false);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            setCustomers(await loadCustomers());
+        } catch (error) {
+            console.error('❌ Error loading customers:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useFocusEffect(
+        React.useCallback(() => {
+            setSelected(null);
+            setForm(null);
+            loadData();
+        }, [])
+    );
+
+    const listed = search.trim()
+        ? searchCustomers(customers, search, 50)
+        : [...customers].sort((a, b) => a.name.localeCompare(b.name));
+
+    const openCustomer = async (customer: Customer) => {
+        setSelected(customer);
+        setForm(customer);
+        setCreditLimitText(getCreditLimit(customer) > 0 ? String(customer.creditLimit) : '');
+        setOrders([]);
+        setLedger([]);
+        setCreditEntries([]);
+        setPaymentAmount('');
+        setPaymentReference('');
+        setLoadingOrders(true);
+        try {
+            const [customerOrders, entries, accountEntries] = await Promise.all([
+                loadCustomerOrders(customer),
+                loadLoyaltyLedger(customer.id),
+                loadCreditLedger(customer.id)
+            ]);
+            setOrders(customerOrders);
+            setLedger(entries);
+            setCreditEntries(accountEntries);
+        } catch (error) {
+            console.error('❌ Error loading customer orders:', error);
+        } finally {
+            setLoadingOrders(false);
+        }
+    };
+
+    const startNewCustomer = () => {
+        setSelected(null);
+        setOrders([]);
+        setCreditLimitText('');
+        setForm(createCustomer(search));
+    };
+
+    const updateForm = (changes: Partial<Customer>) => {
+        setForm(prev => prev && { ...prev, ...changes });
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        const error = validateCustomer(form, customers);
+        if (error) {
+            Alert.alert('Customer', error);
+            return;
+        }
+        const creditLimit = creditLimitText.trim() ? parseFloat(creditLimitText) : 0;
+        if (!(creditLimit >= 0)) {
+            Alert.alert('Customer', 'Enter the credit limit as an amount, or leave it empty for no charging.');
+            return;
+        }
+
+        try {
+            const saved = await saveCustomer({ ...form, creditLimit: roundMoney(creditLimit) });
+            setCustomers(prev => [...prev.filter(customer => customer.id !== saved.id), saved]);
+            setSelected(saved);
+            setForm(saved);
+            Alert.alert('Saved', `${saved.name} has been saved.`);
+        } catch (error) {
+            console.error('❌ Error saving customer:', error);
+            Alert.alert('Error', 'Failed to save the customer.');
+        }
+    };
+
+    // Money brought in against the account; it goes on the ledger, not on any order
+    const handleReceivePayment = async () => {
+        if (!selected) return;
+        const amount = roundMoney(parseFloat(paymentAmount));
+        if (!(amount > 0)) {
+            Alert.alert('Receive Payment', 'Enter the amount received.');
+            return;
+        }
+        if (amount > creditBalance) {
+            Alert.alert('Receive Payment', `${selected.name} only owes ₱${creditBalance.toFixed(2)}.`);
+            return;
+        }
+        if (tenderRequiresReference(paymentTender) && !paymentReference.trim()) {
+            Alert.alert('Receive Payment', 'Enter the reference number.');
+            return;
+        }
+
+        setSavingPayment(true);
+        try {
+            const user = await getCurrentUser();
+            const entry = await recordCreditPayment(selected, amount, paymentTender, paymentReference, user?.name || '');
+            setCreditEntries(prev => [entry, ...prev]);
+            setPaymentAmount('');
+            setPaymentReference('');
+            Alert.alert('Payment Received', `₱${amount.toFixed(2)} received from ${selected.name}.`);
+        } catch (error) {
+            console.error('❌ Error recording credit payment:', error);
+            Alert.alert('Error', 'Failed to record the payment.');
+        } finally {
+            setSavingPayment(false);
+        }
+    };
+
+    const repeatLastOrder = () => {
+        if (!selected) return;
+        router.push({
+            pathname: '/pos',
+            params: { repeatCustomer: selected.id, openedAt: String(Date.now()) }
+        });
+    };
+
+    const paidOrders = orders.filter(order => order.status === 'paid');
+    const totalSpent = paidOrders.reduce((sum, order) => sum + order.total, 0);
+    const lastOrder = getLastOrder(orders);
+    const loyaltyBalance = getLoyaltyBalance(ledger);
+    const creditBalance = getCreditBalance(creditEntries);
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="customers" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Customers</ThemedText>
+                        <ThemedView style={styles.headerActions}>
+                            <TouchableOpacity style={styles.secondaryButton} onPress={startNewCustomer}>
+                                <Feather name="user-plus" size={14} color="#854442" />
+                                <Text style={styles.secondaryButtonText}>New Customer</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.reloadButton} onPress={loadData} disabled={loading}>
+                                <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                            </TouchableOpacity>
+                        </ThemedView>
+                    </ThemedView>
+
+                    {form && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="user" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>
+                                    {selected ? selected.name : 'New Customer'}
+                                </ThemedText>
+                                <TouchableOpacity
+                                    style={styles.closeButton}
+                                    onPress={() => {
+                                        setSelected(null);
+                                        setForm(null);
+                                    }}
+                                >
+                                    <Feather name="x" size={18} color="#854442" />
+                                </TouchableOpacity>
+                            </ThemedView>
+
+                            <ThemedView style={styles.formRow}>
+                                <ThemedView style={styles.formField}>
+                                    <ThemedText style={styles.fieldLabel}>Name</ThemedText>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.name}
+                                        onChangeText={name => updateForm({ name })}
+                                        placeholder="Customer name"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                </ThemedView>
+                                <ThemedView style={styles.formField}>
+                                    <ThemedText style={styles.fieldLabel}>Phone</ThemedText>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.phone}
+                                        onChangeText={phone => updateForm({ phone })}
+                                        placeholder="09XX XXX XXXX"
+                                        placeholderTextColor="#B08968"
+                                        keyboardType="phone-pad"
+                                    />
+                                </ThemedView>
+                            </ThemedView>
+                            <ThemedView style={styles.formRow}>
+                                <ThemedView style={styles.formField}>
+                                    <ThemedText style={styles.fieldLabel}>Birthday</ThemedText>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.birthday}
+                                        onChangeText={birthday => updateForm({ birthday: birthday.trim() })}
+                                        placeholder="YYYY-MM-DD"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                </ThemedView>
+                                <ThemedView style={styles.formField}>
+                                    <ThemedText style={styles.fieldLabel}>Credit Limit (₱)</ThemedText>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={creditLimitText}
+                                        onChangeText={setCreditLimitText}
+                                        placeholder="No charging"
+                                        placeholderTextColor="#B08968"
+                                        keyboardType="decimal-pad"
+                                    />
+                                </ThemedView>
+                            </ThemedView>
+                            <ThemedView style={styles.formRow}>
+                                <ThemedView style={styles.formField}>
+                                    <ThemedText style={styles.fieldLabel}>Notes</ThemedText>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={form.notes}
+                                        onChangeText={notes => updateForm({ notes })}
+                                        placeholder="e.g. less sugar, oat milk"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                </ThemedView>
+                            </ThemedView>
+                            <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+                                <ThemedText style={styles.primaryButtonText}>Save Customer</ThemedText>
+                            </TouchableOpacity>
+                        </ThemedView>
+                    )}
+
+                    {selected && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="clock" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>Order History</ThemedText>
+                                <ThemedText style={styles.statsText}>
+                                    {paidOrders.length} paid · ₱{totalSpent.toFixed(2)}
+                                </ThemedText>
+                            </ThemedView>
+
+                            {loadingOrders ? (
+                                <ThemedText style={styles.infoText}>Loading orders...</ThemedText>
+                            ) : orders.length === 0 ? (
+                                <ThemedText style={styles.infoText}>No orders yet.</ThemedText>
+                            ) : (
+                                orders.map(order => (
+                                    <ThemedView key={order.firebaseId || order.idempotencyKey || order.orderId} style={styles.listRow}>
+                                        <ThemedView style={styles.listInfo}>
+                                            <ThemedText style={styles.listTitle}>
+                                                {order.orderId} · {new Date(order.timestamp).toLocaleDateString()}
+                                                {order.status !== 'paid' ? ` · ${order.status.toUpperCase()}` : ''}
+                                            </ThemedText>
+                                            <ThemedText style={styles.listSubtitle} numberOfLines={2}>
+                                                {order.items
+                                                    .filter(item => !item.cancelled)
+                                                    .map(item => `${item.quantity}x ${item.name}`)
+                                                    .join(', ')}
+                                            </ThemedText>
+                                        </ThemedView>
+                                        <ThemedText style={styles.listAmount}>₱{order.total.toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                ))
+                            )}
+
+                            {lastOrder && (
+                                <TouchableOpacity style={styles.primaryButton} onPress={repeatLastOrder}>
+                                    <ThemedText style={styles.primaryButtonText}>Repeat Last Order ({lastOrder.orderId})</ThemedText>
+                                </TouchableOpacity>
+                            )}
+                        </ThemedView>
+                    )}
+
+                    {selected && (getCreditLimit(selected) > 0 || creditEntries.length > 0) && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="book" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>Credit Account</ThemedText>
+                                <ThemedText style={styles.statsText}>
+                                    Owes ₱{creditBalance.toFixed(2)} · ₱{getAvailableCredit(selected, creditBalance).toFixed(2)} available
+                                </ThemedText>
+                            </ThemedView>
+
+                            {creditBalance > 0 && (
+                                <>
+                                    <ThemedView style={styles.formRow}>
+                                        {TENDER_OPTIONS.filter(option => option.type !== 'account').map(option => (
+                                            <TouchableOpacity
+                                                key={option.type}
+                                                style={[styles.chip, paymentTender === option.type && styles.chipActive]}
+                                                onPress={() => setPaymentTender(option.type)}
+                                            >
+                                                <Text style={[styles.chipText, paymentTender === option.type && styles.chipTextActive]}>
+                                                    {option.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </ThemedView>
+                                    <ThemedView style={styles.formRow}>
+                                        <ThemedView style={styles.formField}>
+                                            <TextInput
+                                                style={styles.input}
+                                                value={paymentAmount}
+                                                onChangeText={setPaymentAmount}
+                                                placeholder={creditBalance.toFixed(2)}
+                                                placeholderTextColor="#B08968"
+                                                keyboardType="decimal-pad"
+                                            />
+                                        </ThemedView>
+                                        {tenderRequiresReference(paymentTender) && (
+                                            <ThemedView style={styles.formField}>
+                                                <TextInput
+                                                    style={styles.input}
+                                                    value={paymentReference}
+                                                    onChangeText={setPaymentReference}
+                                                    placeholder="Reference no."
+                                                    placeholderTextColor="#B08968"
+                                                />
+                                            </ThemedView>
+                                        )}
+                                    </ThemedView>
+                                    <TouchableOpacity style={styles.primaryButton} onPress={handleReceivePayment} disabled={savingPayment}>
+                                        <ThemedText style={styles.primaryButtonText}>
+                                            {savingPayment ? 'Saving...' : 'Receive Payment'}
+                                        </ThemedText>
+                                    </TouchableOpacity>
+                                </>
+                            )}
+
+                            {creditEntries.map(entry => (
+                                <ThemedView key={entry.id} style={styles.listRow}>
+                                    <ThemedView style={styles.listInfo}>
+                                        <ThemedText style={styles.listTitle}>{describeCreditEntry(entry)}</ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {new Date(entry.timestamp).toLocaleDateString()}
+                                            {entry.receivedBy ? ` · ${entry.receivedBy}` : ''}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    <ThemedText style={styles.listAmount}>
+                                        {entry.amount < 0 ? '-' : ''}₱{Math.abs(entry.amount).toFixed(2)}
+                                    </ThemedText>
+                                </ThemedView>
+                            ))}
+                        </ThemedView>
+                    )}
+
+                    {selected && ledger.length > 0 && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="award" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>Loyalty</ThemedText>
+                                <ThemedText style={styles.statsText}>
+                                    {loyaltyBalance.stamps} stamps · {loyaltyBalance.points} pts
+                                </ThemedText>
+                            </ThemedView>
+                            {ledger.map(entry => (
+                                <ThemedView key={entry.id} style={styles.listRow}>
+                                    <ThemedView style={styles.listInfo}>
+                                        <ThemedText style={styles.listTitle}>{describeLoyaltyEntry(entry)}</ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {entry.orderId} · {new Date(entry.timestamp).toLocaleDateString()}
+                                        </ThemedText>
+                                    </ThemedView>
+                                </ThemedView>
+                            ))}
+                        </ThemedView>
+                    )}
+
+                    <ThemedView style={styles.card}>
+                        <TextInput
+                            style={styles.input}
+                            value={search}
+                            onChangeText={setSearch}
+                            placeholder="Search by name or phone"
+                            placeholderTextColor="#B08968"
+                        />
+                        {listed.length === 0 ? (
+                            <ThemedText style={[styles.infoText, styles.emptyText]}>
+                                {customers.length === 0 ? 'No customers yet.' : 'No customers match.'}
+                            </ThemedText>
+                        ) : (
+                            listed.map(customer => (
+                                <TouchableOpacity
+                                    key={customer.id}
+                                    style={[styles.listRow, selected?.id === customer.id && styles.listRowSelected]}
+                                    onPress={() => openCustomer(customer)}
+                                >
+                                    <ThemedView style={styles.listInfo}>
+                                        <ThemedText style={styles.listTitle}>{customer.name}</ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {[customer.phone, customer.birthday && `🎂 ${customer.birthday}`, customer.notes]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    <Feather name="chevron-right" size={18} color="#854442" />
+                                </TouchableOpacity>
+                            ))
+                        )}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: 'transparent',
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    closeButton: {
+        marginLeft: 'auto',
+        padding: 4,
+    },
+    statsText: {
+        fontSize: 13,
+        fontWeight: 'bold',
+        color: '#874E3B',
+        marginLeft: 'auto',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    emptyText: {
+        marginTop: 10,
+        textAlign: 'center',
+    },
+    formRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 10,
+        backgroundColor: 'transparent',
+    },
+    formField: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    fieldLabel: {
+        fontSize: 12,
+        color: '#874E3B',
+        marginBottom: 4,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+    },
+    listRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    listRowSelected: {
+        backgroundColor: '#F5E6D3',
+    },
+    listInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    listAmount: {
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    chipActive: {
+        backgroundColor: '#874E3B',
+    },
+    chipText: {
+        fontSize: 12,
+        color: '#874E3B',
+    },
+    chipTextActive: {
+        color: '#FFFEEA',
+    },
+    secondaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#854442',
+        backgroundColor: '#FFFEEA',
+    },
+    secondaryButtonText: {
+        color: '#854442',
+        fontWeight: '600',
+    },
+});
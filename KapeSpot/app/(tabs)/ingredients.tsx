@@ -0,0 +1,515 @@
+// app/(tabs)/ingredients.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TextInput,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import { NetworkScanner } from '@/lib/network-scanner';
+import { getCurrentUser } from '@/lib/manager-approval';
+import { Ingredient, IngredientUnit } from '@/types/ingredient';
+import {
+    INGREDIENT_UNITS,
+    deleteIngredient,
+    formatIngredientQuantity,
+    isIngredientLow,
+    loadIngredients,
+    restockIngredient,
+    saveIngredient
+} from '@/lib/ingredients';
+
+export default function IngredientsScreen() {
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [isOnlineMode, setIsOnlineMode] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+
+    // Add / edit form
+    const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+    const [name, setName] = useState('');
+    const [unit, setUnit] = useState<IngredientUnit>('g');
+    const [stock, setStock] = useState('');
+    const [threshold, setThreshold] = useState('');
+
+    // Restock
+    const [restockId, setRestockId] = useState<string | null>(null);
+    const [restockAmount, setRestockAmount] = useState('');
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const user = await getCurrentUser();
+            setIsAdmin(user?.role === 'admin');
+
+            const mode = await NetworkScanner.getApiBaseUrl();
+            setIsOnlineMode(mode === 'online');
+
+            setIngredients(await loadIngredients());
+        } catch (error) {
+            console.error('❌ Error loading ingredients:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useFocusEffect(
+        React.useCallback(() => {
+            loadData();
+        }, [])
+    );
+
+    const resetForm = () => {
+        setEditingIngredient(null);
+        setName('');
+        setUnit('g');
+        setStock('');
+        setThreshold('');
+    };
+
+    const startEdit = (ingredient: Ingredient) => {
+        setEditingIngredient(ingredient);
+        setName(ingredient.name);
+        setUnit(ingredient.unit);
+        setStock(String(ingredient.stock));
+        setThreshold(ingredient.lowStockThreshold ? String(ingredient.lowStockThreshold) : '');
+    };
+
+    const handleSave = async () => {
+        const stockValue = parseFloat(stock || '0');
+        const thresholdValue = parseFloat(threshold || '0');
+
+        if (!name.trim()) {
+            Alert.alert('Error', 'Please enter the ingredient name.');
+            return;
+        }
+        if (isNaN(stockValue) || isNaN(thresholdValue) || thresholdValue < 0) {
+            Alert.alert('Error', 'Please enter valid stock and low-stock values.');
+            return;
+        }
+        if (!editingIngredient && ingredients.some(i => i.name.toLowerCase() === name.trim().toLowerCase())) {
+            Alert.alert('Error', 'This ingredient already exists.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save ingredients while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await saveIngredient({
+                name,
+                unit,
+                stock: stockValue,
+                lowStockThreshold: thresholdValue,
+                firebaseId: editingIngredient?.firebaseId
+            });
+            console.log('✅ Ingredient saved:', name.trim());
+            resetForm();
+            setIngredients(await loadIngredients());
+        } catch (error) {
+            console.error('❌ Error saving ingredient:', error);
+            Alert.alert('Error', 'Failed to save ingredient.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRestock = async (ingredient: Ingredient) => {
+        const amount = parseFloat(restockAmount);
+
+        if (!(amount > 0)) {
+            Alert.alert('Error', 'Please enter the amount received.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot restock while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await restockIngredient(ingredient.id, amount);
+            console.log('✅ Restocked', ingredient.name, formatIngredientQuantity(amount, ingredient.unit));
+            setRestockId(null);
+            setRestockAmount('');
+            setIngredients(await loadIngredients());
+        } catch (error) {
+            console.error('❌ Error restocking ingredient:', error);
+            Alert.alert('Error', 'Failed to restock ingredient.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = (ingredient: Ingredient) => {
+        if (!isOnlineMode || !ingredient.firebaseId) {
+            Alert.alert('Offline Mode', 'Cannot delete ingredients while offline.');
+            return;
+        }
+
+        Alert.alert(
+            'Delete Ingredient',
+            `Delete ${ingredient.name}? Recipes using it will stop depleting it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteIngredient(ingredient.firebaseId!);
+                            setIngredients(await loadIngredients());
+                        } catch (error) {
+                            console.error('❌ Error deleting ingredient:', error);
+                            Alert.alert('Error', 'Failed to delete ingredient.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const lowCount = ingredients.filter(isIngredientLow).length;
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="items" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Ingredients</ThemedText>
+                        <TouchableOpacity style={styles.reloadButton} onPress={loadData} disabled={loading}>
+                            <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                        </TouchableOpacity>
+                    </ThemedView>
+
+                    {isAdmin && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name={editingIngredient ? 'edit-2' : 'plus-circle'} size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>
+                                    {editingIngredient ? `Edit ${editingIngredient.name}` : 'Add Ingredient'}
+                                </ThemedText>
+                                {!isOnlineMode && (
+                                    <ThemedText style={styles.offlineBadge}>OFFLINE - read only</ThemedText>
+                                )}
+                            </ThemedView>
+
+                            <ThemedView style={styles.formRow}>
+                                <TextInput
+                                    style={[styles.input, styles.flexInput]}
+                                    value={name}
+                                    onChangeText={setName}
+                                    placeholder="Name (e.g. Espresso beans)"
+                                    placeholderTextColor="#B08968"
+                                />
+                                {INGREDIENT_UNITS.map(option => (
+                                    <TouchableOpacity
+                                        key={option.value}
+                                        style={[styles.toggleButton, unit === option.value && styles.toggleButtonActive]}
+                                        onPress={() => setUnit(option.value)}
+                                    >
+                                        <Text style={[styles.toggleText, unit === option.value && styles.toggleTextActive]}>
+                                            {option.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </ThemedView>
+                            <ThemedView style={styles.formRow}>
+                                <TextInput
+                                    style={[styles.input, styles.flexInput]}
+                                    value={stock}
+                                    onChangeText={setStock}
+                                    placeholder={`Stock on hand (${unit})`}
+                                    placeholderTextColor="#B08968"
+                                    keyboardType="decimal-pad"
+                                />
+                                <TextInput
+                                    style={[styles.input, styles.flexInput]}
+                                    value={threshold}
+                                    onChangeText={setThreshold}
+                                    placeholder={`Alert when at or below (${unit})`}
+                                    placeholderTextColor="#B08968"
+                                    keyboardType="decimal-pad"
+                                />
+                                {editingIngredient && (
+                                    <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                                        <Feather name="x" size={16} color="#874E3B" />
+                                    </TouchableOpacity>
+                                )}
+                                <TouchableOpacity style={styles.primaryButton} onPress={handleSave} disabled={loading}>
+                                    <Feather name={editingIngredient ? 'check' : 'plus'} size={16} color="#FFFEEA" />
+                                </TouchableOpacity>
+                            </ThemedView>
+                        </ThemedView>
+                    )}
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="droplet" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Stock</ThemedText>
+                            {lowCount > 0 && (
+                                <ThemedText style={styles.lowBadge}>{lowCount} low</ThemedText>
+                            )}
+                        </ThemedView>
+
+                        {ingredients.length === 0 ? (
+                            <ThemedText style={styles.infoText}>
+                                No ingredients yet. Add them here, then set recipes on each item in Food Items.
+                            </ThemedText>
+                        ) : (
+                            ingredients.map(ingredient => (
+                                <ThemedView key={ingredient.id} style={styles.listRow}>
+                                    <ThemedView style={styles.listMain}>
+                                        <ThemedView style={styles.listInfo}>
+                                            <ThemedText style={styles.listTitle}>{ingredient.name}</ThemedText>
+                                            <ThemedText style={styles.listSubtitle}>
+                                                {ingredient.lowStockThreshold
+                                                    ? `Alert at ${formatIngredientQuantity(ingredient.lowStockThreshold, ingredient.unit)}`
+                                                    : 'No low-stock alert'}
+                                            </ThemedText>
+                                        </ThemedView>
+                                        <ThemedText style={[styles.stockText, isIngredientLow(ingredient) && styles.stockTextLow]}>
+                                            {formatIngredientQuantity(ingredient.stock, ingredient.unit)}
+                                        </ThemedText>
+                                        {isAdmin && (
+                                            <ThemedView style={styles.listActions}>
+                                                <TouchableOpacity
+                                                    onPress={() => {
+                                                        setRestockId(restockId === ingredient.id ? null : ingredient.id);
+                                                        setRestockAmount('');
+                                                    }}
+                                                >
+                                                    <Feather name="plus-square" size={18} color="#16A34A" />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity onPress={() => startEdit(ingredient)}>
+                                                    <Feather name="edit-2" size={18} color="#874E3B" />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity onPress={() => handleDelete(ingredient)}>
+                                                    <Feather name="trash-2" size={18} color="#DC2626" />
+                                                </TouchableOpacity>
+                                            </ThemedView>
+                                        )}
+                                    </ThemedView>
+
+                                    {restockId === ingredient.id && (
+                                        <ThemedView style={styles.formRow}>
+                                            <TextInput
+                                                style={[styles.input, styles.flexInput]}
+                                                value={restockAmount}
+                                                onChangeText={setRestockAmount}
+                                                placeholder={`Amount received (${ingredient.unit})`}
+                                                placeholderTextColor="#B08968"
+                                                keyboardType="decimal-pad"
+                                                autoFocus
+                                            />
+                                            <TouchableOpacity
+                                                style={styles.primaryButton}
+                                                onPress={() => handleRestock(ingredient)}
+                                                disabled={loading}
+                                            >
+                                                <ThemedText style={styles.primaryButtonText}>Restock</ThemedText>
+                                            </TouchableOpacity>
+                                        </ThemedView>
+                                    )}
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    offlineBadge: {
+        fontSize: 11,
+        color: '#DC2626',
+        fontWeight: '600',
+        marginLeft: 'auto',
+    },
+    lowBadge: {
+        fontSize: 12,
+        color: '#FFFEEA',
+        backgroundColor: '#DC2626',
+        fontWeight: '600',
+        paddingHorizontal: 8,
+        borderRadius: 10,
+        overflow: 'hidden',
+        marginLeft: 'auto',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    formRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+    },
+    flexInput: {
+        flex: 1,
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    secondaryButton: {
+        borderWidth: 1,
+        borderColor: '#874E3B',
+        paddingHorizontal: 12,
+        paddingVertical: 9,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    toggleButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    toggleButtonActive: {
+        backgroundColor: '#874E3B',
+    },
+    toggleText: {
+        color: '#874E3B',
+        fontWeight: '600',
+    },
+    toggleTextActive: {
+        color: '#FFFEEA',
+    },
+    listRow: {
+        paddingVertical: 8,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    listMain: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: 'transparent',
+    },
+    listInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    stockText: {
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#16A34A',
+    },
+    stockTextLow: {
+        color: '#DC2626',
+    },
+    listActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 14,
+        backgroundColor: 'transparent',
+    },
+});
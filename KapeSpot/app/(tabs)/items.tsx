@@ -23,6 +23,17 @@ import {
     orderBy
 } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
+import ModifierGroupsEditor from '@/components/inventory/ModifierGroupsEditor';
+import { ModifierGroup } from '@/types/modifier';
+import { normalizeModifierGroups } from '@/lib/modifiers';
+import RecipeEditor from '@/components/inventory/RecipeEditor';
+import BundleEditor from '@/components/inventory/BundleEditor';
+import { BundleSlot } from '@/types/bundle';
+import { canBeBundleComponent, getBundleAvailability, isBundle, normalizeBundleSlots } from '@/lib/bundles';
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import { findItemByCode } from '@/lib/scanning';
+import { Ingredient, RecipeComponent } from '@/types/ingredient';
+import { loadIngredients, normalizeRecipe } from '@/lib/ingredients';
 
 interface MenuItem {
     id: string;
@@ -35,6 +46,9 @@ interface MenuItem {
     status: boolean;
     description?: string;
     image?: string;
+    modifierGroups?: ModifierGroup[];
+    bundleSlots?: BundleSlot[];
+    recipe?: RecipeComponent[];
     isOffline?: boolean;
     firebaseId?: string;
 }
@@ -79,6 +93,7 @@ interface User {
 export default function ItemsScreen() {
     const params = useLocalSearchParams();
     const [searchQuery, setSearchQuery] = useState('');
+    const [showScanner, setShowScanner] = useState(false);
     const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
     const [cupItems, setCupItems] = useState<CupItem[]>([]);
@@ -109,6 +124,10 @@ export default function ItemsScreen() {
     const [editItemStocks, setEditItemStocks] = useState('');
     const [editItemPrice, setEditItemPrice] = useState('');
     const [editItemCategory, setEditItemCategory] = useState('');
+    const [editItemModifiers, setEditItemModifiers] = useState<ModifierGroup[]>([]);
+    const [editItemRecipe, setEditItemRecipe] = useState<RecipeComponent[]>([]);
+    const [editItemBundle, setEditItemBundle] = useState<BundleSlot[]>([]);
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
     const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
 
     // Cup Modal states
@@ -229,6 +248,9 @@ export default function ItemsScreen() {
                     status: data.status !== false,
                     description: data.description || '',
                     image: data.image || undefined,
+                    modifierGroups: normalizeModifierGroups(data.modifierGroups),
+                    bundleSlots: normalizeBundleSlots(data.bundleSlots),
+                    recipe: normalizeRecipe(data.recipe),
                     isOffline: false,
                     firebaseId: doc.id
                 };
@@ -527,7 +549,23 @@ export default function ItemsScreen() {
         setEditItemStocks(item.stocks.toString());
         setEditItemPrice(item.price.toString());
         setEditItemCategory(item.category);
+        setEditItemModifiers(item.modifierGroups || []);
+        setEditItemRecipe(item.recipe || []);
+        setEditItemBundle(item.bundleSlots || []);
         setEditItemModal(true);
+        loadIngredients().then(setIngredients);
+    };
+
+    // Scan-to-lookup: narrows the table to the scanned item and, for admins, opens it for a stock edit.
+    // A scanner typing into the search field gets the same by pressing Enter after the code.
+    const lookupScannedCode = (code: string): string | void => {
+        const item = findItemByCode(menuItems, code);
+        if (!item) return `No item with code ${code}`;
+
+        setShowScanner(false);
+        setSearchQuery(item.code);
+        setCurrentPage(1);
+        if (isAdmin) openEditItemModal(item);
     };
 
     const closeEditItemModal = () => {
@@ -536,6 +574,9 @@ export default function ItemsScreen() {
         setEditItemStocks('');
         setEditItemPrice('');
         setEditItemCategory('');
+        setEditItemModifiers([]);
+        setEditItemRecipe([]);
+        setEditItemBundle([]);
         setShowCategoryDropdown(false);
     };
 
@@ -581,7 +622,13 @@ export default function ItemsScreen() {
     };
 
     // Update item stocks, price, and category - FIREBASE VERSION
-    const updateItemStocksAndPrice = async (id: string, newStocks: number, newPrice: number, newCategory: string) => {
+    const updateItemStocksAndPrice = async (
+        id: string,
+        newStocks: number,
+        newPrice: number,
+        newCategory: string,
+        extras: { modifierGroups: ModifierGroup[]; bundleSlots: BundleSlot[]; recipe: RecipeComponent[] }
+    ) => {
         if (!isAdmin) {
             Alert.alert('Access Denied', 'Only administrators can update items.');
             return;
@@ -601,17 +648,28 @@ export default function ItemsScreen() {
 
                 // Update local state
                 setMenuItems(prev => prev.map(item =>
-                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory } : item
+                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory, ...extras } : item
                 ));
 
                 // Update local storage - TEMPORARY WORKAROUND
                 console.log('🔄 Using temporary workaround for local storage update...');
                 const localItems = await syncService.getItems();
                 const updatedItems = localItems.map(item =>
-                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory } : item
+                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory, ...extras } : item
                 );
                 await syncService.setItem('localItems', JSON.stringify(updatedItems));
 
+                // Synced field by field later so another tablet's edits to other fields aren't lost
+                const localItem = localItems.find(item => item.id === id) || itemToUpdate;
+                if (localItem) {
+                    await syncService.queueOfflineUpdate('UPDATE_ITEM', localItem, {
+                        stocks: newStocks,
+                        price: newPrice,
+                        category: newCategory,
+                        ...extras
+                    });
+                }
+
                 Alert.alert('Success', 'Item updated successfully in local storage');
                 return;
             }
@@ -625,18 +683,21 @@ export default function ItemsScreen() {
                     stocks: newStocks,
                     price: newPrice,
                     category: newCategory,
+                    modifierGroups: extras.modifierGroups,
+                    bundleSlots: extras.bundleSlots,
+                    recipe: extras.recipe,
                     updated_at: new Date().toISOString()
                 });
 
                 // Update local state
                 setMenuItems(prev => prev.map(item =>
-                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory } : item
+                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory, ...extras } : item
                 ));
 
                 // Also update local storage for backup - TEMPORARY WORKAROUND
                 const localItems = await syncService.getItems();
                 const updatedItems = localItems.map(item =>
-                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory } : item
+                    item.id === id ? { ...item, stocks: newStocks, price: newPrice, category: newCategory, ...extras } : item
                 );
                 await syncService.setItem('localItems', JSON.stringify(updatedItems));
 
@@ -673,7 +734,23 @@ export default function ItemsScreen() {
             return;
         }
 
-        await updateItemStocksAndPrice(editingItem.id, stocksValue, priceValue, editItemCategory);
+        // Bundles can't nest: an item that is already in a bundle can't become one
+        const bundleSlots = normalizeBundleSlots(editItemBundle);
+        const itemKeys = [editingItem.id, editingItem.firebaseId];
+        const usedIn = menuItems.find(item =>
+            item.bundleSlots?.some(slot => slot.options.some(option => itemKeys.includes(option.itemId)))
+        );
+        if (bundleSlots.length > 0 && usedIn) {
+            Alert.alert('Error', `${editingItem.name} is part of the ${usedIn.name} bundle and can't be a bundle itself`);
+            return;
+        }
+
+        // Blank groups/options are dropped instead of blocking the save
+        await updateItemStocksAndPrice(editingItem.id, stocksValue, priceValue, editItemCategory, {
+            modifierGroups: normalizeModifierGroups(editItemModifiers),
+            bundleSlots,
+            recipe: normalizeRecipe(editItemRecipe)
+        });
         closeEditItemModal();
     };
 
@@ -962,6 +1039,13 @@ export default function ItemsScreen() {
                                 : cup
                         );
                         await syncService.saveCups(updatedCups);
+                        if (editingCup.firebaseId) {
+                            await syncService.queueOfflineUpdate('UPDATE_CUP', editingCup, {
+                                name: cupName,
+                                size: cupSize,
+                                stocks: stocksValue
+                            });
+                        }
                         localSuccess = true;
                     } else {
                         // Create new cup in local storage
@@ -1003,6 +1087,13 @@ export default function ItemsScreen() {
                             : cup
                     );
                     await syncService.saveCups(updatedCups);
+                    if (editingCup.firebaseId) {
+                        await syncService.queueOfflineUpdate('UPDATE_CUP', editingCup, {
+                            name: cupName,
+                            size: cupSize,
+                            stocks: stocksValue
+                        });
+                    }
                     localSuccess = true;
                 } else {
                     // Create new cup in local storage
@@ -1368,6 +1459,10 @@ export default function ItemsScreen() {
                 );
                 await syncService.saveCups(updatedCups);
 
+                if (cupToUpdate?.firebaseId) {
+                    await syncService.queueOfflineUpdate('UPDATE_CUP', cupToUpdate, { stocks: newStocks });
+                }
+
                 Alert.alert('Success', 'Cup stocks updated in local storage');
                 return;
             }
@@ -1698,8 +1793,18 @@ export default function ItemsScreen() {
                                     }
                                     value={searchQuery}
                                     onChangeText={setSearchQuery}
+                                    onSubmitEditing={() => {
+                                        if (activeSidebar === 'food-items' && findItemByCode(menuItems, searchQuery)) {
+                                            lookupScannedCode(searchQuery);
+                                        }
+                                    }}
                                     placeholderTextColor="#854442"
                                 />
+                                {activeSidebar === 'food-items' && (
+                                    <TouchableOpacity style={styles.scanButton} onPress={() => setShowScanner(true)}>
+                                        <Feather name="maximize" size={18} color="#874E3B" />
+                                    </TouchableOpacity>
+                                )}
                             </ThemedView>
                         </ThemedView>
 
@@ -1750,7 +1855,9 @@ export default function ItemsScreen() {
                                                         </ThemedText>
                                                         <ThemedText style={[styles.cellText, styles.nameCell]}>{item.name}</ThemedText>
                                                         <ThemedText style={[styles.cellText, styles.categoryCell]}>{item.category}</ThemedText>
-                                                        <ThemedText style={[styles.cellText, styles.stocksCell]}>{item.stocks}</ThemedText>
+                                                        <ThemedText style={[styles.cellText, styles.stocksCell]}>
+                                                            {isBundle(item) ? getBundleAvailability(item.bundleSlots || [], menuItems) : item.stocks}
+                                                        </ThemedText>
                                                         <ThemedText style={[styles.cellText, styles.priceCell]}>₱{item.price.toFixed(2)}</ThemedText>
                                                         <ThemedText style={[styles.cellText, styles.salesCell]}>{item.sales}</ThemedText>
                                                         {isAdmin && (
@@ -2212,7 +2319,7 @@ export default function ItemsScreen() {
                                 </TouchableOpacity>
                             </ThemedView>
 
-                            <ThemedView style={styles.modalContent}>
+                            <ScrollView style={styles.editItemScroll} contentContainerStyle={styles.modalContent}>
                                 <ThemedView style={styles.inputContainer}>
                                     <ThemedText style={styles.inputLabel}>
                                         Current Stocks: {editingItem?.stocks}
@@ -2301,7 +2408,41 @@ export default function ItemsScreen() {
                                         </TouchableOpacity>
                                     </Modal>
                                 </ThemedView>
-                            </ThemedView>
+
+                                <ThemedView style={styles.inputContainer}>
+                                    <ThemedText style={styles.inputLabel}>
+                                        Modifiers (sizes, sugar level, add-ons)
+                                    </ThemedText>
+                                    <ModifierGroupsEditor
+                                        groups={editItemModifiers}
+                                        onChange={setEditItemModifiers}
+                                        ingredients={ingredients}
+                                        cupNames={cupItems.map(cup => cup.name)}
+                                    />
+                                </ThemedView>
+
+                                <ThemedView style={styles.inputContainer}>
+                                    <ThemedText style={styles.inputLabel}>
+                                        Recipe (ingredients used per item)
+                                    </ThemedText>
+                                    <RecipeEditor
+                                        recipe={editItemRecipe}
+                                        ingredients={ingredients}
+                                        onChange={setEditItemRecipe}
+                                    />
+                                </ThemedView>
+
+                                <ThemedView style={styles.inputContainer}>
+                                    <ThemedText style={styles.inputLabel}>
+                                        Bundle (combo of other items; stock comes from its components)
+                                    </ThemedText>
+                                    <BundleEditor
+                                        slots={editItemBundle}
+                                        onChange={setEditItemBundle}
+                                        items={menuItems.filter(item => item.id !== editingItem?.id && canBeBundleComponent(item))}
+                                    />
+                                </ThemedView>
+                            </ScrollView>
 
                             <ThemedView style={styles.modalActions}>
                                 <TouchableOpacity
@@ -2411,6 +2552,13 @@ export default function ItemsScreen() {
                         </ThemedView>
                     </ThemedView>
                 </Modal>
+
+                <BarcodeScannerModal
+                    visible={showScanner}
+                    title="Scan to Look Up"
+                    onScan={lookupScannedCode}
+                    onClose={() => setShowScanner(false)}
+                />
             </ImageBackground>
         </ThemedView>
     );
@@ -2529,6 +2677,9 @@ const styles = StyleSheet.create({
     searchIcon: {
         marginRight: 8,
     },
+    scanButton: {
+        marginLeft: 8,
+    },
     searchInput: {
         flex: 1,
         fontSize: 14,
@@ -2804,6 +2955,9 @@ const styles = StyleSheet.create({
         padding: 20,
         backgroundColor: 'transparent'
     },
+    editItemScroll: {
+        maxHeight: 520
+    },
     textInput: {
         backgroundColor: '#FFFFFF',
         borderWidth: 2,
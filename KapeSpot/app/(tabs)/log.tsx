@@ -21,6 +21,8 @@ import { NetworkScanner } from '@/lib/network-scanner';
 import { useFocusEffect } from '@react-navigation/native';
 import React from 'react';
 import { OfflineSyncService } from '@/lib/offline-sync';
+import { OrderDiscount } from '@/types/discount';
+import { describeDiscount, getOrderDiscountTotal } from '@/lib/discounts';
 import { PermissionsAndroid } from 'react-native';
 import {
     getFirestore,
@@ -37,21 +39,30 @@ import { app } from '@/lib/firebase-config';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as RNFS from 'react-native-fs';
-import BleManager from 'react-native-ble-manager';
+import { PrintDocument } from '@/types/print';
+import { describeQueuedJob, submitPrintJob } from '@/lib/print-queue';
 import ReactNativeBlobUtil from 'react-native-blob-util'; // ADD THIS IMPORT
-
-interface OrderItem {
-    name: string;
-    quantity: number;
-    price: number;
-    ready?: boolean;
-    cancelled?: boolean;
-}
+import RefundModal from '@/components/RefundModal';
+import { Tender } from '@/types/payment';
+import { RefundRecord } from '@/types/refund';
+import { getDisplayOrderNumber, markRefundedLines } from '@/lib/orders';
+import {
+    RefundableOrder,
+    formatRefundReceipt,
+    getRefundKind,
+    getRefundReasonLabel,
+    getRefundableLines,
+    isRefundForOrder,
+    loadRefunds
+} from '@/lib/refunds';
+import { OrderBill, OrderLine } from '@/types/order';
+import { formatBillReceipt } from '@/lib/bills';
+import { getTenderLabel, isOrderPaid } from '@/lib/payments';
 
 interface OrderData {
     orderId: string;
     customerName: string;
-    items: OrderItem[];
+    items: OrderLine[];
     subtotal: number;
     total: number;
     timestamp: string;
@@ -63,6 +74,21 @@ interface OrderData {
     order_type?: string;
     updated_at?: string;
     notes?: string;
+    discounts?: OrderDiscount[];
+    discount_total?: number;
+    discountTotal?: number;
+    idempotencyKey?: string;
+    sequence?: number;
+    payments?: Tender[];
+    refunded_total?: number;
+    bills?: OrderBill[];
+    merged_from?: string[];
+    merged_into?: string;
+    // Local receipts (pendingReceipts) use camelCase
+    orderType?: 'dine-in' | 'take-out';
+    refundedTotal?: number;
+    mergedFrom?: string[];
+    mergedInto?: string;
 }
 
 interface BluetoothConnection {
@@ -111,6 +137,8 @@ export default function LogScreen() {
     const [hasFirebaseData, setHasFirebaseData] = useState<boolean>(false);
     const [checkingFirebase, setCheckingFirebase] = useState<boolean>(false);
     const [exportingItems, setExportingItems] = useState(false);
+    const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+    const [refundOrder, setRefundOrder] = useState<OrderData | null>(null);
 
     // Initialize Firebase
     const db = getFirestore(app);
@@ -161,7 +189,16 @@ export default function LogScreen() {
                                     cups_used: docData.cups_used,
                                     order_type: docData.order_type,
                                     updated_at: docData.updated_at,
-                                    notes: docData.notes || ''
+                                    notes: docData.notes || '',
+                                    discounts: docData.discounts || [],
+                                    discount_total: Number(docData.discount_total) || 0,
+                                    idempotencyKey: docData.idempotency_key,
+                                    sequence: docData.sequence ?? undefined,
+                                    payments: docData.payments || [],
+                                    refunded_total: Number(docData.refunded_total) || 0,
+                                    bills: docData.bills || [],
+                                    merged_from: docData.merged_from,
+                                    merged_into: docData.merged_into
                                 };
 
                                 firebaseOrders.push(order);
@@ -181,8 +218,9 @@ export default function LogScreen() {
                             setHasFirebaseData(hasData);
                             console.log('📦 Firebase has data:', hasData);
 
-                            // Update state with new data
+                            // Update state with new data; a refund also touches its order, so reload them too
                             setOrders(firebaseOrders);
+                            loadRefunds().then(setRefunds);
                             setLastUpdate(new Date().toLocaleTimeString());
                             console.log('🎯 Orders state updated with:', firebaseOrders.length, 'orders');
                         },
@@ -267,6 +305,7 @@ export default function LogScreen() {
     const loadOrders = async () => {
         console.log('🚀 Starting loadOrders...');
         setLoading(true);
+        loadRefunds().then(setRefunds);
         try {
             const syncService = OfflineSyncService.getInstance();
             const connectionMode = await getConnectionMode();
@@ -322,7 +361,16 @@ export default function LogScreen() {
                             cups_used: data.cups_used,
                             order_type: data.order_type,
                             updated_at: data.updated_at,
-                            notes: data.notes || ''
+                            notes: data.notes || '',
+                            discounts: data.discounts || [],
+                            discount_total: Number(data.discount_total) || 0,
+                            idempotencyKey: data.idempotency_key,
+                            sequence: data.sequence ?? undefined,
+                            payments: data.payments || [],
+                            refunded_total: Number(data.refunded_total) || 0,
+                            bills: data.bills || [],
+                            merged_from: data.merged_from,
+                            merged_into: data.merged_into
                         };
                     });
 
@@ -545,7 +593,7 @@ export default function LogScreen() {
 
             orders.forEach(order => {
                 // Only include paid orders for the items list
-                if (order.status === 'paid') {
+                if (isOrderPaid(order)) {
                     order.items.forEach(item => {
                         // Only include non-cancelled items
                         if (!item.cancelled) {
@@ -938,6 +986,122 @@ const openFileManager = async (filePath: string) => {
         return orders.filter(order => order.status === filter);
     };
 
+    // Gross, discount, refund and net totals of the orders currently shown (cancelled orders excluded).
+    // Voids already lowered their order's total; refunds are money given back on top of it.
+    const getFilteredTotals = () => {
+        const shownOrders = getFilteredOrders().filter(order => order.status !== 'cancelled');
+        const refunded = refunds
+            .filter(refund => refund.kind === 'refund' && shownOrders.some(order => isRefundForOrder(refund, order)))
+            .reduce((sum, refund) => sum + refund.amount, 0);
+
+        return shownOrders.reduce((totals, order) => {
+            const discount = getOrderDiscountTotal(order);
+            return {
+                ...totals,
+                gross: totals.gross + (order.subtotal || order.total + discount),
+                discount: totals.discount + discount,
+                net: totals.net + order.total
+            };
+        }, { gross: 0, discount: 0, refunds: refunded, net: -refunded });
+    };
+
+    const getOrderRefunds = (order: OrderData | null) => {
+        return order ? refunds.filter(refund => isRefundForOrder(refund, order)) : [];
+    };
+
+    const toRefundableOrder = (order: OrderData): RefundableOrder => ({
+        orderId: order.orderId,
+        firebaseId: order.firebaseId,
+        idempotencyKey: order.idempotencyKey,
+        customerName: order.customerName,
+        orderType: order.orderType || (order.order_type === 'take-out' ? 'take-out' : order.order_type === 'dine-in' ? 'dine-in' : undefined),
+        status: order.status,
+        items: order.items,
+        total: order.total,
+        discounts: order.discounts,
+        payments: order.payments,
+        refundedTotal: order.refunded_total ?? order.refundedTotal
+    });
+
+    const handleRefundDone = (refund: RefundRecord) => {
+        setRefundOrder(null);
+        setRefunds(prev => [refund, ...prev.filter(item => item.id !== refund.id)]);
+
+        const applyRefund = (order: OrderData): OrderData => ({
+            ...order,
+            items: markRefundedLines(order.items, refund),
+            ...(refund.totalsAfter ? { subtotal: refund.totalsAfter.subtotal, total: refund.totalsAfter.total } : {}),
+            ...(refund.kind === 'void' && refund.full ? { status: 'cancelled' as const } : {}),
+            ...(refund.kind === 'refund' ? { refunded_total: (order.refunded_total ?? order.refundedTotal ?? 0) + refund.amount } : {})
+        });
+        setOrders(prev => prev.map(order => isRefundForOrder(refund, order) ? applyRefund(order) : order));
+        setSelectedOrder(prev => prev && isRefundForOrder(refund, prev) ? applyRefund(prev) : prev);
+
+        const title = refund.kind === 'void' ? 'Voided' : 'Refunded';
+        const message = `₱${refund.amount.toFixed(2)} on order ${refund.orderId}.` +
+            (refund.synced ? '' : ' It will sync when the connection is back.');
+
+        if (isBluetoothConnected && bluetoothConnection) {
+            Alert.alert(title, message, [
+                { text: 'Skip', style: 'cancel' },
+                { text: 'Print Receipt', onPress: () => printRefundReceipt(refund) }
+            ]);
+        } else {
+            Alert.alert(title, message);
+        }
+    };
+
+    const printRefundReceipt = async (refund: RefundRecord) => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            Alert.alert('Bluetooth Not Connected', 'Please connect to a Bluetooth printer first in Settings.');
+            return;
+        }
+
+        setIsPrinting(true);
+        try {
+            await sendToBluetoothPrinter(formatRefundReceipt(refund), `${refund.kind === 'void' ? 'Void' : 'Refund'} ${refund.orderId}`);
+        } catch (error) {
+            console.error('❌ Error printing refund receipt:', error);
+            Alert.alert('Print Error', 'Failed to print the refund receipt. Please check printer connection.');
+        } finally {
+            setIsPrinting(false);
+        }
+    };
+
+    const printBill = async (order: OrderData, bill: OrderBill) => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            Alert.alert('Bluetooth Not Connected', 'Please connect to a Bluetooth printer first in Settings.');
+            return;
+        }
+
+        setIsPrinting(true);
+        try {
+            await sendToBluetoothPrinter(
+                formatBillReceipt(order, bill, order.bills?.length || 1),
+                `Bill ${bill.index}/${order.bills?.length || 1} ${order.orderId}`
+            );
+        } catch (error) {
+            console.error('❌ Error printing bill:', error);
+            Alert.alert('Print Error', 'Failed to print the bill. Please check printer connection.');
+        } finally {
+            setIsPrinting(false);
+        }
+    };
+
+    // Function to send data to Bluetooth printer
+    const sendToBluetoothPrinter = async (document: PrintDocument, title: string) => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            throw new Error('Bluetooth is not connected. Please connect to printer first.');
+        }
+
+        const job = await submitPrintJob(title, document, 'log');
+        if (job.status === 'done') {
+            console.log('✅ Printed:', title);
+        } else {
+            Alert.alert('Print Queued', describeQueuedJob(job));
+        }
+    };
+
     const openOrderModal = (order: OrderData) => {
         setSelectedOrder(order);
         setShowOrderModal(true);
@@ -1237,6 +1401,24 @@ const openFileManager = async (filePath: string) => {
                                     </Text>
                                 </TouchableOpacity>
                             </ThemedView>
+
+                            {/* Gross / Discount / Net of the filtered orders */}
+                            <ThemedView style={styles.filterTotalsRow}>
+                                <ThemedText style={styles.filterTotalsText}>
+                                    Gross: ₱{getFilteredTotals().gross.toFixed(2)}
+                                </ThemedText>
+                                <ThemedText style={styles.filterTotalsText}>
+                                    Discounts: -₱{getFilteredTotals().discount.toFixed(2)}
+                                </ThemedText>
+                                {getFilteredTotals().refunds > 0 && (
+                                    <ThemedText style={[styles.filterTotalsText, styles.refundText]}>
+                                        Refunds: -₱{getFilteredTotals().refunds.toFixed(2)}
+                                    </ThemedText>
+                                )}
+                                <ThemedText style={[styles.filterTotalsText, styles.filterTotalsNet]}>
+                                    Net: ₱{getFilteredTotals().net.toFixed(2)}
+                                </ThemedText>
+                            </ThemedView>
                         </ThemedView>
                     </ThemedView>
 
@@ -1267,7 +1449,10 @@ const openFileManager = async (filePath: string) => {
                                             Order #{selectedOrder?.orderId.slice(-4)}
                                         </ThemedText>
                                         <ThemedText style={styles.modalSubtitle}>
-                                            ID: {selectedOrder?.orderId}
+                                            ID: {selectedOrder && getDisplayOrderNumber(selectedOrder)}
+                                            {selectedOrder?.sequence != null && selectedOrder.orderId !== getDisplayOrderNumber(selectedOrder)
+                                                ? ` (taken offline as ${selectedOrder.orderId})`
+                                                : ''}
                                         </ThemedText>
                                     </ThemedView>
                                     <ThemedView style={styles.modalHeaderRight}>
@@ -1358,10 +1543,11 @@ const openFileManager = async (filePath: string) => {
                                                         </ThemedText>
                                                         <ThemedText style={[
                                                             styles.itemPrice,
-                                                            item.cancelled && styles.itemCancelled
+                                                            (item.cancelled || item.refunded) && styles.itemCancelled
                                                         ]}>
                                                             ₱{item.price ? item.price.toFixed(2) : '0.00'}
                                                             {item.cancelled && ' (Cancelled)'}
+                                                            {item.refunded && ' (Refunded)'}
                                                         </ThemedText>
                                                     </ThemedView>
                                                     <ThemedView style={styles.quantitySection}>
@@ -1390,13 +1576,99 @@ const openFileManager = async (filePath: string) => {
                                                 ₱{selectedOrder?.subtotal.toFixed(2)}
                                             </ThemedText>
                                         </ThemedView>
+                                        {selectedOrder?.discounts?.map(discount => (
+                                            <ThemedView key={discount.id} style={styles.subtotalSection}>
+                                                <ThemedText style={styles.subtotalLabel}>{describeDiscount(discount)}:</ThemedText>
+                                                <ThemedText style={styles.subtotalAmount}>
+                                                    -₱{(discount.amount + (discount.vatRelief || 0)).toFixed(2)}
+                                                </ThemedText>
+                                            </ThemedView>
+                                        ))}
                                         <ThemedView style={styles.finalTotalSection}>
                                             <ThemedText style={styles.totalLabelModal}>Total Amount:</ThemedText>
                                             <ThemedText style={styles.totalAmount}>
                                                 ₱{selectedOrder?.total.toFixed(2)}
                                             </ThemedText>
                                         </ThemedView>
+
+                                        {/* Voids and refunds on this order, as negative lines */}
+                                        {getOrderRefunds(selectedOrder).map(refund => (
+                                            <ThemedView key={refund.id} style={styles.refundRow}>
+                                                <ThemedView style={styles.refundInfo}>
+                                                    <ThemedText style={[styles.subtotalLabel, styles.refundText]}>
+                                                        {refund.kind === 'void' ? 'Voided' : 'Refunded'}: {refund.lines.map(line => `${line.quantity}x ${line.name}`).join(', ')}
+                                                    </ThemedText>
+                                                    <ThemedText style={styles.refundMeta}>
+                                                        {getRefundReasonLabel(refund.reasonCode)}
+                                                        {refund.reasonNote ? ` - ${refund.reasonNote}` : ''}
+                                                        {` · approved by ${refund.approvedBy}`}
+                                                        {refund.synced ? '' : ' · not synced'}
+                                                    </ThemedText>
+                                                </ThemedView>
+                                                <ThemedText style={[styles.subtotalAmount, styles.refundText]}>
+                                                    -₱{refund.amount.toFixed(2)}
+                                                </ThemedText>
+                                                <TouchableOpacity
+                                                    style={styles.refundPrintButton}
+                                                    onPress={() => printRefundReceipt(refund)}
+                                                    disabled={isPrinting}
+                                                >
+                                                    <Feather name="printer" size={14} color="#874E3B" />
+                                                </TouchableOpacity>
+                                            </ThemedView>
+                                        ))}
+
+                                        {/* Split bills, each printable on its own */}
+                                        {selectedOrder?.bills?.map(bill => (
+                                            <ThemedView key={bill.id} style={styles.refundRow}>
+                                                <ThemedView style={styles.refundInfo}>
+                                                    <ThemedText style={styles.subtotalLabel}>
+                                                        Bill {bill.index} of {selectedOrder.bills?.length}
+                                                    </ThemedText>
+                                                    <ThemedText style={styles.refundMeta}>
+                                                        {bill.payments.map(payment => getTenderLabel(payment.type)).join(', ')}
+                                                    </ThemedText>
+                                                </ThemedView>
+                                                <ThemedText style={styles.subtotalAmount}>₱{bill.amount.toFixed(2)}</ThemedText>
+                                                <TouchableOpacity
+                                                    style={styles.refundPrintButton}
+                                                    onPress={() => printBill(selectedOrder, bill)}
+                                                    disabled={isPrinting}
+                                                >
+                                                    <Feather name="printer" size={14} color="#874E3B" />
+                                                </TouchableOpacity>
+                                            </ThemedView>
+                                        ))}
+                                        {!!(selectedOrder?.merged_from || selectedOrder?.mergedFrom)?.length && (
+                                            <ThemedText style={styles.refundMeta}>
+                                                Merged from #{(selectedOrder?.merged_from || selectedOrder?.mergedFrom || []).join(', #')}
+                                            </ThemedText>
+                                        )}
+                                        {!!(selectedOrder?.merged_into || selectedOrder?.mergedInto) && (
+                                            <ThemedText style={styles.refundMeta}>
+                                                Merged into #{selectedOrder?.merged_into || selectedOrder?.mergedInto}
+                                            </ThemedText>
+                                        )}
                                     </ThemedView>
+
+                                    {selectedOrder && selectedOrder.status !== 'cancelled' && getRefundableLines(toRefundableOrder(selectedOrder)).length > 0 && (
+                                        <TouchableOpacity
+                                            style={styles.refundButton}
+                                            onPress={() => setRefundOrder(selectedOrder)}
+                                        >
+                                            <Feather name="rotate-ccw" size={16} color="#FFFEEA" />
+                                            <Text style={styles.refundButtonText}>
+                                                {getRefundKind(toRefundableOrder(selectedOrder)) === 'refund' ? 'REFUND' : 'VOID'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    )}
+
+                                    <RefundModal
+                                        visible={refundOrder !== null}
+                                        order={refundOrder ? toRefundableOrder(refundOrder) : null}
+                                        onDone={handleRefundDone}
+                                        onClose={() => setRefundOrder(null)}
+                                    />
                                 </ThemedView>
                             </ThemedView>
                         </ThemedView>
@@ -2048,6 +2320,44 @@ const styles = StyleSheet.create({
         color: '#DC2626',
         fontStyle: 'italic',
     },
+    refundRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 8,
+        backgroundColor: 'transparent'
+    },
+    refundInfo: {
+        flex: 1,
+        backgroundColor: 'transparent'
+    },
+    refundText: {
+        color: '#DC2626',
+    },
+    refundMeta: {
+        fontSize: 11,
+        color: '#8B7355',
+    },
+    refundPrintButton: {
+        padding: 6,
+        borderRadius: 6,
+        borderWidth: 1,
+        borderColor: '#D4A574',
+    },
+    refundButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        backgroundColor: '#DC2626',
+        paddingVertical: 12,
+        borderRadius: 8,
+        marginTop: 16,
+    },
+    refundButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
     quantitySection: {
         alignItems: 'flex-end',
         backgroundColor: 'transparent'
@@ -2069,6 +2379,21 @@ const styles = StyleSheet.create({
         paddingTop: 16,
         backgroundColor: 'transparent'
     },
+    filterTotalsRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 8,
+        paddingHorizontal: 6,
+        backgroundColor: 'transparent'
+    },
+    filterTotalsText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#5A3921',
+    },
+    filterTotalsNet: {
+        color: '#16A34A',
+    },
     subtotalSection: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -18,6 +18,7 @@ import { Feather } from "@expo/vector-icons";
 import Navbar from '@/components/Navbar';
 import { NetworkScanner } from '@/lib/network-scanner';
 import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
 import React from 'react';
 import { OfflineSyncService } from '@/lib/offline-sync';
 import {
@@ -32,28 +33,49 @@ import {
     onSnapshot
 } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
-
-interface OrderItem {
-    name: string;
-    quantity: number;
-    price: number;
-    ready?: boolean;
-    cancelled?: boolean;
-}
+import { formatModifierSummary } from '@/lib/modifiers';
+import { formatBundleSummary } from '@/lib/bundles';
+import { OrderDiscount } from '@/types/discount';
+import { Tender } from '@/types/payment';
+import { RefundRecord } from '@/types/refund';
+import { getDisplayOrderNumber, getOrderLineId, isLineRemoved, markRefundedLines, mergeOrders } from '@/lib/orders';
+import { isRefundForOrder } from '@/lib/refunds';
+import { getOpenTabKey } from '@/lib/open-tabs';
+import RefundModal from '@/components/RefundModal';
+import TablePickerModal from '@/components/pos/TablePickerModal';
+import { DiningTable } from '@/types/table';
+import { getTableStatuses, loadFloorLayout, moveOrderToTable } from '@/lib/tables';
+import MergeOrderModal from '@/components/pos/MergeOrderModal';
+import { SplitLine, buildOrderMerge, processOrderMerge, processOrderSplit } from '@/lib/bills';
+import SplitBillModal from '@/components/pos/SplitBillModal';
+import SettleBillsModal from '@/components/pos/SettleBillsModal';
+import { roundMoney } from '@/lib/payments';
+import { earnLoyalty } from '@/lib/loyalty';
+import { BillSplitMode, OrderBill, OrderLine } from '@/types/order';
 
 interface OrderData {
     orderId: string;
     customerName: string;
-    items: OrderItem[];
+    items: OrderLine[];
     subtotal: number;
     total: number;
     timestamp: string;
     status: 'unpaid' | 'paid' | 'cancelled';
     firebaseId?: string;
+    idempotencyKey?: string;
+    sequence?: number;
     orderType?: 'dine-in' | 'take-out';
     cupsUsed?: number;
     allItemsReady?: boolean;
     notes?: string; // ADDED: notes/comment field
+    discounts?: OrderDiscount[];
+    payments?: Tender[];
+    splitMode?: BillSplitMode;
+    bills?: OrderBill[];
+    tableId?: string;
+    tableName?: string;
+    mergedFrom?: string[];
+    customerId?: string;
 }
 
 const { width } = Dimensions.get('window');
@@ -78,6 +100,12 @@ export default function OrderStatusScreen() {
     const [hasFirebaseData, setHasFirebaseData] = useState<boolean>(false);
     const [checkingFirebase, setCheckingFirebase] = useState<boolean>(false);
     const [lastUpdate, setLastUpdate] = useState<string>('');
+    const [voidRequest, setVoidRequest] = useState<{ order: OrderData; lineIds?: string[] } | null>(null);
+    const [floorTables, setFloorTables] = useState<DiningTable[]>([]);
+    const [showTablePicker, setShowTablePicker] = useState(false);
+    const [showMergePicker, setShowMergePicker] = useState(false);
+    const [showSplitBill, setShowSplitBill] = useState(false);
+    const [pendingSplit, setPendingSplit] = useState<{ mode: BillSplitMode; bills: OrderBill[] } | null>(null);
 
     const db = getFirestore(app);
 
@@ -128,10 +156,20 @@ export default function OrderStatusScreen() {
                             timestamp: data.timestamp || data.created_at || new Date().toISOString(),
                             status: data.status || 'unpaid',
                             firebaseId: doc.id,
+                            idempotencyKey: data.idempotency_key,
+                            sequence: data.sequence ?? undefined,
                             orderType: data.order_type || data.orderType || 'dine-in',
                             cupsUsed: data.cups_used || data.cupsUsed || 0,
                             allItemsReady: data.allItemsReady || false,
-                            notes: data.notes || '' // ADDED: get notes from Firebase
+                            notes: data.notes || '', // ADDED: get notes from Firebase
+                            discounts: data.discounts || [],
+                            payments: data.payments || [],
+                            splitMode: data.split_mode || undefined,
+                            bills: data.bills || undefined,
+                            tableId: data.table_id || undefined,
+                            tableName: data.table_name || undefined,
+                            mergedFrom: data.merged_from || undefined,
+                            customerId: data.customer_id || undefined
                         };
 
                         firebaseOrders.push(order);
@@ -216,10 +254,20 @@ export default function OrderStatusScreen() {
                             timestamp: data.timestamp || data.created_at || new Date().toISOString(),
                             status: data.status || 'unpaid',
                             firebaseId: doc.id,
+                            idempotencyKey: data.idempotency_key,
+                            sequence: data.sequence ?? undefined,
                             orderType: data.order_type || data.orderType || 'dine-in',
                             cupsUsed: data.cups_used || data.cupsUsed || 0,
                             allItemsReady: data.allItemsReady || false,
-                            notes: data.notes || '' // ADDED: get notes from Firebase
+                            notes: data.notes || '', // ADDED: get notes from Firebase
+                            discounts: data.discounts || [],
+                            payments: data.payments || [],
+                            splitMode: data.split_mode || undefined,
+                            bills: data.bills || undefined,
+                            tableId: data.table_id || undefined,
+                            tableName: data.table_name || undefined,
+                            mergedFrom: data.merged_from || undefined,
+                            customerId: data.customer_id || undefined
                         };
                     });
 
@@ -302,6 +350,7 @@ export default function OrderStatusScreen() {
         React.useCallback(() => {
             loadOrders();
             checkFirebaseData();
+            loadFloorLayout().then(layout => setFloorTables(layout.tables));
 
             return () => {
                 cleanupRealtimeListener();
@@ -330,7 +379,7 @@ export default function OrderStatusScreen() {
                             ready: !updatedItems[itemIndex].ready
                         };
 
-                        const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
+                        const allItemsReady = updatedItems.every(item => item.ready || isLineRemoved(item));
 
                         return {
                             ...order,
@@ -351,7 +400,7 @@ export default function OrderStatusScreen() {
                         ready: !updatedItems[itemIndex].ready
                     };
 
-                    const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
+                    const allItemsReady = updatedItems.every(item => item.ready || isLineRemoved(item));
 
                     return {
                         ...prev,
@@ -373,7 +422,7 @@ export default function OrderStatusScreen() {
                         ready: !updatedItems[itemIndex].ready
                     };
 
-                    const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
+                    const allItemsReady = updatedItems.every(item => item.ready || isLineRemoved(item));
 
                     return {
                         ...order,
@@ -415,133 +464,34 @@ export default function OrderStatusScreen() {
         }
     };
 
-    const cancelItem = async (orderId: string, itemIndex: number) => {
-        try {
-            const syncService = OfflineSyncService.getInstance();
-            const connectionMode = await getConnectionMode();
-
-            console.log('🔄 Cancelling item:', orderId, itemIndex);
-
-            setOrders(prevOrders => {
-                return prevOrders.map(order => {
-                    if (order.orderId === orderId) {
-                        const updatedItems = [...order.items];
-                        const isCurrentlyCancelled = updatedItems[itemIndex].cancelled;
-
-                        updatedItems[itemIndex] = {
-                            ...updatedItems[itemIndex],
-                            cancelled: !isCurrentlyCancelled
-                        };
-
-                        const activeItems = updatedItems.filter(item => !item.cancelled);
-                        const newSubtotal = activeItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-                        const newTotal = newSubtotal;
-
-                        const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
-
-                        return {
-                            ...order,
-                            items: updatedItems,
-                            subtotal: newSubtotal,
-                            total: newTotal,
-                            allItemsReady
-                        };
-                    }
-                    return order;
-                });
-            });
-
-            if (selectedOrder && selectedOrder.orderId === orderId) {
-                setSelectedOrder(prev => {
-                    if (!prev) return null;
-                    const updatedItems = [...prev.items];
-                    const isCurrentlyCancelled = updatedItems[itemIndex].cancelled;
-
-                    updatedItems[itemIndex] = {
-                        ...updatedItems[itemIndex],
-                        cancelled: !isCurrentlyCancelled
-                    };
-
-                    const activeItems = updatedItems.filter(item => !item.cancelled);
-                    const newSubtotal = activeItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-                    const newTotal = newSubtotal;
-
-                    const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
-
-                    return {
-                        ...prev,
-                        items: updatedItems,
-                        subtotal: newSubtotal,
-                        total: newTotal,
-                        allItemsReady
-                    };
-                });
-            }
-
-            console.log('📱 Updating local storage...');
-            const pendingReceipts = await syncService.getItem('pendingReceipts');
-            const localOrders: OrderData[] = pendingReceipts ? JSON.parse(pendingReceipts) : [];
-
-            const updatedLocalOrders = localOrders.map(order => {
-                if (order.orderId === orderId) {
-                    const updatedItems = [...order.items];
-                    const isCurrentlyCancelled = updatedItems[itemIndex].cancelled;
-
-                    updatedItems[itemIndex] = {
-                        ...updatedItems[itemIndex],
-                        cancelled: !isCurrentlyCancelled
-                    };
-
-                    const activeItems = updatedItems.filter(item => !item.cancelled);
-                    const newSubtotal = activeItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-                    const newTotal = newSubtotal;
-
-                    const allItemsReady = updatedItems.every(item => item.ready || item.cancelled);
-
-                    return {
-                        ...order,
-                        items: updatedItems,
-                        subtotal: newSubtotal,
-                        total: newTotal,
-                        allItemsReady
-                    };
-                }
-                return order;
-            });
-
-            await syncService.setItem('pendingReceipts', JSON.stringify(updatedLocalOrders));
-            console.log('✅ Local storage updated');
-
-            if (connectionMode === 'online') {
-                console.log('🔥 Updating Firebase...');
-
-                const orderToUpdate = orders.find(order => order.orderId === orderId);
-
-                if (orderToUpdate && orderToUpdate.firebaseId) {
-                    const orderDoc = doc(db, 'orders', orderToUpdate.firebaseId);
-
-                    const currentOrder = updatedLocalOrders.find(order => order.orderId === orderId);
-                    if (currentOrder) {
-                        const itemsForFirebase = currentOrder.items.filter(item => !item.cancelled);
-
-                        await updateDoc(orderDoc, {
-                            items: itemsForFirebase,
-                            subtotal: currentOrder.subtotal,
-                            total: currentOrder.total,
-                            allItemsReady: currentOrder.allItemsReady,
-                            updated_at: new Date().toISOString()
-                        });
-                        console.log('✅ Firebase updated - cancelled items removed');
-                    }
-                } else {
-                    console.log('⚠️ Order not found in Firebase, local storage updated only');
-                }
-            }
-
-        } catch (error) {
-            console.error('❌ Error cancelling item:', error);
-            Alert.alert('Error', 'Failed to cancel item');
+    // Voided and refunded lines stay on the order struck through; a full void or refund takes the order off this screen
+    const handleVoidDone = (refund: RefundRecord) => {
+        setVoidRequest(null);
+
+        if (refund.full) {
+            setOrders(prev => prev.filter(order => !isRefundForOrder(refund, order)));
+            closeActionModal();
+        } else {
+            const applyVoid = (order: OrderData): OrderData => {
+                const items = markRefundedLines(order.items, refund);
+                return {
+                    ...order,
+                    items,
+                    subtotal: refund.totalsAfter?.subtotal ?? order.subtotal,
+                    total: refund.totalsAfter?.total ?? order.total,
+                    allItemsReady: items.every(item => item.ready || isLineRemoved(item))
+                };
+            };
+            setOrders(prev => prev.map(order => isRefundForOrder(refund, order) ? applyVoid(order) : order));
+            setSelectedOrder(prev => prev && applyVoid(prev));
         }
+
+        const verb = refund.kind === 'void' ? 'voided' : 'refunded';
+        Alert.alert(
+            refund.kind === 'void' ? 'Voided' : 'Refunded',
+            `₱${refund.amount.toFixed(2)} ${verb} on order ${refund.orderId}.` +
+            (refund.synced ? '' : ' It will sync when the connection is back.')
+        );
     };
 
     const markAllItemsReady = async (orderId: string) => {
@@ -556,7 +506,7 @@ export default function OrderStatusScreen() {
                     if (order.orderId === orderId) {
                         const updatedItems = order.items.map(item => ({
                             ...item,
-                            ready: !item.cancelled
+                            ready: !isLineRemoved(item)
                         }));
                         return {
                             ...order,
@@ -573,7 +523,7 @@ export default function OrderStatusScreen() {
                     if (!prev) return null;
                     const updatedItems = prev.items.map(item => ({
                         ...item,
-                        ready: !item.cancelled
+                        ready: !isLineRemoved(item)
                     }));
                     return {
                         ...prev,
@@ -590,7 +540,7 @@ export default function OrderStatusScreen() {
                 if (order.orderId === orderId) {
                     const updatedItems = order.items.map(item => ({
                         ...item,
-                        ready: !item.cancelled
+                        ready: !isLineRemoved(item)
                     }));
                     return {
                         ...order,
@@ -636,7 +586,7 @@ export default function OrderStatusScreen() {
         }
     };
 
-    const updateOrderStatus = async (orderId: string, newStatus: 'paid' | 'cancelled') => {
+    const updateOrderStatus = async (orderId: string, newStatus: 'paid') => {
         try {
             setIsProcessing(true);
 
@@ -645,9 +595,7 @@ export default function OrderStatusScreen() {
 
             console.log('🔄 Updating order status:', orderId, newStatus);
 
-            const order = orders.find(order => order.orderId === orderId);
-            const allItemsCancelled = order && order.items.every(item => item.cancelled);
-            const finalStatus = allItemsCancelled ? 'cancelled' : newStatus;
+            const finalStatus = newStatus;
 
             console.log('📱 Updating local storage...');
             const pendingReceipts = await syncService.getItem('pendingReceipts');
@@ -658,31 +606,32 @@ export default function OrderStatusScreen() {
             await syncService.setItem('pendingReceipts', JSON.stringify(updatedLocalOrders));
             console.log('✅ Local storage updated');
 
-            if (connectionMode === 'online') {
-                console.log('🔥 Updating Firebase...');
-
-                const orderToUpdate = orders.find(order => order.orderId === orderId);
+            const orderToUpdate = orders.find(order => order.orderId === orderId);
+            const previousOrder = localOrders.find(order => order.orderId === orderId) || orderToUpdate;
+            const currentOrder = updatedLocalOrders.find(order => order.orderId === orderId) || orderToUpdate;
+            // Only the status changes: lines, voids and totals are already on the order as they should be
+            const statusChanges = { status: finalStatus };
 
-                if (orderToUpdate && orderToUpdate.firebaseId) {
-                    const orderDoc = doc(db, 'orders', orderToUpdate.firebaseId);
+            if (connectionMode === 'online' && orderToUpdate?.firebaseId) {
+                console.log('🔥 Updating Firebase...');
 
-                    const currentOrder = updatedLocalOrders.find(order => order.orderId === orderId);
-                    if (currentOrder) {
-                        const itemsForFirebase = currentOrder.items.filter(item => !item.cancelled);
+                const orderDoc = doc(db, 'orders', orderToUpdate.firebaseId);
+                await updateDoc(orderDoc, {
+                    ...statusChanges,
+                    updated_at: new Date().toISOString()
+                });
 
-                        await updateDoc(orderDoc, {
-                            status: finalStatus,
-                            items: itemsForFirebase,
-                            subtotal: currentOrder.subtotal,
-                            total: currentOrder.total,
-                            updated_at: new Date().toISOString()
-                        });
+                console.log('✅ Firebase updated - order status');
+            } else if (currentOrder) {
+                // Offline, or the order itself hasn't reached Firebase yet: the sync queue sends it after the order.
+                // The status as this tablet last saw it, so a change made on another device is caught as a conflict
+                const statusBase = previousOrder && { status: previousOrder.status };
+                await syncService.addPendingOrderUpdate(currentOrder, statusChanges, statusBase);
+            }
 
-                        console.log('✅ Firebase updated - only active items stored');
-                    }
-                } else {
-                    console.log('⚠️ Order not found in Firebase, local storage updated only');
-                }
+            // Stamps and points go to the customer once the order is paid
+            if (currentOrder) {
+                await earnLoyalty(currentOrder);
             }
 
             setOrders(prev => prev.filter(order => order.orderId !== orderId));
@@ -709,6 +658,125 @@ export default function OrderStatusScreen() {
         setSelectedOrder(null);
     };
 
+    // The POS opens on this order; new lines are paid there and show up here highlighted
+    const openAddItems = (order: OrderData) => {
+        closeActionModal();
+        router.push({
+            pathname: '/pos',
+            params: { openTab: getOpenTabKey(order), openedAt: String(Date.now()) }
+        });
+    };
+
+    // Moves the selected order to another table; the table it leaves frees up once it has no orders left
+    const transferOrderTable = async (table: DiningTable | null) => {
+        if (!selectedOrder) return;
+        setShowTablePicker(false);
+
+        try {
+            await moveOrderToTable(selectedOrder, table);
+            const moved = (order: OrderData): OrderData => {
+                const { tableId: _tableId, tableName: _tableName, ...rest } = order;
+                return table ? { ...rest, tableId: table.id, tableName: table.name } : rest;
+            };
+            setOrders(prev => prev.map(order => order.orderId === selectedOrder.orderId ? moved(order) : order));
+            setSelectedOrder(prev => prev && moved(prev));
+        } catch (error) {
+            console.error('❌ Error moving order to another table:', error);
+            Alert.alert('Error', 'Failed to move the order to another table.');
+        }
+    };
+
+    // Folds another open order into the selected one; the other order is closed and its card goes away
+    const mergeIntoSelected = (source: OrderData) => {
+        if (!selectedOrder) return;
+        const target = selectedOrder;
+        setShowMergePicker(false);
+
+        Alert.alert(
+            'Merge Orders',
+            `Move the items and payments of #${source.orderId} (${source.customerName}) into #${target.orderId}? #${source.orderId} will be closed.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Merge',
+                    onPress: async () => {
+                        setIsProcessing(true);
+                        try {
+                            const merge = await processOrderMerge(buildOrderMerge(target, source), source);
+                            const merged = (order: OrderData): OrderData => ({
+                                ...order,
+                                ...mergeOrders(order, source, merge.id),
+                                mergedFrom: [...(order.mergedFrom || []), source.orderId]
+                            });
+                            setOrders(prev => prev
+                                .filter(order => order.orderId !== source.orderId)
+                                .map(order => order.orderId === target.orderId ? merged(order) : order));
+                            setSelectedOrder(prev => prev && merged(prev));
+                        } catch (error) {
+                            console.error('❌ Error merging orders:', error);
+                            Alert.alert('Error', 'Failed to merge the orders.');
+                        } finally {
+                            setIsProcessing(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    // An order is split once, while nothing on it has been voided or refunded and nothing was charged to an account
+    const canSplitOrder = (order: OrderData) => {
+        return !order.bills?.length &&
+            order.total > 0 &&
+            getActiveItemsCount(order.items) > 0 &&
+            !order.items.some(isLineRemoved) &&
+            !(order.payments || []).some(payment => payment.type === 'account');
+    };
+
+    const getSplitLines = (order: OrderData): SplitLine[] => {
+        return order.items
+            .map((item, index) => ({ item, lineId: getOrderLineId(item, index) }))
+            .filter(({ item }) => !isLineRemoved(item))
+            .map(({ item, lineId }) => ({
+                lineId,
+                name: [item.name, formatModifierSummary(item.modifiers) || formatBundleSummary(item.bundle)].filter(Boolean).join(' - '),
+                quantity: item.quantity,
+                amount: roundMoney(item.price * item.quantity - (item.discount || 0))
+            }));
+    };
+
+    const applySplit = (mode: BillSplitMode, bills: OrderBill[]) => {
+        setShowSplitBill(false);
+        setPendingSplit({ mode, bills });
+        console.log('✂️ Bill split', mode, 'into', bills.map(bill => bill.amount).join(' / '));
+    };
+
+    // The settled bills replace the tenders taken when the order was placed
+    const settleSplit = async (paidBills: OrderBill[]) => {
+        if (!selectedOrder || !pendingSplit) return;
+        const order = selectedOrder;
+        const splitMode = pendingSplit.mode;
+        setIsProcessing(true);
+        try {
+            const paymentSummary = await processOrderSplit(order, splitMode, paidBills);
+            const split = (current: OrderData): OrderData => ({
+                ...current,
+                payments: paymentSummary.payments,
+                splitMode,
+                bills: paidBills
+            });
+            setOrders(prev => prev.map(current => current.orderId === order.orderId ? split(current) : current));
+            setSelectedOrder(prev => prev && split(prev));
+            setPendingSplit(null);
+            Alert.alert('Success', `Order #${order.orderId} settled as ${paidBills.length} bills`);
+        } catch (error) {
+            console.error('❌ Error splitting order:', error);
+            Alert.alert('Error', 'Failed to split the order.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'paid': return '#16A34A';
@@ -731,10 +799,15 @@ export default function OrderStatusScreen() {
     };
 
     const getFirstItemName = (items: any[]) => {
-        const activeItem = items.find(item => !item.cancelled);
+        const activeItem = items.find(item => !isLineRemoved(item));
         return activeItem ? activeItem.name : 'No active items';
     };
 
+    const getFirstItemModifiers = (items: OrderLine[]) => {
+        const activeItem = items.find(item => !isLineRemoved(item));
+        return activeItem ? formatModifierSummary(activeItem.modifiers) || formatBundleSummary(activeItem.bundle) : '';
+    };
+
     const getOrderTypeIcon = (orderType?: string) => {
         switch (orderType) {
             case 'dine-in': return 'coffee';
@@ -751,21 +824,30 @@ export default function OrderStatusScreen() {
         }
     };
 
-    const getReadyItemsCount = (items: OrderItem[]) => {
-        return items.filter(item => item.ready && !item.cancelled).length;
+    const getReadyItemsCount = (items: OrderLine[]) => {
+        return items.filter(item => item.ready && !isLineRemoved(item)).length;
+    };
+
+    const getActiveItemsCount = (items: OrderLine[]) => {
+        return items.filter(item => !isLineRemoved(item)).length;
     };
 
-    const getActiveItemsCount = (items: OrderItem[]) => {
-        return items.filter(item => !item.cancelled).length;
+    const getActiveItems = (items: OrderLine[]) => {
+        return items.filter(item => !isLineRemoved(item));
     };
 
-    const getActiveItems = (items: OrderItem[]) => {
-        return items.filter(item => !item.cancelled);
+    // Lines added after the order was placed stay highlighted until the kitchen marks them ready
+    const isNewItem = (item: OrderLine) => {
+        return !!item.addedAt && !item.ready && !isLineRemoved(item);
+    };
+
+    const getNewItemsCount = (items: OrderLine[]) => {
+        return items.filter(isNewItem).length;
     };
 
     const areAllItemsReady = (order: OrderData | null) => {
         if (!order) return false;
-        const activeItems = order.items.filter(item => !item.cancelled);
+        const activeItems = order.items.filter(item => !isLineRemoved(item));
         if (activeItems.length === 0) return true;
         return activeItems.every(item => item.ready);
     };
@@ -890,7 +972,7 @@ export default function OrderStatusScreen() {
                                         {/* Order Header */}
                                         <ThemedView style={styles.orderHeader}>
                                             <ThemedText style={styles.orderId}>
-                                                #{order.orderId}
+                                                #{getDisplayOrderNumber(order)}
                                             </ThemedText>
                                             <ThemedView style={[styles.statusBadge, { backgroundColor: '#DC2626' }]}>
                                                 <Text style={styles.statusText}>
@@ -914,8 +996,27 @@ export default function OrderStatusScreen() {
                                             <ThemedText style={styles.orderTypeText}>
                                                 {order.orderType === 'take-out' ? 'TAKE OUT' : 'DINE IN'}
                                             </ThemedText>
+                                            {!!order.tableName && (
+                                                <ThemedView style={styles.tableBadge}>
+                                                    <Text style={styles.tableBadgeText}>TABLE {order.tableName}</Text>
+                                                </ThemedView>
+                                            )}
+                                            {!!order.mergedFrom?.length && (
+                                                <ThemedView style={styles.tableBadge}>
+                                                    <Text style={styles.tableBadgeText}>+ #{order.mergedFrom.join(', #')}</Text>
+                                                </ThemedView>
+                                            )}
                                         </ThemedView>
 
+                                        {getNewItemsCount(order.items) > 0 && (
+                                            <ThemedView style={styles.newItemsBadge}>
+                                                <Feather name="plus-circle" size={10} color="#FFFEEA" />
+                                                <Text style={styles.newItemsBadgeText}>
+                                                    {getNewItemsCount(order.items)} NEW ITEM{getNewItemsCount(order.items) > 1 ? 'S' : ''}
+                                                </Text>
+                                            </ThemedView>
+                                        )}
+
                                         {/* ADDED: Notes Section - Below Order Type */}
                                         {order.notes && order.notes.trim() !== '' && (
                                             <ThemedView style={styles.notesContainer}>
@@ -941,6 +1042,11 @@ export default function OrderStatusScreen() {
                                             <ThemedText style={styles.mainItem} numberOfLines={2}>
                                                 {getFirstItemName(order.items)}
                                             </ThemedText>
+                                            {!!getFirstItemModifiers(order.items) && (
+                                                <ThemedText style={styles.mainItemModifiers} numberOfLines={2}>
+                                                    {getFirstItemModifiers(order.items)}
+                                                </ThemedText>
+                                            )}
                                             {getActiveItems(order.items).length > 1 && (
                                                 <ThemedText style={styles.additionalItems}>
                                                     +{getActiveItems(order.items).length - 1} more
@@ -1001,13 +1107,14 @@ export default function OrderStatusScreen() {
                                 <ThemedView style={styles.modalHeader}>
                                     <ThemedView style={styles.modalTitleContainer}>
                                         <ThemedText style={styles.modalTitle}>
-                                            Order #{selectedOrder?.orderId}
+                                            Order #{selectedOrder && getDisplayOrderNumber(selectedOrder)}
                                         </ThemedText>
                                         {selectedOrder?.orderType && (
                                             <ThemedView style={[styles.modalOrderTypeBadge, { backgroundColor: getOrderTypeColor(selectedOrder.orderType) }]}>
                                                 <Feather name={getOrderTypeIcon(selectedOrder.orderType)} size={12} color="#FFFEEA" />
                                                 <Text style={styles.modalOrderTypeText}>
                                                     {selectedOrder.orderType === 'take-out' ? 'TAKE OUT' : 'DINE IN'}
+                                                    {selectedOrder.tableName ? ` · TABLE ${selectedOrder.tableName}` : ''}
                                                 </Text>
                                             </ThemedView>
                                         )}
@@ -1035,6 +1142,24 @@ export default function OrderStatusScreen() {
                                         </ThemedView>
                                     </ThemedView>
 
+                                    {selectedOrder?.orderType === 'dine-in' && floorTables.length > 0 && (
+                                        <ThemedView style={styles.tableSection}>
+                                            <ThemedView style={styles.tableSectionInfo}>
+                                                <ThemedText style={styles.cupsLabel}>Table:</ThemedText>
+                                                <ThemedText style={styles.cupsInfo}>
+                                                    {selectedOrder.tableName || 'No table'}
+                                                </ThemedText>
+                                            </ThemedView>
+                                            <TouchableOpacity
+                                                style={styles.markAllButton}
+                                                onPress={() => setShowTablePicker(true)}
+                                            >
+                                                <Feather name="move" size={14} color="#FFFEEA" />
+                                                <Text style={styles.markAllButtonText}>Transfer</Text>
+                                            </TouchableOpacity>
+                                        </ThemedView>
+                                    )}
+
                                     {/* ADDED: Notes Section in Modal */}
                                     {selectedOrder?.notes && selectedOrder.notes.trim() !== '' && (
                                         <ThemedView style={styles.modalNotesSection}>
@@ -1086,6 +1211,35 @@ export default function OrderStatusScreen() {
                                     <ThemedView style={styles.itemsSection}>
                                         <ThemedView style={styles.itemsHeader}>
                                             <ThemedText style={styles.itemsLabel}>Items:</ThemedText>
+                                            {selectedOrder && (
+                                                <TouchableOpacity
+                                                    style={styles.markAllButton}
+                                                    onPress={() => openAddItems(selectedOrder)}
+                                                >
+                                                    <Feather name="plus" size={14} color="#FFFEEA" />
+                                                    <Text style={styles.markAllButtonText}>Add Items</Text>
+                                                </TouchableOpacity>
+                                            )}
+                                            {selectedOrder && orders.length > 1 && (
+                                                <TouchableOpacity
+                                                    style={styles.markAllButton}
+                                                    onPress={() => setShowMergePicker(true)}
+                                                    disabled={isProcessing}
+                                                >
+                                                    <Feather name="git-merge" size={14} color="#FFFEEA" />
+                                                    <Text style={styles.markAllButtonText}>Merge</Text>
+                                                </TouchableOpacity>
+                                            )}
+                                            {selectedOrder && canSplitOrder(selectedOrder) && (
+                                                <TouchableOpacity
+                                                    style={styles.markAllButton}
+                                                    onPress={() => setShowSplitBill(true)}
+                                                    disabled={isProcessing}
+                                                >
+                                                    <Feather name="columns" size={14} color="#FFFEEA" />
+                                                    <Text style={styles.markAllButtonText}>Split Bill</Text>
+                                                </TouchableOpacity>
+                                            )}
                                             {selectedOrder && !selectedOrder.allItemsReady && (
                                                 <TouchableOpacity
                                                     style={styles.markAllButton}
@@ -1101,7 +1255,7 @@ export default function OrderStatusScreen() {
                                             showsVerticalScrollIndicator={true}
                                         >
                                             {selectedOrder?.items.map((item, index) => (
-                                                <ThemedView key={index} style={styles.itemRow}>
+                                                <ThemedView key={index} style={[styles.itemRow, isNewItem(item) && styles.itemRowNew]}>
                                                     <TouchableOpacity
                                                         style={styles.checkboxContainer}
                                                         onPress={() => selectedOrder && toggleItemReady(selectedOrder.orderId, index)}
@@ -1118,28 +1272,44 @@ export default function OrderStatusScreen() {
                                                     <ThemedText style={[
                                                         styles.itemName,
                                                         item.ready && styles.itemNameReady,
-                                                        item.cancelled && styles.itemNameCancelled
+                                                        isLineRemoved(item) && styles.itemNameCancelled
                                                     ]}>
                                                         {item.name}
+                                                        {!!item.modifiers?.length && (
+                                                            <ThemedText style={styles.itemModifiers}>
+                                                                {'\n'}{formatModifierSummary(item.modifiers)}
+                                                            </ThemedText>
+                                                        )}
+                                                        {item.bundle?.map(component => (
+                                                            <ThemedText key={component.slotId} style={styles.itemBundleComponent}>
+                                                                {'\n'}{'   - '}{component.quantity * item.quantity}x {component.name}
+                                                            </ThemedText>
+                                                        ))}
                                                     </ThemedText>
                                                     <ThemedView style={styles.quantityActions}>
                                                         <ThemedText style={[
                                                             styles.itemQuantity,
                                                             item.ready && styles.itemQuantityReady,
-                                                            item.cancelled && styles.itemQuantityCancelled
+                                                            isLineRemoved(item) && styles.itemQuantityCancelled
                                                         ]}>
                                                             x{item.quantity}
                                                         </ThemedText>
-                                                        <TouchableOpacity
-                                                            style={styles.cancelItemButton}
-                                                            onPress={() => selectedOrder && cancelItem(selectedOrder.orderId, index)}
-                                                        >
-                                                            <Feather
-                                                                name={item.cancelled ? "refresh-cw" : "x"}
-                                                                size={12}
-                                                                color={item.cancelled ? "#16A34A" : "#DC2626"}
-                                                            />
-                                                        </TouchableOpacity>
+                                                        {isNewItem(item) && (
+                                                            <Text style={styles.newItemLabel}>NEW</Text>
+                                                        )}
+                                                        {isLineRemoved(item) ? (
+                                                            <Text style={styles.voidedLabel}>{item.cancelled ? 'VOID' : 'REFUNDED'}</Text>
+                                                        ) : (
+                                                            <TouchableOpacity
+                                                                style={styles.cancelItemButton}
+                                                                onPress={() => selectedOrder && setVoidRequest({
+                                                                    order: selectedOrder,
+                                                                    lineIds: [getOrderLineId(item, index)]
+                                                                })}
+                                                            >
+                                                                <Feather name="x" size={12} color="#DC2626" />
+                                                            </TouchableOpacity>
+                                                        )}
                                                     </ThemedView>
                                                 </ThemedView>
                                             ))}
@@ -1154,6 +1324,14 @@ export default function OrderStatusScreen() {
                                     </ThemedView>
 
                                     <ThemedView style={styles.actionButtons}>
+                                        <TouchableOpacity
+                                            style={[styles.actionButtonModal, styles.cancelButton, isProcessing && styles.disabledButton]}
+                                            onPress={() => selectedOrder && setVoidRequest({ order: selectedOrder })}
+                                            disabled={isProcessing}
+                                        >
+                                            <Feather name="slash" size={20} color="#FFFEEA" />
+                                            <ThemedText style={styles.actionButtonTextModal}>VOID ORDER</ThemedText>
+                                        </TouchableOpacity>
                                         <TouchableOpacity
                                             style={[
                                                 styles.actionButtonModal,
@@ -1185,6 +1363,49 @@ export default function OrderStatusScreen() {
                                 </ThemedView>
                             </ThemedView>
                         </ThemedView>
+
+                        <RefundModal
+                            visible={!!voidRequest}
+                            order={voidRequest?.order || null}
+                            initialLineIds={voidRequest?.lineIds}
+                            onDone={handleVoidDone}
+                            onClose={() => setVoidRequest(null)}
+                        />
+
+                        <TablePickerModal
+                            visible={showTablePicker}
+                            tables={floorTables}
+                            statuses={getTableStatuses(floorTables, orders)}
+                            selectedTableId={selectedOrder?.tableId}
+                            onSelect={transferOrderTable}
+                            onClose={() => setShowTablePicker(false)}
+                        />
+                        <MergeOrderModal
+                            visible={showMergePicker}
+                            target={selectedOrder}
+                            orders={orders}
+                            onSelect={order => mergeIntoSelected(order as OrderData)}
+                            onClose={() => setShowMergePicker(false)}
+                        />
+                        {showSplitBill && selectedOrder && (
+                            <SplitBillModal
+                                visible={showSplitBill}
+                                lines={getSplitLines(selectedOrder)}
+                                total={selectedOrder.total}
+                                onApply={applySplit}
+                                onClose={() => setShowSplitBill(false)}
+                            />
+                        )}
+                        {pendingSplit && selectedOrder && (
+                            <SettleBillsModal
+                                visible={!!pendingSplit}
+                                orderId={selectedOrder.orderId}
+                                bills={pendingSplit.bills}
+                                onSettle={settleSplit}
+                                onClose={() => setPendingSplit(null)}
+                                disabled={isProcessing}
+                            />
+                        )}
                     </Modal>
                 </ThemedView>
             </ImageBackground>
@@ -1300,6 +1521,18 @@ const styles = StyleSheet.create({
         color: '#874E3B',
         backgroundColor: 'transparent'
     },
+    tableBadge: {
+        marginLeft: 6,
+        paddingHorizontal: 6,
+        paddingVertical: 1,
+        borderRadius: 4,
+        backgroundColor: '#874E3B',
+    },
+    tableBadgeText: {
+        fontSize: 10,
+        fontWeight: 'bold',
+        color: '#FFFEEA',
+    },
     // ADDED: Notes container styles
     notesContainer: {
         flexDirection: 'row',
@@ -1484,6 +1717,39 @@ const styles = StyleSheet.create({
         padding: 4,
         marginLeft: 8,
     },
+    voidedLabel: {
+        fontSize: 10,
+        fontWeight: 'bold',
+        color: '#DC2626',
+        marginLeft: 8,
+    },
+    newItemLabel: {
+        fontSize: 10,
+        fontWeight: 'bold',
+        color: '#16A34A',
+        marginLeft: 8,
+    },
+    itemRowNew: {
+        backgroundColor: '#FEF3C7',
+        borderRadius: 6,
+        paddingHorizontal: 4,
+    },
+    newItemsBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 4,
+        backgroundColor: '#16A34A',
+        borderRadius: 8,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        marginBottom: 6,
+    },
+    newItemsBadgeText: {
+        color: '#FFFEEA',
+        fontSize: 9,
+        fontWeight: 'bold',
+    },
     quantityActions: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -1609,6 +1875,12 @@ const styles = StyleSheet.create({
         lineHeight: 12,
         textAlign: 'center',
     },
+    mainItemModifiers: {
+        fontSize: 8,
+        color: '#B08968',
+        marginBottom: 2,
+        textAlign: 'center',
+    },
     additionalItems: {
         fontSize: 8,
         color: '#8B7355',
@@ -1787,6 +2059,16 @@ const styles = StyleSheet.create({
         marginBottom: 16,
         backgroundColor: 'transparent'
     },
+    tableSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 16,
+        backgroundColor: 'transparent'
+    },
+    tableSectionInfo: {
+        backgroundColor: 'transparent'
+    },
     cupsLabel: {
         fontSize: 14,
         color: '#8B7355',
@@ -1827,6 +2109,14 @@ const styles = StyleSheet.create({
         flex: 1,
         marginLeft: 8,
     },
+    itemModifiers: {
+        fontSize: 12,
+        color: '#B08968',
+    },
+    itemBundleComponent: {
+        fontSize: 12,
+        color: '#874E3B',
+    },
     itemsScrollView: {
         maxHeight: 200,
         backgroundColor: 'transparent'
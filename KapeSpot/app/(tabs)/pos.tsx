@@ -18,20 +18,119 @@ import { Feather } from "@expo/vector-icons";
 import Navbar from '@/components/Navbar';
 import { NetworkScanner } from '@/lib/network-scanner';
 import { useFocusEffect } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
 import React from 'react';
 import { OfflineSyncService } from '@/lib/offline-sync';
 import {
     getFirestore,
     collection,
     getDocs,
-    addDoc,
-    updateDoc,
-    doc,
     query,
     where
 } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
-import BleManager from 'react-native-ble-manager';
+import PaymentSection from '@/components/pos/PaymentSection';
+import { Tender } from '@/types/payment';
+import { buildPaymentSummary, formatTenderLines, getTenderLabel, roundMoney, validateTenders } from '@/lib/payments';
+import DiscountModal from '@/components/pos/DiscountModal';
+import { DiscountKind, DiscountResult, OrderDiscount, PromoCode } from '@/types/discount';
+import { describeDiscount, formatDiscountLines, isStatutoryDiscount, loadPromoCodes } from '@/lib/discounts';
+import { TaxBreakdown, TaxProfile } from '@/types/tax';
+import { DEFAULT_TAX_PROFILE, formatTaxLines, loadTaxProfile } from '@/lib/tax';
+import { computeOrderTotals } from '@/lib/pricing';
+import ModifierPickerModal from '@/components/pos/ModifierPickerModal';
+import BundlePickerModal from '@/components/pos/BundlePickerModal';
+import { LinePromotion, Promotion } from '@/types/promotion';
+import { describeLinePromotion, findLinePromotion, formatPromotionLine, loadPromotions } from '@/lib/promotions';
+import { PrintBlock, PrintDocument } from '@/types/print';
+import { textBlocks } from '@/lib/escpos';
+import { describeQueuedJob, submitPrintJob } from '@/lib/print-queue';
+import { printStationTickets } from '@/lib/printer-routing';
+import { BundleComponent, BundleSlot } from '@/types/bundle';
+import {
+    buildBundleComponents,
+    buildBundleLineId,
+    expandBundleLines,
+    findBundleItem,
+    formatBundleLines,
+    formatBundleSummary,
+    getBundleAvailability,
+    getBundleUpcharge,
+    isBundle,
+    normalizeBundleSlots
+} from '@/lib/bundles';
+import { ModifierGroup, SelectedModifier } from '@/types/modifier';
+import { IngredientUsage, RecipeComponent } from '@/types/ingredient';
+import { buildLineRecipe, computeIngredientUsage, depleteIngredientsLocally, normalizeRecipe } from '@/lib/ingredients';
+import { computeCupUsage, CupUsage, depleteCupsLocally, getTotalCups, resolveLineCupName } from '@/lib/cups';
+import { BillSplitMode, OrderBill, OrderSyncState, ParkedCart } from '@/types/order';
+import { commitOrder, createOrderKey } from '@/lib/orders';
+import {
+    OpenTab,
+    buildOrderAddition,
+    computeTabTotals,
+    getParkedCarts,
+    loadOpenTab,
+    parkCart,
+    processOrderAddition,
+    removeParkedCart
+} from '@/lib/open-tabs';
+import ParkedCartsModal from '@/components/pos/ParkedCartsModal';
+import TablePickerModal from '@/components/pos/TablePickerModal';
+import SplitBillModal from '@/components/pos/SplitBillModal';
+import CustomerSuggestions from '@/components/pos/CustomerSuggestions';
+import LoyaltyPanel from '@/components/pos/LoyaltyPanel';
+import ScanModeBar from '@/components/pos/ScanModeBar';
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import { findItemByCode } from '@/lib/scanning';
+import { LoyaltyBalance, LoyaltySettings, LoyaltySnapshot } from '@/types/loyalty';
+import {
+    DEFAULT_LOYALTY_SETTINGS,
+    buildLoyaltySnapshot,
+    buildPointsRedemption,
+    buildStampReward,
+    formatLoyaltyLines,
+    getLoyaltyBalance,
+    isLoyaltyDiscount,
+    loadLoyaltyLedger,
+    loadLoyaltySettings,
+    recordLoyaltyRedemption
+} from '@/lib/loyalty';
+import { Customer } from '@/types/customer';
+import {
+    createCustomer,
+    getLastOrder,
+    loadCustomerOrders,
+    loadCustomers,
+    normalizeCustomerName,
+    saveCustomer
+} from '@/lib/customers';
+import {
+    getAvailableCredit,
+    getChargedAmount,
+    getCreditBalance,
+    getCreditLimit,
+    loadCreditLedger,
+    recordCreditCharge,
+    validateCharge
+} from '@/lib/credit';
+import {
+    SplitLine,
+    combineBillPayments,
+    formatBillReceipt,
+    settleBills,
+    validateBillTenders
+} from '@/lib/bills';
+import { DiningTable, TableStatus } from '@/types/table';
+import { getTableStatuses, loadFloorLayout, loadOpenOrders } from '@/lib/tables';
+import { allocateOrderNumber, reconcileOrderNumbers } from '@/lib/order-numbers';
+import {
+    buildCartLineId,
+    formatModifierLines,
+    formatModifierSummary,
+    getModifiersTotal,
+    normalizeModifierGroups
+} from '@/lib/modifiers';
 
 interface MenuItem {
     id: string;
@@ -47,9 +146,135 @@ interface MenuItem {
     firebaseId?: string;
     image_base64?: string;
     sales?: number;
+    // Menu items: the item's take-out cup. Cart lines: the cup after size modifiers
     cupName?: string;
+    modifierGroups?: ModifierGroup[];
+    bundleSlots?: BundleSlot[];
+    // Menu items: the item's own recipe. Cart lines: per-unit recipe including modifiers
+    recipe?: RecipeComponent[];
+    // Cart lines only: same item with different modifiers is a separate line
+    lineId?: string;
+    modifiers?: SelectedModifier[];
+    basePrice?: number;
+    // Bundle lines: the picked components; the bundle takes its cups and ingredients from them
+    bundle?: BundleComponent[];
+    // Cart lines: scheduled promotion already taken off price
+    promotion?: LinePromotion;
 }
 
+// Cart lines are keyed by lineId; plain items fall back to the item id
+const getLineId = (item: MenuItem): string => item.lineId || item.id;
+
+// Second line under the item name: its modifiers, or a bundle's picked items
+const getLineSummary = (item: MenuItem): string =>
+    formatModifierSummary(item.modifiers) || formatBundleSummary(item.bundle);
+
+// Prices a new line: a promotion running now comes off the unit price, and keeps the line apart
+// from units of the same item sold at another price
+const priceLine = (item: MenuItem, baseLineId: string, unitPrice: number, promotions: Promotion[]) => {
+    const promotion = findLinePromotion(promotions, item, unitPrice);
+    return {
+        lineId: promotion ? `${baseLineId}#${promotion.promotionId}` : baseLineId,
+        price: roundMoney(unitPrice - (promotion?.unitDiscount || 0)),
+        promotion
+    };
+};
+
+// Adds units of an item to the cart, joining the line that has the same modifiers
+const addCartLine = (
+    cart: MenuItem[],
+    item: MenuItem,
+    modifiers: SelectedModifier[],
+    quantity: number,
+    promotions: Promotion[]
+): MenuItem[] => {
+    const { lineId, price, promotion } = priceLine(
+        item,
+        buildCartLineId(item.id, modifiers),
+        roundMoney(item.price + getModifiersTotal(modifiers)),
+        promotions
+    );
+    const existing = cart.find(cartItem => getLineId(cartItem) === lineId);
+    if (existing) {
+        return cart.map(cartItem =>
+            getLineId(cartItem) === lineId
+                ? { ...cartItem, quantity: cartItem.quantity + quantity }
+                : cartItem
+        );
+    }
+    return [...cart, {
+        ...item,
+        quantity,
+        lineId,
+        modifiers,
+        basePrice: item.price,
+        price,
+        ...(promotion ? { promotion } : {}),
+        recipe: buildLineRecipe(item.recipe, item.modifierGroups, modifiers),
+        cupName: resolveLineCupName(item.cupName, item.modifierGroups, modifiers)
+    }];
+};
+
+// Adds units of a bundle, joining the line that has the same picks
+const addBundleLine = (
+    cart: MenuItem[],
+    item: MenuItem,
+    components: BundleComponent[],
+    quantity: number,
+    promotions: Promotion[]
+): MenuItem[] => {
+    const { lineId, price, promotion } = priceLine(
+        item,
+        buildBundleLineId(item.id, components),
+        roundMoney(item.price + getBundleUpcharge(components)),
+        promotions
+    );
+    const existing = cart.find(cartItem => getLineId(cartItem) === lineId);
+    if (existing) {
+        return cart.map(cartItem =>
+            getLineId(cartItem) === lineId
+                ? { ...cartItem, quantity: cartItem.quantity + quantity }
+                : cartItem
+        );
+    }
+    return [...cart, {
+        ...item,
+        quantity,
+        lineId,
+        modifiers: [],
+        bundle: components,
+        basePrice: item.price,
+        price,
+        ...(promotion ? { promotion } : {}),
+        recipe: [],
+        cupName: ''
+    }];
+};
+
+// Menu stock a cart line holds: a bundle holds its components' stock, not its own
+const getLineStockUse = (line: MenuItem): { itemId: string; quantity: number }[] => {
+    if (!line.bundle || line.bundle.length === 0) {
+        return [{ itemId: line.id, quantity: line.quantity }];
+    }
+    return line.bundle.map(component => ({ itemId: component.itemId, quantity: component.quantity * line.quantity }));
+};
+
+const hasLineStock = (items: MenuItem[], line: MenuItem, units: number): boolean => {
+    return getLineStockUse({ ...line, quantity: units })
+        .every(use => (findBundleItem(items, use.itemId)?.stocks ?? 0) >= use.quantity);
+};
+
+// Takes units of a line from the local menu stock; negative units put them back
+const takeLineStock = (items: MenuItem[], line: MenuItem, units: number): MenuItem[] => {
+    let next = items;
+    getLineStockUse({ ...line, quantity: units }).forEach(use => {
+        const target = findBundleItem(next, use.itemId);
+        if (!target) return;
+        next = next.map(item => item === target ? { ...item, stocks: item.stocks - use.quantity } : item);
+    });
+    return next;
+};
+
 interface Category {
     id: string;
     name: string;
@@ -62,6 +287,7 @@ interface Category {
 interface ReceiptData {
     orderId: string;
     customerName: string;
+    customerId?: string;
     items: MenuItem[];
     subtotal: number;
     total: number;
@@ -69,30 +295,27 @@ interface ReceiptData {
     status: 'unpaid' | 'paid' | 'cancelled';
     firebaseId?: string;
     cupsUsed?: number;
+    cupsBreakdown?: CupUsage;
+    ingredientUsage?: IngredientUsage;
+    sequence?: number;
+    idempotencyKey?: string;
+    syncState?: OrderSyncState;
     orderType: 'dine-in' | 'take-out';
+    tableId?: string;
+    tableName?: string;
+    splitMode?: BillSplitMode;
+    bills?: OrderBill[];
     notes?: string; // ADDED: notes/comment field
-}
-
-interface CupItem {
-    id: string;
-    name: string;
-    stocks: number;
-    size?: string;
-    status?: boolean;
-    isOffline?: boolean;
-    firebaseId?: string;
-    syncStatus?: string;
-    lastUpdated?: number;
-    lastSynced?: number;
-}
-
-interface PendingItem {
-    id: string;
-    type: 'CREATE_ITEM' | 'UPDATE_ITEM' | 'DELETE_ITEM' | 'CREATE_CATEGORY' | 'UPDATE_CATEGORY' | 'DELETE_CATEGORY' | 'CREATE_CUP' | 'UPDATE_CUP' | 'DELETE_CUP' | 'CREATE_ORDER' | 'UPDATE_ORDER';
-    data: any;
-    timestamp: number;
-    retryCount: number;
-    serverId?: string;
+    payments?: Tender[];
+    amountTendered?: number;
+    changeDue?: number;
+    discounts?: OrderDiscount[];
+    discountTotal?: number;
+    vatableSales?: number;
+    vatAmount?: number;
+    vatExemptSales?: number;
+    serviceCharge?: number;
+    loyalty?: LoyaltySnapshot;
 }
 
 interface BluetoothConnection {
@@ -120,7 +343,35 @@ const OrderSummaryModal = ({
     isProcessingOrder,
     isBluetoothConnected,
     notes,           // ADDED: notes prop
-    setNotes         // ADDED: setNotes prop
+    setNotes,        // ADDED: setNotes prop
+    tenders,
+    setTenders,
+    discountResult,
+    onOpenDiscount,
+    onRemoveDiscount,
+    taxBreakdown,
+    taxProfile,
+    openTab,
+    tabOrderTotal,
+    onPark,
+    bills,
+    activeBillId,
+    setActiveBillId,
+    billTenders,
+    onChangeBillTenders,
+    onOpenSplit,
+    onClearSplit,
+    customers,
+    customer,
+    onSelectCustomer,
+    onCreateCustomer,
+    onClearCustomer,
+    onRepeatLastOrder,
+    loyaltySettings,
+    loyaltyBalance,
+    onRedeemReward,
+    onRedeemPoints,
+    accountCredit
 }: { 
     visible: boolean;
     onClose: () => void;
@@ -138,6 +389,34 @@ const OrderSummaryModal = ({
     isBluetoothConnected: boolean;
     notes: string;           // ADDED: notes type
     setNotes: (notes: string) => void;  // ADDED: setNotes type
+    tenders: Tender[];
+    setTenders: (tenders: Tender[]) => void;
+    discountResult: DiscountResult;
+    onOpenDiscount: (kind: DiscountKind, item?: MenuItem) => void;
+    onRemoveDiscount: (id: string) => void;
+    taxBreakdown: TaxBreakdown;
+    taxProfile: TaxProfile;
+    openTab: OpenTab | null; // adding to an order already placed
+    tabOrderTotal: number; // that order's total with the cart added
+    onPark: () => void;
+    bills: OrderBill[]; // empty when the order is paid as one bill
+    activeBillId: string | null;
+    setActiveBillId: (billId: string) => void;
+    billTenders: Record<string, Tender[]>;
+    onChangeBillTenders: (billId: string, tenders: Tender[]) => void;
+    onOpenSplit: () => void;
+    onClearSplit: () => void;
+    customers: Customer[];
+    customer: Customer | null;
+    onSelectCustomer: (customer: Customer) => void;
+    onCreateCustomer: () => void;
+    onClearCustomer: () => void;
+    onRepeatLastOrder: () => void;
+    loyaltySettings: LoyaltySettings;
+    loyaltyBalance: LoyaltyBalance | null;
+    onRedeemReward: () => void;
+    onRedeemPoints: () => void;
+    accountCredit: number | null | undefined; // undefined when the order can't be charged to an account
 }) => (
     <Modal
         visible={visible}
@@ -150,7 +429,9 @@ const OrderSummaryModal = ({
             <ThemedView style={styles.orderSummaryModal}>
                 <ThemedView style={styles.modalHeader}>
                     <ThemedView style={styles.modalTitleContainer}>
-                        <ThemedText style={styles.modalTitle}>Order Summary</ThemedText>
+                        <ThemedText style={styles.modalTitle}>
+                            {openTab ? `Add to ${openTab.orderId}` : 'Order Summary'}
+                        </ThemedText>
                         {/* Bluetooth Icon next to title */}
                         {isBluetoothConnected ? (
                             <Feather name="bluetooth" size={18} color="#007AFF" style={styles.headerBluetoothIcon} />
@@ -166,7 +447,18 @@ const OrderSummaryModal = ({
                     </TouchableOpacity>
                 </ThemedView>
 
+                {/* Open tab: the order's customer, already on the kitchen screen */}
+                {openTab && (
+                    <ThemedView style={styles.openTabBanner}>
+                        <Feather name="plus-circle" size={14} color="#FFFEEA" />
+                        <ThemedText style={styles.openTabBannerText}>
+                            Adding to the order of {openTab.customerName} - pay for the new items now
+                        </ThemedText>
+                    </ThemedView>
+                )}
+
                 {/* Customer Name Input */}
+                {!openTab && (
                 <ThemedView style={styles.customerInputContainer}>
                     <ThemedText style={styles.inputLabel}>Customer Name:</ThemedText>
                     <TextInput
@@ -177,8 +469,33 @@ const OrderSummaryModal = ({
                         placeholderTextColor="#854442"
                     />
                 </ThemedView>
+                )}
+                {!openTab && (
+                    <CustomerSuggestions
+                        customers={customers}
+                        customerName={customerName}
+                        customer={customer}
+                        onSelect={onSelectCustomer}
+                        onCreate={onCreateCustomer}
+                        onClear={onClearCustomer}
+                        onRepeatLastOrder={onRepeatLastOrder}
+                        disabled={loading || isProcessingOrder}
+                    />
+                )}
+                {!openTab && customer && loyaltySettings.enabled && (
+                    <LoyaltyPanel
+                        settings={loyaltySettings}
+                        balance={loyaltyBalance}
+                        rewardApplied={discountResult.discounts.some(discount => discount.kind === 'reward')}
+                        pointsApplied={discountResult.discounts.some(discount => discount.kind === 'points')}
+                        onRedeemReward={onRedeemReward}
+                        onRedeemPoints={onRedeemPoints}
+                        disabled={loading || isProcessingOrder || cart.length === 0}
+                    />
+                )}
 
                 {/* ADDED: Notes/Comment Input */}
+                {!openTab && (
                 <ThemedView style={styles.notesInputContainer}>
                     <ThemedText style={styles.inputLabel}>Comment:</ThemedText>
                     <TextInput
@@ -192,6 +509,7 @@ const OrderSummaryModal = ({
                         textAlignVertical="top"
                     />
                 </ThemedView>
+                )}
 
                 {/* Order Table Header */}
                 <ThemedView style={styles.tableHeader}>
@@ -213,50 +531,197 @@ const OrderSummaryModal = ({
                         </ThemedView>
                     ) : (
                         cart.map((item, index) => (
-                            <ThemedView key={`${item.id}-${index}`} style={styles.orderRow}>
-                                <ThemedText style={[styles.cellText, styles.itemCell]} numberOfLines={2}>
-                                    {item.name} {item.isOffline && '📱'}
-                                </ThemedText>
+                            <ThemedView key={`${getLineId(item)}-${index}`} style={styles.orderRow}>
+                                <ThemedView style={styles.itemCellStack}>
+                                    <ThemedText style={styles.cellText} numberOfLines={2}>
+                                        {item.name} {item.isOffline && '📱'}
+                                    </ThemedText>
+                                    {!!getLineSummary(item) && (
+                                        <ThemedText style={styles.modifierText} numberOfLines={2}>
+                                            {getLineSummary(item)}
+                                        </ThemedText>
+                                    )}
+                                    {!!item.promotion && (
+                                        <ThemedText style={styles.promotionText} numberOfLines={1}>
+                                            {describeLinePromotion(item.promotion, item.quantity)}
+                                        </ThemedText>
+                                    )}
+                                </ThemedView>
                                 <ThemedText style={[styles.cellText, styles.priceCell]}>₱{item.price.toFixed(2)}</ThemedText>
                                 <ThemedView style={styles.qtyCell}>
                                     <TouchableOpacity
                                         style={styles.qtyButton}
-                                        onPress={() => updateQuantity(item.id, item.quantity - 1)}
+                                        onPress={() => updateQuantity(getLineId(item), item.quantity - 1)}
                                     >
                                         <Feather name="minus" size={12} color="#874E3B" />
                                     </TouchableOpacity>
                                     <ThemedText style={styles.qtyText}>{item.quantity}</ThemedText>
                                     <TouchableOpacity
                                         style={styles.qtyButton}
-                                        onPress={() => updateQuantity(item.id, item.quantity + 1)}
+                                        onPress={() => updateQuantity(getLineId(item), item.quantity + 1)}
                                     >
                                         <Feather name="plus" size={12} color="#874E3B" />
                                     </TouchableOpacity>
                                 </ThemedView>
                                 <ThemedText style={[styles.cellText, styles.totalCell]}>
-                                    ₱{(item.price * item.quantity).toFixed(2)}
+                                    ₱{(item.price * item.quantity - (discountResult.lineDiscounts[getLineId(item)] || 0)).toFixed(2)}
                                 </ThemedText>
+                                {!openTab && (
+                                    <TouchableOpacity
+                                        style={styles.lineDiscountButton}
+                                        onPress={() => onOpenDiscount('line', item)}
+                                    >
+                                        <Feather name="tag" size={14} color={discountResult.lineDiscounts[getLineId(item)] ? '#16A34A' : '#874E3B'} />
+                                    </TouchableOpacity>
+                                )}
                             </ThemedView>
                         ))
                     )}
                 </ScrollView>
 
+                {/* Discount Buttons - an open tab keeps the discounts it was placed with */}
+                {cart.length > 0 && !openTab && (
+                    <ThemedView style={styles.discountButtonsRow}>
+                        {([
+                            { kind: 'senior', label: 'Senior' },
+                            { kind: 'pwd', label: 'PWD' },
+                            { kind: 'promo', label: 'Promo' },
+                            { kind: 'manual', label: 'Manual' }
+                        ] as { kind: DiscountKind; label: string }[]).map(option => (
+                            <TouchableOpacity
+                                key={option.kind}
+                                style={styles.discountButton}
+                                onPress={() => onOpenDiscount(option.kind)}
+                                disabled={loading || isProcessingOrder}
+                            >
+                                <Feather name="percent" size={12} color="#FFFEEA" />
+                                <ThemedText style={styles.discountButtonText}>{option.label}</ThemedText>
+                            </TouchableOpacity>
+                        ))}
+                    </ThemedView>
+                )}
+
                 {/* Totals Section */}
                 <ThemedView style={styles.totalsSection}>
                     <ThemedView style={styles.totalRow}>
                         <ThemedText style={styles.totalLabel}>Sub total</ThemedText>
                         <ThemedText style={styles.totalValue}>₱{subtotal.toFixed(2)}</ThemedText>
                     </ThemedView>
-                    <ThemedView style={styles.totalRow}>
-                        <ThemedText style={styles.totalLabel}>Other Charge</ThemedText>
-                        <ThemedText style={styles.totalValue}>₱0.00</ThemedText>
-                    </ThemedView>
+                    {openTab && (
+                        <ThemedView style={styles.totalRow}>
+                            <ThemedText style={styles.totalLabel}>Order total ({openTab.orderId})</ThemedText>
+                            <ThemedText style={styles.totalValue}>
+                                ₱{openTab.total.toFixed(2)} → ₱{tabOrderTotal.toFixed(2)}
+                            </ThemedText>
+                        </ThemedView>
+                    )}
+                    {!openTab && discountResult.discounts.map(discount => (
+                        <ThemedView key={discount.id} style={styles.totalRow}>
+                            <TouchableOpacity
+                                style={styles.discountLabelButton}
+                                onPress={() => onRemoveDiscount(discount.id)}
+                            >
+                                <Feather name="x-circle" size={12} color="#DC2626" />
+                                <ThemedText style={styles.totalLabel} numberOfLines={1}>{describeDiscount(discount)}</ThemedText>
+                            </TouchableOpacity>
+                            <ThemedText style={styles.totalValue}>-₱{discount.amount.toFixed(2)}</ThemedText>
+                        </ThemedView>
+                    ))}
+                    {!openTab && discountResult.vatRelief > 0 && (
+                        <ThemedView style={styles.totalRow}>
+                            <ThemedText style={styles.totalLabel}>VAT Exempt</ThemedText>
+                            <ThemedText style={styles.totalValue}>-₱{discountResult.vatRelief.toFixed(2)}</ThemedText>
+                        </ThemedView>
+                    )}
+                    {!openTab && taxProfile.vatRegistered && (
+                        <ThemedView style={styles.totalRow}>
+                            <ThemedText style={styles.totalLabel}>
+                                VAT {taxProfile.vatRate}%{taxProfile.pricesIncludeVat ? ' (included)' : ''}
+                            </ThemedText>
+                            <ThemedText style={styles.totalValue}>₱{taxBreakdown.vatAmount.toFixed(2)}</ThemedText>
+                        </ThemedView>
+                    )}
+                    {!openTab && taxBreakdown.serviceCharge > 0 && (
+                        <ThemedView style={styles.totalRow}>
+                            <ThemedText style={styles.totalLabel}>Service Charge {taxProfile.serviceChargeRate}%</ThemedText>
+                            <ThemedText style={styles.totalValue}>₱{taxBreakdown.serviceCharge.toFixed(2)}</ThemedText>
+                        </ThemedView>
+                    )}
                     <ThemedView style={[styles.totalRow, styles.grandTotal]}>
                         <ThemedText style={styles.grandTotalLabel}>Amount to Pay</ThemedText>
                         <ThemedText style={styles.grandTotalValue}>₱{total.toFixed(2)}</ThemedText>
                     </ThemedView>
                 </ThemedView>
 
+                {/* Split bill - each bill takes its own tenders */}
+                {cart.length > 0 && !openTab && (
+                    <ThemedView style={styles.discountButtonsRow}>
+                        <TouchableOpacity
+                            style={styles.discountButton}
+                            onPress={onOpenSplit}
+                            disabled={loading || isProcessingOrder || total <= 0}
+                        >
+                            <Feather name="columns" size={12} color="#FFFEEA" />
+                            <ThemedText style={styles.discountButtonText}>{bills.length > 0 ? 'Split Again' : 'Split Bill'}</ThemedText>
+                        </TouchableOpacity>
+                        {bills.length > 0 && (
+                            <TouchableOpacity
+                                style={styles.discountButton}
+                                onPress={onClearSplit}
+                                disabled={loading || isProcessingOrder}
+                            >
+                                <Feather name="x" size={12} color="#FFFEEA" />
+                                <ThemedText style={styles.discountButtonText}>One Bill</ThemedText>
+                            </TouchableOpacity>
+                        )}
+                    </ThemedView>
+                )}
+                {bills.length > 0 && (
+                    <ThemedView style={styles.billTabs}>
+                        {bills.map(bill => {
+                            const active = bill.id === activeBillId;
+                            const settled = !validateTenders(bill.amount, billTenders[bill.id] || []);
+                            return (
+                                <TouchableOpacity
+                                    key={bill.id}
+                                    style={[styles.billTab, active && styles.billTabActive]}
+                                    onPress={() => setActiveBillId(bill.id)}
+                                >
+                                    <Feather
+                                        name={settled ? 'check-circle' : 'circle'}
+                                        size={12}
+                                        color={active ? '#FFFEEA' : settled ? '#16A34A' : '#874E3B'}
+                                    />
+                                    <ThemedText style={[styles.billTabText, active && styles.billTabTextActive]}>
+                                        Bill {bill.index} · ₱{bill.amount.toFixed(2)}
+                                    </ThemedText>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ThemedView>
+                )}
+
+                {/* Payment / Tenders */}
+                {bills.filter(bill => bill.id === activeBillId).map(bill => (
+                    <PaymentSection
+                        key={bill.id}
+                        total={bill.amount}
+                        tenders={billTenders[bill.id] || []}
+                        onChangeTenders={tenders => onChangeBillTenders(bill.id, tenders)}
+                        accountCredit={accountCredit}
+                        disabled={loading || isProcessingOrder}
+                    />
+                ))}
+                {cart.length > 0 && (!openTab || total > 0) && bills.length === 0 && (
+                    <PaymentSection
+                        total={total}
+                        tenders={tenders}
+                        onChangeTenders={setTenders}
+                        accountCredit={accountCredit}
+                        disabled={loading || isProcessingOrder}
+                    />
+                )}
+
                 {/* Action Buttons */}
                 <ThemedView style={styles.actionButtons}>
                     <TouchableOpacity
@@ -271,13 +736,22 @@ const OrderSummaryModal = ({
                             {isProcessingOrder ? 'Processing...' : 'Cancel & Reset'}
                         </ThemedText>
                     </TouchableOpacity>
+                    {!openTab && (
+                        <TouchableOpacity
+                            style={styles.cancelButton}
+                            onPress={onPark}
+                            disabled={loading || isProcessingOrder || cart.length === 0}
+                        >
+                            <ThemedText style={styles.cancelButtonText}>Park Cart</ThemedText>
+                        </TouchableOpacity>
+                    )}
                     <TouchableOpacity
                         style={[styles.placeOrderButton, (loading || isProcessingOrder) && styles.placeOrderButtonDisabled]}
                         onPress={placeOrder}
                         disabled={loading || isProcessingOrder || cart.length === 0 || !orderType}
                     >
                         <ThemedText style={styles.placeOrderButtonText}>
-                            {isProcessingOrder ? 'Processing...' : 'Place Order'}
+                            {isProcessingOrder ? 'Processing...' : openTab ? 'Add to Order' : 'Place Order'}
                         </ThemedText>
                     </TouchableOpacity>
                 </ThemedView>
@@ -288,6 +762,9 @@ const OrderSummaryModal = ({
 
 export default function PosScreen() {
     const [searchQuery, setSearchQuery] = useState('');
+    const [scanMode, setScanMode] = useState(false);
+    const [showCameraScanner, setShowCameraScanner] = useState(false);
+    const [scanMessage, setScanMessage] = useState('');
     const [cart, setCart] = useState<MenuItem[]>([]);
     const [selectedCategory, setSelectedCategory] = useState<string>('All');
     const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -299,13 +776,40 @@ export default function PosScreen() {
     const [currentReceipt, setCurrentReceipt] = useState<ReceiptData | null>(null);
     const [isProcessingOrder, setIsProcessingOrder] = useState(false);
     const [spinAnim] = useState(new Animated.Value(0));
-    const [cupCount, setCupCount] = useState(0);
     const [orderType, setOrderType] = useState<'dine-in' | 'take-out' | null>(null);
     const [isBluetoothConnected, setIsBluetoothConnected] = useState<boolean>(false);
     const [bluetoothDeviceName, setBluetoothDeviceName] = useState<string>('');
     const [bluetoothConnection, setBluetoothConnection] = useState<BluetoothConnection | null>(null);
     const [isOrderSummaryVisible, setIsOrderSummaryVisible] = useState(false);
     const [notes, setNotes] = useState<string>(''); // ADDED: notes state
+    const [tenders, setTenders] = useState<Tender[]>([]);
+    const [discounts, setDiscounts] = useState<OrderDiscount[]>([]);
+    const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [discountModalKind, setDiscountModalKind] = useState<DiscountKind | null>(null);
+    const [discountLine, setDiscountLine] = useState<MenuItem | null>(null);
+    const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+    const [bundleItem, setBundleItem] = useState<MenuItem | null>(null);
+    const [taxProfile, setTaxProfile] = useState<TaxProfile>(DEFAULT_TAX_PROFILE);
+    const [openTab, setOpenTab] = useState<OpenTab | null>(null);
+    const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+    const [showParkedCarts, setShowParkedCarts] = useState(false);
+    const [floorTables, setFloorTables] = useState<DiningTable[]>([]);
+    const [tableStatuses, setTableStatuses] = useState<Record<string, TableStatus>>({});
+    const [table, setTable] = useState<DiningTable | null>(null);
+    const [showTablePicker, setShowTablePicker] = useState(false);
+    const [bills, setBills] = useState<OrderBill[]>([]);
+    const [splitMode, setSplitMode] = useState<BillSplitMode>('items');
+    const [activeBillId, setActiveBillId] = useState<string | null>(null);
+    const [billTenders, setBillTenders] = useState<Record<string, Tender[]>>({});
+    const [showSplitBill, setShowSplitBill] = useState(false);
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+    const [loyaltyBalance, setLoyaltyBalance] = useState<LoyaltyBalance | null>(null);
+    const [creditBalance, setCreditBalance] = useState<number | null>(null);
+    const [customer, setCustomer] = useState<Customer | null>(null);
+    const [repeatCustomerId, setRepeatCustomerId] = useState<string | null>(null);
+    const params = useLocalSearchParams();
 
     // Initialize Firebase
     const db = getFirestore(app);
@@ -399,7 +903,10 @@ export default function PosScreen() {
                         status: true,
                         isOffline: true,
                         sales: item.sales || 0,
-                        cupName: item.cupName || ''
+                        cupName: item.cupName || '',
+                        modifierGroups: normalizeModifierGroups(item.modifierGroups),
+                        bundleSlots: normalizeBundleSlots(item.bundleSlots),
+                        recipe: normalizeRecipe(item.recipe)
                     }));
 
                 setMenuItems(posItems);
@@ -430,7 +937,10 @@ export default function PosScreen() {
                     isOffline: false,
                     firebaseId: doc.id,
                     sales: Number(data.sales || 0),
-                    cupName: data.cupName || ''
+                    cupName: data.cupName || '',
+                    modifierGroups: normalizeModifierGroups(data.modifierGroups),
+                    bundleSlots: normalizeBundleSlots(data.bundleSlots),
+                    recipe: normalizeRecipe(data.recipe)
                 };
             });
 
@@ -452,7 +962,10 @@ export default function PosScreen() {
                     status: true,
                     isOffline: true,
                     sales: item.sales || 0,
-                    cupName: item.cupName || ''
+                    cupName: item.cupName || '',
+                    modifierGroups: normalizeModifierGroups(item.modifierGroups),
+                    bundleSlots: normalizeBundleSlots(item.bundleSlots),
+                    recipe: normalizeRecipe(item.recipe)
                 }));
 
             setMenuItems(offlinePosItems);
@@ -559,13 +1072,17 @@ export default function PosScreen() {
         console.log('🔄 Resetting POS state...');
         setCart([]);
         setCustomerName('');
+        setCustomer(null);
         setNotes(''); // ADDED: reset notes
-        setCupCount(0);
+        setTenders([]);
+        setDiscounts([]);
         setOrderType(null);
+        setTable(null);
         setSearchQuery('');
         setSelectedCategory('All');
         setShowReceiptModal(false);
         setCurrentReceipt(null);
+        setOpenTab(null);
         console.log('✅ POS state reset complete');
     };
 
@@ -574,9 +1091,16 @@ export default function PosScreen() {
             console.log('📍 POS Screen focused - loading data and resetting state');
             loadMenuItems();
             loadCategories();
+            loadPromoCodes().then(setPromoCodes);
+            loadPromotions().then(setPromotions);
+            loadTaxProfile().then(setTaxProfile);
+            getParkedCarts().then(setParkedCarts);
+            loadFloorLayout().then(layout => setFloorTables(layout.tables));
+            loadCustomers().then(setCustomers);
+            loadLoyaltySettings().then(setLoyaltySettings);
 
-            // CHECK AND RESET ORDER COUNTER IF NEW DAY
-            checkAndResetOrderCounter();
+            // Orders numbered offline get their shared sequence number once we're back online
+            reconcileOrderNumbers();
 
             // RESET STATE WHEN SCREEN GETS FOCUS
             resetPOSState();
@@ -586,21 +1110,245 @@ export default function PosScreen() {
                 console.log('📍 POS Screen unfocused - clearing cart');
                 setCart([]);
                 setCustomerName('');
+                setCustomer(null);
                 setNotes(''); // ADDED: reset notes on unfocus
-                setCupCount(0);
+                setTenders([]);
+                setDiscounts([]);
+                setOpenTab(null);
                 setIsOrderSummaryVisible(false);
             };
         }, [])
     );
 
+    // "Add Items" on the order status screen opens the POS on that order; openedAt makes every tap count
+    useEffect(() => {
+        const tabKey = typeof params.openTab === 'string' ? params.openTab : '';
+        if (!tabKey) return;
+
+        loadOpenTab(tabKey).then(tab => {
+            if (!tab || tab.status !== 'unpaid') {
+                Alert.alert('Order Not Open', 'Items can only be added to orders that are still being prepared.');
+                return;
+            }
+            console.log('📂 Adding items to open order:', tab.orderId);
+            setCart([]);
+            setTenders([]);
+            setDiscounts([]);
+            setNotes('');
+            setOpenTab(tab);
+            setOrderType(tab.orderType);
+            setCustomerName(tab.customerName);
+        });
+    }, [params.openTab, params.openedAt]);
+
+    // The linked customer's stamps and points, from their loyalty ledger, and what they owe on account
+    useEffect(() => {
+        setLoyaltyBalance(null);
+        setCreditBalance(null);
+        if (!customer) return;
+
+        let current = true;
+        loadLoyaltyLedger(customer.id).then(entries => {
+            if (current) setLoyaltyBalance(getLoyaltyBalance(entries));
+        });
+        if (getCreditLimit(customer) > 0) {
+            loadCreditLedger(customer.id).then(entries => {
+                if (current) setCreditBalance(getCreditBalance(entries));
+            });
+        }
+        return () => {
+            current = false;
+        };
+    }, [customer]);
+
+    // "Repeat Last Order" on the customers screen opens the POS for that customer
+    useEffect(() => {
+        if (typeof params.repeatCustomer === 'string' && params.repeatCustomer) {
+            setRepeatCustomerId(params.repeatCustomer);
+        }
+    }, [params.repeatCustomer, params.openedAt]);
+
+    // Waits for the menu, since the repeated lines are priced and stock-checked against it
+    useEffect(() => {
+        if (!repeatCustomerId || menuItems.length === 0) return;
+        setRepeatCustomerId(null);
+
+        loadCustomers().then(loaded => {
+            setCustomers(loaded);
+            const repeatFor = loaded.find(existing => existing.id === repeatCustomerId);
+            if (repeatFor) {
+                setDiscounts(prev => prev.filter(discount => !isLoyaltyDiscount(discount)));
+                setCustomer(repeatFor);
+                setCustomerName(repeatFor.name);
+                repeatLastOrder(repeatFor, menuItems, promotions);
+            }
+        });
+    }, [repeatCustomerId, menuItems, promotions]);
+
     const filteredItems = menuItems.filter(item =>
         item.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
         (selectedCategory === 'All' || item.category === selectedCategory) &&
         item.status === true
     );
 
-    const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const total = subtotal;
+    const orderTotals = computeOrderTotals(
+        cart.map(item => ({
+            lineId: getLineId(item),
+            code: item.code,
+            category: item.category,
+            price: item.price,
+            quantity: item.quantity
+        })),
+        discounts,
+        orderType,
+        taxProfile
+    );
+    const discountResult = orderTotals.discount;
+    const subtotal = orderTotals.subtotal;
+    const total = orderTotals.total;
+
+    // Adding to an open tab: the order is priced again with the cart and only the difference is paid now
+    const tabTotals = openTab
+        ? computeTabTotals(openTab, cart.map(item => ({ lineId: `${getLineId(item)}_new`, item })), taxProfile)
+        : null;
+    const amountToPay = tabTotals ? tabTotals.amountDue : total;
+    // "Charge" is offered for new orders of a customer with a credit limit; null while their balance loads
+    const accountCredit = !openTab && customer && getCreditLimit(customer) > 0
+        ? creditBalance === null ? null : getAvailableCredit(customer, creditBalance)
+        : undefined;
+
+    // A split only holds for the cart it was made from, so any change to the lines or the total undoes it
+    useEffect(() => {
+        setBills([]);
+        setBillTenders({});
+        setActiveBillId(null);
+    }, [cart, total]);
+
+    const splitLines: SplitLine[] = cart.map(item => ({
+        lineId: getLineId(item),
+        name: [item.name, getLineSummary(item)].filter(Boolean).join(' - '),
+        quantity: item.quantity,
+        amount: roundMoney(item.price * item.quantity - (discountResult.lineDiscounts[getLineId(item)] || 0))
+    }));
+
+    const applySplit = (mode: BillSplitMode, splitBills: OrderBill[]) => {
+        setSplitMode(mode);
+        setBills(splitBills);
+        setBillTenders({});
+        setActiveBillId(splitBills[0]?.id || null);
+        setTenders([]);
+        setShowSplitBill(false);
+        console.log('✂️ Bill split', mode, 'into', splitBills.map(bill => bill.amount).join(' / '));
+    };
+
+    const clearSplit = () => {
+        setBills([]);
+        setBillTenders({});
+        setActiveBillId(null);
+    };
+
+    // Cups are only used for take-out; each line uses the cup of its item (or size modifier), bundles those of their components
+    const cupUsage: CupUsage = orderType === 'take-out' ? computeCupUsage(expandBundleLines(cart)) : {};
+    const cupCount = getTotalCups(cupUsage);
+
+    const openDiscountModal = (kind: DiscountKind, item?: MenuItem) => {
+        setDiscountLine(item || null);
+        setDiscountModalKind(kind);
+    };
+
+    // Only one Senior/PWD and one promo per order; a new one replaces the old
+    const applyDiscount = (discount: OrderDiscount) => {
+        setDiscounts(prev => {
+            const remaining = prev.filter(existing => {
+                if (isStatutoryDiscount(discount)) return !isStatutoryDiscount(existing);
+                if (discount.kind === 'promo') return existing.kind !== 'promo';
+                if (discount.kind === 'line') return existing.lineId !== discount.lineId;
+                return true;
+            });
+            return [...remaining, discount];
+        });
+        // Amounts already tendered may no longer match the new total
+        setTenders([]);
+        setDiscountModalKind(null);
+        setDiscountLine(null);
+        console.log('🏷️ Discount applied:', describeDiscount(discount));
+    };
+
+    const removeDiscount = (id: string) => {
+        setDiscounts(prev => prev.filter(discount => discount.id !== id));
+        setTenders([]);
+    };
+
+    // A full stamp card takes the cheapest stamp-earning unit in the cart off the bill
+    const redeemStampReward = () => {
+        const reward = buildStampReward(cart.map(item => ({
+            lineId: getLineId(item),
+            name: item.name,
+            price: item.price,
+            category: item.category
+        })), loyaltySettings);
+        if (!reward) {
+            Alert.alert('No Eligible Item', 'Nothing in the cart can be taken free with the stamp card.');
+            return;
+        }
+        applyDiscount(reward);
+    };
+
+    const redeemPoints = () => {
+        if (!loyaltyBalance) return;
+        const redemption = buildPointsRedemption(loyaltyBalance, discountResult.net, loyaltySettings);
+        if (!redemption) {
+            Alert.alert('Points', `At least ${loyaltySettings.minPointsToRedeem} points are needed to redeem.`);
+            return;
+        }
+        applyDiscount(redemption);
+    };
+
+    // Stamps and points belong to the linked customer, so their redemptions go when the customer does
+    const dropLoyaltyDiscounts = () => {
+        setDiscounts(prev => prev.filter(discount => !isLoyaltyDiscount(discount)));
+    };
+
+    const isOutOfStock = (item: MenuItem): boolean => {
+        // Bundles have no stock of their own; the menu stock already has the cart taken out
+        if (isBundle(item)) return getBundleAvailability(item.bundleSlots || [], menuItems) === 0;
+
+        const currentStock = menuItems.find(menuItem => menuItem.id === item.id)?.stocks || 0;
+        const currentInCart = cart
+            .filter(cartItem => cartItem.id === item.id)
+            .reduce((sum, cartItem) => sum + cartItem.quantity, 0);
+        return currentInCart >= currentStock;
+    };
+
+    // Scans report back as a line in the scan bar or camera view instead of alerts, so the
+    // cashier can keep scanning
+    const addScannedItem = (code: string): string => {
+        const item = findItemByCode(menuItems.filter(menuItem => menuItem.status), code);
+        if (!item) return `No item with code ${code}`;
+        if (!orderType) return 'Select Dine In or Take Out first';
+        if (isOutOfStock(item)) return `No more ${item.name} available`;
+
+        if (isBundle(item)) {
+            setShowCameraScanner(false);
+            setBundleItem(item);
+            return `Choose items for ${item.name}`;
+        }
+
+        if (item.modifierGroups && item.modifierGroups.length > 0) {
+            setShowCameraScanner(false);
+            setModifierItem(item);
+            return `Choose options for ${item.name}`;
+        }
+
+        addLineToCart(item, []);
+        return `Added ${item.name}`;
+    };
+
+    const handleScan = (code: string): string => {
+        const result = addScannedItem(code);
+        setScanMessage(result);
+        return result;
+    };
 
     const addToCart = (item: MenuItem) => {
         if (!orderType) {
@@ -608,17 +1356,26 @@ export default function PosScreen() {
             return;
         }
 
-        const currentStock = menuItems.find(menuItem => menuItem.id === item.id)?.stocks || 0;
-        const currentInCart = cart.find(cartItem => cartItem.id === item.id)?.quantity || 0;
-
-        if (currentInCart >= currentStock) {
+        if (isOutOfStock(item)) {
             Alert.alert('Out of Stock', `No more ${item.name} available!`);
             return;
         }
 
-        // Check if item requires cup - ONLY FOR TAKE OUT ORDERS
-        const requiresCup = orderType === 'take-out' && checkItemRequiresCup(item);
+        if (isBundle(item)) {
+            setBundleItem(item);
+            return;
+        }
 
+        // Items with modifier groups pick their options first
+        if (item.modifierGroups && item.modifierGroups.length > 0) {
+            setModifierItem(item);
+            return;
+        }
+
+        addLineToCart(item, []);
+    };
+
+    const addLineToCart = (item: MenuItem, modifiers: SelectedModifier[]) => {
         // Update stocks
         setMenuItems(prev => prev.map(menuItem =>
             menuItem.id === item.id
@@ -627,92 +1384,59 @@ export default function PosScreen() {
         ));
 
         // Add to cart
-        setCart(prev => {
-            const existing = prev.find(cartItem => cartItem.id === item.id);
-            if (existing) {
-                return prev.map(cartItem =>
-                    cartItem.id === item.id
-                        ? { ...cartItem, quantity: cartItem.quantity + 1 }
-                        : cartItem
-                );
-            }
-            return [...prev, { ...item, quantity: 1 }];
-        });
+        setCart(prev => addCartLine(prev, item, modifiers, 1, promotions));
+    };
 
-        // If item requires cup AND it's take out, increment cup count
-        if (requiresCup) {
-            setCupCount(prev => prev + 1);
-        }
+    const addBundleToCart = (item: MenuItem, components: BundleComponent[]) => {
+        setMenuItems(prev => takeLineStock(prev, { ...item, bundle: components }, 1));
+        setCart(prev => addBundleLine(prev, item, components, 1, promotions));
     };
 
-    const removeFromCart = (id: string) => {
-        const cartItem = cart.find(item => item.id === id);
-        const menuItem = menuItems.find(item => item.id === id);
+    const removeFromCart = (lineId: string) => {
+        const cartItem = cart.find(item => getLineId(item) === lineId);
 
         if (cartItem) {
-            const requiresCup = menuItem ? (orderType === 'take-out' && checkItemRequiresCup(menuItem)) : false;
-
-            // Update cup count if item requires cup and it's take out
-            if (requiresCup) {
-                setCupCount(prev => Math.max(0, prev - cartItem.quantity));
-            }
-
-            setMenuItems(prev => prev.map(menuItem =>
-                menuItem.id === id
-                    ? { ...menuItem, stocks: menuItem.stocks + cartItem.quantity }
-                    : menuItem
-            ));
+            setMenuItems(prev => takeLineStock(prev, cartItem, -cartItem.quantity));
         }
-        setCart(prev => prev.filter(item => item.id !== id));
+        setCart(prev => prev.filter(item => getLineId(item) !== lineId));
+        setDiscounts(prev => prev.filter(discount => discount.lineId !== lineId));
     };
 
-    const updateQuantity = (id: string, newQuantity: number) => {
-        const cartItem = cart.find(item => item.id === id);
-        const menuItem = menuItems.find(item => item.id === id);
+    const updateQuantity = (lineId: string, newQuantity: number) => {
+        const cartItem = cart.find(item => getLineId(item) === lineId);
+        const menuItem = cartItem ? menuItems.find(item => item.id === cartItem.id) : undefined;
 
         if (!cartItem || !menuItem) return;
 
         const quantityDifference = newQuantity - cartItem.quantity;
-        const requiresCup = orderType === 'take-out' && checkItemRequiresCup(menuItem);
 
         if (newQuantity === 0) {
-            removeFromCart(id);
+            removeFromCart(lineId);
             return;
         }
 
-        if (quantityDifference > 0 && menuItem.stocks < quantityDifference) {
+        if (quantityDifference > 0 && !hasLineStock(menuItems, cartItem, quantityDifference)) {
             Alert.alert('Out of Stock', 'Not enough stock available!');
             return;
         }
 
-        setMenuItems(prev => prev.map(item =>
-            item.id === id
-                ? { ...item, stocks: item.stocks - quantityDifference }
-                : item
-        ));
+        setMenuItems(prev => takeLineStock(prev, cartItem, quantityDifference));
 
         setCart(prev => prev.map(item =>
-            item.id === id ? { ...item, quantity: newQuantity } : item
+            getLineId(item) === lineId ? { ...item, quantity: newQuantity } : item
         ));
-
-        // Update cup count if item requires cup and it's take out
-        if (requiresCup) {
-            setCupCount(prev => prev + quantityDifference);
-        }
     };
 
     const clearCart = () => {
         cart.forEach(cartItem => {
-            setMenuItems(prev => prev.map(menuItem =>
-                menuItem.id === cartItem.id
-                    ? { ...menuItem, stocks: menuItem.stocks + cartItem.quantity }
-                    : menuItem
-            ));
+            setMenuItems(prev => takeLineStock(prev, cartItem, -cartItem.quantity));
         });
         setCart([]);
         setCustomerName('');
+        setCustomer(null);
         setNotes(''); // ADDED: clear notes
-        setCupCount(0);
+        setTenders([]);
+        setDiscounts([]);
     };
 
     // Function to reset everything after order completion
@@ -720,9 +1444,12 @@ export default function PosScreen() {
         console.log('🔄 Resetting after order completion...');
         setCart([]);
         setCustomerName('');
+        setCustomer(null);
         setNotes(''); // ADDED: reset notes after order
-        setCupCount(0);
+        setTenders([]);
+        setDiscounts([]);
         setOrderType(null);
+        setTable(null);
         setShowReceiptModal(false);
         setCurrentReceipt(null);
         setIsOrderSummaryVisible(false);
@@ -732,106 +1459,253 @@ export default function PosScreen() {
         console.log('✅ Reset after order complete');
     };
 
-    // Update item stocks and sales in Firebase
-    const updateItemStocksAndSales = async (itemId: string, newStocks: number, quantitySold: number) => {
-        try {
-            const connectionMode = await getConnectionMode();
+    // Dine-in asks for a table once a floor layout exists; without one it works as before
+    const chooseDineIn = async () => {
+        if (floorTables.length === 0) {
+            setOrderType('dine-in');
+            return;
+        }
+        setShowTablePicker(true);
+        setTableStatuses(getTableStatuses(floorTables, await loadOpenOrders()));
+    };
 
-            if (connectionMode === 'online') {
-                const item = menuItems.find(item => item.id === itemId);
+    const selectTable = (picked: DiningTable | null) => {
+        setTable(picked);
+        setOrderType('dine-in');
+        setShowTablePicker(false);
+    };
 
-                if (item && item.firebaseId) {
-                    const itemDoc = doc(db, 'items', item.firebaseId);
-                    const currentSales = item.sales || 0;
+    const leaveOpenTab = () => {
+        setOpenTab(null);
+        setOrderType(null);
+        setIsOrderSummaryVisible(false);
+        router.setParams({ openTab: '' });
+    };
 
-                    await updateDoc(itemDoc, {
-                        stocks: newStocks,
-                        sales: currentSales + quantitySold,
-                        updated_at: new Date().toISOString()
-                    });
+    const cancelOpenTab = () => {
+        clearCart();
+        leaveOpenTab();
+    };
 
-                    console.log('✅ Updated Firebase item:', item.name, {
-                        newStocks: newStocks,
-                        sales: currentSales + quantitySold
-                    });
-                }
-            }
+    const addToOpenTab = async (tab: OpenTab) => {
+        if (cart.length === 0 || !tabTotals) {
+            Alert.alert('Empty Cart', 'Please add items to cart first!');
+            return;
+        }
+
+        const paymentError = amountToPay > 0 ? validateTenders(amountToPay, tenders) : null;
+        if (paymentError) {
+            Alert.alert('Payment Required', paymentError);
+            return;
+        }
+
+        setLoading(true);
+        setIsProcessingOrder(true);
+        try {
+            const addition = buildOrderAddition(
+                tab,
+                cart,
+                tabTotals.totals,
+                amountToPay,
+                buildPaymentSummary(amountToPay, amountToPay > 0 ? tenders : [])
+            );
+            const saved = await processOrderAddition(addition);
+            printStationTickets({
+                orderId: tab.orderId,
+                customerName: tab.customerName,
+                orderType: tab.orderType,
+                tableName: tab.tableName,
+                notes: notes.trim(),
+                lines: cart,
+                addition: true
+            }).catch(error => console.error('❌ Error queueing station tickets:', error));
+
+            Alert.alert(
+                'Items Added',
+                `${cart.length} item(s) added to order ${tab.orderId}.` +
+                (addition.changeDue > 0 ? ` Change: ₱${addition.changeDue.toFixed(2)}.` : '') +
+                (saved.synced ? '' : ' It will sync when the connection is back.')
+            );
+
+            setCart([]);
+            setCustomerName('');
+            setCustomer(null);
+            setTenders([]);
+            leaveOpenTab();
+            loadMenuItems();
+            router.push('/orderStatus');
         } catch (error) {
-            console.error('❌ Error updating Firebase item:', error);
+            console.error('❌ Error adding items to order:', error);
+            Alert.alert('Error', 'The items could not be added to the order. Please try again.');
+        } finally {
+            setLoading(false);
+            setIsProcessingOrder(false);
         }
     };
 
-    // Function to generate sequential order numbers that reset at 12 AM
-    const generateSequentialOrderNumber = async (): Promise<string> => {
-        try {
-            const syncService = OfflineSyncService.getInstance();
+    // Puts the cart aside without placing it; its stock goes back to the menu until it is recalled
+    const handleParkCart = async () => {
+        if (cart.length === 0) return;
+
+        await parkCart({
+            customerName: customerName.trim(),
+            ...(customer ? { customerId: customer.id } : {}),
+            notes,
+            orderType,
+            ...(orderType === 'dine-in' && table ? { tableId: table.id, tableName: table.name } : {}),
+            items: cart,
+            discounts
+        });
+        clearCart();
+        setOrderType(null);
+        setTable(null);
+        setIsOrderSummaryVisible(false);
+        setParkedCarts(await getParkedCarts());
+    };
 
-            // Get current date for daily reset
-            const now = new Date();
-            const today = now.toDateString();
+    const recallParkedCart = async (parked: ParkedCart) => {
+        if (cart.length > 0) {
+            Alert.alert('Cart Not Empty', 'Place or park the current cart first.');
+            return;
+        }
 
-            // Get last order info from local storage
-            const lastOrderInfo = await syncService.getItem('lastOrderInfo');
+        // Parked lines keep what the order needs; stock and status come from the menu as it is now
+        const lines = parked.items.flatMap(line => {
+            const item = menuItems.find(menuItem => menuItem.id === line.id);
+            return item ? [{ ...item, ...line, firebaseId: line.firebaseId ?? item.firebaseId }] : [];
+        });
 
-            let lastOrderNumber = 0;
-            let lastOrderDate = '';
+        // Stock may have been sold while the cart was parked
+        const afterRecall = lines.reduce<MenuItem[]>(
+            (items, line) => takeLineStock(items, line, line.quantity),
+            menuItems
+        );
+        const shortItems = [
+            ...parked.items.filter(line => !menuItems.some(item => item.id === line.id)),
+            ...lines.filter(line =>
+                getLineStockUse(line).some(use => (findBundleItem(afterRecall, use.itemId)?.stocks ?? -1) < 0)
+            )
+        ];
+        if (shortItems.length > 0) {
+            const names = Array.from(new Set(shortItems.map(line => line.name)));
+            Alert.alert('Not Enough Stock', `Not enough stock left for: ${names.join(', ')}`);
+            return;
+        }
 
-            if (lastOrderInfo) {
-                const info = JSON.parse(lastOrderInfo);
-                lastOrderNumber = info.number || 0;
-                lastOrderDate = info.date || '';
-            }
+        setMenuItems(afterRecall);
+        setCart(lines);
+        setCustomerName(parked.customerName);
+        setCustomer(customers.find(existing => existing.id === parked.customerId) || null);
+        setNotes(parked.notes);
+        setDiscounts(parked.discounts);
+        setOrderType(parked.orderType);
+        setTable(floorTables.find(floorTable => floorTable.id === parked.tableId) || null);
+        setTenders([]);
+
+        await removeParkedCart(parked.id);
+        setParkedCarts(await getParkedCarts());
+        setShowParkedCarts(false);
+        setIsOrderSummaryVisible(true);
+    };
 
-            // Reset counter if it's a new day
-            if (lastOrderDate !== today) {
-                lastOrderNumber = 0;
-            }
+    // Typing over a linked customer's name unlinks the order from that profile
+    const changeCustomerName = (name: string) => {
+        setCustomerName(name);
+        if (customer && normalizeCustomerName(name) !== normalizeCustomerName(customer.name)) {
+            setCustomer(null);
+            dropLoyaltyDiscounts();
+        }
+    };
 
-            // Increment order number
-            const newOrderNumber = lastOrderNumber + 1;
+    const selectCustomer = (selected: Customer) => {
+        if (customer?.id !== selected.id) dropLoyaltyDiscounts();
+        setCustomer(selected);
+        setCustomerName(selected.name);
+    };
 
-            // Save updated order info
-            await syncService.setItem('lastOrderInfo', JSON.stringify({
-                number: newOrderNumber,
-                date: today
-            }));
+    const clearCustomer = () => {
+        setCustomer(null);
+        dropLoyaltyDiscounts();
+    };
 
-            // Format order number with leading zeros (001, 002, etc.)
-            return `ORD-${newOrderNumber.toString().padStart(2, '0')}`;
+    const quickCreateCustomer = async () => {
+        if (!customerName.trim()) return;
+        const created = await saveCustomer(createCustomer(customerName));
+        setCustomers(prev => [...prev, created]);
+        selectCustomer(created);
+    };
 
-        } catch (error) {
-            console.error('❌ Error generating sequential order number:', error);
-            // Fallback to timestamp-based ID
-            return `ORD-${Date.now()}`;
+    // Refills the cart with the customer's newest order at today's menu prices; lines no longer on the
+    // menu or short of stock are left out (or cut down) and listed
+    const repeatLastOrder = async (selected: Customer, menu: MenuItem[], menuPromotions: Promotion[]) => {
+        const lastOrder = getLastOrder(await loadCustomerOrders(selected));
+        if (!lastOrder) {
+            Alert.alert('No Past Orders', `${selected.name} has no orders to repeat yet.`);
+            return;
         }
-    };
 
-    // Function to check if we need to reset the order counter
-    const checkAndResetOrderCounter = async (): Promise<void> => {
-        try {
-            const syncService = OfflineSyncService.getInstance();
-            const lastOrderInfo = await syncService.getItem('lastOrderInfo');
-
-            if (lastOrderInfo) {
-                const info = JSON.parse(lastOrderInfo);
-                const lastDate = info.date || '';
-                const today = new Date().toDateString();
-
-                // Reset if it's a new day
-                if (lastDate !== today) {
-                    await syncService.setItem('lastOrderInfo', JSON.stringify({
-                        number: 0,
-                        date: today
-                    }));
-                    console.log('🔄 Order counter reset for new day:', today);
+        setOrderType(current => current || lastOrder.orderType || 'take-out');
+
+        let stockLeft = menu;
+        const skipped: string[] = [];
+        lastOrder.items
+            .filter(line => !line.cancelled && !line.refunded)
+            .forEach(line => {
+                const menuItem = menu.find(item => item.id === line.id || (!!line.firebaseId && item.id === line.firebaseId));
+                if (!menuItem || menuItem.status !== true) {
+                    skipped.push(line.name);
+                    return;
                 }
-            }
-        } catch (error) {
-            console.error('❌ Error checking order counter reset:', error);
+
+                // Bundles are picked again from today's definition; a pick that no longer exists leaves the line out
+                let components: BundleComponent[] | undefined;
+                if (isBundle(menuItem)) {
+                    const slots = menuItem.bundleSlots || [];
+                    const picks: Record<string, string> = {};
+                    (line.bundle || []).forEach((component: BundleComponent) => {
+                        picks[component.slotId] = component.optionId;
+                    });
+                    components = buildBundleComponents(slots, picks, menu);
+                    if (components.length !== slots.length) {
+                        skipped.push(line.name);
+                        return;
+                    }
+                }
+
+                const stockLine: MenuItem = { ...menuItem, bundle: components };
+                const wanted = Number(line.quantity) || 0;
+                let quantity = Math.max(0, wanted);
+                while (quantity > 0 && !hasLineStock(stockLeft, stockLine, quantity)) quantity--;
+                stockLeft = takeLineStock(stockLeft, stockLine, quantity);
+                if (quantity < wanted) {
+                    skipped.push(`${line.name} (${wanted - quantity} short)`);
+                }
+                if (quantity > 0) {
+                    setMenuItems(prev => takeLineStock(prev, stockLine, quantity));
+                    setCart(prev => components
+                        ? addBundleLine(prev, menuItem, components, quantity, menuPromotions)
+                        : addCartLine(prev, menuItem, line.modifiers || [], quantity, menuPromotions));
+                }
+            });
+
+        console.log('🔁 Repeating order', lastOrder.orderId, 'for', selected.name);
+        setIsOrderSummaryVisible(true);
+        if (skipped.length > 0) {
+            Alert.alert('Some Items Left Out', `Not available now: ${skipped.join(', ')}`);
         }
     };
 
+    const discardParkedCart = async (parked: ParkedCart) => {
+        await removeParkedCart(parked.id);
+        setParkedCarts(await getParkedCarts());
+    };
+
     const placeOrder = async () => {
+        if (openTab) {
+            await addToOpenTab(openTab);
+            return;
+        }
+
         if (!orderType) {
             Alert.alert('Select Order Type', 'Please select Dine In or Take Out first!');
             return;
@@ -847,282 +1721,159 @@ export default function PosScreen() {
             return;
         }
 
+        const paymentError = bills.length > 0
+            ? validateBillTenders(bills, billTenders)
+            : validateTenders(total, tenders);
+        if (paymentError) {
+            Alert.alert('Payment Required', paymentError);
+            return;
+        }
+        const paidBills = bills.length > 0 ? settleBills(bills, billTenders) : [];
+        const paymentSummary = paidBills.length > 0
+            ? combineBillPayments(paidBills)
+            : buildPaymentSummary(total, tenders);
+        const chargeError = validateCharge(customer, creditBalance, getChargedAmount(paymentSummary.payments));
+        if (chargeError) {
+            Alert.alert('Cannot Charge to Account', chargeError);
+            return;
+        }
+
         setLoading(true);
         setIsProcessingOrder(true);
+        let committedReceipt: ReceiptData | null = null;
         try {
             const syncService = OfflineSyncService.getInstance();
             const connectionMode = await getConnectionMode();
-            const orderNumber = await generateSequentialOrderNumber();
+            const orderNumber = await allocateOrderNumber();
+
+            const idempotencyKey = createOrderKey();
+            const ingredientUsage = computeIngredientUsage(expandBundleLines(cart));
 
             const receiptData: ReceiptData = {
-                orderId: orderNumber,
+                orderId: orderNumber.orderId,
+                sequence: orderNumber.sequence,
+                idempotencyKey: idempotencyKey,
+                syncState: 'draft',
                 customerName: customerName.trim(),
+                ...(customer ? { customerId: customer.id } : {}),
                 items: [...cart],
                 subtotal: subtotal,
                 total: total,
                 timestamp: new Date().toISOString(),
                 status: 'unpaid',
-                cupsUsed: orderType === 'take-out' ? cupCount : 0,
+                cupsUsed: cupCount,
+                cupsBreakdown: cupUsage,
+                ingredientUsage: ingredientUsage,
                 orderType: orderType,
-                notes: notes.trim() || '' // ADDED: include notes in receipt data
+                ...(orderType === 'dine-in' && table ? { tableId: table.id, tableName: table.name } : {}),
+                notes: notes.trim() || '', // ADDED: include notes in receipt data
+                ...paymentSummary,
+                ...(paidBills.length > 0 ? { splitMode, bills: paidBills } : {}),
+                discounts: discountResult.discounts,
+                discountTotal: discountResult.discountTotal,
+                vatableSales: orderTotals.tax.vatableSales,
+                vatAmount: orderTotals.tax.vatAmount,
+                vatExemptSales: orderTotals.tax.vatExemptSales,
+                serviceCharge: orderTotals.tax.serviceCharge
             };
+            if (customer && loyaltySettings.enabled && loyaltyBalance) {
+                receiptData.loyalty = buildLoyaltySnapshot(loyaltyBalance, receiptData, loyaltySettings);
+            }
 
             console.log('🔄 [FIREBASE ORDER] Starting order process...');
             console.log('🌐 Current Mode:', connectionMode === 'offline' ? 'OFFLINE' : 'ONLINE');
+            console.log('🔑 Idempotency key:', idempotencyKey);
             console.log('🥤 Total cups used in this order:', cupCount);
             console.log('📝 Order Type:', orderType);
             console.log('📝 Order Notes:', notes); // ADDED: log notes
+            console.log('💵 Payments:', paymentSummary.payments.map(p => `${p.type}:${p.amount}`).join(', '), 'Change:', paymentSummary.changeDue);
 
-            // STEP 1: ALWAYS SAVE TO LOCAL STORAGE FIRST
-            console.log('💾 Step 1: Saving to LOCAL storage...');
+            // STEP 1: COMMIT LOCALLY - save the receipt and queue it for Firestore. From here on the sale
+            // stands; every later attempt (now or from the offline queue) reuses the same idempotency key
+            console.log('💾 Step 1: Committing order to LOCAL storage...');
+            receiptData.syncState = 'committed';
             const existingReceipts = await syncService.getItem('pendingReceipts');
             const receipts = existingReceipts ? JSON.parse(existingReceipts) : [];
             receipts.push(receiptData);
             await syncService.setItem('pendingReceipts', JSON.stringify(receipts));
-
-            console.log('✅ Step 1 COMPLETE: Saved to LOCAL storage');
-
-            // STEP 2: UPDATE CUP STOCKS (BOTH ONLINE AND OFFLINE) - ONLY FOR TAKE OUT
-            console.log('🥤 Step 2: Updating cup stocks...');
-            if (orderType === 'take-out' && cupCount > 0) {
-                await updateCupStocksForOrder(cupCount, connectionMode);
+            await syncService.addPendingOrder(receiptData);
+            committedReceipt = receiptData;
+            await recordLoyaltyRedemption(receiptData, loyaltySettings);
+            await recordCreditCharge(receiptData);
+
+            console.log('✅ Step 1 COMPLETE: Order committed locally');
+
+            // Bar and kitchen start on their lines right away; a ticket that can't print waits in the print queue
+            printStationTickets({
+                orderId: receiptData.orderId,
+                customerName: receiptData.customerName,
+                orderType: receiptData.orderType,
+                tableName: receiptData.tableName,
+                notes: receiptData.notes,
+                lines: receiptData.items
+            }).catch(error => console.error('❌ Error queueing station tickets:', error));
+
+            // STEP 2: UPDATE LOCAL CUP AND INGREDIENT STOCKS - Firestore gets them in the order's transaction
+            console.log('🥤 Step 2: Updating local cup and ingredient stocks...');
+            try {
+                await depleteCupsLocally(cupUsage);
+                await depleteIngredientsLocally(ingredientUsage);
+            } catch (error) {
+                console.error('❌ Error updating local stocks:', error);
             }
 
-            // STEP 3: TRY TO SAVE TO FIREBASE IF ONLINE
+            // STEP 3: COMMIT TO FIREBASE IF ONLINE - order, item stocks/sales, cups and ingredients in one transaction
             if (connectionMode === 'online') {
-                console.log('🔥 Step 3: Attempting to save to FIREBASE...');
+                console.log('🔥 Step 3: Committing order to FIREBASE...');
 
                 try {
-                    // Save order to Firebase with notes field
-                    const orderData = {
-                        orderId: receiptData.orderId,
-                        customerName: receiptData.customerName,
-                        items: receiptData.items.map(item => ({
-                            id: item.id,
-                            name: item.name,
-                            price: item.price,
-                            quantity: item.quantity,
-                            total: item.price * item.quantity
-                        })),
-                        subtotal: receiptData.subtotal,
-                        total: receiptData.total,
-                        status: receiptData.status,
-                        timestamp: receiptData.timestamp,
-                        created_at: new Date().toISOString(),
-                        cups_used: cupCount,
-                        order_type: orderType,
-                        notes: receiptData.notes || '' // ADDED: save notes to Firestore
-                    };
-
-                    const docRef = await addDoc(collection(db, 'orders'), orderData);
-                    const firebaseId = docRef.id;
-
-                    console.log('✅ Step 3 COMPLETE: Saved to FIREBASE successfully:', {
-                        firebaseId: firebaseId,
-                        orderId: receiptData.orderId,
-                        orderType: orderType,
-                        notes: receiptData.notes // ADDED: confirm notes saved
-                    });
+                    const { firebaseId, sequence } = await commitOrder(db, { ...receiptData, idempotencyKey });
+                    await syncService.markReceiptSynced(idempotencyKey, firebaseId, receiptData.orderId, sequence);
 
-                    // Update receipt data with Firebase ID
                     receiptData.firebaseId = firebaseId;
+                    receiptData.syncState = 'synced';
 
-                    // STEP 4: UPDATE ITEM STOCKS AND SALES IN FIREBASE
-                    console.log('📦 Step 4: Updating item stocks and sales in Firebase...');
-
-                    for (const cartItem of cart) {
-                        const currentItem = menuItems.find(item => item.id === cartItem.id);
-                        if (currentItem) {
-                            const newStocks = currentItem.stocks;
-                            const quantitySold = cartItem.quantity;
-
-                            // Update Firebase
-                            await updateItemStocksAndSales(cartItem.id, newStocks, quantitySold);
-
-                            console.log('✅ Updated stocks for:', cartItem.name, {
-                                newStocks: newStocks,
-                                quantitySold: quantitySold
-                            });
-                        }
-                    }
-
-                    console.log('✅ Step 4 COMPLETE: All item stocks updated in Firebase');
-
-                    // STEP 5: UPDATE LOCAL STORAGE WITH FIREBASE INFO
-                    console.log('🔄 Step 5: Updating local record with Firebase info...');
-                    const updatedReceipts = receipts.map((receipt: ReceiptData) =>
-                        receipt.orderId === receiptData.orderId
-                            ? { ...receipt, firebaseId: firebaseId }
-                            : receipt
-                    );
-                    await syncService.setItem('pendingReceipts', JSON.stringify(updatedReceipts));
-
-                    console.log('✅ Step 5 COMPLETE: Local record updated with Firebase ID');
-
-                    console.log('🎉 [FIREBASE ORDER] ORDER PROCESS COMPLETED SUCCESSFULLY!');
-
-                } catch (firebaseError) {
-                    console.error('❌ Firebase save error:', firebaseError);
-                    console.log('📱 Order saved to local storage only. Firebase sync will be retried later.');
-                }
-            } else {
-                console.log('📱 Step 3: Offline mode - Only saved to LOCAL storage');
-            }
-
-            // Show receipt modal AFTER processing is complete
-            setCurrentReceipt(receiptData);
-            setShowReceiptModal(true);
-            setIsOrderSummaryVisible(false);
-
-        } catch (error) {
-            console.error('❌ Error placing order:', error);
-            Alert.alert(
-                'Order Saved Locally',
-                'Order has been saved to local storage. Some server operations may have failed.'
-            );
-
-            const receiptData: ReceiptData = {
-                orderId: `ORD-${Date.now()}`,
-                customerName: customerName.trim(),
-                items: [...cart],
-                subtotal: subtotal,
-                total: total,
-                timestamp: new Date().toLocaleString(),
-                status: 'unpaid',
-                orderType: orderType!,
-                notes: notes.trim() || '' // ADDED: include notes in fallback receipt
-            };
-            setCurrentReceipt(receiptData);
-            setShowReceiptModal(true);
-            setIsOrderSummaryVisible(false);
-        } finally {
-            setLoading(false);
-            setIsProcessingOrder(false);
-        }
-    };
-
-    // Function to update cup stocks when order is placed
-    const updateCupStocksForOrder = async (cupsUsed: number, connectionMode: 'online' | 'offline') => {
-        try {
-            const syncService = OfflineSyncService.getInstance();
-
-            console.log(`🥤 Updating cup stocks: ${cupsUsed} cups used`);
-
-            if (connectionMode === 'online') {
-                // ONLINE MODE: Update cups in Firebase
-                console.log('🔥 Updating cup stocks in Firebase...');
-
-                // Get all cups from Firebase
-                const cupsCollection = collection(db, 'cups');
-                const cupsSnapshot = await getDocs(cupsCollection);
-                const firebaseCups: CupItem[] = cupsSnapshot.docs.map(doc => ({
-                    id: doc.id,
-                    firebaseId: doc.id,
-                    name: doc.data().name || 'Cup',
-                    stocks: doc.data().stocks || 0,
-                    size: doc.data().size || '',
-                    status: doc.data().status !== false,
-                    isOffline: false
-                }));
-
-                if (firebaseCups.length === 0) {
-                    console.log('❌ No cups found in Firebase');
-                    return;
-                }
-
-                // For simplicity, use the first available cup
-                const cupToUpdate = firebaseCups[0];
-                const newStocks = Math.max(0, cupToUpdate.stocks - cupsUsed);
-
-                if (newStocks < 0) {
-                    console.log('❌ Not enough cup stocks available');
-                    Alert.alert('Insufficient Cups', 'Not enough cups in stock!');
-                    return;
-                }
-
-                // Update Firebase
-                const cupDoc = doc(db, 'cups', cupToUpdate.id);
-                await updateDoc(cupDoc, {
-                    stocks: newStocks,
-                    updated_at: new Date().toISOString()
-                });
-
-                console.log('✅ Firebase cup stocks updated:', {
-                    cup: cupToUpdate.name,
-                    previousStocks: cupToUpdate.stocks,
-                    newStocks: newStocks,
-                    cupsUsed: cupsUsed
-                });
-
-                // Also update local storage for consistency
-                const localCups = await syncService.getCups();
-                if (localCups.length > 0) {
-                    const updatedLocalCups = localCups.map(cup =>
-                        cup.id === cupToUpdate.id || cup.firebaseId === cupToUpdate.id
-                            ? { ...cup, stocks: newStocks }
-                            : cup
-                    );
-                    await syncService.saveCups(updatedLocalCups);
-                    console.log('✅ Local cup stocks updated');
-                }
-
-            } else {
-                // OFFLINE MODE: Update cups in local storage only
-                console.log('📱 Updating cup stocks in local storage...');
-
-                const localCups = await syncService.getCups();
-                if (localCups.length === 0) {
-                    console.log('❌ No cups found in local storage');
-                    return;
-                }
+                    console.log('✅ Step 3 COMPLETE: Order and stock changes committed to FIREBASE:', {
+                        firebaseId: firebaseId,
+                        orderId: receiptData.orderId,
+                        orderType: orderType,
+                        notes: receiptData.notes // ADDED: confirm notes saved
+                    });
 
-                // Use the first available cup
-                const cupToUpdate = localCups[0];
-                const newStocks = Math.max(0, cupToUpdate.stocks - cupsUsed);
+                    console.log('🎉 [FIREBASE ORDER] ORDER PROCESS COMPLETED SUCCESSFULLY!');
 
-                if (newStocks < 0) {
-                    console.log('❌ Not enough cup stocks available');
-                    Alert.alert('Insufficient Cups', 'Not enough cups in stock!');
-                    return;
+                } catch (firebaseError) {
+                    console.error('❌ Firebase commit error:', firebaseError);
+                    console.log('📱 Order stays queued. Sync will retry it with the same key.');
                 }
+            } else {
+                console.log('📱 Step 3: Offline mode - Order queued for sync');
+            }
 
-                const updatedLocalCups = localCups.map(cup =>
-                    cup.id === cupToUpdate.id
-                        ? { ...cup, stocks: newStocks }
-                        : cup
-                );
-
-                await syncService.saveCups(updatedLocalCups);
-
-                console.log('✅ Local cup stocks updated:', {
-                    cup: cupToUpdate.name,
-                    previousStocks: cupToUpdate.stocks,
-                    newStocks: newStocks,
-                    cupsUsed: cupsUsed
-                });
-
-                // Add to pending items for Firebase sync when online
-                const pendingItem: PendingItem = {
-                    id: `cup_update_${Date.now()}`,
-                    type: 'UPDATE_CUP',
-                    data: {
-                        ...cupToUpdate,
-                        stocks: newStocks
-                    },
-                    timestamp: Date.now(),
-                    retryCount: 0
-                };
+            // Show receipt modal AFTER processing is complete
+            setCurrentReceipt(receiptData);
+            setShowReceiptModal(true);
+            setIsOrderSummaryVisible(false);
 
-                const pendingItems = await syncService.getPendingItems();
-                pendingItems.push(pendingItem);
-                await syncService.setItem('pendingItems', JSON.stringify(pendingItems));
+        } catch (error) {
+            console.error('❌ Error placing order:', error);
 
-                console.log('📬 Cup stock update added to pending sync');
+            // Nothing was saved before the local commit, so the cart is left as it is for another try
+            if (!committedReceipt) {
+                Alert.alert('Order Failed', 'The order could not be saved. Please try again.');
+                return;
             }
 
-        } catch (error) {
-            console.error('❌ Error updating cup stocks:', error);
-            Alert.alert('Warning', 'Cup stocks may not have been updated properly.');
+            Alert.alert(
+                'Order Saved Locally',
+                'Order has been saved to local storage. Some server operations may have failed.'
+            );
+            setCurrentReceipt(committedReceipt);
+            setShowReceiptModal(true);
+            setIsOrderSummaryVisible(false);
+        } finally {
+            setLoading(false);
+            setIsProcessingOrder(false);
         }
     };
 
@@ -1131,48 +1882,95 @@ export default function PosScreen() {
     };
 
     // Function to generate compact receipt content - UPDATED to include notes
-    const generateCompactReceiptContent = (receipt: ReceiptData): string => {
+    const generateCompactReceiptContent = (receipt: ReceiptData): PrintDocument => {
         const currentDate = new Date().toLocaleDateString();
         const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-        // Create compact receipt content
-        let receiptContent = `
-KAPE SPOT
-------------
-DATE: ${currentDate}
+        const blocks: PrintBlock[] = [
+            { type: 'text', text: 'KAPE SPOT', align: 'center', bold: true, size: 'double' }
+        ];
+
+        if (taxProfile.tin) {
+            blocks.push({
+                type: 'text',
+                text: `${taxProfile.vatRegistered ? 'VAT REG ' : 'NON-VAT '}TIN: ${taxProfile.tin}`,
+                align: 'center'
+            });
+        }
+
+        let details = `DATE: ${currentDate}
 TIME: ${currentTime}
 ORDER: ${receipt.orderId}
 CUSTOMER: ${receipt.customerName}
 TYPE: ${receipt.orderType === 'dine-in' ? 'DINE IN' : 'TAKE OUT'}
 `;
 
+        if (receipt.tableName) {
+            details += `TABLE: ${receipt.tableName}\n`;
+        }
+
         // ADDED: Include notes on receipt if present
         if (receipt.notes && receipt.notes.trim()) {
-            receiptContent += `NOTES: ${receipt.notes.substring(0, 40)}\n`;
+            details += `NOTES: ${receipt.notes.trim()}\n`;
         }
 
-        receiptContent += `------------
-`;
+        blocks.push({ type: 'separator' }, ...textBlocks(details.trimEnd()), { type: 'separator' });
 
-        // Add items in compact format
+        // Item name wraps beside its amount; quantity at unit price, then options, underneath
         receipt.items.forEach(item => {
-            const itemName = item.name.length > 16 ? item.name.substring(0, 16) + '...' : item.name;
-            receiptContent += `${itemName} x${item.quantity} ₱${(item.price * item.quantity).toFixed(2)}\n`;
+            const itemLines = `  ${item.quantity} x ₱${item.price.toFixed(2)}\n` +
+                formatModifierLines(item.modifiers) +
+                formatBundleLines(item.bundle, item.quantity) +
+                formatPromotionLine(item.promotion, item.quantity);
+
+            blocks.push(
+                { type: 'row', left: item.name, right: `₱${(item.price * item.quantity).toFixed(2)}` },
+                ...textBlocks(itemLines.trimEnd())
+            );
         });
 
-        receiptContent += `------------
-SUBTOTAL: ₱${receipt.subtotal.toFixed(2)}
-TOTAL: ₱${receipt.total.toFixed(2)}
-------------
-`;
+        blocks.push(
+            { type: 'separator' },
+            { type: 'row', left: 'SUBTOTAL:', right: `₱${receipt.subtotal.toFixed(2)}` }
+        );
+
+        if (receipt.discounts && receipt.discounts.length > 0) {
+            blocks.push(...textBlocks(formatDiscountLines(receipt.discounts).trimEnd()));
+        }
+
+        if (receipt.serviceCharge && receipt.serviceCharge > 0) {
+            blocks.push({ type: 'row', left: 'SERVICE CHARGE:', right: `₱${receipt.serviceCharge.toFixed(2)}` });
+        }
+
+        blocks.push(
+            { type: 'row', left: 'TOTAL:', right: `₱${receipt.total.toFixed(2)}`, bold: true },
+            { type: 'separator' }
+        );
+
+        const taxLines = formatTaxLines(receipt, taxProfile);
+        if (taxLines) {
+            blocks.push(...textBlocks(taxLines.trimEnd()), { type: 'separator' });
+        }
+
+        if (receipt.payments && receipt.payments.length > 0) {
+            blocks.push(...textBlocks(formatTenderLines(receipt.payments, receipt.changeDue || 0).trimEnd()), { type: 'separator' });
+        }
 
         if (receipt.orderType === 'take-out' && receipt.cupsUsed && receipt.cupsUsed > 0) {
-            receiptContent += `CUPS: ${receipt.cupsUsed}\n------------\n`;
+            blocks.push({ type: 'text', text: `CUPS: ${receipt.cupsUsed}` }, { type: 'separator' });
+        }
+
+        if (receipt.loyalty) {
+            blocks.push(...textBlocks(formatLoyaltyLines(receipt.loyalty).trimEnd()), { type: 'separator' });
         }
 
-        receiptContent += `Thank you!`;
+        blocks.push(
+            { type: 'text', text: 'Thank you!', align: 'center' },
+            { type: 'feed', lines: 3 },
+            { type: 'cut' }
+        );
 
-        return receiptContent.trim();
+        return { blocks };
     };
 
     // Function to print receipt using connected Bluetooth printer - UPDATED FOR LARGE RECEIPTS
@@ -1190,184 +1988,52 @@ TOTAL: ₱${receipt.total.toFixed(2)}
         }
 
         try {
-            const receiptContent = generateCompactReceiptContent(currentReceipt);
-            console.log('📄 Compact receipt content generated, length:', receiptContent.length);
+            const receiptDocument = generateCompactReceiptContent(currentReceipt);
+            console.log('📄 Compact receipt generated, blocks:', receiptDocument.blocks.length);
 
-            await sendToBluetoothPrinter(receiptContent);
+            await sendToBluetoothPrinter(receiptDocument, `Receipt ${currentReceipt.orderId}`);
 
         } catch (error) {
             console.error('❌ Error printing receipt:', error);
-
-            if (error instanceof Error && error.message.includes('second copy')) {
-                Alert.alert('Print Partially Complete', 'First copy printed successfully!');
-                resetAfterOrder();
-            } else {
-                Alert.alert('Print Error', 'Failed to print receipt. Please check printer connection.');
-            }
+            Alert.alert('Print Error', 'Failed to print receipt. Please check printer connection.');
         }
     };
 
-    // Function to send data to Bluetooth printer - UPDATED WITH CHUNKING FOR LARGE RECEIPTS
-    const sendToBluetoothPrinter = async (data: string) => {
-        try {
-            if (!bluetoothConnection) {
-                throw new Error('No Bluetooth connection available');
-            }
-
-            // Get the Bluetooth service instance from storage
-            const syncService = OfflineSyncService.getInstance();
-            const bluetoothService = await syncService.getItem('bluetoothService');
-
-            if (!bluetoothService) {
-                throw new Error('Bluetooth service not found');
-            }
-
-            const serviceData = JSON.parse(bluetoothService);
-            const { peripheralId, serviceId, transfer } = serviceData;
-
-            console.log('📡 Printer details:', {
-                peripheralId,
-                serviceId,
-                transfer,
-                deviceName: bluetoothDeviceName
-            });
-
-            // IMPORTANT: Check if BleManager is ready
-            try {
-                await BleManager.checkState();
-                console.log('✅ BleManager is ready');
-            } catch (bleError) {
-                console.error('❌ BleManager not ready:', bleError);
-                await BleManager.start({ showAlert: false });
-                console.log('✅ BleManager started');
-            }
-
-            // Thermal printer commands for ESC/POS
-            const initializePrinter = [0x1B, 0x40]; // Initialize
-            const textNormal = [0x1B, 0x21, 0x00]; // Normal text
-            const centerAlign = [0x1B, 0x61, 0x01]; // Center alignment
-            const leftAlign = [0x1B, 0x61, 0x00]; // Left alignment
-            const lineFeed = [0x0A]; // Line feed
-            const paperCut = [0x1D, 0x56, 0x41, 0x10]; // Paper cut
-
-            // Split data into chunks to avoid buffer overflow
-            const chunkSize = 100; // Adjust based on your printer's capacity
-            const dataChunks = [];
-
-            for (let i = 0; i < data.length; i += chunkSize) {
-                dataChunks.push(data.substring(i, i + chunkSize));
-            }
-
-            console.log(`📄 Data split into ${dataChunks.length} chunks`);
-
-            // Convert text to bytes
-            const convertToBytes = (text: string): number[] => {
-                return Array.from(new TextEncoder().encode(text));
-            };
-
-            // Build print data in chunks
-            const printChunks = [];
-
-            // First chunk: Initialize printer and header
-            printChunks.push([
-                ...initializePrinter,
-                ...centerAlign,
-                ...convertToBytes(dataChunks[0]),
-                ...lineFeed
-            ]);
-
-            // Middle chunks: Continue with left alignment
-            for (let i = 1; i < dataChunks.length - 1; i++) {
-                printChunks.push([
-                    ...leftAlign,
-                    ...convertToBytes(dataChunks[i]),
-                    ...lineFeed
-                ]);
-            }
-
-            // Last chunk: Final content and paper cut
-            printChunks.push([
-                ...leftAlign,
-                ...convertToBytes(dataChunks[dataChunks.length - 1]),
-                ...lineFeed, ...lineFeed, ...lineFeed,
-                ...paperCut
-            ]);
-
-            console.log(`🖨️ Sending ${printChunks.length} print chunks`);
-
-            // Send chunks with delays between them - FIRST COPY
-            for (let i = 0; i < printChunks.length; i++) {
-                const chunk = printChunks[i];
-                console.log(`📦 Sending chunk ${i + 1}/${printChunks.length}, size: ${chunk.length} bytes`);
-
-                await BleManager.write(
-                    peripheralId,
-                    serviceId,
-                    transfer,
-                    chunk,
-                    chunk.length
-                );
-
-                // Add delay between chunks to prevent buffer overflow
-                if (i < printChunks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay
-                }
-            }
-
-            console.log('✅ First copy printed successfully');
-            Alert.alert('Print Success', 'First copy printed! Printing second copy...');
-
-            // Wait a bit then print SECOND COPY
-            await new Promise(resolve => setTimeout(resolve, 1500));
+    const handlePrintBill = async (bill: OrderBill) => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            Alert.alert('Bluetooth Not Connected', 'Please connect to a Bluetooth printer first in Settings.');
+            return;
+        }
+        if (!currentReceipt?.bills) return;
 
-            // Repeat for second copy
-            for (let i = 0; i < printChunks.length; i++) {
-                const chunk = printChunks[i];
+        try {
+            await sendToBluetoothPrinter(
+                formatBillReceipt(currentReceipt, bill, currentReceipt.bills.length),
+                `Bill ${bill.index}/${currentReceipt.bills.length} ${currentReceipt.orderId}`
+            );
+        } catch (error) {
+            console.error('❌ Error printing bill:', error);
+            Alert.alert('Print Error', 'Failed to print the bill. Please check printer connection.');
+        }
+    };
 
-                await BleManager.write(
-                    peripheralId,
-                    serviceId,
-                    transfer,
-                    chunk,
-                    chunk.length
-                );
+    // Two copies, one for the customer and one for the counter, through the print queue
+    const sendToBluetoothPrinter = async (document: PrintDocument, title: string) => {
+        if (!bluetoothConnection) {
+            throw new Error('No Bluetooth connection available');
+        }
 
-                // Add delay between chunks
-                if (i < printChunks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                }
-            }
+        console.log('📡 Printing to:', bluetoothDeviceName);
+        const job = await submitPrintJob(title, document, 'pos', 2);
 
-            console.log('✅ Second copy printed successfully');
+        if (job.status === 'done') {
             Alert.alert('Printing Complete', 'Two copies printed successfully!');
-            resetAfterOrder();
-
-        } catch (error) {
-            console.error('❌ Bluetooth print error:', error);
-
-            let errorMessage = 'Failed to connect to printer. ';
-
-            if (error instanceof Error) {
-                const errorString = error.message;
-                console.log('🔍 Error details:', errorString);
-
-                if (errorString.includes('Device not connected')) {
-                    errorMessage += 'Printer is disconnected. Please reconnect.';
-                } else if (errorString.includes('Characteristic not found')) {
-                    errorMessage += 'Printer service not found.';
-                } else if (errorString.includes('Write not permitted')) {
-                    errorMessage += 'No permission to write to printer.';
-                } else if (errorString.includes('buffer') || errorString.includes('overflow')) {
-                    errorMessage += 'Receipt too large. Try with fewer items or contact support.';
-                } else {
-                    errorMessage += `Error: ${errorString}`;
-                }
-            } else {
-                errorMessage += 'Unknown error occurred.';
-            }
-
-            throw new Error(errorMessage);
+        } else {
+            Alert.alert('Print Queued', describeQueuedJob(job));
         }
+
+        // The receipt is either printed or safe in the queue, so the next order can start
+        resetAfterOrder();
     };
 
     const getImageSource = (item: MenuItem) => {
@@ -1393,13 +2059,14 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                 <ThemedView key={`row-${i}`} style={styles.menuRow}>
                     {rowItems.map((item, itemIndex) => {
                         const imageSource = getImageSource(item);
+                        const stock = isBundle(item) ? getBundleAvailability(item.bundleSlots || [], menuItems) : item.stocks;
 
                         return (
                             <TouchableOpacity
                                 key={`${item.id}-${i}-${itemIndex}`}
                                 style={styles.menuCard}
                                 onPress={() => addToCart(item)}
-                                disabled={item.stocks === 0}
+                                disabled={stock === 0}
                             >
                                 <ThemedView style={styles.imageContainer}>
                                     {imageSource ? (
@@ -1448,9 +2115,9 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         </Text>
                                         <Text style={[
                                             styles.itemStock,
-                                            item.stocks === 0 ? styles.outOfStock : styles.inStock
+                                            stock === 0 ? styles.outOfStock : styles.inStock
                                         ]}>
-                                            Stock: {item.stocks}
+                                            Stock: {stock}
                                         </Text>
 
                                     </ThemedView>
@@ -1467,18 +2134,18 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         <TouchableOpacity
                                             style={[
                                                 styles.addButton,
-                                                item.stocks === 0 && styles.addButtonDisabled
+                                                stock === 0 && styles.addButtonDisabled
                                             ]}
                                             onPress={(e) => {
                                                 e.stopPropagation();
                                                 addToCart(item);
                                             }}
-                                            disabled={item.stocks === 0}
+                                            disabled={stock === 0}
                                         >
                                             <Feather
                                                 name="plus"
                                                 size={14}
-                                                color={item.stocks === 0 ? "#9CA3AF" : "#FFFEEA"}
+                                                color={stock === 0 ? "#9CA3AF" : "#FFFEEA"}
                                             />
                                         </TouchableOpacity>
                                     </ThemedView>
@@ -1535,7 +2202,7 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                 <ThemedView style={styles.orderTypeButtons}>
                                     <TouchableOpacity
                                         style={[styles.orderTypeButton, styles.dineInButton]}
-                                        onPress={() => setOrderType('dine-in')}
+                                        onPress={chooseDineIn}
                                     >
                                         <Feather name="coffee" size={32} color="#FFFEEA" />
                                         <ThemedText style={styles.orderTypeButtonText}>
@@ -1553,6 +2220,18 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         </ThemedText>
                                     </TouchableOpacity>
                                 </ThemedView>
+
+                                {parkedCarts.length > 0 && (
+                                    <TouchableOpacity
+                                        style={styles.parkedCartsButton}
+                                        onPress={() => setShowParkedCarts(true)}
+                                    >
+                                        <Feather name="pause-circle" size={18} color="#874E3B" />
+                                        <ThemedText style={styles.parkedCartsButtonText}>
+                                            Parked Carts ({parkedCarts.length})
+                                        </ThemedText>
+                                    </TouchableOpacity>
+                                )}
                             </ThemedView>
                         </ThemedView>
                     )}
@@ -1580,14 +2259,33 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         </ThemedText>
                                         <TouchableOpacity
                                             onPress={() => {
+                                                if (openTab) {
+                                                    cancelOpenTab();
+                                                    return;
+                                                }
                                                 setOrderType(null);
+                                                setTable(null);
                                                 clearCart();
                                             }}
                                             style={styles.changeOrderTypeButton}
                                         >
-                                            <Feather name="edit" size={12} color="#FFFEEA" />
+                                            <Feather name={openTab ? 'x' : 'edit'} size={12} color="#FFFEEA" />
                                         </TouchableOpacity>
                                     </ThemedView>
+                                    {openTab && (
+                                        <ThemedText style={styles.orderTypeLabel}>
+                                            Adding to {openTab.orderId} · {openTab.customerName}
+                                            {openTab.tableName ? ` · Table ${openTab.tableName}` : ''}
+                                        </ThemedText>
+                                    )}
+                                    {!openTab && orderType === 'dine-in' && floorTables.length > 0 && (
+                                        <TouchableOpacity style={styles.tableChip} onPress={chooseDineIn}>
+                                            <Feather name="grid" size={12} color="#874E3B" />
+                                            <ThemedText style={styles.tableChipText}>
+                                                {table ? `Table ${table.name}` : 'No table'}
+                                            </ThemedText>
+                                        </TouchableOpacity>
+                                    )}
                                 </ThemedView>
 
                                 <ThemedView style={styles.searchContainer}>
@@ -1599,6 +2297,15 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         onChangeText={setSearchQuery}
                                         placeholderTextColor="#854442"
                                     />
+                                    <TouchableOpacity
+                                        style={[styles.reloadButton, styles.scanButton, scanMode && styles.scanButtonActive]}
+                                        onPress={() => {
+                                            setScanMessage('');
+                                            setScanMode(!scanMode);
+                                        }}
+                                    >
+                                        <Feather name="maximize" size={18} color={scanMode ? '#FFFEEA' : '#874E3B'} />
+                                    </TouchableOpacity>
                                     <TouchableOpacity
                                         style={styles.reloadButton}
                                         onPress={() => {
@@ -1609,6 +2316,14 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                         <Feather name="refresh-cw" size={18} color="#874E3B" />
                                     </TouchableOpacity>
                                 </ThemedView>
+                                {scanMode && (
+                                    <ScanModeBar
+                                        message={scanMessage}
+                                        onScan={handleScan}
+                                        onOpenCamera={() => setShowCameraScanner(true)}
+                                        onExit={() => setScanMode(false)}
+                                    />
+                                )}
 
                                 {/* Simple Cup Counter - Only show for take-out orders */}
                                 {orderType === 'take-out' && cupCount > 0 && (
@@ -1700,19 +2415,124 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                 visible={isOrderSummaryVisible}
                 onClose={() => setIsOrderSummaryVisible(false)}
                 customerName={customerName}
-                setCustomerName={setCustomerName}
+                setCustomerName={changeCustomerName}
                 cart={cart}
                 subtotal={subtotal}
-                total={total}
+                total={amountToPay}
                 orderType={orderType}
                 updateQuantity={updateQuantity}
-                clearCart={clearCart}
+                clearCart={openTab ? cancelOpenTab : clearCart}
                 placeOrder={placeOrder}
                 loading={loading}
                 isProcessingOrder={isProcessingOrder}
                 isBluetoothConnected={isBluetoothConnected}
                 notes={notes}           // ADDED: pass notes
                 setNotes={setNotes}     // ADDED: pass setNotes
+                tenders={tenders}
+                setTenders={setTenders}
+                discountResult={discountResult}
+                onOpenDiscount={openDiscountModal}
+                onRemoveDiscount={removeDiscount}
+                taxBreakdown={orderTotals.tax}
+                taxProfile={taxProfile}
+                openTab={openTab}
+                tabOrderTotal={tabTotals ? tabTotals.totals.total : total}
+                onPark={handleParkCart}
+                bills={bills}
+                activeBillId={activeBillId}
+                setActiveBillId={setActiveBillId}
+                billTenders={billTenders}
+                onChangeBillTenders={(billId, billTendersForBill) =>
+                    setBillTenders(prev => ({ ...prev, [billId]: billTendersForBill }))
+                }
+                onOpenSplit={() => setShowSplitBill(true)}
+                onClearSplit={clearSplit}
+                customers={customers}
+                customer={customer}
+                onSelectCustomer={selectCustomer}
+                onCreateCustomer={quickCreateCustomer}
+                onClearCustomer={clearCustomer}
+                onRepeatLastOrder={() => customer && repeatLastOrder(customer, menuItems, promotions)}
+                loyaltySettings={loyaltySettings}
+                loyaltyBalance={loyaltyBalance}
+                onRedeemReward={redeemStampReward}
+                onRedeemPoints={redeemPoints}
+                accountCredit={accountCredit}
+            />
+
+            {showSplitBill && (
+                <SplitBillModal
+                    visible={showSplitBill}
+                    lines={splitLines}
+                    total={total}
+                    onApply={applySplit}
+                    onClose={() => setShowSplitBill(false)}
+                />
+            )}
+
+            <TablePickerModal
+                visible={showTablePicker}
+                tables={floorTables}
+                statuses={tableStatuses}
+                selectedTableId={table?.id}
+                onSelect={selectTable}
+                onClose={() => setShowTablePicker(false)}
+            />
+
+            <ParkedCartsModal
+                visible={showParkedCarts}
+                carts={parkedCarts}
+                onRecall={recallParkedCart}
+                onDiscard={discardParkedCart}
+                onClose={() => setShowParkedCarts(false)}
+            />
+
+            <DiscountModal
+                visible={!!discountModalKind}
+                kind={discountModalKind}
+                gross={subtotal}
+                promoCodes={promoCodes}
+                lineId={discountLine ? getLineId(discountLine) : undefined}
+                lineLabel={discountLine
+                    ? [discountLine.name, getLineSummary(discountLine)].filter(Boolean).join(' - ')
+                    : undefined}
+                onApply={applyDiscount}
+                onClose={() => {
+                    setDiscountModalKind(null);
+                    setDiscountLine(null);
+                }}
+            />
+
+            <BarcodeScannerModal
+                visible={showCameraScanner}
+                title="Scan Items"
+                onScan={handleScan}
+                onClose={() => setShowCameraScanner(false)}
+            />
+
+            <ModifierPickerModal
+                visible={!!modifierItem}
+                itemName={modifierItem?.name || ''}
+                basePrice={modifierItem?.price || 0}
+                groups={modifierItem?.modifierGroups || []}
+                onConfirm={(modifiers) => {
+                    if (modifierItem) addLineToCart(modifierItem, modifiers);
+                    setModifierItem(null);
+                }}
+                onClose={() => setModifierItem(null)}
+            />
+
+            <BundlePickerModal
+                visible={!!bundleItem}
+                itemName={bundleItem?.name || ''}
+                basePrice={bundleItem?.price || 0}
+                slots={bundleItem?.bundleSlots || []}
+                items={menuItems}
+                onConfirm={(components) => {
+                    if (bundleItem) addBundleToCart(bundleItem, components);
+                    setBundleItem(null);
+                }}
+                onClose={() => setBundleItem(null)}
             />
 
             {/* PROCESSING MODAL */}
@@ -1771,6 +2591,12 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                     {currentReceipt.orderType === 'dine-in' ? 'DINE IN' : 'TAKE OUT'}
                                 </ThemedText>
                             </ThemedView>
+                            {!!currentReceipt.tableName && (
+                                <ThemedView style={styles.receiptRow}>
+                                    <ThemedText style={styles.receiptLabel}>Table:</ThemedText>
+                                    <ThemedText style={styles.receiptValue}>{currentReceipt.tableName}</ThemedText>
+                                </ThemedView>
+                            )}
                             {/* ADDED: Show notes on receipt modal */}
                             {currentReceipt.notes && currentReceipt.notes.trim() !== '' && (
                                 <ThemedView style={styles.receiptRow}>
@@ -1796,9 +2622,19 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                             </ThemedView>
 
                             {currentReceipt.items.map((item, index) => (
-                                <ThemedView key={`${item.id}-${index}`} style={styles.receiptItem}>
-                                    <Text style={[styles.receiptItemText, styles.itemName]} numberOfLines={1}>
+                                <ThemedView key={`${getLineId(item)}-${index}`} style={styles.receiptItem}>
+                                    <Text style={[styles.receiptItemText, styles.itemName]} numberOfLines={1 + (getLineSummary(item) ? 1 : 0) + (item.promotion ? 1 : 0)}>
                                         {item.name}
+                                        {!!getLineSummary(item) && (
+                                            <Text style={styles.receiptModifierText}>
+                                                {'\n'}{getLineSummary(item)}
+                                            </Text>
+                                        )}
+                                        {!!item.promotion && (
+                                            <Text style={styles.receiptPromotionText}>
+                                                {'\n'}{describeLinePromotion(item.promotion, item.quantity)}
+                                            </Text>
+                                        )}
                                     </Text>
                                     <Text style={[styles.receiptItemText, styles.itemQty]}>{item.quantity}</Text>
                                     <Text style={[styles.receiptItemText, styles.itemPrice]}>₱{item.price.toFixed(2)}</Text>
@@ -1819,10 +2655,87 @@ TOTAL: ₱${receipt.total.toFixed(2)}
                                 <ThemedText style={styles.totalLabel}>Sub Total:</ThemedText>
                                 <ThemedText style={styles.totalValue}>₱{currentReceipt.subtotal.toFixed(2)}</ThemedText>
                             </ThemedView>
+                            {currentReceipt.discounts?.map(discount => (
+                                <ThemedView key={discount.id} style={styles.totalRow}>
+                                    <ThemedText style={styles.totalLabel}>{describeDiscount(discount)}:</ThemedText>
+                                    <ThemedText style={styles.totalValue}>
+                                        -₱{(discount.amount + (discount.vatRelief || 0)).toFixed(2)}
+                                    </ThemedText>
+                                </ThemedView>
+                            ))}
+                            {!!currentReceipt.serviceCharge && currentReceipt.serviceCharge > 0 && (
+                                <ThemedView style={styles.totalRow}>
+                                    <ThemedText style={styles.totalLabel}>Service Charge:</ThemedText>
+                                    <ThemedText style={styles.totalValue}>₱{currentReceipt.serviceCharge.toFixed(2)}</ThemedText>
+                                </ThemedView>
+                            )}
                             <ThemedView style={styles.totalRow}>
                                 <ThemedText style={styles.totalLabel}>Amount Due:</ThemedText>
                                 <ThemedText style={styles.grandTotalValue}>₱{currentReceipt.total.toFixed(2)}</ThemedText>
                             </ThemedView>
+                            {currentReceipt.payments?.map((payment, index) => (
+                                <ThemedView key={`${payment.type}-${index}`} style={styles.totalRow}>
+                                    <ThemedText style={styles.totalLabel}>
+                                        {getTenderLabel(payment.type)}{payment.reference ? ` (${payment.reference})` : ''}:
+                                    </ThemedText>
+                                    <ThemedText style={styles.totalValue}>₱{payment.amount.toFixed(2)}</ThemedText>
+                                </ThemedView>
+                            ))}
+                            {currentReceipt.payments && currentReceipt.payments.length > 0 && (
+                                <ThemedView style={styles.totalRow}>
+                                    <ThemedText style={styles.totalLabel}>Change:</ThemedText>
+                                    <ThemedText style={styles.totalValue}>₱{(currentReceipt.changeDue || 0).toFixed(2)}</ThemedText>
+                                </ThemedView>
+                            )}
+                            {currentReceipt.bills?.map(bill => (
+                                <ThemedView key={bill.id} style={styles.totalRow}>
+                                    <ThemedText style={styles.totalLabel}>
+                                        Bill {bill.index} of {currentReceipt.bills?.length}:
+                                    </ThemedText>
+                                    <TouchableOpacity
+                                        style={styles.billPrintButton}
+                                        onPress={() => handlePrintBill(bill)}
+                                        disabled={!isBluetoothConnected}
+                                    >
+                                        <Feather name="printer" size={12} color="#FFFEEA" />
+                                        <ThemedText style={styles.billPrintText}>₱{bill.amount.toFixed(2)}</ThemedText>
+                                    </TouchableOpacity>
+                                </ThemedView>
+                            ))}
+                            {taxProfile.vatRegistered && (
+                                <>
+                                    <ThemedView style={styles.totalRow}>
+                                        <ThemedText style={styles.totalLabel}>VATable Sales:</ThemedText>
+                                        <ThemedText style={styles.totalValue}>₱{(currentReceipt.vatableSales || 0).toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                    <ThemedView style={styles.totalRow}>
+                                        <ThemedText style={styles.totalLabel}>VAT ({taxProfile.vatRate}%):</ThemedText>
+                                        <ThemedText style={styles.totalValue}>₱{(currentReceipt.vatAmount || 0).toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                    <ThemedView style={styles.totalRow}>
+                                        <ThemedText style={styles.totalLabel}>VAT-Exempt Sales:</ThemedText>
+                                        <ThemedText style={styles.totalValue}>₱{(currentReceipt.vatExemptSales || 0).toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                </>
+                            )}
+                            {currentReceipt.loyalty && (
+                                <>
+                                    <ThemedView style={styles.totalRow}>
+                                        <ThemedText style={styles.totalLabel}>Stamps:</ThemedText>
+                                        <ThemedText style={styles.totalValue}>
+                                            {currentReceipt.loyalty.stamps}/{currentReceipt.loyalty.stampsPerReward}
+                                            {currentReceipt.loyalty.stampsEarned > 0 ? ` (+${currentReceipt.loyalty.stampsEarned})` : ''}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    <ThemedView style={styles.totalRow}>
+                                        <ThemedText style={styles.totalLabel}>Points:</ThemedText>
+                                        <ThemedText style={styles.totalValue}>
+                                            {currentReceipt.loyalty.points}
+                                            {currentReceipt.loyalty.pointsEarned > 0 ? ` (+${currentReceipt.loyalty.pointsEarned})` : ''}
+                                        </ThemedText>
+                                    </ThemedView>
+                                </>
+                            )}
                         </ThemedView>
 
                         {/* CUPS USED - ONLY FOR TAKE OUT */}
@@ -2140,6 +3053,14 @@ const styles = StyleSheet.create({
         justifyContent: 'space-between',
         marginBottom: 1,
     },
+    receiptModifierText: {
+        fontSize: 10,
+        color: '#B08968'
+    },
+    receiptPromotionText: {
+        fontSize: 10,
+        color: '#16A34A'
+    },
     receiptItemText: {
         fontSize: 8,
         color: '#874E3B',
@@ -2291,10 +3212,20 @@ const styles = StyleSheet.create({
         fontSize: 15,
         color: '#5A3921',
     },
-    itemCell: {
+    itemCellStack: {
         flex: 2.5,
-        textAlign: 'left',
-        marginLeft: 3
+        marginLeft: 3,
+        backgroundColor: 'transparent'
+    },
+    modifierText: {
+        fontSize: 11,
+        color: '#B08968',
+        lineHeight: 14
+    },
+    promotionText: {
+        fontSize: 11,
+        color: '#16A34A',
+        lineHeight: 14
     },
     priceCell: {
         flex: 1.5,
@@ -2331,6 +3262,78 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         marginRight: 4,
     },
+    lineDiscountButton: {
+        paddingHorizontal: 6,
+        paddingVertical: 4,
+    },
+    discountButtonsRow: {
+        flexDirection: 'row',
+        gap: 6,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    discountButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 4,
+        paddingVertical: 6,
+        borderRadius: 6,
+        backgroundColor: '#874E3B',
+    },
+    discountButtonText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#FFFEEA',
+    },
+    discountLabelButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        flex: 1,
+    },
+    billTabs: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    billTab: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    billTabActive: {
+        backgroundColor: '#874E3B',
+    },
+    billTabText: {
+        fontSize: 12,
+        color: '#874E3B',
+    },
+    billTabTextActive: {
+        color: '#FFFEEA',
+    },
+    billPrintButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+        borderRadius: 6,
+        backgroundColor: '#874E3B',
+    },
+    billPrintText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#FFFEEA',
+    },
     totalsSection: {
         borderTopWidth: 2,
         borderTopColor: '#874E3B',
@@ -2368,6 +3371,54 @@ const styles = StyleSheet.create({
         fontSize: 14,
         fontWeight: 'bold',
     },
+    openTabBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        backgroundColor: '#874E3B',
+        borderRadius: 6,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        marginBottom: 6,
+    },
+    openTabBannerText: {
+        color: '#FFFEEA',
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    parkedCartsButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 30,
+        paddingHorizontal: 20,
+        paddingVertical: 12,
+        borderRadius: 10,
+        borderWidth: 2,
+        borderColor: '#874E3B',
+        backgroundColor: '#FFFEEA',
+    },
+    parkedCartsButtonText: {
+        color: '#874E3B',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    tableChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+        backgroundColor: '#FFFEEA',
+    },
+    tableChipText: {
+        color: '#874E3B',
+        fontSize: 13,
+        fontWeight: '600',
+    },
     placeOrderButton: {
         flex: 1,
         backgroundColor: '#854442',
@@ -2642,6 +3693,12 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: '#854442',
     },
+    scanButton: {
+        marginRight: 6,
+    },
+    scanButtonActive: {
+        backgroundColor: '#874E3B',
+    },
     cardContent: {
         flex: 1,
         justifyContent: 'space-between',
@@ -0,0 +1,1181 @@
+// app/(tabs)/pricing.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TextInput,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import { NetworkScanner } from '@/lib/network-scanner';
+import { OfflineSyncService } from '@/lib/offline-sync';
+import { getFirestore, collection, getDocs } from 'firebase/firestore';
+import { app } from '@/lib/firebase-config';
+import { PromoCode, DiscountValueType } from '@/types/discount';
+import { loadPromoCodes, savePromoCode, deletePromoCode } from '@/lib/discounts';
+import { getCurrentUser, hasManagerPin, setManagerPin } from '@/lib/manager-approval';
+import { TaxProfile } from '@/types/tax';
+import { DEFAULT_TAX_PROFILE, loadTaxProfile, saveTaxProfile } from '@/lib/tax';
+import { LoyaltySettings } from '@/types/loyalty';
+import { DEFAULT_LOYALTY_SETTINGS, loadLoyaltySettings, saveLoyaltySettings } from '@/lib/loyalty';
+import { Promotion } from '@/types/promotion';
+import {
+    DAY_LABELS,
+    deletePromotion,
+    describePromotion,
+    isValidPromotionDate,
+    isValidPromotionTime,
+    loadPromotions,
+    savePromotion
+} from '@/lib/promotions';
+
+const loadCategoryNames = async (mode: 'online' | 'offline') => {
+    try {
+        if (mode === 'online') {
+            const snapshot = await getDocs(collection(getFirestore(app), 'categories'));
+            return snapshot.docs.map(categoryDoc => categoryDoc.data().name || '').filter(Boolean);
+        }
+        const localCategories = await OfflineSyncService.getInstance().getLocalCategories();
+        return localCategories.map(category => category.name);
+    } catch (error) {
+        console.error('❌ Error loading categories:', error);
+        return [];
+    }
+};
+
+export default function PricingScreen() {
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [isOnlineMode, setIsOnlineMode] = useState(false);
+    const [loading, setLoading] = useState(false);
+
+    // Manager PIN
+    const [pinIsSet, setPinIsSet] = useState(false);
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+
+    // Promo codes
+    const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+    const [promoCode, setPromoCode] = useState('');
+    const [promoLabel, setPromoLabel] = useState('');
+    const [promoValueType, setPromoValueType] = useState<DiscountValueType>('percent');
+    const [promoValue, setPromoValue] = useState('');
+    const [promoMinSpend, setPromoMinSpend] = useState('');
+    const [promoExpiresAt, setPromoExpiresAt] = useState('');
+
+    // Scheduled promotions (happy hour etc.)
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [promotionName, setPromotionName] = useState('');
+    const [promotionValueType, setPromotionValueType] = useState<DiscountValueType>('percent');
+    const [promotionValue, setPromotionValue] = useState('');
+    const [promotionDays, setPromotionDays] = useState<number[]>([]);
+    const [promotionStartTime, setPromotionStartTime] = useState('');
+    const [promotionEndTime, setPromotionEndTime] = useState('');
+    const [promotionStartDate, setPromotionStartDate] = useState('');
+    const [promotionEndDate, setPromotionEndDate] = useState('');
+    const [promotionCategories, setPromotionCategories] = useState<string[]>([]);
+    const [promotionCodesInput, setPromotionCodesInput] = useState('');
+
+    // Tax profile
+    const [taxProfile, setTaxProfile] = useState<TaxProfile>(DEFAULT_TAX_PROFILE);
+    const [vatRateInput, setVatRateInput] = useState('12');
+    const [serviceChargeInput, setServiceChargeInput] = useState('0');
+    const [exemptCodesInput, setExemptCodesInput] = useState('');
+    const [categoryNames, setCategoryNames] = useState<string[]>([]);
+
+    // Loyalty program
+    const [loyalty, setLoyalty] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+    const [stampsInput, setStampsInput] = useState('9');
+    const [pesosPerPointInput, setPesosPerPointInput] = useState('10');
+    const [pointValueInput, setPointValueInput] = useState('1');
+    const [minPointsInput, setMinPointsInput] = useState('50');
+
+    const loadData = React.useCallback(async () => {
+        setLoading(true);
+        try {
+            const user = await getCurrentUser();
+            setIsAdmin(user?.role === 'admin');
+            setPinIsSet(await hasManagerPin());
+
+            const mode = await NetworkScanner.getApiBaseUrl();
+            setIsOnlineMode(mode === 'online');
+
+            setPromoCodes(await loadPromoCodes());
+            setPromotions(await loadPromotions());
+
+            const profile = await loadTaxProfile();
+            setTaxProfile(profile);
+            setVatRateInput(String(profile.vatRate));
+            setServiceChargeInput(String(profile.serviceChargeRate));
+            setExemptCodesInput(profile.exemptItemCodes.join(', '));
+            setCategoryNames(Array.from(new Set(await loadCategoryNames(mode))));
+
+            const loyaltySettings = await loadLoyaltySettings();
+            setLoyalty(loyaltySettings);
+            setStampsInput(String(loyaltySettings.stampsPerReward));
+            setPesosPerPointInput(String(loyaltySettings.pesosPerPoint));
+            setPointValueInput(String(loyaltySettings.pointValue));
+            setMinPointsInput(String(loyaltySettings.minPointsToRedeem));
+        } catch (error) {
+            console.error('❌ Error loading pricing settings:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useFocusEffect(
+        React.useCallback(() => {
+            loadData();
+        }, [loadData])
+    );
+
+    const handleSavePin = async () => {
+        if (!/^\d{4,8}$/.test(newPin)) {
+            Alert.alert('Invalid PIN', 'PIN must be 4 to 8 digits.');
+            return;
+        }
+        if (newPin !== confirmPin) {
+            Alert.alert('PIN Mismatch', 'PINs do not match.');
+            return;
+        }
+
+        await setManagerPin(newPin);
+        setNewPin('');
+        setConfirmPin('');
+        setPinIsSet(true);
+        Alert.alert('Success', 'Manager PIN saved on this tablet.');
+    };
+
+    const toggleExemptCategory = (name: string) => {
+        setTaxProfile(prev => ({
+            ...prev,
+            exemptCategories: prev.exemptCategories.includes(name)
+                ? prev.exemptCategories.filter(category => category !== name)
+                : [...prev.exemptCategories, name]
+        }));
+    };
+
+    const handleSaveTaxProfile = async () => {
+        const vatRate = parseFloat(vatRateInput);
+        const serviceChargeRate = parseFloat(serviceChargeInput || '0');
+
+        if (isNaN(vatRate) || vatRate < 0 || vatRate > 100) {
+            Alert.alert('Error', 'Please enter a valid VAT rate.');
+            return;
+        }
+        if (isNaN(serviceChargeRate) || serviceChargeRate < 0 || serviceChargeRate > 100) {
+            Alert.alert('Error', 'Please enter a valid service charge rate.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save the tax profile while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const profile: TaxProfile = {
+                ...taxProfile,
+                vatRate,
+                serviceChargeRate,
+                tin: taxProfile.tin.trim(),
+                exemptItemCodes: exemptCodesInput
+                    .split(',')
+                    .map(code => code.trim())
+                    .filter(Boolean)
+            };
+            await saveTaxProfile(profile);
+            setTaxProfile(profile);
+            Alert.alert('Success', 'Tax profile saved.');
+        } catch (error) {
+            console.error('❌ Error saving tax profile:', error);
+            Alert.alert('Error', 'Failed to save tax profile.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const toggleStampCategory = (name: string) => {
+        setLoyalty(prev => ({
+            ...prev,
+            stampCategories: prev.stampCategories.includes(name)
+                ? prev.stampCategories.filter(category => category !== name)
+                : [...prev.stampCategories, name]
+        }));
+    };
+
+    const handleSaveLoyalty = async () => {
+        const stampsPerReward = parseInt(stampsInput, 10);
+        const pesosPerPoint = parseFloat(pesosPerPointInput || '0');
+        const pointValue = parseFloat(pointValueInput || '0');
+        const minPointsToRedeem = parseInt(minPointsInput || '0', 10);
+
+        if (isNaN(stampsPerReward) || stampsPerReward < 1 || stampsPerReward > 20) {
+            Alert.alert('Error', 'Stamps for a free item must be between 1 and 20.');
+            return;
+        }
+        if (isNaN(pesosPerPoint) || pesosPerPoint < 0 || isNaN(pointValue) || pointValue < 0 || isNaN(minPointsToRedeem) || minPointsToRedeem < 0) {
+            Alert.alert('Error', 'Please enter valid point values.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save the loyalty program while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const settings: LoyaltySettings = { ...loyalty, stampsPerReward, pesosPerPoint, pointValue, minPointsToRedeem };
+            await saveLoyaltySettings(settings);
+            setLoyalty(settings);
+            Alert.alert('Success', 'Loyalty program saved.');
+        } catch (error) {
+            console.error('❌ Error saving loyalty settings:', error);
+            Alert.alert('Error', 'Failed to save loyalty program.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetPromoForm = () => {
+        setPromoCode('');
+        setPromoLabel('');
+        setPromoValueType('percent');
+        setPromoValue('');
+        setPromoMinSpend('');
+        setPromoExpiresAt('');
+    };
+
+    const handleAddPromo = async () => {
+        const value = parseFloat(promoValue);
+
+        if (!promoCode.trim()) {
+            Alert.alert('Error', 'Please enter a promo code.');
+            return;
+        }
+        if (!(value > 0) || (promoValueType === 'percent' && value > 100)) {
+            Alert.alert('Error', 'Please enter a valid discount value.');
+            return;
+        }
+        if (promoExpiresAt.trim() && isNaN(new Date(promoExpiresAt.trim()).getTime())) {
+            Alert.alert('Error', 'Expiry date must be in YYYY-MM-DD format.');
+            return;
+        }
+        if (promoCodes.some(promo => promo.code === promoCode.trim().toUpperCase())) {
+            Alert.alert('Error', 'This promo code already exists.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save promo codes while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await savePromoCode({
+                code: promoCode,
+                label: promoLabel,
+                valueType: promoValueType,
+                value: value,
+                minSpend: parseFloat(promoMinSpend) || 0,
+                active: true,
+                // End of the expiry day so the code works for the whole day
+                expiresAt: promoExpiresAt.trim() ? new Date(`${promoExpiresAt.trim()}T23:59:59`).toISOString() : null
+            });
+            console.log('✅ Promo code saved:', promoCode.toUpperCase());
+            resetPromoForm();
+            setPromoCodes(await loadPromoCodes());
+        } catch (error) {
+            console.error('❌ Error saving promo code:', error);
+            Alert.alert('Error', 'Failed to save promo code.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleTogglePromo = async (promo: PromoCode) => {
+        if (!isOnlineMode || !promo.firebaseId) {
+            Alert.alert('Offline Mode', 'Cannot update promo codes while offline.');
+            return;
+        }
+
+        try {
+            await savePromoCode({ ...promo, active: !promo.active });
+            setPromoCodes(await loadPromoCodes());
+        } catch (error) {
+            console.error('❌ Error updating promo code:', error);
+            Alert.alert('Error', 'Failed to update promo code.');
+        }
+    };
+
+    const handleDeletePromo = (promo: PromoCode) => {
+        if (!isOnlineMode || !promo.firebaseId) {
+            Alert.alert('Offline Mode', 'Cannot delete promo codes while offline.');
+            return;
+        }
+
+        Alert.alert(
+            'Delete Promo Code',
+            `Delete ${promo.code}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deletePromoCode(promo.firebaseId!);
+                            setPromoCodes(await loadPromoCodes());
+                        } catch (error) {
+                            console.error('❌ Error deleting promo code:', error);
+                            Alert.alert('Error', 'Failed to delete promo code.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const resetPromotionForm = () => {
+        setPromotionName('');
+        setPromotionValueType('percent');
+        setPromotionValue('');
+        setPromotionDays([]);
+        setPromotionStartTime('');
+        setPromotionEndTime('');
+        setPromotionStartDate('');
+        setPromotionEndDate('');
+        setPromotionCategories([]);
+        setPromotionCodesInput('');
+    };
+
+    const togglePromotionDay = (day: number) => {
+        setPromotionDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+    };
+
+    const togglePromotionCategory = (name: string) => {
+        setPromotionCategories(prev => prev.includes(name) ? prev.filter(category => category !== name) : [...prev, name]);
+    };
+
+    const handleAddPromotion = async () => {
+        const value = parseFloat(promotionValue);
+        const startTime = promotionStartTime.trim();
+        const endTime = promotionEndTime.trim();
+        const startDate = promotionStartDate.trim();
+        const endDate = promotionEndDate.trim();
+
+        if (!promotionName.trim()) {
+            Alert.alert('Error', 'Please enter a promotion name.');
+            return;
+        }
+        if (!(value > 0) || (promotionValueType === 'percent' && value > 100)) {
+            Alert.alert('Error', 'Please enter a valid discount value.');
+            return;
+        }
+        if (!isValidPromotionTime(startTime) || !isValidPromotionTime(endTime)) {
+            Alert.alert('Error', 'Times must be in 24-hour HH:MM format, e.g. 14:00.');
+            return;
+        }
+        if (!isValidPromotionDate(startDate) || !isValidPromotionDate(endDate)) {
+            Alert.alert('Error', 'Dates must be in YYYY-MM-DD format.');
+            return;
+        }
+        if (startDate && endDate && endDate < startDate) {
+            Alert.alert('Error', 'The end date is before the start date.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save promotions while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            await savePromotion({
+                name: promotionName,
+                valueType: promotionValueType,
+                value,
+                days: [...promotionDays].sort(),
+                startTime,
+                endTime,
+                startDate: startDate || null,
+                endDate: endDate || null,
+                itemCodes: promotionCodesInput
+                    .split(',')
+                    .map(code => code.trim())
+                    .filter(Boolean),
+                categories: promotionCategories,
+                active: true
+            });
+            console.log('✅ Promotion saved:', promotionName);
+            resetPromotionForm();
+            setPromotions(await loadPromotions());
+        } catch (error) {
+            console.error('❌ Error saving promotion:', error);
+            Alert.alert('Error', 'Failed to save promotion.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleTogglePromotion = async (promotion: Promotion) => {
+        if (!isOnlineMode || !promotion.firebaseId) {
+            Alert.alert('Offline Mode', 'Cannot update promotions while offline.');
+            return;
+        }
+
+        try {
+            await savePromotion({ ...promotion, active: !promotion.active });
+            setPromotions(await loadPromotions());
+        } catch (error) {
+            console.error('❌ Error updating promotion:', error);
+            Alert.alert('Error', 'Failed to update promotion.');
+        }
+    };
+
+    const handleDeletePromotion = (promotion: Promotion) => {
+        if (!isOnlineMode || !promotion.firebaseId) {
+            Alert.alert('Offline Mode', 'Cannot delete promotions while offline.');
+            return;
+        }
+
+        Alert.alert(
+            'Delete Promotion',
+            `Delete ${promotion.name}? Past orders keep its name in reports.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deletePromotion(promotion.firebaseId!);
+                            setPromotions(await loadPromotions());
+                        } catch (error) {
+                            console.error('❌ Error deleting promotion:', error);
+                            Alert.alert('Error', 'Failed to delete promotion.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="pricing" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Pricing</ThemedText>
+                        <TouchableOpacity style={styles.reloadButton} onPress={loadData} disabled={loading}>
+                            <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                        </TouchableOpacity>
+                    </ThemedView>
+
+                    {!isAdmin && (
+                        <ThemedView style={styles.card}>
+                            <ThemedText style={styles.infoText}>
+                                Only admins can change pricing settings.
+                            </ThemedText>
+                        </ThemedView>
+                    )}
+
+                    {/* Manager PIN */}
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="shield" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Manager Approval PIN</ThemedText>
+                        </ThemedView>
+                        <ThemedText style={styles.infoText}>
+                            {pinIsSet
+                                ? 'A PIN is set on this tablet. Cashiers need it for manual and item discounts.'
+                                : 'No PIN set yet. Only admins can approve manual and item discounts.'}
+                        </ThemedText>
+                        {isAdmin && (
+                            <ThemedView style={styles.formRow}>
+                                <TextInput
+                                    style={[styles.input, styles.flexInput]}
+                                    value={newPin}
+                                    onChangeText={setNewPin}
+                                    placeholder="New PIN"
+                                    placeholderTextColor="#B08968"
+                                    secureTextEntry={true}
+                                    keyboardType="number-pad"
+                                    maxLength={8}
+                                />
+                                <TextInput
+                                    style={[styles.input, styles.flexInput]}
+                                    value={confirmPin}
+                                    onChangeText={setConfirmPin}
+                                    placeholder="Confirm PIN"
+                                    placeholderTextColor="#B08968"
+                                    secureTextEntry={true}
+                                    keyboardType="number-pad"
+                                    maxLength={8}
+                                />
+                                <TouchableOpacity style={styles.primaryButton} onPress={handleSavePin}>
+                                    <ThemedText style={styles.primaryButtonText}>Save PIN</ThemedText>
+                                </TouchableOpacity>
+                            </ThemedView>
+                        )}
+                    </ThemedView>
+
+                    {/* Tax Profile */}
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="file-text" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Tax Profile</ThemedText>
+                        </ThemedView>
+
+                        <TouchableOpacity
+                            style={styles.switchRow}
+                            onPress={() => setTaxProfile(prev => ({ ...prev, vatRegistered: !prev.vatRegistered }))}
+                            disabled={!isAdmin}
+                        >
+                            <ThemedText style={styles.switchLabel}>VAT registered</ThemedText>
+                            <Feather
+                                name={taxProfile.vatRegistered ? 'toggle-right' : 'toggle-left'}
+                                size={26}
+                                color={taxProfile.vatRegistered ? '#16A34A' : '#874E3B'}
+                            />
+                        </TouchableOpacity>
+
+                        {taxProfile.vatRegistered && (
+                            <>
+                                <ThemedView style={styles.formRow}>
+                                    <ThemedText style={styles.switchLabel}>VAT rate (%)</ThemedText>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={vatRateInput}
+                                        onChangeText={setVatRateInput}
+                                        keyboardType="decimal-pad"
+                                        editable={isAdmin}
+                                    />
+                                </ThemedView>
+                                <ThemedView style={styles.formRow}>
+                                    {[true, false].map(inclusive => (
+                                        <TouchableOpacity
+                                            key={inclusive ? 'inclusive' : 'exclusive'}
+                                            style={[styles.toggleButton, styles.flexInput, taxProfile.pricesIncludeVat === inclusive && styles.toggleButtonActive]}
+                                            onPress={() => setTaxProfile(prev => ({ ...prev, pricesIncludeVat: inclusive }))}
+                                            disabled={!isAdmin}
+                                        >
+                                            <Text style={[styles.toggleText, taxProfile.pricesIncludeVat === inclusive && styles.toggleTextActive]}>
+                                                {inclusive ? 'Prices include VAT' : 'VAT added on top'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ThemedView>
+
+                                <ThemedText style={styles.switchLabel}>VAT-exempt categories</ThemedText>
+                                <ThemedView style={styles.chipRow}>
+                                    {categoryNames.length === 0 && (
+                                        <ThemedText style={styles.infoText}>No categories found.</ThemedText>
+                                    )}
+                                    {categoryNames.map(name => (
+                                        <TouchableOpacity
+                                            key={name}
+                                            style={[styles.toggleButton, taxProfile.exemptCategories.includes(name) && styles.toggleButtonActive]}
+                                            onPress={() => toggleExemptCategory(name)}
+                                            disabled={!isAdmin}
+                                        >
+                                            <Text style={[styles.toggleText, taxProfile.exemptCategories.includes(name) && styles.toggleTextActive]}>
+                                                {name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ThemedView>
+                                <TextInput
+                                    style={[styles.input, styles.formRow]}
+                                    value={exemptCodesInput}
+                                    onChangeText={setExemptCodesInput}
+                                    placeholder="VAT-exempt item codes, comma separated"
+                                    placeholderTextColor="#B08968"
+                                    editable={isAdmin}
+                                />
+                            </>
+                        )}
+
+                        <ThemedView style={styles.formRow}>
+                            <ThemedText style={styles.switchLabel}>TIN</ThemedText>
+                            <TextInput
+                                style={[styles.input, styles.flexInput]}
+                                value={taxProfile.tin}
+                                onChangeText={tin => setTaxProfile(prev => ({ ...prev, tin }))}
+                                placeholder="000-000-000-000"
+                                placeholderTextColor="#B08968"
+                                editable={isAdmin}
+                            />
+                        </ThemedView>
+
+                        <ThemedView style={styles.formRow}>
+                            <ThemedText style={styles.switchLabel}>Service charge (%)</ThemedText>
+                            <TextInput
+                                style={[styles.input, styles.flexInput]}
+                                value={serviceChargeInput}
+                                onChangeText={setServiceChargeInput}
+                                keyboardType="decimal-pad"
+                                editable={isAdmin}
+                            />
+                        </ThemedView>
+                        <TouchableOpacity
+                            style={styles.switchRow}
+                            onPress={() => setTaxProfile(prev => ({ ...prev, serviceChargeDineInOnly: !prev.serviceChargeDineInOnly }))}
+                            disabled={!isAdmin}
+                        >
+                            <ThemedText style={styles.switchLabel}>Service charge on dine-in only</ThemedText>
+                            <Feather
+                                name={taxProfile.serviceChargeDineInOnly ? 'toggle-right' : 'toggle-left'}
+                                size={26}
+                                color={taxProfile.serviceChargeDineInOnly ? '#16A34A' : '#874E3B'}
+                            />
+                        </TouchableOpacity>
+
+                        {isAdmin && (
+                            <TouchableOpacity style={styles.primaryButton} onPress={handleSaveTaxProfile} disabled={loading}>
+                                <ThemedText style={styles.primaryButtonText}>Save Tax Profile</ThemedText>
+                            </TouchableOpacity>
+                        )}
+                    </ThemedView>
+
+                    {/* Loyalty Program */}
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="award" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Loyalty Program</ThemedText>
+                        </ThemedView>
+
+                        <TouchableOpacity
+                            style={styles.switchRow}
+                            onPress={() => setLoyalty(prev => ({ ...prev, enabled: !prev.enabled }))}
+                            disabled={!isAdmin}
+                        >
+                            <ThemedText style={styles.switchLabel}>Stamps and points for linked customers</ThemedText>
+                            <Feather
+                                name={loyalty.enabled ? 'toggle-right' : 'toggle-left'}
+                                size={26}
+                                color={loyalty.enabled ? '#16A34A' : '#874E3B'}
+                            />
+                        </TouchableOpacity>
+
+                        {loyalty.enabled && (
+                            <>
+                                <ThemedView style={styles.formRow}>
+                                    <ThemedText style={styles.switchLabel}>Stamps for a free item</ThemedText>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={stampsInput}
+                                        onChangeText={setStampsInput}
+                                        keyboardType="number-pad"
+                                        editable={isAdmin}
+                                    />
+                                </ThemedView>
+                                <ThemedText style={styles.infoText}>
+                                    9 means buy 9, get the 10th free. One stamp per item bought.
+                                </ThemedText>
+
+                                <ThemedText style={styles.switchLabel}>Categories that earn stamps (none selected = all)</ThemedText>
+                                <ThemedView style={styles.chipRow}>
+                                    {categoryNames.length === 0 && (
+                                        <ThemedText style={styles.infoText}>No categories found.</ThemedText>
+                                    )}
+                                    {categoryNames.map(name => (
+                                        <TouchableOpacity
+                                            key={name}
+                                            style={[styles.toggleButton, loyalty.stampCategories.includes(name) && styles.toggleButtonActive]}
+                                            onPress={() => toggleStampCategory(name)}
+                                            disabled={!isAdmin}
+                                        >
+                                            <Text style={[styles.toggleText, loyalty.stampCategories.includes(name) && styles.toggleTextActive]}>
+                                                {name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ThemedView>
+
+                                <ThemedView style={styles.formRow}>
+                                    <ThemedText style={styles.switchLabel}>₱ per point</ThemedText>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={pesosPerPointInput}
+                                        onChangeText={setPesosPerPointInput}
+                                        keyboardType="decimal-pad"
+                                        placeholder="0 turns points off"
+                                        placeholderTextColor="#B08968"
+                                        editable={isAdmin}
+                                    />
+                                    <ThemedText style={styles.switchLabel}>Point value (₱)</ThemedText>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={pointValueInput}
+                                        onChangeText={setPointValueInput}
+                                        keyboardType="decimal-pad"
+                                        editable={isAdmin}
+                                    />
+                                </ThemedView>
+                                <ThemedView style={styles.formRow}>
+                                    <ThemedText style={styles.switchLabel}>Minimum points to redeem</ThemedText>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={minPointsInput}
+                                        onChangeText={setMinPointsInput}
+                                        keyboardType="number-pad"
+                                        editable={isAdmin}
+                                    />
+                                </ThemedView>
+                            </>
+                        )}
+
+                        {isAdmin && (
+                            <TouchableOpacity style={styles.primaryButton} onPress={handleSaveLoyalty} disabled={loading}>
+                                <ThemedText style={styles.primaryButtonText}>Save Loyalty Program</ThemedText>
+                            </TouchableOpacity>
+                        )}
+                    </ThemedView>
+
+                    {/* Promo Codes */}
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="tag" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Promo Codes</ThemedText>
+                            {!isOnlineMode && (
+                                <ThemedText style={styles.offlineBadge}>OFFLINE - read only</ThemedText>
+                            )}
+                        </ThemedView>
+
+                        {isAdmin && (
+                            <>
+                                <ThemedView style={styles.formRow}>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promoCode}
+                                        onChangeText={setPromoCode}
+                                        placeholder="Code (e.g. KAPE10)"
+                                        placeholderTextColor="#B08968"
+                                        autoCapitalize="characters"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promoLabel}
+                                        onChangeText={setPromoLabel}
+                                        placeholder="Description"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                </ThemedView>
+                                <ThemedView style={styles.formRow}>
+                                    {(['percent', 'fixed'] as DiscountValueType[]).map(type => (
+                                        <TouchableOpacity
+                                            key={type}
+                                            style={[styles.toggleButton, promoValueType === type && styles.toggleButtonActive]}
+                                            onPress={() => setPromoValueType(type)}
+                                        >
+                                            <Text style={[styles.toggleText, promoValueType === type && styles.toggleTextActive]}>
+                                                {type === 'percent' ? '%' : '₱'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promoValue}
+                                        onChangeText={setPromoValue}
+                                        placeholder="Value"
+                                        placeholderTextColor="#B08968"
+                                        keyboardType="decimal-pad"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promoMinSpend}
+                                        onChangeText={setPromoMinSpend}
+                                        placeholder="Min. spend"
+                                        placeholderTextColor="#B08968"
+                                        keyboardType="decimal-pad"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promoExpiresAt}
+                                        onChangeText={setPromoExpiresAt}
+                                        placeholder="Expires YYYY-MM-DD"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    <TouchableOpacity style={styles.primaryButton} onPress={handleAddPromo} disabled={loading}>
+                                        <Feather name="plus" size={16} color="#FFFEEA" />
+                                    </TouchableOpacity>
+                                </ThemedView>
+                            </>
+                        )}
+
+                        {promoCodes.length === 0 ? (
+                            <ThemedText style={styles.infoText}>No promo codes yet.</ThemedText>
+                        ) : (
+                            promoCodes.map(promo => (
+                                <ThemedView key={promo.id} style={styles.listRow}>
+                                    <ThemedView style={styles.listInfo}>
+                                        <ThemedText style={styles.listTitle}>
+                                            {promo.code} {!promo.active && '(inactive)'}
+                                        </ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {promo.label} · {promo.valueType === 'percent' ? `${promo.value}%` : `₱${promo.value.toFixed(2)}`} off
+                                            {promo.minSpend ? ` · min ₱${promo.minSpend.toFixed(2)}` : ''}
+                                            {promo.expiresAt ? ` · until ${new Date(promo.expiresAt).toLocaleDateString()}` : ''}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    {isAdmin && (
+                                        <ThemedView style={styles.listActions}>
+                                            <TouchableOpacity onPress={() => handleTogglePromo(promo)}>
+                                                <Feather
+                                                    name={promo.active ? 'toggle-right' : 'toggle-left'}
+                                                    size={22}
+                                                    color={promo.active ? '#16A34A' : '#874E3B'}
+                                                />
+                                            </TouchableOpacity>
+                                            <TouchableOpacity onPress={() => handleDeletePromo(promo)}>
+                                                <Feather name="trash-2" size={18} color="#DC2626" />
+                                            </TouchableOpacity>
+                                        </ThemedView>
+                                    )}
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+
+                    {/* Scheduled Promotions */}
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="clock" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Scheduled Promotions</ThemedText>
+                            {!isOnlineMode && (
+                                <ThemedText style={styles.offlineBadge}>OFFLINE - read only</ThemedText>
+                            )}
+                        </ThemedView>
+                        <ThemedText style={styles.infoText}>
+                            Applied by the POS on its own while running, e.g. happy hour. A line gets the one promotion that takes the most off.
+                        </ThemedText>
+
+                        {isAdmin && (
+                            <>
+                                <ThemedView style={styles.formRow}>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionName}
+                                        onChangeText={setPromotionName}
+                                        placeholder="Name (e.g. Happy Hour)"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    {(['percent', 'fixed'] as DiscountValueType[]).map(type => (
+                                        <TouchableOpacity
+                                            key={type}
+                                            style={[styles.toggleButton, promotionValueType === type && styles.toggleButtonActive]}
+                                            onPress={() => setPromotionValueType(type)}
+                                        >
+                                            <Text style={[styles.toggleText, promotionValueType === type && styles.toggleTextActive]}>
+                                                {type === 'percent' ? '%' : '₱ each'}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionValue}
+                                        onChangeText={setPromotionValue}
+                                        placeholder="Value"
+                                        placeholderTextColor="#B08968"
+                                        keyboardType="decimal-pad"
+                                    />
+                                </ThemedView>
+
+                                <ThemedText style={styles.switchLabel}>Days (none selected = every day)</ThemedText>
+                                <ThemedView style={styles.chipRow}>
+                                    {DAY_LABELS.map((label, day) => (
+                                        <TouchableOpacity
+                                            key={label}
+                                            style={[styles.toggleButton, promotionDays.includes(day) && styles.toggleButtonActive]}
+                                            onPress={() => togglePromotionDay(day)}
+                                        >
+                                            <Text style={[styles.toggleText, promotionDays.includes(day) && styles.toggleTextActive]}>
+                                                {label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ThemedView>
+
+                                <ThemedView style={styles.formRow}>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionStartTime}
+                                        onChangeText={setPromotionStartTime}
+                                        placeholder="From HH:MM"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionEndTime}
+                                        onChangeText={setPromotionEndTime}
+                                        placeholder="Until HH:MM"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionStartDate}
+                                        onChangeText={setPromotionStartDate}
+                                        placeholder="Starts YYYY-MM-DD"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionEndDate}
+                                        onChangeText={setPromotionEndDate}
+                                        placeholder="Ends YYYY-MM-DD"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                </ThemedView>
+
+                                <ThemedText style={styles.switchLabel}>Categories (none selected and no codes = whole menu)</ThemedText>
+                                <ThemedView style={styles.chipRow}>
+                                    {categoryNames.length === 0 && (
+                                        <ThemedText style={styles.infoText}>No categories found.</ThemedText>
+                                    )}
+                                    {categoryNames.map(name => (
+                                        <TouchableOpacity
+                                            key={name}
+                                            style={[styles.toggleButton, promotionCategories.includes(name) && styles.toggleButtonActive]}
+                                            onPress={() => togglePromotionCategory(name)}
+                                        >
+                                            <Text style={[styles.toggleText, promotionCategories.includes(name) && styles.toggleTextActive]}>
+                                                {name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ThemedView>
+                                <ThemedView style={styles.formRow}>
+                                    <TextInput
+                                        style={[styles.input, styles.flexInput]}
+                                        value={promotionCodesInput}
+                                        onChangeText={setPromotionCodesInput}
+                                        placeholder="Item codes, comma separated"
+                                        placeholderTextColor="#B08968"
+                                    />
+                                    <TouchableOpacity style={styles.primaryButton} onPress={handleAddPromotion} disabled={loading}>
+                                        <Feather name="plus" size={16} color="#FFFEEA" />
+                                    </TouchableOpacity>
+                                </ThemedView>
+                            </>
+                        )}
+
+                        {promotions.length === 0 ? (
+                            <ThemedText style={styles.infoText}>No promotions yet.</ThemedText>
+                        ) : (
+                            promotions.map(promotion => (
+                                <ThemedView key={promotion.id} style={styles.listRow}>
+                                    <ThemedView style={styles.listInfo}>
+                                        <ThemedText style={styles.listTitle}>
+                                            {promotion.name} {!promotion.active && '(inactive)'}
+                                        </ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {describePromotion(promotion)}
+                                        </ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {promotion.categories.length === 0 && promotion.itemCodes.length === 0
+                                                ? 'Whole menu'
+                                                : [...promotion.categories, ...promotion.itemCodes].join(', ')}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    {isAdmin && (
+                                        <ThemedView style={styles.listActions}>
+                                            <TouchableOpacity onPress={() => handleTogglePromotion(promotion)}>
+                                                <Feather
+                                                    name={promotion.active ? 'toggle-right' : 'toggle-left'}
+                                                    size={22}
+                                                    color={promotion.active ? '#16A34A' : '#874E3B'}
+                                                />
+                                            </TouchableOpacity>
+                                            <TouchableOpacity onPress={() => handleDeletePromotion(promotion)}>
+                                                <Feather name="trash-2" size={18} color="#DC2626" />
+                                            </TouchableOpacity>
+                                        </ThemedView>
+                                    )}
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    offlineBadge: {
+        fontSize: 11,
+        color: '#DC2626',
+        fontWeight: '600',
+        marginLeft: 'auto',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    formRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+    },
+    flexInput: {
+        flex: 1,
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    toggleButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    toggleButtonActive: {
+        backgroundColor: '#874E3B',
+    },
+    toggleText: {
+        color: '#874E3B',
+        fontWeight: '600',
+    },
+    toggleTextActive: {
+        color: '#FFFEEA',
+    },
+    switchRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 6,
+        marginBottom: 4,
+    },
+    switchLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#874E3B',
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginVertical: 8,
+        backgroundColor: 'transparent',
+    },
+    listRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    listInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    listActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 14,
+        backgroundColor: 'transparent',
+    },
+});
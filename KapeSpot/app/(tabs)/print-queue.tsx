@@ -0,0 +1,367 @@
+// app/(tabs)/print-queue.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ImageBackground,
+    Alert
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+    clearPrintedJobs,
+    discardPrintJob,
+    loadPrintQueue,
+    movePrintJob,
+    reprintJob,
+    retryPrintQueue,
+    subscribePrintQueue
+} from '@/lib/print-queue';
+import { PrintJob, PrintJobSource } from '@/types/print';
+
+const SOURCE_LABELS: Record<PrintJobSource, string> = {
+    pos: 'POS',
+    log: 'Log',
+    sales: 'Sales & Expense',
+    ticket: 'Station Ticket'
+};
+
+const formatTime = (value: string | number) => {
+    return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
+
+const describeJobStatus = (job: PrintJob): string => {
+    const copy = job.copies > 1 ? ` · copy ${Math.min(job.copiesPrinted + 1, job.copies)} of ${job.copies}` : '';
+    const progress = job.sentChunks > 0 ? ` · ${job.sentChunks} parts sent` : '';
+
+    switch (job.status) {
+        case 'printing':
+            return `Printing${copy}${progress}`;
+        case 'failed':
+            return `Failed ${job.attempts}x${copy}${progress}` +
+                (job.nextAttemptAt ? ` · next try ${formatTime(job.nextAttemptAt)}` : ' · retrying');
+        default:
+            return `Waiting${copy}`;
+    }
+};
+
+export default function PrintQueueScreen() {
+    const [jobs, setJobs] = useState<PrintJob[]>([]);
+    const [busy, setBusy] = useState(false);
+
+    // The queue changes under this screen while the worker prints, so follow it live
+    useFocusEffect(
+        React.useCallback(() => {
+            loadPrintQueue()
+                .then(setJobs)
+                .catch(error => console.error('❌ Error loading print queue:', error));
+            return subscribePrintQueue(setJobs);
+        }, [])
+    );
+
+    const waitingJobs = jobs.filter(job => job.status !== 'done');
+    const printedJobs = jobs.filter(job => job.status === 'done').reverse();
+
+    const runAction = async (action: () => Promise<void>, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error('❌ Print queue action failed:', error);
+            Alert.alert('Error', failure);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRetry = () => runAction(retryPrintQueue, 'Failed to retry the print queue.');
+
+    const handleDiscard = (job: PrintJob) => {
+        Alert.alert('Discard Print Job', `"${job.title}" will not be printed.`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Discard',
+                style: 'destructive',
+                onPress: () => runAction(() => discardPrintJob(job.id), 'Failed to discard the print job.')
+            }
+        ]);
+    };
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="print-queue" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Print Queue</ThemedText>
+                        <TouchableOpacity style={styles.reloadButton} onPress={handleRetry} disabled={busy}>
+                            <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                        </TouchableOpacity>
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="printer" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Waiting to Print</ThemedText>
+                        </ThemedView>
+
+                        {waitingJobs.length === 0 ? (
+                            <ThemedText style={styles.infoText}>
+                                Nothing waiting. Receipts that can&apos;t reach the printer stay here and print in order once it reconnects.
+                            </ThemedText>
+                        ) : (
+                            waitingJobs.map((job, index) => (
+                                <ThemedView key={job.id} style={styles.listRow}>
+                                    <ThemedView style={styles.jobRow}>
+                                        <ThemedView style={styles.jobInfo}>
+                                            <ThemedText style={styles.listTitle}>{job.title}</ThemedText>
+                                            <ThemedText style={styles.listSubtitle}>
+                                                {SOURCE_LABELS[job.source]} · queued {formatTime(job.createdAt)}
+                                            </ThemedText>
+                                            <ThemedText style={[styles.statusText, job.status === 'failed' && styles.statusFailed]}>
+                                                {describeJobStatus(job)}
+                                            </ThemedText>
+                                            {job.status === 'failed' && job.lastError && (
+                                                <ThemedText style={styles.errorText}>{job.lastError}</ThemedText>
+                                            )}
+                                        </ThemedView>
+
+                                        {job.status !== 'printing' && (
+                                            <ThemedView style={styles.jobActions}>
+                                                <TouchableOpacity
+                                                    style={styles.iconButton}
+                                                    onPress={() => runAction(() => movePrintJob(job.id, -1), 'Failed to move the print job.')}
+                                                    disabled={busy || index === 0}
+                                                >
+                                                    <Feather name="chevron-up" size={18} color={index === 0 ? '#D4A574' : '#854442'} />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity
+                                                    style={styles.iconButton}
+                                                    onPress={() => runAction(() => movePrintJob(job.id, 1), 'Failed to move the print job.')}
+                                                    disabled={busy || index === waitingJobs.length - 1}
+                                                >
+                                                    <Feather
+                                                        name="chevron-down"
+                                                        size={18}
+                                                        color={index === waitingJobs.length - 1 ? '#D4A574' : '#854442'}
+                                                    />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity
+                                                    style={styles.iconButton}
+                                                    onPress={() => handleDiscard(job)}
+                                                    disabled={busy}
+                                                >
+                                                    <Feather name="trash-2" size={18} color="#DC2626" />
+                                                </TouchableOpacity>
+                                            </ThemedView>
+                                        )}
+                                    </ThemedView>
+                                </ThemedView>
+                            ))
+                        )}
+
+                        {waitingJobs.some(job => job.status === 'failed') && (
+                            <TouchableOpacity style={styles.primaryButton} onPress={handleRetry} disabled={busy}>
+                                <ThemedText style={styles.primaryButtonText}>Retry Now</ThemedText>
+                            </TouchableOpacity>
+                        )}
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="check-circle" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Recently Printed</ThemedText>
+                            {printedJobs.length > 0 && (
+                                <TouchableOpacity
+                                    style={styles.clearButton}
+                                    onPress={() => runAction(clearPrintedJobs, 'Failed to clear printed jobs.')}
+                                    disabled={busy}
+                                >
+                                    <ThemedText style={styles.clearButtonText}>Clear</ThemedText>
+                                </TouchableOpacity>
+                            )}
+                        </ThemedView>
+
+                        {printedJobs.length === 0 ? (
+                            <ThemedText style={styles.infoText}>No printed jobs yet.</ThemedText>
+                        ) : (
+                            printedJobs.map(job => (
+                                <ThemedView key={job.id} style={[styles.listRow, styles.jobRow]}>
+                                    <ThemedView style={styles.jobInfo}>
+                                        <ThemedText style={styles.listTitle}>{job.title}</ThemedText>
+                                        <ThemedText style={styles.listSubtitle}>
+                                            {SOURCE_LABELS[job.source]} · printed {job.printedAt ? formatTime(job.printedAt) : ''}
+                                        </ThemedText>
+                                    </ThemedView>
+                                    <TouchableOpacity
+                                        style={styles.secondaryButton}
+                                        onPress={() => runAction(() => reprintJob(job.id), 'Failed to reprint.')}
+                                        disabled={busy}
+                                    >
+                                        <Feather name="printer" size={14} color="#874E3B" />
+                                        <ThemedText style={styles.secondaryButtonText}>Reprint</ThemedText>
+                                    </TouchableOpacity>
+                                </ThemedView>
+                            ))
+                        )}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    listRow: {
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    jobRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: 'transparent',
+    },
+    jobInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    jobActions: {
+        flexDirection: 'row',
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    statusText: {
+        fontSize: 12,
+        color: '#874E3B',
+        fontWeight: '600',
+        marginTop: 2,
+    },
+    statusFailed: {
+        color: '#DC2626',
+    },
+    errorText: {
+        fontSize: 12,
+        color: '#B08968',
+    },
+    iconButton: {
+        padding: 6,
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    secondaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+    },
+    secondaryButtonText: {
+        fontSize: 13,
+        color: '#874E3B',
+        fontWeight: '600',
+    },
+    clearButton: {
+        marginLeft: 'auto',
+    },
+    clearButtonText: {
+        fontSize: 13,
+        color: '#DC2626',
+        fontWeight: '600',
+    },
+});
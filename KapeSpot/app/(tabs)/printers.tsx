@@ -0,0 +1,392 @@
+// app/(tabs)/printers.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { getFirestore, collection, getDocs } from 'firebase/firestore';
+import { app } from '@/lib/firebase-config';
+import { NetworkScanner } from '@/lib/network-scanner';
+import { OfflineSyncService } from '@/lib/offline-sync';
+import { loadPrinterHealth, loadSavedPrinters, removeSavedPrinter, setPrinterRole } from '@/lib/printer';
+import { PRINTER_KIND_LABELS } from '@/lib/printer-transports';
+import { loadStationRouting, PREP_STATIONS, PRINTER_ROLE_LABELS, setCategoryStation } from '@/lib/printer-routing';
+import { subscribePrintQueue } from '@/lib/print-queue';
+import { PrepStation, PrinterHealth, PrinterRole, SavedPrinter, StationRouting } from '@/types/print';
+
+const ROLES: PrinterRole[] = ['receipt', ...PREP_STATIONS];
+
+const loadCategoryNames = async (): Promise<string[]> => {
+    try {
+        const mode = await NetworkScanner.getApiBaseUrl();
+        if (mode === 'online') {
+            const snapshot = await getDocs(collection(getFirestore(app), 'categories'));
+            return snapshot.docs.map(categoryDoc => categoryDoc.data().name || '').filter(Boolean);
+        }
+        const localCategories = await OfflineSyncService.getInstance().getLocalCategories();
+        return localCategories.map(category => category.name);
+    } catch (error) {
+        console.error('❌ Error loading categories:', error);
+        return [];
+    }
+};
+
+const formatTime = (value: string) => {
+    return new Date(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const describeHealth = (health: PrinterHealth | undefined): string => {
+    if (!health) return 'Not used yet';
+    if (health.ok) return `OK · last printed ${formatTime(health.lastPrintedAt || health.checkedAt)}`;
+    return `Failing since ${formatTime(health.checkedAt)}` +
+        (health.lastPrintedAt ? ` · last printed ${formatTime(health.lastPrintedAt)}` : '');
+};
+
+export default function PrintersScreen() {
+    const [printers, setPrinters] = useState<SavedPrinter[]>([]);
+    const [health, setHealth] = useState<Record<string, PrinterHealth>>({});
+    const [routing, setRouting] = useState<StationRouting>({});
+    const [categoryNames, setCategoryNames] = useState<string[]>([]);
+
+    // Health changes as the print queue works, so it is reloaded whenever the queue moves
+    useFocusEffect(
+        React.useCallback(() => {
+            loadSavedPrinters()
+                .then(setPrinters)
+                .catch(error => console.error('❌ Error loading printers:', error));
+            loadPrinterHealth().then(setHealth);
+            loadStationRouting().then(setRouting);
+            loadCategoryNames().then(names => setCategoryNames(Array.from(new Set(names))));
+
+            return subscribePrintQueue(() => {
+                loadPrinterHealth().then(setHealth);
+            });
+        }, [])
+    );
+
+    // Categories routed earlier but since renamed or removed stay listed, so their rule can be cleared
+    const routedCategories = Array.from(new Set([...categoryNames, ...Object.keys(routing)])).sort();
+    const receiptPrinter = printers.find(printer => printer.role === 'receipt');
+
+    const changeRole = async (printer: SavedPrinter, role: PrinterRole) => {
+        try {
+            await setPrinterRole(printer.id, role);
+            setPrinters(await loadSavedPrinters());
+        } catch (error) {
+            console.error('❌ Error saving printer role:', error);
+            Alert.alert('Error', 'Failed to change the printer role.');
+        }
+    };
+
+    const handleRemove = (printer: SavedPrinter) => {
+        Alert.alert('Remove Printer', `"${printer.name}" will no longer get receipts or tickets.`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Remove',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await removeSavedPrinter(printer.id);
+                        setPrinters(await loadSavedPrinters());
+                    } catch (error) {
+                        console.error('❌ Error removing printer:', error);
+                        Alert.alert('Error', 'Failed to remove the printer.');
+                    }
+                }
+            }
+        ]);
+    };
+
+    const changeStation = async (category: string, station: PrepStation | null) => {
+        try {
+            setRouting(await setCategoryStation(category, station));
+        } catch (error) {
+            console.error('❌ Error saving station routing:', error);
+            Alert.alert('Error', 'Failed to save the routing rule.');
+        }
+    };
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="printers" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Printers & Stations</ThemedText>
+                        <TouchableOpacity style={styles.reloadButton} onPress={() => router.push('/settings')}>
+                            <Feather name="plus" size={18} color="#F5E6D3" />
+                        </TouchableOpacity>
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="printer" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Printers</ThemedText>
+                        </ThemedView>
+
+                        {printers.length === 0 ? (
+                            <ThemedText style={styles.infoText}>
+                                No printers yet. Connect one in Settings; the first one prints receipts.
+                            </ThemedText>
+                        ) : (
+                            printers.map(printer => {
+                                const printerHealth = health[printer.id];
+                                return (
+                                    <ThemedView key={printer.id} style={styles.listRow}>
+                                        <ThemedView style={styles.printerRow}>
+                                            <ThemedView
+                                                style={[
+                                                    styles.healthDot,
+                                                    printerHealth ? (printerHealth.ok ? styles.healthOk : styles.healthFailed) : styles.healthUnknown
+                                                ]}
+                                            />
+                                            <ThemedView style={styles.printerInfo}>
+                                                <ThemedText style={styles.listTitle}>{printer.name}</ThemedText>
+                                                <ThemedText style={styles.listSubtitle}>
+                                                    {PRINTER_KIND_LABELS[printer.kind]} · {describeHealth(printerHealth)}
+                                                </ThemedText>
+                                                {printerHealth && !printerHealth.ok && printerHealth.lastError && (
+                                                    <ThemedText style={styles.errorText}>{printerHealth.lastError}</ThemedText>
+                                                )}
+                                            </ThemedView>
+                                            <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(printer)}>
+                                                <Feather name="trash-2" size={18} color="#DC2626" />
+                                            </TouchableOpacity>
+                                        </ThemedView>
+
+                                        <ThemedView style={styles.chipRow}>
+                                            {ROLES.map(role => (
+                                                <TouchableOpacity
+                                                    key={role}
+                                                    style={[styles.toggleButton, printer.role === role && styles.toggleButtonActive]}
+                                                    onPress={() => changeRole(printer, role)}
+                                                >
+                                                    <Text style={[styles.toggleText, printer.role === role && styles.toggleTextActive]}>
+                                                        {PRINTER_ROLE_LABELS[role]}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </ThemedView>
+                                        {printer.role === 'receipt' && receiptPrinter && receiptPrinter.id !== printer.id && (
+                                            <ThemedText style={styles.infoText}>
+                                                Receipts print on {receiptPrinter.name}, the first receipt printer.
+                                            </ThemedText>
+                                        )}
+                                    </ThemedView>
+                                );
+                            })
+                        )}
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        <ThemedView style={styles.cardHeader}>
+                            <Feather name="git-branch" size={18} color="#854442" />
+                            <ThemedText style={styles.cardTitle}>Station Routing</ThemedText>
+                        </ThemedView>
+                        <ThemedText style={styles.infoText}>
+                            When an order is placed, each station&apos;s printers get a ticket with only the lines from its
+                            categories, with their options and the order notes. Categories set to None print no ticket.
+                        </ThemedText>
+
+                        {routedCategories.length === 0 ? (
+                            <ThemedText style={styles.infoText}>No categories found.</ThemedText>
+                        ) : (
+                            routedCategories.map(category => (
+                                <ThemedView key={category} style={[styles.listRow, styles.routingRow]}>
+                                    <ThemedText style={[styles.listTitle, styles.routingCategory]}>{category}</ThemedText>
+                                    <ThemedView style={styles.routingChips}>
+                                        {[null, ...PREP_STATIONS].map(station => {
+                                            const active = (routing[category] || null) === station;
+                                            return (
+                                                <TouchableOpacity
+                                                    key={station || 'none'}
+                                                    style={[styles.toggleButton, active && styles.toggleButtonActive]}
+                                                    onPress={() => changeStation(category, station)}
+                                                >
+                                                    <Text style={[styles.toggleText, active && styles.toggleTextActive]}>
+                                                        {station ? PRINTER_ROLE_LABELS[station] : 'None'}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            );
+                                        })}
+                                    </ThemedView>
+                                </ThemedView>
+                            ))
+                        )}
+
+                        {PREP_STATIONS.filter(station => Object.values(routing).includes(station)
+                            && !printers.some(printer => printer.role === station)).map(station => (
+                            <ThemedText key={station} style={styles.errorText}>
+                                No printer is set to {PRINTER_ROLE_LABELS[station]}, so its tickets are skipped.
+                            </ThemedText>
+                        ))}
+                    </ThemedView>
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    listRow: {
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    printerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: 'transparent',
+    },
+    printerInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    healthDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    healthOk: {
+        backgroundColor: '#16A34A',
+    },
+    healthFailed: {
+        backgroundColor: '#DC2626',
+    },
+    healthUnknown: {
+        backgroundColor: '#D4A574',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    errorText: {
+        fontSize: 12,
+        color: '#DC2626',
+    },
+    iconButton: {
+        padding: 6,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginVertical: 8,
+        backgroundColor: 'transparent',
+    },
+    routingRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    routingCategory: {
+        flex: 1,
+    },
+    routingChips: {
+        flexDirection: 'row',
+        gap: 6,
+        backgroundColor: 'transparent',
+    },
+    toggleButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    toggleButtonActive: {
+        backgroundColor: '#874E3B',
+    },
+    toggleText: {
+        color: '#874E3B',
+        fontWeight: '600',
+    },
+    toggleTextActive: {
+        color: '#FFFEEA',
+    },
+});
@@ -23,6 +23,7 @@ import { NetworkScanner } from '@/lib/network-scanner';
 import { useFocusEffect } from '@react-navigation/native';
 import React from 'react';
 import { OfflineSyncService } from '@/lib/offline-sync';
+import { getCustomerKey, loadCustomers } from '@/lib/customers';
 import { Svg, Line, Rect, Text as SvgText, G } from 'react-native-svg';
 import {
     getFirestore,
@@ -39,9 +40,30 @@ import {
 } from 'firebase/firestore';
 import { app } from '@/lib/firebase-config';
 import * as FileSystem from 'expo-file-system';
-import BleManager from 'react-native-ble-manager';
+import { PrintBlock, PrintDocument } from '@/types/print';
+import { compileDocument } from '@/lib/escpos';
+import { describeQueuedJob, submitPrintJob } from '@/lib/print-queue';
 import ReactNativeBlobUtil from 'react-native-blob-util'; // ADD THIS IMPORT FOR EXPORT
 import * as Sharing from 'expo-sharing';
+import { Tender, TenderType } from '@/types/payment';
+import { getTenderLabel, isOrderPaid, summarizeByTender } from '@/lib/payments';
+import { getOrderDiscountTotal } from '@/lib/discounts';
+import { CupUsage, DailyCupUsage, summarizeCupUsageByDay } from '@/lib/cups';
+import { PromotionSummary } from '@/types/promotion';
+import { summarizePromotions } from '@/lib/promotions';
+import { loadRefunds } from '@/lib/refunds';
+import { RefundRecord } from '@/types/refund';
+import { OrderBill } from '@/types/order';
+import { Customer } from '@/types/customer';
+import { CreditAging } from '@/types/credit';
+import {
+    AGING_BUCKETS,
+    computeCreditAging,
+    formatAgingReport,
+    formatCreditStatement,
+    loadAllCreditEntries,
+    loadCreditLedger
+} from '@/lib/credit';
 
 interface OrderData {
     orderId: string;
@@ -52,6 +74,19 @@ interface OrderData {
     timestamp: string;
     status: 'unpaid' | 'paid' | 'cancelled';
     firebaseId?: string;
+    payments?: Tender[];
+    changeDue?: number;
+    discount_total?: number;
+    discountTotal?: number;
+    cups_breakdown?: CupUsage;
+    cupsBreakdown?: CupUsage;
+    refundId?: string; // set on the negative entries made from refunds
+    bills?: OrderBill[];
+    merged_from?: string[];
+    // Local receipts (pendingReceipts) use camelCase
+    mergedFrom?: string[];
+    customer_id?: string;
+    customerId?: string;
 }
 
 interface SalesData {
@@ -156,6 +191,27 @@ const SimpleBarChart = ({ data, labels, color = '#874E3B', title }: { data: numb
     );
 };
 
+// Refunds count against sales on the day they were given, as negative entries paid back with their tender.
+// Voids need nothing here: they already lowered (or cancelled) the order itself.
+const withRefunds = (paidOrders: OrderData[], refunds: RefundRecord[]): OrderData[] => {
+    const refundEntries: OrderData[] = refunds
+        .filter(refund => refund.kind === 'refund')
+        .map(refund => ({
+            orderId: refund.orderId,
+            customerName: refund.customerName,
+            items: refund.lines,
+            subtotal: -refund.amount,
+            total: -refund.amount,
+            timestamp: refund.timestamp,
+            status: 'paid',
+            payments: [{ type: refund.tender || 'cash', amount: -refund.amount, receivedAt: refund.timestamp }],
+            refundId: refund.id
+        }));
+
+    return [...paidOrders, ...refundEntries]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
 // Recent Sales List Component
 const RecentSalesList = ({ orders }: { orders: OrderData[] }) => {
     return (
@@ -165,21 +221,27 @@ const RecentSalesList = ({ orders }: { orders: OrderData[] }) => {
             nestedScrollEnabled={true}
         >
             {orders.slice(0, 10).map((order, index) => (
-                <ThemedView key={order.orderId} style={styles.activityItem}>
+                <ThemedView key={order.refundId || order.orderId} style={styles.activityItem}>
                     <ThemedView style={styles.activityIcon}>
-                        <Feather name="shopping-bag" size={16} color="#874E3B" />
+                        <Feather
+                            name={order.refundId ? 'rotate-ccw' : 'shopping-bag'}
+                            size={16}
+                            color={order.refundId ? '#DC2626' : '#874E3B'}
+                        />
                     </ThemedView>
                     <ThemedView style={styles.activityDetails}>
                         <ThemedText style={styles.activityCustomer}>
-                            {order.customerName}
+                            {order.customerName}{order.refundId ? ` (Refund - ${order.orderId})` : ''}
+                            {!!order.bills?.length && ` · Split ×${order.bills.length}`}
+                            {!!(order.merged_from || order.mergedFrom)?.length && ` · Merged +#${(order.merged_from || order.mergedFrom || []).join(', #')}`}
                         </ThemedText>
                         <ThemedText style={styles.activityTime}>
                             {new Date(order.timestamp).toLocaleDateString()} •
                             {new Date(order.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                         </ThemedText>
                     </ThemedView>
-                    <ThemedText style={styles.activityAmount}>
-                        ₱{order.total.toFixed(2)}
+                    <ThemedText style={[styles.activityAmount, order.refundId && styles.refundAmount]}>
+                        {order.total < 0 ? `-₱${Math.abs(order.total).toFixed(2)}` : `₱${order.total.toFixed(2)}`}
                     </ThemedText>
                 </ThemedView>
             ))}
@@ -198,6 +260,12 @@ export default function SalesExpenseScreen() {
     const [isOnlineMode, setIsOnlineMode] = useState<boolean>(false);
     const [timeFilter, setTimeFilter] = useState<'day' | 'week' | 'month' | 'year'>('week');
     const [salesData, setSalesData] = useState<SalesData[]>([]);
+    const [periodTotals, setPeriodTotals] = useState({ gross: 0, discount: 0, refunds: 0, net: 0 });
+    const [tenderBreakdown, setTenderBreakdown] = useState<Record<TenderType | 'unrecorded', number>>(summarizeByTender([]));
+    const [cupUsageByDay, setCupUsageByDay] = useState<DailyCupUsage[]>([]);
+    const [promotionSummaries, setPromotionSummaries] = useState<PromotionSummary[]>([]);
+    const [accountCustomers, setAccountCustomers] = useState<Customer[]>([]);
+    const [creditAgings, setCreditAgings] = useState<CreditAging[]>([]);
     const [modalVisible, setModalVisible] = useState(false);
     const [savingExpense, setSavingExpense] = useState(false);
     const [expenseRows, setExpenseRows] = useState([{ description: '', cost: '' }]);
@@ -259,7 +327,13 @@ export default function SalesExpenseScreen() {
                                 total: Number(data.total) || 0,
                                 timestamp: data.timestamp || data.created_at || new Date().toISOString(),
                                 status: data.status || 'paid',
-                                firebaseId: doc.id
+                                firebaseId: doc.id,
+                                payments: data.payments || [],
+                                changeDue: Number(data.change_due) || 0,
+                                discount_total: Number(data.discount_total) || 0,
+                                bills: data.bills || [],
+                                merged_from: data.merged_from,
+                                customer_id: data.customer_id || undefined
                             };
 
                             firebaseOrders.push(order);
@@ -270,12 +344,15 @@ export default function SalesExpenseScreen() {
                         setHasFirebaseData(hasData);
 
                         // Filter only paid orders for sales calculations
-                        const paidOrders = firebaseOrders.filter(order => order.status === 'paid');
-
-                        // Update state with new data
-                        setOrders(paidOrders);
-                        processSalesData(paidOrders);
-                        calculateOverallTotals(paidOrders);
+                        const paidOrders = firebaseOrders.filter(isOrderPaid);
+
+                        // Update state with new data; a refund also updates its order, so this picks up new refunds too
+                        loadRefunds().then(refunds => {
+                            const salesOrders = withRefunds(paidOrders, refunds);
+                            setOrders(salesOrders);
+                            processSalesData(salesOrders);
+                            calculateOverallTotals(salesOrders);
+                        });
                         setLastUpdate(new Date().toLocaleTimeString());
                         console.log('✅ Real-time sales updated:', {
                             totalOrders: firebaseOrders.length,
@@ -506,7 +583,7 @@ export default function SalesExpenseScreen() {
                 // Load from local storage - ALL ORDERS but filter for PAID only
                 console.log('📱 Loading sales data from local storage...');
                 const localOrders = await syncService.getPendingReceipts();
-                allOrders = localOrders.filter(order => order.status === 'paid');
+                allOrders = localOrders.filter(isOrderPaid);
                 console.log('📱 Local sales data loaded:', allOrders.length);
 
                 setHasFirebaseData(false); // Offline mode, no Firebase data
@@ -541,7 +618,14 @@ export default function SalesExpenseScreen() {
                             total: Number(data.total) || 0,
                             timestamp: data.timestamp || data.created_at || new Date().toISOString(),
                             status: data.status || 'paid',
-                            firebaseId: doc.id
+                            firebaseId: doc.id,
+                            payments: data.payments || [],
+                            changeDue: Number(data.change_due) || 0,
+                            discount_total: Number(data.discount_total) || 0,
+                            cups_breakdown: data.cups_breakdown || {},
+                            bills: data.bills || [],
+                            merged_from: data.merged_from,
+                            customer_id: data.customer_id || undefined
                         };
                     });
 
@@ -549,7 +633,7 @@ export default function SalesExpenseScreen() {
                     setHasFirebaseData(firebaseOrders.length > 0);
 
                     // Filter only paid orders for sales
-                    allOrders = firebaseOrders.filter(order => order.status === 'paid');
+                    allOrders = firebaseOrders.filter(isOrderPaid);
 
                     console.log('🔥 Firebase sales data loaded:', {
                         totalOrders: firebaseOrders.length,
@@ -561,13 +645,13 @@ export default function SalesExpenseScreen() {
                     console.log('⚠️ Failed to load from Firebase, falling back to local storage:', firebaseError);
 
                     const localOrders = await syncService.getPendingReceipts();
-                    allOrders = localOrders.filter(order => order.status === 'paid');
+                    allOrders = localOrders.filter(isOrderPaid);
                     setHasFirebaseData(false);
                     console.log('📱 Fallback to local sales data:', allOrders.length);
                 }
             }
 
-            allOrders.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+            allOrders = withRefunds(allOrders, await loadRefunds());
             setOrders(allOrders);
             processSalesData(allOrders);
             calculateOverallTotals(allOrders);
@@ -580,8 +664,8 @@ export default function SalesExpenseScreen() {
             try {
                 const syncService = OfflineSyncService.getInstance();
                 const localOrders = await syncService.getPendingReceipts();
-                const filteredOrders = localOrders.filter(order => order.status === 'paid');
-                filteredOrders.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+                const localRefunds = await syncService.getRefunds();
+                const filteredOrders = withRefunds(localOrders.filter(isOrderPaid), localRefunds);
                 setOrders(filteredOrders);
                 processSalesData(filteredOrders);
                 calculateOverallTotals(filteredOrders);
@@ -634,6 +718,12 @@ export default function SalesExpenseScreen() {
         React.useCallback(() => {
             loadOrders();
             checkFirebaseData();
+            Promise.all([loadCustomers(), loadAllCreditEntries()])
+                .then(([customers, entries]) => {
+                    setAccountCustomers(customers);
+                    setCreditAgings(computeCreditAging(customers, entries));
+                })
+                .catch(error => console.error('❌ Error loading customer accounts:', error));
         }, [timeFilter])
     );
 
@@ -693,9 +783,12 @@ export default function SalesExpenseScreen() {
             }
 
             groupedData[dateKey].sales += order.total;
+            if (order.refundId) return;
+
             groupedData[dateKey].orders += 1;
-            if (!groupedData[dateKey].customers.includes(order.customerName)) {
-                groupedData[dateKey].customers.push(order.customerName);
+            const customerKey = getCustomerKey(order);
+            if (!groupedData[dateKey].customers.includes(customerKey)) {
+                groupedData[dateKey].customers.push(customerKey);
             }
         });
 
@@ -717,6 +810,21 @@ export default function SalesExpenseScreen() {
         });
 
         setSalesData(sortedData);
+        setTenderBreakdown(summarizeByTender(filteredOrders));
+        setCupUsageByDay(summarizeCupUsageByDay(filteredOrders));
+        setPromotionSummaries(summarizePromotions(filteredOrders));
+        setPeriodTotals(filteredOrders.reduce((totals, order) => {
+            if (order.refundId) {
+                return { ...totals, refunds: totals.refunds - order.total, net: totals.net + order.total };
+            }
+            const discount = getOrderDiscountTotal(order);
+            return {
+                ...totals,
+                gross: totals.gross + (order.subtotal || order.total + discount),
+                discount: totals.discount + discount,
+                net: totals.net + order.total
+            };
+        }, { gross: 0, discount: 0, refunds: 0, net: 0 }));
     };
 
     const addNewRow = () => {
@@ -1009,22 +1117,23 @@ export default function SalesExpenseScreen() {
     };
 
     // Utility function to check if print data is too large
-    const isPrintDataTooLarge = (data: string, maxSize: number = 2000): boolean => {
-        const byteLength = new TextEncoder().encode(data).length;
+    const isPrintDataTooLarge = (document: PrintDocument, maxSize: number = 2000): boolean => {
+        const byteLength = compileDocument(document).length;
         console.log(`📊 Print data size: ${byteLength} bytes`);
         return byteLength > maxSize;
     };
 
     // Helper function to generate receipt content
-    const generateExpensesReceiptContent = (): string => {
+    const generateExpensesReceiptContent = (): PrintDocument => {
         const currentDate = new Date().toLocaleDateString();
         const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-        let receiptContent = `\n\n    ALL EXPENSES REPORT\n`;
-        receiptContent += `==============================\n`;
-        receiptContent += `Date: ${currentDate}\n`;
-        receiptContent += `Time: ${currentTime}\n`;
-        receiptContent += `==============================\n\n`;
+        const blocks: PrintBlock[] = [
+            { type: 'text', text: 'ALL EXPENSES REPORT', align: 'center', bold: true },
+            { type: 'separator', char: '=' },
+            { type: 'text', text: `Date: ${currentDate}\nTime: ${currentTime}` },
+            { type: 'separator', char: '=' }
+        ];
 
         allExpenses.forEach((expenseDoc, docIndex) => {
             const batchDate = expenseDoc.createdAt ?
@@ -1032,45 +1141,46 @@ export default function SalesExpenseScreen() {
             const batchTime = expenseDoc.createdAt ?
                 new Date(expenseDoc.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'Unknown Time';
 
-            receiptContent += `BATCH ${docIndex + 1}\n`;
-            receiptContent += `Date: ${batchDate} ${batchTime}\n`;
-            receiptContent += `------------------------------\n`;
-            receiptContent += `Item                Cost\n`;
-            receiptContent += `------------------------------\n`;
+            blocks.push(
+                { type: 'text', text: `BATCH ${docIndex + 1}`, bold: true },
+                { type: 'text', text: `Date: ${batchDate} ${batchTime}` },
+                { type: 'separator' },
+                { type: 'row', left: 'Item', right: 'Cost' },
+                { type: 'separator' }
+            );
 
+            // Descriptions wrap under their number instead of being cut off
             expenseDoc.expenses.forEach((expense, expenseIndex) => {
-                const itemNumber = `${expenseIndex + 1}.`;
-                const description = expense.description.substring(0, 18);
-                const cost = `₱${expense.cost.toFixed(2)}`;
-
-                let line = `${itemNumber} ${description}`;
-                const targetLength = 22;
-                const currentLength = line.length;
-                if (currentLength < targetLength) {
-                    line += ' '.repeat(targetLength - currentLength);
-                }
-                line += `${cost}\n`;
-
-                receiptContent += line;
+                blocks.push({
+                    type: 'row',
+                    left: `${expenseIndex + 1}. ${expense.description}`,
+                    right: `₱${expense.cost.toFixed(2)}`
+                });
             });
 
-            receiptContent += `------------------------------\n`;
-            receiptContent += `Batch Total: ₱${expenseDoc.total.toFixed(2)}\n\n`;
+            blocks.push(
+                { type: 'separator' },
+                { type: 'row', left: 'Batch Total:', right: `₱${expenseDoc.total.toFixed(2)}`, bold: true },
+                { type: 'text', text: '' }
+            );
         });
 
         const grandTotal = getAllExpensesTotal();
         const totalBatches = allExpenses.length;
         const totalItems = allExpenses.reduce((total, doc) => total + doc.expenses.length, 0);
 
-        receiptContent += `==============================\n`;
-        receiptContent += `GRAND TOTAL\n`;
-        receiptContent += `Amount: ₱${grandTotal.toFixed(2)}\n`;
-        receiptContent += `Batches: ${totalBatches}\n`;
-        receiptContent += `Items: ${totalItems}\n`;
-        receiptContent += `==============================\n\n`;
-        receiptContent += `   END OF EXPENSES REPORT\n\n\n`;
+        blocks.push(
+            { type: 'separator', char: '=' },
+            { type: 'row', left: 'GRAND TOTAL', right: `₱${grandTotal.toFixed(2)}`, bold: true },
+            { type: 'row', left: 'Batches:', right: `${totalBatches}` },
+            { type: 'row', left: 'Items:', right: `${totalItems}` },
+            { type: 'separator', char: '=' },
+            { type: 'text', text: 'END OF EXPENSES REPORT', align: 'center' },
+            { type: 'feed', lines: 3 },
+            { type: 'cut' }
+        );
 
-        return receiptContent;
+        return { blocks };
     };
 
     // Function to print today's sales using connected Bluetooth printer
@@ -1089,24 +1199,25 @@ export default function SalesExpenseScreen() {
             const currentDate = new Date().toLocaleDateString();
             const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-            // Create receipt content
-            const receiptContent = `
-KAPE SPOT
-------------
-DATE: ${currentDate}
-TIME: ${currentTime}
-------------
-TOTAL TODAY SALES
-₱${todayTotal.toFixed(2)}
-------------
-Thank you!
-        `.trim();
+            const salesDocument: PrintDocument = {
+                blocks: [
+                    { type: 'text', text: 'KAPE SPOT', align: 'center', bold: true, size: 'double' },
+                    { type: 'separator' },
+                    { type: 'row', left: 'DATE:', right: currentDate },
+                    { type: 'row', left: 'TIME:', right: currentTime },
+                    { type: 'separator' },
+                    { type: 'row', left: 'TOTAL TODAY SALES', right: `₱${todayTotal.toFixed(2)}`, bold: true },
+                    { type: 'separator' },
+                    { type: 'text', text: 'Thank you!', align: 'center' },
+                    { type: 'feed', lines: 3 },
+                    { type: 'cut' }
+                ]
+            };
 
             console.log('🖨️ Preparing to print to:', bluetoothDeviceName);
-            console.log('📄 Receipt content:', receiptContent);
 
             // Send to Bluetooth printer
-            await sendToBluetoothPrinter(receiptContent);
+            await sendToBluetoothPrinter(salesDocument, `Today's Sales ${currentDate}`);
 
         } catch (error) {
             console.error('❌ Error printing today sales:', error);
@@ -1131,15 +1242,15 @@ Thank you!
             console.log('🔵 Bluetooth is connected, proceeding with all expenses print...');
             console.log('📱 Connected device:', bluetoothDeviceName);
 
-            const receiptContent = generateExpensesReceiptContent();
+            const receiptDocument = generateExpensesReceiptContent();
 
             console.log('🖨️ Preparing to print all expenses to:', bluetoothDeviceName);
-            console.log('📄 All expenses content length:', receiptContent.length);
+            console.log('📄 All expenses blocks:', receiptDocument.blocks.length);
             console.log('📊 Total batches:', allExpenses.length);
             console.log('📊 Total items:', allExpenses.reduce((total, doc) => total + doc.expenses.length, 0));
 
             // Send to Bluetooth printer
-            await sendToBluetoothPrinter(receiptContent);
+            await sendToBluetoothPrinter(receiptDocument, 'All Expenses Report');
 
         } catch (error) {
             console.error('❌ Error printing all expenses:', error);
@@ -1147,6 +1258,51 @@ Thank you!
         }
     };
 
+    // Statement of one customer's account, every charge and payment with the running balance
+    const printCreditStatement = async (aging: CreditAging) => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            Alert.alert('Bluetooth Not Connected', 'Please connect to a Bluetooth printer first in Settings.');
+            return;
+        }
+
+        const customer = accountCustomers.find(c => c.id === aging.customerId);
+        if (!customer) {
+            Alert.alert('Customer Not Found', `${aging.customerName} is no longer in the customer list.`);
+            return;
+        }
+
+        try {
+            const entries = await loadCreditLedger(customer.id);
+            console.log('🖨️ Printing statement for', customer.name, '-', entries.length, 'entries');
+            await sendToBluetoothPrinter(
+                formatCreditStatement(customer, entries),
+                `Statement ${customer.name}`
+            );
+        } catch (error) {
+            console.error('❌ Error printing statement:', error);
+            Alert.alert('Print Error', 'Failed to print the statement. Please check printer connection.');
+        }
+    };
+
+    const printAgingReport = async () => {
+        if (!isBluetoothConnected || !bluetoothConnection) {
+            Alert.alert('Bluetooth Not Connected', 'Please connect to a Bluetooth printer first in Settings.');
+            return;
+        }
+
+        if (creditAgings.length === 0) {
+            Alert.alert('No Data', 'No customer owes anything on account.');
+            return;
+        }
+
+        try {
+            await sendToBluetoothPrinter(formatAgingReport(creditAgings), 'Aging Report');
+        } catch (error) {
+            console.error('❌ Error printing aging report:', error);
+            Alert.alert('Print Error', 'Failed to print the aging report. Please check printer connection.');
+        }
+    };
+
     // Function to handle large expenses printing with confirmation
     const printLargeExpensesInBatches = async () => {
         if (allExpenses.length === 0) {
@@ -1154,9 +1310,7 @@ Thank you!
             return;
         }
 
-        const receiptContent = generateExpensesReceiptContent();
-
-        if (isPrintDataTooLarge(receiptContent, 1500)) {
+        if (isPrintDataTooLarge(generateExpensesReceiptContent(), 1500)) {
             Alert.alert(
                 'Large Data Detected',
                 `This report contains ${allExpenses.length} batches and ${allExpenses.reduce((total, doc) => total + doc.expenses.length, 0)} items. It might take longer to print. Continue?`,
@@ -1173,100 +1327,24 @@ Thank you!
         }
     };
 
-    // Function to send data to Bluetooth printer - UPDATED VERSION FOR LARGE DATA
-    const sendToBluetoothPrinter = async (data: string) => {
+    // Function to send data to Bluetooth printer
+    const sendToBluetoothPrinter = async (document: PrintDocument, title: string) => {
         try {
             // Double check Bluetooth connection
             if (!isBluetoothConnected || !bluetoothConnection) {
                 throw new Error('Bluetooth is not connected. Please connect to printer first.');
             }
 
-            const syncService = OfflineSyncService.getInstance();
-            const bluetoothService = await syncService.getItem('bluetoothService');
-
-            if (!bluetoothService) {
-                throw new Error('Bluetooth service not found');
-            }
+            console.log('📡 Printing to:', bluetoothDeviceName);
+            const job = await submitPrintJob(title, document, 'sales');
 
-            const serviceData = JSON.parse(bluetoothService);
-            const { peripheralId, serviceId, transfer } = serviceData;
-
-            console.log('📡 Printer details:', {
-                peripheralId,
-                serviceId,
-                transfer,
-                deviceName: bluetoothDeviceName,
-                isConnected: isBluetoothConnected
-            });
-
-            // Ensure BleManager is ready
-            try {
-                await BleManager.checkState();
-            } catch {
-                await BleManager.start({ showAlert: false });
-            }
-
-            // Thermal printer commands
-            const initializePrinter = [0x1B, 0x40];
-            const textNormal = [0x1B, 0x21, 0x00];
-            const centerAlign = [0x1B, 0x61, 0x01];
-            const leftAlign = [0x1B, 0x61, 0x00];
-            const lineFeed = [0x0A];
-            const paperCut = [0x1D, 0x56, 0x41, 0x10];
-
-            // Convert text to bytes
-            const textBytes = Array.from(new TextEncoder().encode(data));
-
-            // Split data into chunks to avoid buffer overflow
-            const CHUNK_SIZE = 100; // Reduced chunk size for better reliability
-            const chunks: number[][] = [];
-
-            // Add initialization and alignment commands to first chunk
-            const firstChunk = [
-                ...initializePrinter,
-                ...centerAlign,
-                ...textBytes.slice(0, CHUNK_SIZE)
-            ];
-            chunks.push(firstChunk);
-
-            // Create remaining chunks
-            for (let i = CHUNK_SIZE; i < textBytes.length; i += CHUNK_SIZE) {
-                chunks.push(textBytes.slice(i, i + CHUNK_SIZE));
-            }
-
-            // Add final commands to last chunk
-            const lastChunk = chunks[chunks.length - 1];
-            lastChunk.push(...lineFeed, ...lineFeed, ...paperCut);
-
-            console.log(`🖨️ Sending ${chunks.length} chunks to printer`);
-            console.log('🔵 Bluetooth Status:', {
-                connected: isBluetoothConnected,
-                device: bluetoothDeviceName,
-                peripheralId: peripheralId
-            });
-
-            // Send chunks with delay between them
-            for (let i = 0; i < chunks.length; i++) {
-                const chunk = chunks[i];
-                console.log(`📦 Sending chunk ${i + 1}/${chunks.length} (${chunk.length} bytes)`);
-
-                await BleManager.write(
-                    peripheralId,
-                    serviceId,
-                    transfer,
-                    chunk,
-                    chunk.length
-                );
-
-                // Add small delay between chunks to prevent overwhelming the printer
-                if (i < chunks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                }
+            if (job.status === 'done') {
+                console.log('✅ All data printed successfully');
+                Alert.alert('Print Success', 'Report printed successfully!');
+            } else {
+                Alert.alert('Print Queued', describeQueuedJob(job));
             }
 
-            console.log('✅ All data printed successfully');
-            Alert.alert('Print Success', 'Report printed successfully!');
-
         } catch (error) {
             console.error('❌ Print error:', error);
 
@@ -1693,6 +1771,157 @@ Thank you!
                             </ThemedView>
                         </ThemedView>
 
+                        {/* Gross / Discount / Net and Payments by Tender */}
+                        <ThemedView style={styles.tenderSection}>
+                            <ThemedText style={styles.tenderTitle}>Sales Breakdown</ThemedText>
+                            <ThemedView style={[styles.tenderRow, styles.breakdownRow]}>
+                                <ThemedView style={styles.tenderCell}>
+                                    <ThemedText style={styles.tenderValue}>₱{periodTotals.gross.toFixed(2)}</ThemedText>
+                                    <ThemedText style={styles.summaryLabel}>Gross</ThemedText>
+                                </ThemedView>
+                                <ThemedView style={styles.tenderCell}>
+                                    <ThemedText style={[styles.tenderValue, styles.discountValue]}>-₱{periodTotals.discount.toFixed(2)}</ThemedText>
+                                    <ThemedText style={styles.summaryLabel}>Discounts</ThemedText>
+                                </ThemedView>
+                                {periodTotals.refunds > 0 && (
+                                    <ThemedView style={styles.tenderCell}>
+                                        <ThemedText style={[styles.tenderValue, styles.discountValue]}>-₱{periodTotals.refunds.toFixed(2)}</ThemedText>
+                                        <ThemedText style={styles.summaryLabel}>Refunds</ThemedText>
+                                    </ThemedView>
+                                )}
+                                <ThemedView style={styles.tenderCell}>
+                                    <ThemedText style={styles.tenderValue}>₱{periodTotals.net.toFixed(2)}</ThemedText>
+                                    <ThemedText style={styles.summaryLabel}>Net</ThemedText>
+                                </ThemedView>
+                            </ThemedView>
+                            <ThemedView style={styles.tenderRow}>
+                                {(['cash', 'gcash', 'maya', 'card'] as TenderType[]).map(type => (
+                                    <ThemedView key={type} style={styles.tenderCell}>
+                                        <ThemedText style={styles.tenderValue}>₱{tenderBreakdown[type].toFixed(2)}</ThemedText>
+                                        <ThemedText style={styles.summaryLabel}>{getTenderLabel(type)}</ThemedText>
+                                    </ThemedView>
+                                ))}
+                                {tenderBreakdown.account > 0 && (
+                                    <ThemedView style={styles.tenderCell}>
+                                        <ThemedText style={styles.tenderValue}>₱{tenderBreakdown.account.toFixed(2)}</ThemedText>
+                                        <ThemedText style={styles.summaryLabel}>{getTenderLabel('account')}</ThemedText>
+                                    </ThemedView>
+                                )}
+                                {tenderBreakdown.unrecorded > 0 && (
+                                    <ThemedView style={styles.tenderCell}>
+                                        <ThemedText style={styles.tenderValue}>₱{tenderBreakdown.unrecorded.toFixed(2)}</ThemedText>
+                                        <ThemedText style={styles.summaryLabel}>Not Recorded</ThemedText>
+                                    </ThemedView>
+                                )}
+                            </ThemedView>
+                        </ThemedView>
+
+                        {/* Take-out cups used per day, per cup */}
+                        {cupUsageByDay.length > 0 && (
+                            <ThemedView style={styles.tenderSection}>
+                                <ThemedText style={styles.tenderTitle}>Cup Usage</ThemedText>
+                                {cupUsageByDay.map((day, index) => (
+                                    <ThemedView
+                                        key={day.date}
+                                        style={[styles.cupDayRow, index < cupUsageByDay.length - 1 && styles.breakdownRow]}
+                                    >
+                                        <ThemedView style={styles.cupDayHeader}>
+                                            <ThemedText style={styles.cupDayLabel}>
+                                                {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                                            </ThemedText>
+                                            <ThemedText style={styles.tenderValue}>{day.total} cups</ThemedText>
+                                        </ThemedView>
+                                        {Object.entries(day.usage).map(([cupName, count]) => (
+                                            <ThemedView key={cupName} style={styles.cupUsageLine}>
+                                                <ThemedText style={styles.summaryLabel}>{cupName}</ThemedText>
+                                                <ThemedText style={styles.summaryLabel}>{count}</ThemedText>
+                                            </ThemedView>
+                                        ))}
+                                    </ThemedView>
+                                ))}
+                            </ThemedView>
+                        )}
+
+                        {/* Scheduled promotions redeemed in the period and what they cost */}
+                        {promotionSummaries.length > 0 && (
+                            <ThemedView style={styles.tenderSection}>
+                                <ThemedView style={styles.cupDayHeader}>
+                                    <ThemedText style={styles.tenderTitle}>Promotions</ThemedText>
+                                    <ThemedText style={[styles.tenderValue, styles.discountValue]}>
+                                        -₱{promotionSummaries.reduce((sum, summary) => sum + summary.cost, 0).toFixed(2)}
+                                    </ThemedText>
+                                </ThemedView>
+                                {promotionSummaries.map((summary, index) => (
+                                    <ThemedView
+                                        key={summary.promotionId}
+                                        style={[styles.cupUsageLine, index < promotionSummaries.length - 1 && styles.breakdownRow]}
+                                    >
+                                        <ThemedText style={styles.summaryLabel}>
+                                            {summary.name} · {summary.orders} order{summary.orders === 1 ? '' : 's'} · {summary.units} item{summary.units === 1 ? '' : 's'}
+                                        </ThemedText>
+                                        <ThemedText style={[styles.summaryLabel, styles.discountValue]}>-₱{summary.cost.toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                ))}
+                            </ThemedView>
+                        )}
+
+                        {/* Outstanding customer accounts, aged by the oldest unpaid charge */}
+                        {creditAgings.length > 0 && (
+                            <ThemedView style={styles.tenderSection}>
+                                <ThemedView style={styles.cupDayHeader}>
+                                    <ThemedText style={styles.tenderTitle}>Customer Accounts</ThemedText>
+                                    <TouchableOpacity
+                                        style={[styles.printerButton, !isBluetoothConnected && styles.printerButtonDisabled]}
+                                        onPress={printAgingReport}
+                                        disabled={!isBluetoothConnected}
+                                    >
+                                        <Feather name="printer" size={16} color={isBluetoothConnected ? "#874E3B" : "#C4A484"} />
+                                    </TouchableOpacity>
+                                </ThemedView>
+                                <ThemedView style={[styles.tenderRow, styles.breakdownRow]}>
+                                    {AGING_BUCKETS.map(({ bucket, label }) => (
+                                        <ThemedView key={bucket} style={styles.tenderCell}>
+                                            <ThemedText style={[styles.tenderValue, bucket === 'over60' && styles.discountValue]}>
+                                                ₱{creditAgings.reduce((sum, aging) => sum + aging.buckets[bucket], 0).toFixed(2)}
+                                            </ThemedText>
+                                            <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+                                        </ThemedView>
+                                    ))}
+                                </ThemedView>
+                                {creditAgings.map((aging, index) => (
+                                    <ThemedView
+                                        key={aging.customerId}
+                                        style={[styles.cupDayRow, index < creditAgings.length - 1 && styles.breakdownRow]}
+                                    >
+                                        <ThemedView style={styles.cupDayHeader}>
+                                            <ThemedText style={styles.cupDayLabel}>
+                                                {aging.customerName}
+                                                {aging.creditLimit > 0 ? ` · limit ₱${aging.creditLimit.toFixed(2)}` : ''}
+                                            </ThemedText>
+                                            <ThemedView style={styles.cupDayHeader}>
+                                                <ThemedText style={styles.tenderValue}>₱{aging.balance.toFixed(2)}</ThemedText>
+                                                <TouchableOpacity
+                                                    onPress={() => printCreditStatement(aging)}
+                                                    disabled={!isBluetoothConnected}
+                                                    style={styles.statementButton}
+                                                >
+                                                    <Feather name="file-text" size={16} color={isBluetoothConnected ? "#874E3B" : "#C4A484"} />
+                                                </TouchableOpacity>
+                                            </ThemedView>
+                                        </ThemedView>
+                                        {AGING_BUCKETS.filter(({ bucket }) => aging.buckets[bucket] > 0).map(({ bucket, label }) => (
+                                            <ThemedView key={bucket} style={styles.cupUsageLine}>
+                                                <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+                                                <ThemedText style={[styles.summaryLabel, bucket === 'over60' && styles.discountValue]}>
+                                                    ₱{aging.buckets[bucket].toFixed(2)}
+                                                </ThemedText>
+                                            </ThemedView>
+                                        ))}
+                                    </ThemedView>
+                                ))}
+                            </ThemedView>
+                        )}
+
                         {/* Charts Section - Side by Side */}
                         <ThemedView style={styles.chartsRow}>
                             {/* Sales Chart */}
@@ -2283,6 +2512,70 @@ const styles = StyleSheet.create({
         color: '#5A3921',
         textAlign: 'center',
     },
+    tenderSection: {
+        backgroundColor: "#FFFEEA",
+        borderRadius: 12,
+        padding: 12,
+        marginHorizontal: 4,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    tenderTitle: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        color: '#874E3B',
+        marginBottom: 8,
+    },
+    tenderRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        backgroundColor: 'transparent'
+    },
+    breakdownRow: {
+        marginBottom: 8,
+        paddingBottom: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E8D8C8',
+    },
+    discountValue: {
+        color: '#DC2626',
+    },
+    tenderCell: {
+        flex: 1,
+        alignItems: 'center',
+        backgroundColor: 'transparent'
+    },
+    tenderValue: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        color: '#874E3B',
+    },
+    cupDayRow: {
+        backgroundColor: 'transparent'
+    },
+    cupDayHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 4,
+        backgroundColor: 'transparent'
+    },
+    cupDayLabel: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#5A3921',
+    },
+    statementButton: {
+        marginLeft: 10,
+        padding: 2,
+    },
+    cupUsageLine: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingLeft: 8,
+        backgroundColor: 'transparent'
+    },
     // Charts Section - Side by Side
     chartsRow: {
         flexDirection: 'row',
@@ -2405,6 +2698,9 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         color: '#874E3B',
     },
+    refundAmount: {
+        color: '#DC2626',
+    },
     // Modal Styles
     modalOverlay: {
         flex: 1,
@@ -1,5 +1,9 @@
 import ConnectedState from "@/components/bluetooth/ConnectedState";
 import DisconnectedState from "@/components/bluetooth/DisconnectedState";
+import TransportPicker from "@/components/bluetooth/TransportPicker";
+import ClassicDeviceList from "@/components/bluetooth/ClassicDeviceList";
+import NetworkPrinterForm from "@/components/bluetooth/NetworkPrinterForm";
+import VirtualPrinterCard from "@/components/bluetooth/VirtualPrinterCard";
 import { PeripheralServices, StrippedPeripheral } from "@/types/bluetooth";
 import { handleAndroidPermissions } from "@/utils/permission";
 import React, { useEffect, useState } from "react";
@@ -8,7 +12,33 @@ import BleManager, {
     BleDisconnectPeripheralEvent,
     Peripheral,
 } from "react-native-ble-manager";
-import { OfflineSyncService } from "@/lib/offline-sync";
+import { BluetoothDevice } from "react-native-bluetooth-classic";
+import { compileDocument, DEFAULT_PRINT_OPTIONS } from "@/lib/escpos";
+import {
+    describePrintError,
+    loadSavedPrinters,
+    loadPrintOptions,
+    recordPrinterHealth,
+    removeSavedPrinter,
+    saveSavedPrinter,
+    savePrintOptions,
+    writeToPrinter
+} from "@/lib/printer";
+import {
+    cancelClassicDiscovery,
+    clearLoopbackCapture,
+    createLoopbackConnection,
+    createNetworkConnection,
+    disconnectPrinter,
+    findClassicDevices,
+    loopbackCaptureSize,
+    loopbackCaptureUri,
+    pairClassicDevice,
+    probePrinter
+} from "@/lib/printer-transports";
+import { retryPrintQueue } from "@/lib/print-queue";
+import { PRINTER_ROLE_LABELS } from "@/lib/printer-routing";
+import { PrintOptions, PrinterConnection, PrinterKind, SavedPrinter } from "@/types/print";
 import { Feather } from "@expo/vector-icons";
 
 const SECONDS_TO_SCAN_FOR = 10;
@@ -37,11 +67,19 @@ const BluetoothDemoScreen: React.FC = () => {
     const [peripherals, setPeripherals] = useState(
         new Map<Peripheral["id"], CustomPeripheral>()
     );
-    const [isConnected, setIsConnected] = useState(false);
     const [bleService, setBleService] = useState<PeripheralServices | undefined>(undefined);
     const [showServiceModal, setShowServiceModal] = useState(false);
     const [availableServices, setAvailableServices] = useState<any[]>([]);
     const [selectedPeripheral, setSelectedPeripheral] = useState<StrippedPeripheral | null>(null);
+    const [printOptions, setPrintOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+    const [printer, setPrinter] = useState<SavedPrinter | undefined>(undefined);
+    const [savedPrinters, setSavedPrinters] = useState<SavedPrinter[]>([]);
+    const [printerKind, setPrinterKind] = useState<PrinterKind>("ble");
+    const [classicDevices, setClassicDevices] = useState<BluetoothDevice[]>([]);
+    const [isDiscovering, setIsDiscovering] = useState(false);
+    const [connectingAddress, setConnectingAddress] = useState<string | null>(null);
+    const [isConnectingNetwork, setIsConnectingNetwork] = useState(false);
+    const [captureSize, setCaptureSize] = useState(0);
 
     useEffect(() => {
         BleManager.start({ showAlert: false })
@@ -65,7 +103,33 @@ const BluetoothDemoScreen: React.FC = () => {
         };
     }, []);
 
-    const handleDisconnectedPeripheral = (
+    // Saved printers can be reopened for their paper settings without connecting again
+    useEffect(() => {
+        loadSavedPrinters()
+            .then(setSavedPrinters)
+            .catch(error => console.error('Saved printers error:', error));
+    }, []);
+
+    // Paper width and peso style belong to the printer, so they follow whichever one is connected
+    useEffect(() => {
+        if (!printer) return;
+        loadPrintOptions(printer.id).then(setPrintOptions);
+        if (printer.kind === "loopback") setCaptureSize(loopbackCaptureSize(printer.fileName));
+    }, [printer]);
+
+    const updatePrintOptions = async (options: PrintOptions) => {
+        if (!printer) return;
+
+        setPrintOptions(options);
+        try {
+            await savePrintOptions(printer.id, options);
+        } catch (error) {
+            console.error('Printer settings error:', error);
+            Alert.alert("Error", "Could not save the printer settings.");
+        }
+    };
+
+    const handleDisconnectedPeripheral = async (
         event: BleDisconnectPeripheralEvent
     ) => {
         console.debug(`Device disconnected: ${event.peripheral}`);
@@ -79,10 +143,12 @@ const BluetoothDemoScreen: React.FC = () => {
             return map;
         });
 
-        // Clear stored connection
-        clearBluetoothStorage();
-        setBleService(undefined);
-        setIsConnected(false);
+        // A saved printer stays saved: its jobs wait in the print queue until it reconnects
+        const printers = await loadSavedPrinters().catch(() => []);
+        if (printers.some(saved => saved.id === event.peripheral)) {
+            await recordPrinterHealth(event.peripheral, new Error('Device not connected'));
+        }
+        setPrinter(current => (current?.id === event.peripheral ? undefined : current));
     };
 
     const handleDiscoverPeripheral = async (peripheral: Peripheral) => {
@@ -322,7 +388,6 @@ const BluetoothDemoScreen: React.FC = () => {
                 if (detectedService) {
                     detectedService.peripheralId = peripheral.id;
                     setBleService(detectedService);
-                    setIsConnected(true);
                     await storeBluetoothConnection(peripheral, detectedService);
 
                     Alert.alert("Printer Connected ✅", "Auto-detected printer service!");
@@ -393,7 +458,6 @@ const BluetoothDemoScreen: React.FC = () => {
             };
 
             setBleService(serviceConfig);
-            setIsConnected(true);
 
             // Find the full peripheral
             const peripheral = peripherals.get(selectedPeripheral.id);
@@ -426,49 +490,37 @@ const BluetoothDemoScreen: React.FC = () => {
         }
     };
 
-    const storeBluetoothConnection = async (peripheral: CustomPeripheral, service: PeripheralServices) => {
+    const storePrinterConnection = async (connection: PrinterConnection) => {
         try {
-            const syncService = OfflineSyncService.getInstance();
-            await syncService.setItem('bluetoothConnection', JSON.stringify({
-                connected: true,
-                deviceName: peripheral.name || 'Bluetooth Device',
-                peripheralId: peripheral.id,
-                serviceId: service.serviceId,
-                transferChar: service.transfer,
-                receiveChar: service.receive,
-                connectedAt: new Date().toISOString(),
-                serviceUUIDs: peripheral.serviceUUIDs || [],
-                autoDetected: true
-            }));
-
-            await syncService.setItem('bluetoothService', JSON.stringify({
-                peripheralId: peripheral.id,
-                serviceId: service.serviceId,
-                transfer: service.transfer,
-                receive: service.receive,
-                allServices: service.allServices || []
-            }));
-
-            console.debug('✅ Bluetooth connection stored');
+            const saved = await saveSavedPrinter(connection);
+            setSavedPrinters(await loadSavedPrinters());
+            setPrinter(saved);
+
+            console.debug(`✅ Printer saved for ${PRINTER_ROLE_LABELS[saved.role]}`);
+
+            // Anything that failed while the printer was away prints now
+            retryPrintQueue().catch(error => console.error('Print queue retry error:', error));
         } catch (error) {
             console.error('Storage error:', error);
         }
     };
 
-    const clearBluetoothStorage = async () => {
+    const storeBluetoothConnection = async (peripheral: CustomPeripheral, service: PeripheralServices) => {
+        await storePrinterConnection({
+            kind: 'ble',
+            id: peripheral.id,
+            name: peripheral.name || 'Bluetooth Device',
+            peripheralId: peripheral.id,
+            serviceId: service.serviceId,
+            transfer: service.transfer
+        });
+    };
+
+    const forgetPrinter = async (printerId: string) => {
         try {
-            const syncService = OfflineSyncService.getInstance();
-            await syncService.setItem('bluetoothConnection', JSON.stringify({
-                connected: false,
-                deviceName: '',
-                peripheralId: '',
-                serviceId: '',
-                connectedAt: null,
-                serviceUUIDs: [],
-                autoDetected: false
-            }));
-            await syncService.setItem('bluetoothService', '');
-            console.debug('Bluetooth connection cleared');
+            await removeSavedPrinter(printerId);
+            setSavedPrinters(await loadSavedPrinters());
+            console.debug('Printer removed');
         } catch (error) {
             console.error('Clear storage error:', error);
         }
@@ -477,16 +529,110 @@ const BluetoothDemoScreen: React.FC = () => {
     const disconnectPeripheral = async (peripheralId: string) => {
         try {
             await BleManager.disconnect(peripheralId);
-            await clearBluetoothStorage();
+            await forgetPrinter(peripheralId);
             setBleService(undefined);
+            setPrinter(undefined);
             setPeripherals(new Map());
-            setIsConnected(false);
             Alert.alert("Disconnected", "Device disconnected successfully");
         } catch (error) {
             console.error("Disconnection error:", error);
         }
     };
 
+    const disconnectCurrentPrinter = async () => {
+        if (!printer) return;
+        if (printer.kind === "ble") {
+            await disconnectPeripheral(printer.peripheralId);
+            return;
+        }
+
+        try {
+            await disconnectPrinter(printer);
+        } catch (error) {
+            console.error("Disconnection error:", error);
+        }
+        await forgetPrinter(printer.id);
+        setPrinter(undefined);
+        Alert.alert("Disconnected", `${printer.name} removed`);
+    };
+
+    const loadClassicDevices = async (discover: boolean) => {
+        setIsDiscovering(discover);
+        try {
+            setClassicDevices(await findClassicDevices(discover));
+        } catch (error) {
+            console.error("Classic discovery error:", error);
+            Alert.alert("Search Failed", error instanceof Error ? error.message : "Could not list Bluetooth printers");
+        } finally {
+            setIsDiscovering(false);
+        }
+    };
+
+    const selectPrinterKind = (kind: PrinterKind) => {
+        setPrinterKind(kind);
+        if (kind === "classic") loadClassicDevices(false);
+    };
+
+    const connectClassicDevice = async (device: BluetoothDevice) => {
+        setConnectingAddress(device.address);
+        try {
+            if (isDiscovering) await cancelClassicDiscovery();
+            if (!device.bonded) await pairClassicDevice(device.address);
+
+            const connection: PrinterConnection = {
+                kind: "classic",
+                id: device.address,
+                name: device.name || device.address,
+                address: device.address
+            };
+            await probePrinter(connection);
+            await storePrinterConnection(connection);
+            Alert.alert("Printer Connected ✅", `${connection.name} is ready for printing.`);
+        } catch (error) {
+            console.error("Classic connection error:", error);
+            Alert.alert("Connection Failed ❌", error instanceof Error ? error.message : "Could not connect to device");
+        } finally {
+            setConnectingAddress(null);
+        }
+    };
+
+    const connectNetworkPrinter = async (host: string, port: number) => {
+        setIsConnectingNetwork(true);
+        try {
+            const connection = createNetworkConnection(host, port);
+            await probePrinter(connection);
+            await storePrinterConnection(connection);
+            Alert.alert("Printer Connected ✅", `Printing to ${host}:${port}.`);
+        } catch (error) {
+            console.error("Network printer error:", error);
+            Alert.alert("Connection Failed ❌", describePrintError(error));
+        } finally {
+            setIsConnectingNetwork(false);
+        }
+    };
+
+    const connectVirtualPrinter = async () => {
+        try {
+            const connection = createLoopbackConnection();
+            await probePrinter(connection);
+            await storePrinterConnection(connection);
+        } catch (error) {
+            console.error("Virtual printer error:", error);
+            Alert.alert("Error", "Could not create the capture file.");
+        }
+    };
+
+    const clearCapture = () => {
+        if (printer?.kind !== "loopback") return;
+        try {
+            clearLoopbackCapture(printer.fileName);
+            setCaptureSize(0);
+        } catch (error) {
+            console.error("Clear capture error:", error);
+            Alert.alert("Error", "Could not clear the capture file.");
+        }
+    };
+
     function sleep(ms: number) {
         return new Promise<void>((resolve) => setTimeout(resolve, ms));
     }
@@ -532,140 +678,50 @@ const BluetoothDemoScreen: React.FC = () => {
         }
     };
 
-    // Enhanced test print for KPrinter
+    // Goes straight to the printer, not through the queue, so a bad setup shows up here and now
     const testPrint = async () => {
-        if (!bleService) {
+        if (!printer) {
             Alert.alert("No Connection", "Please connect to a device first");
             return;
         }
 
         try {
-            console.log('🖨️ Starting KPrinter test print...');
-
-            // Thermal printer ESC/POS commands
-            const esc = 0x1B;
-            const gs = 0x1D;
-            const fs = 0x1C;
-
-            let printData: number[] = [];
-
-            // Initialize printer
-            printData.push(esc, 0x40); // Initialize
-
-            // Set alignment to center
-            printData.push(esc, 0x61, 0x01); // Center alignment
-
-            // Title with larger text
-            printData.push(gs, 0x21, 0x22); // Double height and width
-            printData.push(...stringToBytes("THE KAPE SPOT"));
-            printData.push(0x0A); // Line feed
-
-            // Reset text size
-            printData.push(gs, 0x21, 0x00);
-
-            printData.push(...stringToBytes("------------"));
-            printData.push(0x0A);
-
-            printData.push(esc, 0x61, 0x01); // Center alignment
-            printData.push(...stringToBytes("TEST RECEIPT"));
-            printData.push(0x0A);
-
-            printData.push(...stringToBytes("------------"));
-            printData.push(0x0A);
-
-            // Left alignment for items
-            printData.push(esc, 0x61, 0x00); // Left alignment
-            printData.push(...stringToBytes("Item: Test Coffee"));
-            printData.push(0x0A);
-            printData.push(...stringToBytes("Qty: 1"));
-            printData.push(0x0A);
-            printData.push(...stringToBytes("Price: ₱100.00"));
-            printData.push(0x0A);
-
-            printData.push(...stringToBytes("------------"));
-            printData.push(0x0A);
-
-            // Bold for total
-            printData.push(esc, 0x45, 0x01); // Bold on
-            printData.push(...stringToBytes("TOTAL: ₱100.00"));
-            printData.push(esc, 0x45, 0x00); // Bold off
-            printData.push(0x0A);
-
-            printData.push(...stringToBytes("------------"));
-            printData.push(0x0A);
-
-            // Center alignment for thank you
-            printData.push(esc, 0x61, 0x01); // Center alignment
-            printData.push(...stringToBytes("Thank you!"));
-            printData.push(0x0A);
-
-            // Feed paper and cut
-            printData.push(0x0A, 0x0A, 0x0A); // Multiple line feeds
-            printData.push(gs, 0x56, 0x41, 0x10); // Paper cut
-
-            console.log('📤 Sending print data to KPrinter...');
-            console.log('Service:', bleService.serviceId);
-            console.log('Data length:', printData.length);
-
-            // Try different write methods for KPrinter
-            try {
-                // Method 1: Standard write
-                await BleManager.write(
-                    bleService.peripheralId,
-                    bleService.serviceId,
-                    bleService.transfer,
-                    printData
-                );
-                console.log('✅ Print sent successfully!');
-                Alert.alert("Print Test ✅", "Test receipt sent to KPrinter!");
-            } catch (error1) {
-                console.log('🔄 Method 1 failed, trying Method 2...', error1);
-
-                // Method 2: Try without response
-                try {
-                    await BleManager.writeWithoutResponse(
-                        bleService.peripheralId,
-                        bleService.serviceId,
-                        bleService.transfer,
-                        printData
-                    );
-                    console.log('✅ Print sent successfully (Method 2)!');
-                    Alert.alert("Print Test ✅", "Test receipt sent to KPrinter!");
-                } catch (error2) {
-                    console.log('🔄 Method 2 failed, trying Method 3...', error2);
-
-                    // Method 3: Try in chunks
-                    const chunkSize = 20;
-                    for (let i = 0; i < printData.length; i += chunkSize) {
-                        const chunk = printData.slice(i, i + chunkSize);
-                        await BleManager.writeWithoutResponse(
-                            bleService.peripheralId,
-                            bleService.serviceId,
-                            bleService.transfer,
-                            chunk
-                        );
-                        await sleep(50); // Small delay between chunks
-                    }
-                    console.log('✅ Print sent successfully (Method 3)!');
-                    Alert.alert("Print Test ✅", "Test receipt sent to KPrinter!");
-                }
+            console.log('🖨️ Starting test print...');
+
+            const printData = compileDocument({
+                blocks: [
+                    { type: 'text', text: 'THE KAPE SPOT', align: 'center', size: 'double' },
+                    { type: 'separator' },
+                    { type: 'text', text: 'TEST RECEIPT', align: 'center' },
+                    { type: 'separator' },
+                    { type: 'row', left: 'Iced Spanish Latte with Oat Milk and Extra Shot', right: '₱100.00' },
+                    { type: 'text', text: '  1 x ₱100.00' },
+                    { type: 'separator' },
+                    { type: 'row', left: 'TOTAL:', right: '₱100.00', bold: true },
+                    { type: 'separator' },
+                    { type: 'text', text: 'Thank you!', align: 'center' },
+                    { type: 'feed', lines: 3 },
+                    { type: 'cut' }
+                ]
+            }, printOptions);
+
+            await writeToPrinter(printer, printData);
+            await recordPrinterHealth(printer.id);
+            console.log('✅ Print sent successfully!');
+
+            if (printer.kind === "loopback") {
+                setCaptureSize(loopbackCaptureSize(printer.fileName));
+                Alert.alert("Print Test ✅", `${printData.length} bytes captured to\n${loopbackCaptureUri(printer.fileName)}`);
+            } else {
+                Alert.alert("Print Test ✅", `Test receipt sent to ${printer.name}!`);
             }
-
         } catch (error) {
             console.error('❌ Print error:', error);
-            Alert.alert("Print Failed ❌", "Could not send print command to KPrinter");
+            await recordPrinterHealth(printer.id, error);
+            Alert.alert("Print Failed ❌", describePrintError(error));
         }
     };
 
-    // Helper function to convert string to bytes
-    const stringToBytes = (str: string): number[] => {
-        const bytes: number[] = [];
-        for (let i = 0; i < str.length; i++) {
-            bytes.push(str.charCodeAt(i));
-        }
-        return bytes;
-    };
-
     // Simple read function
     const testRead = async () => {
         if (bleService) {
@@ -691,24 +747,64 @@ const BluetoothDemoScreen: React.FC = () => {
     return (
         <View style={styles.container}>
             <Text style={styles.header}>Printer Connection</Text>
-            <Text style={styles.subtitle}>KPrinter Manual Selection Supported</Text>
-
-            {!isConnected ? (
-                <DisconnectedState
-                    peripherals={strippedPeripherals}
-                    isScanning={isScanning}
-                    onScanPress={startScan}
-                    onConnect={connectPeripheral}
-                />
+            <Text style={styles.subtitle}>Bluetooth, network or virtual printer</Text>
+
+            {!printer ? (
+                <>
+                    {savedPrinters.length > 0 && (
+                        <View style={styles.savedSection}>
+                            <Text style={styles.savedTitle}>Saved Printers</Text>
+                            <View style={styles.savedRow}>
+                                {savedPrinters.map(saved => (
+                                    <TouchableOpacity key={saved.id} style={styles.savedChip} onPress={() => setPrinter(saved)}>
+                                        <Feather name="printer" size={14} color="#007AFF" />
+                                        <Text style={styles.savedChipText}>
+                                            {saved.name} · {PRINTER_ROLE_LABELS[saved.role]}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        </View>
+                    )}
+
+                    <TransportPicker selected={printerKind} onSelect={selectPrinterKind} />
+
+                    {printerKind === "ble" && (
+                        <DisconnectedState
+                            peripherals={strippedPeripherals}
+                            isScanning={isScanning}
+                            onScanPress={startScan}
+                            onConnect={connectPeripheral}
+                        />
+                    )}
+                    {printerKind === "classic" && (
+                        <ClassicDeviceList
+                            devices={classicDevices}
+                            isDiscovering={isDiscovering}
+                            connectingAddress={connectingAddress}
+                            onScanPress={() => loadClassicDevices(true)}
+                            onConnect={connectClassicDevice}
+                        />
+                    )}
+                    {printerKind === "tcp" && (
+                        <NetworkPrinterForm connecting={isConnectingNetwork} onConnect={connectNetworkPrinter} />
+                    )}
+                    {printerKind === "loopback" && <VirtualPrinterCard onConnect={connectVirtualPrinter} />}
+                </>
             ) : (
-                bleService && (
-                    <ConnectedState
-                        onRead={testRead}
-                        onWrite={testPrint}
-                        bleService={bleService}
-                        onDisconnect={disconnectPeripheral}
-                    />
-                )
+                <ConnectedState
+                    onRead={testRead}
+                    onWrite={testPrint}
+                    connection={printer}
+                    role={printer.role}
+                    bleService={bleService?.peripheralId === printer.id ? bleService : undefined}
+                    captureSize={captureSize}
+                    printOptions={printOptions}
+                    onChangePrintOptions={updatePrintOptions}
+                    onClearCapture={clearCapture}
+                    onAddAnother={() => setPrinter(undefined)}
+                    onDisconnect={disconnectCurrentPrinter}
+                />
             )}
 
             {/* Manual Service Selection Modal */}
@@ -796,6 +892,36 @@ const styles = StyleSheet.create({
         marginBottom: 20,
         textAlign: 'center',
     },
+    savedSection: {
+        marginBottom: 16,
+    },
+    savedTitle: {
+        fontSize: 14,
+        fontWeight: "500",
+        color: "#666",
+        marginBottom: 8,
+    },
+    savedRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    savedChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        borderWidth: 1,
+        borderColor: "#007AFF",
+        backgroundColor: "#F0F8FF",
+    },
+    savedChipText: {
+        fontSize: 13,
+        color: "#007AFF",
+        fontWeight: '600',
+    },
     // Modal styles
     modalOverlay: {
         flex: 1,
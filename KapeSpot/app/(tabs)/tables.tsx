@@ -0,0 +1,540 @@
+// app/(tabs)/tables.tsx
+import React, { useState } from 'react';
+import {
+    StyleSheet,
+    ScrollView,
+    TextInput,
+    TouchableOpacity,
+    ImageBackground,
+    Alert,
+    Text
+} from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Feather } from "@expo/vector-icons";
+import Navbar from '@/components/Navbar';
+import FloorMap from '@/components/tables/FloorMap';
+import { useFocusEffect } from '@react-navigation/native';
+import { NetworkScanner } from '@/lib/network-scanner';
+import { getCurrentUser } from '@/lib/manager-approval';
+import {
+    TABLE_STATUS_COLORS,
+    TABLE_STATUS_LABELS,
+    createTable,
+    getTableOrders,
+    getTableStatuses,
+    loadFloorLayout,
+    loadOpenOrders,
+    moveTableOrders,
+    saveFloorLayout
+} from '@/lib/tables';
+import { DiningTable, FloorLayout, TableOrder } from '@/types/table';
+
+export default function TablesScreen() {
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [isOnlineMode, setIsOnlineMode] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [layout, setLayout] = useState<FloorLayout>({ tables: [] });
+    const [orders, setOrders] = useState<TableOrder[]>([]);
+    const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+    const [moveFromId, setMoveFromId] = useState<string | null>(null);
+
+    // Layout editing works on a draft until it is saved
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState<DiningTable[]>([]);
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const user = await getCurrentUser();
+            setIsAdmin(user?.role === 'admin');
+
+            const mode = await NetworkScanner.getApiBaseUrl();
+            setIsOnlineMode(mode === 'online');
+
+            setLayout(await loadFloorLayout());
+            setOrders(await loadOpenOrders());
+        } catch (error) {
+            console.error('❌ Error loading tables:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useFocusEffect(
+        React.useCallback(() => {
+            setEditing(false);
+            setMoveFromId(null);
+            loadData();
+        }, [])
+    );
+
+    const tables = editing ? draft : layout.tables;
+    const statuses = getTableStatuses(layout.tables, orders);
+    const selectedTable = tables.find(table => table.id === selectedTableId) || null;
+    const moveFrom = layout.tables.find(table => table.id === moveFromId) || null;
+
+    const handleTablePress = (table: DiningTable) => {
+        if (moveFrom && !editing) {
+            confirmMove(moveFrom, table);
+            return;
+        }
+        setSelectedTableId(table.id === selectedTableId ? null : table.id);
+    };
+
+    // Moving into a free table is a transfer; into a busy one it merges the two tables' orders
+    const confirmMove = (from: DiningTable, to: DiningTable) => {
+        if (from.id === to.id) {
+            setMoveFromId(null);
+            return;
+        }
+
+        const count = getTableOrders(from.id, orders).length;
+        const merging = statuses[to.id] !== 'free';
+        Alert.alert(
+            merging ? 'Merge Tables' : 'Transfer Table',
+            merging
+                ? `Merge ${from.name} into ${to.name}? Its ${count} open order(s) move to ${to.name}.`
+                : `Move ${count} open order(s) from ${from.name} to ${to.name}?`,
+            [
+                { text: 'Cancel', style: 'cancel', onPress: () => setMoveFromId(null) },
+                {
+                    text: merging ? 'Merge' : 'Transfer',
+                    onPress: async () => {
+                        setMoveFromId(null);
+                        setLoading(true);
+                        try {
+                            await moveTableOrders(from.id, to, orders);
+                            setSelectedTableId(to.id);
+                            setOrders(await loadOpenOrders());
+                        } catch (error) {
+                            console.error('❌ Error moving table orders:', error);
+                            Alert.alert('Error', 'Failed to move the orders.');
+                        } finally {
+                            setLoading(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const startEditing = () => {
+        setDraft(layout.tables);
+        setMoveFromId(null);
+        setSelectedTableId(null);
+        setEditing(true);
+    };
+
+    const cancelEditing = () => {
+        setEditing(false);
+        setSelectedTableId(null);
+    };
+
+    const updateDraftTable = (id: string, changes: Partial<DiningTable>) => {
+        setDraft(prev => prev.map(table => table.id === id ? { ...table, ...changes } : table));
+    };
+
+    const addTable = () => {
+        const table = createTable({ tables: draft });
+        setDraft(prev => [...prev, table]);
+        setSelectedTableId(table.id);
+    };
+
+    const deleteTable = (table: DiningTable) => {
+        if (getTableOrders(table.id, orders).length > 0) {
+            Alert.alert('Table In Use', `${table.name} still has open orders. Transfer them first.`);
+            return;
+        }
+        setDraft(prev => prev.filter(draftTable => draftTable.id !== table.id));
+        setSelectedTableId(null);
+    };
+
+    const handleSaveLayout = async () => {
+        const names = draft.map(table => table.name.trim().toLowerCase());
+        if (names.some(name => !name)) {
+            Alert.alert('Error', 'Every table needs a name.');
+            return;
+        }
+        if (new Set(names).size !== names.length) {
+            Alert.alert('Error', 'Table names must be unique.');
+            return;
+        }
+        if (!isOnlineMode) {
+            Alert.alert('Offline Mode', 'Cannot save the floor layout while offline. Please connect to internet.');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const saved = { tables: draft.map(table => ({ ...table, name: table.name.trim() })) };
+            await saveFloorLayout(saved);
+            setLayout(saved);
+            setEditing(false);
+            setSelectedTableId(null);
+            Alert.alert('Success', 'Floor layout saved.');
+        } catch (error) {
+            console.error('❌ Error saving floor layout:', error);
+            Alert.alert('Error', 'Failed to save the floor layout.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const selectedOrders = selectedTable ? getTableOrders(selectedTable.id, orders) : [];
+
+    return (
+        <ThemedView style={styles.container}>
+            <Navbar activeNav="tables" />
+
+            <ImageBackground
+                source={require('@/assets/images/kape1.png')}
+                style={styles.backgroundImage}
+                resizeMode="cover"
+            >
+                <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+                    <ThemedView style={styles.headerSection}>
+                        <ThemedText style={styles.mainTitle}>Tables</ThemedText>
+                        <ThemedView style={styles.headerActions}>
+                            {isAdmin && !editing && (
+                                <TouchableOpacity style={styles.secondaryButton} onPress={startEditing}>
+                                    <Feather name="edit-2" size={14} color="#854442" />
+                                    <Text style={styles.secondaryButtonText}>Edit Layout</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity style={styles.reloadButton} onPress={loadData} disabled={loading}>
+                                <Feather name="refresh-cw" size={18} color="#F5E6D3" />
+                            </TouchableOpacity>
+                        </ThemedView>
+                    </ThemedView>
+
+                    <ThemedView style={styles.card}>
+                        {moveFrom && (
+                            <ThemedView style={styles.moveBanner}>
+                                <ThemedText style={styles.moveBannerText}>
+                                    Tap the table to move {moveFrom.name} to
+                                </ThemedText>
+                                <TouchableOpacity onPress={() => setMoveFromId(null)}>
+                                    <Feather name="x" size={18} color="#FFFEEA" />
+                                </TouchableOpacity>
+                            </ThemedView>
+                        )}
+                        {editing && (
+                            <ThemedText style={styles.infoText}>
+                                Tap a table to select it, then tap an empty spot to move it there.
+                            </ThemedText>
+                        )}
+
+                        <FloorMap
+                            tables={tables}
+                            statuses={editing ? undefined : statuses}
+                            selectedTableId={moveFromId || selectedTableId}
+                            onTablePress={handleTablePress}
+                            onMapPress={editing && selectedTable
+                                ? (x, y) => updateDraftTable(selectedTable.id, { x, y })
+                                : undefined}
+                            showLegend={!editing}
+                        />
+                    </ThemedView>
+
+                    {editing ? (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="grid" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>
+                                    {selectedTable ? `Edit ${selectedTable.name}` : 'Floor Layout'}
+                                </ThemedText>
+                            </ThemedView>
+
+                            {selectedTable ? (
+                                <>
+                                    <ThemedView style={styles.formRow}>
+                                        <ThemedView style={styles.formField}>
+                                            <ThemedText style={styles.fieldLabel}>Name</ThemedText>
+                                            <TextInput
+                                                style={styles.input}
+                                                value={selectedTable.name}
+                                                onChangeText={name => updateDraftTable(selectedTable.id, { name })}
+                                                placeholder="e.g. T4"
+                                                placeholderTextColor="#B08968"
+                                            />
+                                        </ThemedView>
+                                        <ThemedView style={styles.formField}>
+                                            <ThemedText style={styles.fieldLabel}>Seats</ThemedText>
+                                            <TextInput
+                                                style={styles.input}
+                                                value={String(selectedTable.seats)}
+                                                onChangeText={text => updateDraftTable(selectedTable.id, { seats: parseInt(text, 10) || 0 })}
+                                                keyboardType="number-pad"
+                                            />
+                                        </ThemedView>
+                                    </ThemedView>
+                                    <ThemedView style={styles.formRow}>
+                                        {(['square', 'round'] as DiningTable['shape'][]).map(shape => (
+                                            <TouchableOpacity
+                                                key={shape}
+                                                style={[styles.chip, selectedTable.shape === shape && styles.chipActive]}
+                                                onPress={() => updateDraftTable(selectedTable.id, { shape })}
+                                            >
+                                                <Text style={[styles.chipText, selectedTable.shape === shape && styles.chipTextActive]}>
+                                                    {shape === 'square' ? 'Square' : 'Round'}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                        <TouchableOpacity style={styles.deleteButton} onPress={() => deleteTable(selectedTable)}>
+                                            <Feather name="trash-2" size={16} color="#DC2626" />
+                                        </TouchableOpacity>
+                                    </ThemedView>
+                                </>
+                            ) : (
+                                <ThemedText style={styles.infoText}>{draft.length} table(s). Select one to edit it.</ThemedText>
+                            )}
+
+                            <ThemedView style={styles.formRow}>
+                                <TouchableOpacity style={styles.secondaryButton} onPress={addTable}>
+                                    <Feather name="plus" size={14} color="#854442" />
+                                    <Text style={styles.secondaryButtonText}>Add Table</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity style={styles.secondaryButton} onPress={cancelEditing}>
+                                    <Text style={styles.secondaryButtonText}>Cancel</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity style={styles.primaryButton} onPress={handleSaveLayout} disabled={loading}>
+                                    <ThemedText style={styles.primaryButtonText}>Save Layout</ThemedText>
+                                </TouchableOpacity>
+                            </ThemedView>
+                        </ThemedView>
+                    ) : selectedTable && (
+                        <ThemedView style={styles.card}>
+                            <ThemedView style={styles.cardHeader}>
+                                <Feather name="users" size={18} color="#854442" />
+                                <ThemedText style={styles.cardTitle}>
+                                    {selectedTable.name} · {selectedTable.seats} seats
+                                </ThemedText>
+                                <ThemedText style={[styles.statusText, { color: TABLE_STATUS_COLORS[statuses[selectedTable.id]] }]}>
+                                    {TABLE_STATUS_LABELS[statuses[selectedTable.id]]}
+                                </ThemedText>
+                            </ThemedView>
+
+                            {selectedOrders.length === 0 ? (
+                                <ThemedText style={styles.infoText}>No open orders at this table.</ThemedText>
+                            ) : (
+                                selectedOrders.map(order => (
+                                    <ThemedView key={order.idempotencyKey || order.orderId} style={styles.listRow}>
+                                        <ThemedView style={styles.listInfo}>
+                                            <ThemedText style={styles.listTitle}>{order.orderId} · {order.customerName}</ThemedText>
+                                            <ThemedText style={styles.listSubtitle}>
+                                                {order.allItemsReady ? 'Served' : 'Being prepared'}
+                                            </ThemedText>
+                                        </ThemedView>
+                                        <ThemedText style={styles.listAmount}>₱{order.total.toFixed(2)}</ThemedText>
+                                    </ThemedView>
+                                ))
+                            )}
+
+                            {selectedOrders.length > 0 && (
+                                <TouchableOpacity
+                                    style={styles.primaryButton}
+                                    onPress={() => setMoveFromId(selectedTable.id)}
+                                    disabled={loading}
+                                >
+                                    <ThemedText style={styles.primaryButtonText}>Transfer / Merge</ThemedText>
+                                </TouchableOpacity>
+                            )}
+                        </ThemedView>
+                    )}
+                </ScrollView>
+            </ImageBackground>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFEEA',
+    },
+    backgroundImage: {
+        flex: 1,
+    },
+    content: {
+        flex: 1,
+        padding: 16,
+        backgroundColor: 'transparent',
+    },
+    scrollContent: {
+        paddingBottom: 40,
+    },
+    headerSection: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: "rgba(223, 204, 175, 0.7)",
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+        borderWidth: 1,
+        borderColor: '#854442',
+        marginBottom: 16,
+    },
+    mainTitle: {
+        fontSize: 28,
+        color: '#854442',
+        fontFamily: 'LobsterTwoItalic',
+        lineHeight: 50
+    },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: 'transparent',
+    },
+    reloadButton: {
+        backgroundColor: '#854442',
+        padding: 8,
+        borderRadius: 8,
+    },
+    card: {
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderWidth: 1,
+        borderColor: '#854442',
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+        backgroundColor: 'transparent',
+    },
+    cardTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    statusText: {
+        fontSize: 13,
+        fontWeight: 'bold',
+        marginLeft: 'auto',
+    },
+    infoText: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    moveBanner: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        backgroundColor: '#874E3B',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        marginBottom: 10,
+    },
+    moveBannerText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    formRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 10,
+        backgroundColor: 'transparent',
+    },
+    formField: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    fieldLabel: {
+        fontSize: 12,
+        color: '#874E3B',
+        marginBottom: 4,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    chipActive: {
+        backgroundColor: '#874E3B',
+    },
+    chipText: {
+        fontSize: 13,
+        color: '#874E3B',
+    },
+    chipTextActive: {
+        color: '#FFFEEA',
+    },
+    deleteButton: {
+        marginLeft: 'auto',
+        padding: 8,
+    },
+    listRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        backgroundColor: 'transparent',
+    },
+    listInfo: {
+        flex: 1,
+        backgroundColor: 'transparent',
+    },
+    listTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    listSubtitle: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    listAmount: {
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    primaryButton: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    primaryButtonText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+    secondaryButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#854442',
+        backgroundColor: '#FFFEEA',
+    },
+    secondaryButtonText: {
+        color: '#854442',
+        fontWeight: '600',
+    },
+});
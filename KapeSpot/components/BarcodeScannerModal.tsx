@@ -0,0 +1,147 @@
+// components/BarcodeScannerModal.tsx
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { Feather } from '@expo/vector-icons';
+import { BarcodeScanningResult, BarcodeType, CameraView, useCameraPermissions } from 'expo-camera';
+import { LastScan, isRepeatScan, normalizeScannedCode } from '@/lib/scanning';
+
+interface BarcodeScannerModalProps {
+    visible: boolean;
+    title: string;
+    // Returns a line to show under the camera (e.g. "Added Latte"); the scanner stays open for the next code
+    onScan: (code: string) => string | void;
+    onClose: () => void;
+}
+
+// Item codes are printed as QR codes or as the common 1D symbologies of label printers
+const BARCODE_TYPES: BarcodeType[] = ['qr', 'code128', 'code39', 'code93', 'ean13', 'ean8', 'upc_a', 'upc_e', 'itf14'];
+
+const BarcodeScannerModal: React.FunctionComponent<BarcodeScannerModalProps> = ({
+    visible,
+    title,
+    onScan,
+    onClose,
+}) => {
+    const [permission, requestPermission] = useCameraPermissions();
+    const [message, setMessage] = useState('');
+    const lastScan = useRef<LastScan | null>(null);
+
+    useEffect(() => {
+        if (!visible) return;
+        setMessage('');
+        lastScan.current = null;
+    }, [visible]);
+
+    const handleScanned = (result: BarcodeScanningResult) => {
+        const code = normalizeScannedCode(result.data);
+        if (!code || isRepeatScan(lastScan.current, code)) return;
+        lastScan.current = { code, at: Date.now() };
+
+        console.log('📷 Scanned code:', code);
+        setMessage(onScan(code) || '');
+    };
+
+    return (
+        <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={styles.card}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>{title}</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <Feather name="x" size={22} color="#854442" />
+                        </TouchableOpacity>
+                    </View>
+
+                    {!permission ? (
+                        <Text style={styles.hint}>Checking camera access...</Text>
+                    ) : !permission.granted ? (
+                        <View style={styles.permissionBox}>
+                            <Text style={styles.hint}>Camera access is needed to scan item codes.</Text>
+                            <TouchableOpacity style={styles.button} onPress={requestPermission}>
+                                <Text style={styles.buttonText}>Allow Camera</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : (
+                        <View style={styles.cameraFrame}>
+                            <CameraView
+                                style={styles.camera}
+                                facing="back"
+                                barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+                                onBarcodeScanned={visible ? handleScanned : undefined}
+                            />
+                        </View>
+                    )}
+
+                    <Text style={styles.message}>{message || 'Point the camera at the item code.'}</Text>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    card: {
+        width: '85%',
+        maxWidth: 420,
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 2,
+        borderColor: '#854442',
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 10,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    hint: {
+        fontSize: 13,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    permissionBox: {
+        alignItems: 'center',
+        paddingVertical: 16,
+    },
+    cameraFrame: {
+        height: 260,
+        borderRadius: 8,
+        overflow: 'hidden',
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    camera: {
+        flex: 1,
+    },
+    message: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#874E3B',
+        textAlign: 'center',
+        marginTop: 10,
+    },
+    button: {
+        backgroundColor: '#874E3B',
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        borderRadius: 8,
+    },
+    buttonText: {
+        color: '#FFFEEA',
+        fontWeight: 'bold',
+    },
+});
+
+export default BarcodeScannerModal;
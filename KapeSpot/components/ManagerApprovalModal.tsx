@@ -0,0 +1,159 @@
+// components/ManagerApprovalModal.tsx
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { Feather } from '@expo/vector-icons';
+import { getCurrentUser, requestManagerApproval } from '@/lib/manager-approval';
+
+interface ManagerApprovalModalProps {
+    visible: boolean;
+    title: string;
+    message?: string;
+    onApproved: (approvedBy: string) => void;
+    onCancel: () => void;
+}
+
+const ManagerApprovalModal: React.FunctionComponent<ManagerApprovalModalProps> = ({
+    visible,
+    title,
+    message,
+    onApproved,
+    onCancel,
+}) => {
+    const [pin, setPin] = useState('');
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [checking, setChecking] = useState(false);
+
+    useEffect(() => {
+        if (!visible) return;
+        setPin('');
+        getCurrentUser().then(user => setIsAdmin(user?.role === 'admin'));
+    }, [visible]);
+
+    const handleApprove = async () => {
+        setChecking(true);
+        try {
+            const approvedBy = await requestManagerApproval(pin);
+            if (!approvedBy) {
+                Alert.alert('Not Approved', 'Incorrect manager PIN. Ask a manager to set or enter the PIN.');
+                return;
+            }
+            onApproved(approvedBy);
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onCancel}>
+            <View style={styles.overlay}>
+                <View style={styles.card}>
+                    <View style={styles.header}>
+                        <Feather name="shield" size={22} color="#854442" />
+                        <Text style={styles.title}>{title}</Text>
+                    </View>
+                    {message ? <Text style={styles.message}>{message}</Text> : null}
+
+                    {isAdmin ? (
+                        <Text style={styles.message}>You are signed in as admin.</Text>
+                    ) : (
+                        <TextInput
+                            style={styles.pinInput}
+                            value={pin}
+                            onChangeText={setPin}
+                            placeholder="Manager PIN"
+                            placeholderTextColor="#B08968"
+                            secureTextEntry={true}
+                            keyboardType="number-pad"
+                            maxLength={8}
+                        />
+                    )}
+
+                    <View style={styles.buttons}>
+                        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+                            <Text style={styles.cancelText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, styles.approveButton]}
+                            onPress={handleApprove}
+                            disabled={checking || (!isAdmin && !pin.trim())}
+                        >
+                            <Text style={styles.approveText}>{checking ? 'Checking...' : 'Approve'}</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    card: {
+        width: '80%',
+        maxWidth: 360,
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 2,
+        borderColor: '#854442',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    message: {
+        fontSize: 14,
+        color: '#5A3921',
+        marginBottom: 10,
+    },
+    pinInput: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        fontSize: 18,
+        letterSpacing: 4,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+        marginBottom: 12,
+    },
+    buttons: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    cancelButton: {
+        backgroundColor: '#DFCCAF',
+    },
+    approveButton: {
+        backgroundColor: '#874E3B',
+    },
+    cancelText: {
+        color: '#854442',
+        fontWeight: '600',
+    },
+    approveText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+});
+
+export default ManagerApprovalModal;
@@ -0,0 +1,362 @@
+// components/RefundModal.tsx
+import { Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { Feather } from '@expo/vector-icons';
+import ManagerApprovalModal from '@/components/ManagerApprovalModal';
+import { getCurrentUser } from '@/lib/manager-approval';
+import { loadTaxProfile } from '@/lib/tax';
+import { TENDER_OPTIONS } from '@/lib/payments';
+import { formatModifierSummary } from '@/lib/modifiers';
+import {
+    REFUND_REASONS,
+    RefundableOrder,
+    buildRefund,
+    getRefundKind,
+    getRefundableLines,
+    processRefund
+} from '@/lib/refunds';
+import { TaxProfile } from '@/types/tax';
+import { TenderType } from '@/types/payment';
+import { RefundReasonCode, RefundRecord } from '@/types/refund';
+
+interface RefundModalProps {
+    visible: boolean;
+    order: RefundableOrder | null;
+    initialLineIds?: string[]; // preselected lines; defaults to the whole order
+    onDone: (refund: RefundRecord) => void;
+    onClose: () => void;
+}
+
+// Void (nothing paid yet) or refund (tenders taken) whole orders or single lines. A reason code is
+// required and nothing is recorded until a manager approves.
+const RefundModal: React.FunctionComponent<RefundModalProps> = ({
+    visible,
+    order,
+    initialLineIds,
+    onDone,
+    onClose,
+}) => {
+    const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+    const [reasonCode, setReasonCode] = useState<RefundReasonCode | null>(null);
+    const [reasonNote, setReasonNote] = useState('');
+    const [tender, setTender] = useState<TenderType>('cash');
+    const [taxProfile, setTaxProfile] = useState<TaxProfile | null>(null);
+    const [awaitingApproval, setAwaitingApproval] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!visible || !order) return;
+        const lineIds = getRefundableLines(order).map(line => line.lineId);
+        setSelectedLineIds(initialLineIds ? lineIds.filter(id => initialLineIds.includes(id)) : lineIds);
+        setReasonCode(null);
+        setReasonNote('');
+        setTender(order.payments?.[0]?.type || 'cash');
+        setAwaitingApproval(false);
+        loadTaxProfile().then(setTaxProfile);
+    }, [visible, order, initialLineIds]);
+
+    if (!order) return null;
+
+    const kind = getRefundKind(order);
+    const lines = getRefundableLines(order);
+    const verb = kind === 'void' ? 'Void' : 'Refund';
+    // Only a charged order can be refunded back onto the customer's account
+    const chargedToAccount = (order.payments || []).some(payment => payment.type === 'account');
+
+    const buildRequest = (approvedBy: string, requestedBy: string) => ({
+        order,
+        lineIds: selectedLineIds,
+        reasonCode: reasonCode || 'other',
+        reasonNote,
+        requestedBy,
+        approvedBy,
+        tender
+    });
+
+    const previewAmount = taxProfile && selectedLineIds.length > 0
+        ? buildRefund(buildRequest('', ''), taxProfile).amount
+        : 0;
+
+    const toggleLine = (lineId: string) => {
+        setSelectedLineIds(prev =>
+            prev.includes(lineId) ? prev.filter(id => id !== lineId) : [...prev, lineId]
+        );
+    };
+
+    const handleSubmit = () => {
+        if (selectedLineIds.length === 0) {
+            Alert.alert('Select Items', `Select at least one item to ${verb.toLowerCase()}.`);
+            return;
+        }
+        if (!reasonCode) {
+            Alert.alert('Reason Required', 'Please choose a reason.');
+            return;
+        }
+        if (reasonCode === 'other' && !reasonNote.trim()) {
+            Alert.alert('Reason Required', 'Please describe the reason.');
+            return;
+        }
+        setAwaitingApproval(true);
+    };
+
+    const handleApproved = async (approvedBy: string) => {
+        setAwaitingApproval(false);
+        setSaving(true);
+        try {
+            const user = await getCurrentUser();
+            const profile = taxProfile || await loadTaxProfile();
+            const refund = buildRefund(buildRequest(approvedBy, user?.name || user?.username || ''), profile);
+            onDone(await processRefund(refund));
+        } catch (error) {
+            console.error('❌ Error recording refund:', error);
+            Alert.alert('Error', `Failed to ${verb.toLowerCase()} the order.`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={styles.card}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>{verb} Order {order.orderId}</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <Feather name="x" size={22} color="#854442" />
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={styles.hint}>
+                        {kind === 'void'
+                            ? 'Voided items come off the order and go back to stock.'
+                            : 'The refund is recorded against today\'s sales and the items go back to stock.'}
+                    </Text>
+
+                    <ScrollView style={styles.lineList}>
+                        {lines.map(line => {
+                            const selected = selectedLineIds.includes(line.lineId);
+                            return (
+                                <TouchableOpacity
+                                    key={line.lineId}
+                                    style={styles.lineRow}
+                                    onPress={() => toggleLine(line.lineId)}
+                                >
+                                    <Feather
+                                        name={selected ? 'check-square' : 'square'}
+                                        size={18}
+                                        color={selected ? '#DC2626' : '#874E3B'}
+                                    />
+                                    <View style={styles.lineInfo}>
+                                        <Text style={styles.lineName}>{line.item.quantity}x {line.item.name}</Text>
+                                        {!!line.item.modifiers?.length && (
+                                            <Text style={styles.lineModifiers}>{formatModifierSummary(line.item.modifiers)}</Text>
+                                        )}
+                                    </View>
+                                    <Text style={styles.lineAmount}>
+                                        ₱{((Number(line.item.price) || 0) * (Number(line.item.quantity) || 0)).toFixed(2)}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <Text style={styles.fieldLabel}>Reason *</Text>
+                    <View style={styles.chips}>
+                        {REFUND_REASONS.map(reason => (
+                            <TouchableOpacity
+                                key={reason.code}
+                                style={[styles.chip, reasonCode === reason.code && styles.chipActive]}
+                                onPress={() => setReasonCode(reason.code)}
+                            >
+                                <Text style={[styles.chipText, reasonCode === reason.code && styles.chipTextActive]}>
+                                    {reason.label}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <TextInput
+                        style={styles.input}
+                        value={reasonNote}
+                        onChangeText={setReasonNote}
+                        placeholder={reasonCode === 'other' ? 'Describe the reason *' : 'Note (optional)'}
+                        placeholderTextColor="#B08968"
+                    />
+
+                    {kind === 'refund' && (
+                        <>
+                            <Text style={styles.fieldLabel}>Pay back with</Text>
+                            <View style={styles.chips}>
+                                {TENDER_OPTIONS.filter(option => option.type !== 'account' || chargedToAccount).map(option => (
+                                    <TouchableOpacity
+                                        key={option.type}
+                                        style={[styles.chip, tender === option.type && styles.chipActive]}
+                                        onPress={() => setTender(option.type)}
+                                    >
+                                        <Text style={[styles.chipText, tender === option.type && styles.chipTextActive]}>
+                                            {option.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        </>
+                    )}
+
+                    <View style={styles.amountRow}>
+                        <Text style={styles.amountLabel}>{kind === 'void' ? 'Taken off the order' : 'Refund amount'}</Text>
+                        <Text style={styles.amountValue}>-₱{previewAmount.toFixed(2)}</Text>
+                    </View>
+
+                    <TouchableOpacity
+                        style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+                        onPress={handleSubmit}
+                        disabled={saving}
+                    >
+                        <Text style={styles.submitText}>{saving ? 'Saving...' : `${verb} Selected Items`}</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <ManagerApprovalModal
+                visible={awaitingApproval}
+                title="Manager Approval"
+                message={`${verb} of ₱${previewAmount.toFixed(2)} on order ${order.orderId} needs a manager's approval.`}
+                onCancel={() => setAwaitingApproval(false)}
+                onApproved={handleApproved}
+            />
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    card: {
+        width: '85%',
+        maxWidth: 440,
+        maxHeight: '90%',
+        backgroundColor: '#FFFEEA',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 2,
+        borderColor: '#854442',
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 6,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#854442',
+    },
+    hint: {
+        fontSize: 12,
+        color: '#5A3921',
+        marginBottom: 8,
+    },
+    lineList: {
+        maxHeight: 200,
+        marginBottom: 10,
+    },
+    lineRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E8D8C8',
+    },
+    lineInfo: {
+        flex: 1,
+    },
+    lineName: {
+        fontSize: 14,
+        color: '#5A3921',
+    },
+    lineModifiers: {
+        fontSize: 11,
+        color: '#B08968',
+    },
+    lineAmount: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#854442',
+    },
+    fieldLabel: {
+        fontSize: 12,
+        color: '#874E3B',
+        marginBottom: 4,
+    },
+    chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginBottom: 8,
+    },
+    chip: {
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#874E3B',
+    },
+    chipActive: {
+        backgroundColor: '#874E3B',
+    },
+    chipText: {
+        fontSize: 12,
+        color: '#874E3B',
+    },
+    chipTextActive: {
+        color: '#FFFEEA',
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#D4A574',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: '#854442',
+        backgroundColor: '#FFFFFF',
+        marginBottom: 8,
+    },
+    amountRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderTopWidth: 1,
+        borderTopColor: '#E8D8C8',
+        marginBottom: 8,
+    },
+    amountLabel: {
+        fontSize: 14,
+        color: '#5A3921',
+    },
+    amountValue: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#DC2626',
+    },
+    submitButton: {
+        backgroundColor: '#DC2626',
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitText: {
+        color: '#FFFEEA',
+        fontWeight: '600',
+    },
+});
+
+export default RefundModal;
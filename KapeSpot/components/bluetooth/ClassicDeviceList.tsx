@@ -0,0 +1,204 @@
+import { FlatList, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { BluetoothDevice } from "react-native-bluetooth-classic";
+import { Feather } from "@expo/vector-icons";
+
+interface ClassicDeviceListProps {
+  devices: BluetoothDevice[];
+  isDiscovering: boolean;
+  connectingAddress: string | null;
+  onScanPress: () => void;
+  onConnect: (device: BluetoothDevice) => void;
+}
+
+const ClassicDeviceList: React.FunctionComponent<ClassicDeviceListProps> = ({
+  devices,
+  isDiscovering,
+  connectingAddress,
+  onScanPress,
+  onConnect,
+}) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerSection}>
+        <Feather name="radio" size={32} color="#007AFF" />
+        <Text style={styles.title}>Bluetooth Classic Printers</Text>
+        <Text style={styles.description}>
+          Most handheld thermal printers pair over Bluetooth Classic (SPP). Paired printers are listed first; searching also finds unpaired ones in range.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.scanButton, isDiscovering && styles.scanningButton]}
+        onPress={onScanPress}
+        disabled={isDiscovering}
+      >
+        <Feather name={isDiscovering ? "refresh-cw" : "search"} size={24} color="#fff" />
+        <Text style={styles.scanButtonText}>
+          {isDiscovering ? "Searching for Printers..." : "Search Nearby Printers"}
+        </Text>
+      </TouchableOpacity>
+
+      {devices.length > 0 ? (
+        <FlatList
+          data={devices}
+          keyExtractor={(item) => item.address}
+          renderItem={({ item }) => {
+            const connecting = connectingAddress === item.address;
+            return (
+              <View style={styles.card}>
+                <View style={styles.deviceHeader}>
+                  <Text style={styles.deviceName}>{item.name || "Unknown Device"}</Text>
+                  <Text style={item.bonded ? styles.pairedBadge : styles.unpairedBadge}>
+                    {item.bonded ? "Paired" : "Not paired"}
+                  </Text>
+                </View>
+                <Text style={styles.deviceId}>MAC: {item.address}</Text>
+
+                <TouchableOpacity
+                  style={[styles.connectButton, connectingAddress !== null && styles.connectButtonDisabled]}
+                  onPress={() => onConnect(item)}
+                  disabled={connectingAddress !== null}
+                >
+                  <Feather name={connecting ? "refresh-cw" : "link"} size={16} color="#fff" />
+                  <Text style={styles.connectButtonText}>
+                    {connecting ? "Connecting..." : item.bonded ? "Connect" : "Pair & Connect"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            );
+          }}
+        />
+      ) : (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>No Printers Listed</Text>
+          <Text style={styles.emptyText}>
+            {isDiscovering
+              ? "Searching can take up to 12 seconds..."
+              : "Pair the printer in Android Bluetooth settings or search for it here."}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default ClassicDeviceList;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerSection: {
+    alignItems: "center",
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  scanButton: {
+    backgroundColor: "#007AFF",
+    padding: 18,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+    marginBottom: 20,
+  },
+  scanningButton: {
+    backgroundColor: "#0056b3",
+  },
+  scanButtonText: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  card: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+  },
+  deviceHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    flex: 1,
+  },
+  pairedBadge: {
+    fontSize: 12,
+    color: "#16A34A",
+    fontWeight: "600",
+  },
+  unpairedBadge: {
+    fontSize: 12,
+    color: "#D97706",
+    fontWeight: "600",
+  },
+  deviceId: {
+    fontSize: 12,
+    color: "#999",
+    fontFamily: "monospace",
+    marginBottom: 12,
+  },
+  connectButton: {
+    backgroundColor: "#007AFF",
+    padding: 12,
+    borderRadius: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+  },
+  connectButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  connectButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    color: "#666",
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+});
@@ -1,17 +1,35 @@
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
 import React from "react";
 import { PeripheralServices } from "@/types/bluetooth";
+import { PrintOptions, PrinterConnection, PrinterRole } from "@/types/print";
+import { PAPER_PROFILES } from "@/lib/escpos";
+import { PRINTER_KIND_LABELS } from "@/lib/printer-transports";
+import { PRINTER_ROLE_LABELS } from "@/lib/printer-routing";
 import { Feather } from "@expo/vector-icons";
 
 interface ConnectedStateProps {
-  bleService: PeripheralServices;
+  connection: PrinterConnection;
+  role: PrinterRole;
+  bleService?: PeripheralServices;
+  captureSize?: number;
+  printOptions: PrintOptions;
+  onChangePrintOptions: (options: PrintOptions) => void;
+  onClearCapture?: () => void;
+  onAddAnother: () => void;
   onRead: () => void;
   onWrite: () => void;
-  onDisconnect: (id: string) => void;
+  onDisconnect: () => void;
 }
 
 const ConnectedState: React.FunctionComponent<ConnectedStateProps> = ({
+  connection,
+  role,
   bleService,
+  captureSize,
+  printOptions,
+  onClearCapture,
+  onAddAnother,
+  onChangePrintOptions,
   onDisconnect,
   onRead,
   onWrite,
@@ -26,45 +44,140 @@ const ConnectedState: React.FunctionComponent<ConnectedStateProps> = ({
           </View>
           <View style={styles.statusTexts}>
             <Text style={styles.connectedTitle}>Printer Connected</Text>
-            <Text style={styles.readyText}>Auto-detected and ready for printing</Text>
+            <Text style={styles.readyText}>
+              {connection.name} · {PRINTER_KIND_LABELS[connection.kind]}
+            </Text>
+            <Text style={styles.readyText}>
+              {role === "receipt" ? "Prints receipts" : `Prints ${PRINTER_ROLE_LABELS[role].toLowerCase()} tickets`} · change in Printers & Stations
+            </Text>
           </View>
         </View>
 
         {/* Auto-detected Service Details */}
-        <View style={styles.detailsSection}>
-          <Text style={styles.sectionTitle}>Auto-detected Service</Text>
+        {connection.kind === "ble" && bleService && (
+          <View style={styles.detailsSection}>
+            <Text style={styles.sectionTitle}>Auto-detected Service</Text>
 
-          <View style={styles.detailRow}>
-            <Feather name="cpu" size={16} color="#007AFF" />
-            <Text style={styles.detailLabel}>Service UUID:</Text>
-            <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
-              {bleService.serviceId}
-            </Text>
+            <View style={styles.detailRow}>
+              <Feather name="cpu" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Service UUID:</Text>
+              <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
+                {bleService.serviceId}
+              </Text>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Feather name="send" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Transfer Characteristic:</Text>
+              <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
+                {bleService.transfer}
+              </Text>
+            </View>
+
+            {bleService.receive && bleService.receive !== bleService.transfer && (
+              <View style={styles.detailRow}>
+                <Feather name="download" size={16} color="#007AFF" />
+                <Text style={styles.detailLabel}>Receive Characteristic:</Text>
+                <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
+                  {bleService.receive}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.autoDetectedBadge}>
+              <Feather name="zap" size={14} color="#F59E0B" />
+              <Text style={styles.autoDetectedText}>Auto-detected</Text>
+            </View>
           </View>
+        )}
 
-          <View style={styles.detailRow}>
-            <Feather name="send" size={16} color="#007AFF" />
-            <Text style={styles.detailLabel}>Transfer Characteristic:</Text>
-            <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
-              {bleService.transfer}
-            </Text>
+        {connection.kind === "classic" && (
+          <View style={styles.detailsSection}>
+            <View style={styles.detailRow}>
+              <Feather name="radio" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>MAC Address:</Text>
+              <Text style={styles.detailValue}>{connection.address}</Text>
+            </View>
           </View>
+        )}
 
-          {bleService.receive && bleService.receive !== bleService.transfer && (
+        {connection.kind === "tcp" && (
+          <View style={styles.detailsSection}>
             <View style={styles.detailRow}>
-              <Feather name="download" size={16} color="#007AFF" />
-              <Text style={styles.detailLabel}>Receive Characteristic:</Text>
-              <Text style={styles.detailValue} numberOfLines={1} ellipsizeMode="middle">
-                {bleService.receive}
-              </Text>
+              <Feather name="wifi" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Host:</Text>
+              <Text style={styles.detailValue}>{connection.host}</Text>
             </View>
-          )}
+            <View style={styles.detailRow}>
+              <Feather name="hash" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Port:</Text>
+              <Text style={styles.detailValue}>{connection.port}</Text>
+            </View>
+          </View>
+        )}
 
-          <View style={styles.autoDetectedBadge}>
-            <Feather name="zap" size={14} color="#F59E0B" />
-            <Text style={styles.autoDetectedText}>Auto-detected</Text>
+        {connection.kind === "loopback" && (
+          <View style={styles.detailsSection}>
+            <View style={styles.detailRow}>
+              <Feather name="file-text" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Capture File:</Text>
+              <Text style={styles.detailValue}>{connection.fileName}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Feather name="database" size={16} color="#007AFF" />
+              <Text style={styles.detailLabel}>Captured:</Text>
+              <Text style={styles.detailValue}>{captureSize ?? 0} bytes</Text>
+            </View>
+            {onClearCapture && (
+              <TouchableOpacity onPress={onClearCapture} style={styles.autoDetectedBadge}>
+                <Feather name="trash-2" size={14} color="#D97706" />
+                <Text style={styles.autoDetectedText}>Clear Capture</Text>
+              </TouchableOpacity>
+            )}
           </View>
+        )}
+      </View>
+
+      {/* Paper Settings Section */}
+      <View style={styles.actionsSection}>
+        <Text style={styles.sectionTitle}>Paper & Layout</Text>
+
+        <Text style={styles.optionLabel}>Paper width</Text>
+        <View style={styles.optionRow}>
+          {PAPER_PROFILES.map((profile) => {
+            const active = printOptions.columns === profile.columns;
+            return (
+              <TouchableOpacity
+                key={profile.columns}
+                style={[styles.optionChip, active && styles.optionChipActive]}
+                onPress={() => onChangePrintOptions({ ...printOptions, columns: profile.columns })}
+              >
+                <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{profile.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
+
+        <Text style={styles.optionLabel}>Peso sign</Text>
+        <View style={styles.optionRow}>
+          {(["glyph", "letter"] as const).map((peso) => {
+            const active = printOptions.peso === peso;
+            return (
+              <TouchableOpacity
+                key={peso}
+                style={[styles.optionChip, active && styles.optionChipActive]}
+                onPress={() => onChangePrintOptions({ ...printOptions, peso })}
+              >
+                <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                  {peso === "glyph" ? "₱ symbol" : "P letter"}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.actionDescription}>
+          Use the P letter if the test receipt shows a stray character where ₱ should be.
+        </Text>
       </View>
 
       {/* Action Buttons Section */}
@@ -82,7 +195,7 @@ const ConnectedState: React.FunctionComponent<ConnectedStateProps> = ({
             </View>
             <Text style={styles.actionButtonText}>Test Print</Text>
             <Text style={styles.actionDescription}>
-              Send test receipt using auto-detected service
+              Send a test receipt to check paper width and the peso sign
             </Text>
           </TouchableOpacity>
         </View>
@@ -90,8 +203,13 @@ const ConnectedState: React.FunctionComponent<ConnectedStateProps> = ({
 
       {/* Disconnect Section */}
       <View style={styles.disconnectSection}>
+        <TouchableOpacity onPress={onAddAnother} style={styles.addAnotherButton}>
+          <Feather name="plus" size={20} color="#007AFF" />
+          <Text style={styles.addAnotherButtonText}>Add Another Printer</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
-          onPress={() => onDisconnect(bleService.peripheralId)}
+          onPress={onDisconnect}
           style={styles.disconnectButton}
         >
           <Feather name="x" size={20} color="#fff" />
@@ -202,6 +320,38 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#666",
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F8FAFC",
+  },
+  optionChipActive: {
+    borderColor: "#16A34A",
+    backgroundColor: "#F0FDF4",
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  optionChipTextActive: {
+    color: "#16A34A",
+    fontWeight: "600",
+  },
   actionsGrid: {
     gap: 16,
   },
@@ -254,6 +404,23 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  addAnotherButton: {
+    borderWidth: 2,
+    borderColor: "#007AFF",
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 12,
+    width: '100%',
+  },
+  addAnotherButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   disconnectButtonText: {
     color: "#fff",
     fontSize: 16,
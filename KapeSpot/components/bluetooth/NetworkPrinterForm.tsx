@@ -0,0 +1,126 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { RAW_PRINT_PORT } from "@/lib/printer-transports";
+import { Feather } from "@expo/vector-icons";
+
+interface NetworkPrinterFormProps {
+  connecting: boolean;
+  onConnect: (host: string, port: number) => void;
+}
+
+const NetworkPrinterForm: React.FunctionComponent<NetworkPrinterFormProps> = ({
+  connecting,
+  onConnect,
+}) => {
+  const [host, setHost] = useState("");
+  const [port, setPort] = useState(String(RAW_PRINT_PORT));
+
+  const parsedPort = Number(port);
+  const valid = host.trim().length > 0 && Number.isInteger(parsedPort) && parsedPort > 0 && parsedPort < 65536;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerSection}>
+        <Feather name="wifi" size={32} color="#007AFF" />
+        <Text style={styles.title}>Network Printer</Text>
+        <Text style={styles.description}>
+          Ethernet and Wi-Fi kitchen printers take receipts on raw port 9100. Print the printer&apos;s self-test page to find its IP address.
+        </Text>
+      </View>
+
+      <Text style={styles.label}>IP address or host name</Text>
+      <TextInput
+        style={styles.input}
+        value={host}
+        onChangeText={setHost}
+        placeholder="192.168.1.50"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+
+      <Text style={styles.label}>Port</Text>
+      <TextInput
+        style={styles.input}
+        value={port}
+        onChangeText={setPort}
+        keyboardType="number-pad"
+      />
+
+      <TouchableOpacity
+        style={[styles.connectButton, (!valid || connecting) && styles.connectButtonDisabled]}
+        onPress={() => onConnect(host.trim(), parsedPort)}
+        disabled={!valid || connecting}
+      >
+        <Feather name={connecting ? "refresh-cw" : "link"} size={20} color="#fff" />
+        <Text style={styles.connectButtonText}>{connecting ? "Connecting..." : "Connect"}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default NetworkPrinterForm;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerSection: {
+    alignItems: "center",
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#666",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: "#333",
+    marginBottom: 16,
+  },
+  connectButton: {
+    backgroundColor: "#007AFF",
+    padding: 18,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  connectButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  connectButtonText: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+});
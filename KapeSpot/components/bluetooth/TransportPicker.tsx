@@ -0,0 +1,85 @@
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { PrinterKind } from "@/types/print";
+import { PRINTER_KIND_LABELS } from "@/lib/printer-transports";
+import { Feather } from "@expo/vector-icons";
+
+interface TransportPickerProps {
+  selected: PrinterKind;
+  onSelect: (kind: PrinterKind) => void;
+}
+
+const KIND_ICONS: Record<PrinterKind, keyof typeof Feather.glyphMap> = {
+  ble: "bluetooth",
+  classic: "radio",
+  tcp: "wifi",
+  loopback: "file-text",
+};
+
+const TransportPicker: React.FunctionComponent<TransportPickerProps> = ({
+  selected,
+  onSelect,
+}) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Connect printer over</Text>
+      <View style={styles.row}>
+        {(Object.keys(PRINTER_KIND_LABELS) as PrinterKind[]).map((kind) => {
+          const active = kind === selected;
+          return (
+            <TouchableOpacity
+              key={kind}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onSelect(kind)}
+            >
+              <Feather name={KIND_ICONS[kind]} size={14} color={active ? "#007AFF" : "#374151"} />
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{PRINTER_KIND_LABELS[kind]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+export default TransportPicker;
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#666",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#fff",
+  },
+  chipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#F0F8FF",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  chipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,76 @@
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+
+interface VirtualPrinterCardProps {
+  onConnect: () => void;
+}
+
+const VirtualPrinterCard: React.FunctionComponent<VirtualPrinterCardProps> = ({
+  onConnect,
+}) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerSection}>
+        <Feather name="file-text" size={32} color="#007AFF" />
+        <Text style={styles.title}>Virtual Printer</Text>
+        <Text style={styles.description}>
+          Receipts are not printed: their ESC/POS bytes are appended to a file on this device. Use it to try printing,
+          the print queue and paper settings without a printer.
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.connectButton} onPress={onConnect}>
+        <Feather name="link" size={20} color="#fff" />
+        <Text style={styles.connectButtonText}>Use Virtual Printer</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default VirtualPrinterCard;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerSection: {
+    alignItems: "center",
+    marginBottom: 24,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  connectButton: {
+    backgroundColor: "#007AFF",
+    padding: 18,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  connectButtonText: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,278 @@
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { BundleOption, BundleSlot } from "@/types/bundle";
+import { createBundleId } from "@/lib/bundles";
+
+interface BundleEditorProps {
+  slots: BundleSlot[];
+  onChange: (slots: BundleSlot[]) => void;
+  items: { id: string; firebaseId?: string; name: string; price: number }[]; // items that can go in a slot
+  disabled?: boolean;
+}
+
+// A slot with one item is a fixed component; adding more items turns it into a choose-one slot
+const BundleEditor: React.FunctionComponent<BundleEditorProps> = ({ slots, onChange, items, disabled }) => {
+  const [pickingSlotId, setPickingSlotId] = useState<string | null>(null);
+
+  const updateSlot = (slotId: string, changes: Partial<BundleSlot>) => {
+    onChange(slots.map((slot) => (slot.id === slotId ? { ...slot, ...changes } : slot)));
+  };
+
+  const updateOption = (slot: BundleSlot, optionId: string, changes: Partial<BundleOption>) => {
+    updateSlot(slot.id, {
+      options: slot.options.map((option) => (option.id === optionId ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const addSlot = () => {
+    const slot: BundleSlot = { id: createBundleId("slot"), name: "", quantity: 1, options: [] };
+    onChange([...slots, slot]);
+    setPickingSlotId(slot.id);
+  };
+
+  const addOption = (slot: BundleSlot, item: BundleEditorProps["items"][number]) => {
+    updateSlot(slot.id, {
+      options: [
+        ...slot.options,
+        { id: createBundleId("opt"), itemId: item.firebaseId || item.id, name: item.name, upcharge: 0 },
+      ],
+    });
+  };
+
+  return (
+    <View>
+      {slots.length === 0 && (
+        <Text style={styles.emptyText}>
+          Not a bundle. Add a slot (e.g. Drink, Pastry) to sell this item as a combo of other items.
+        </Text>
+      )}
+
+      {slots.map((slot) => {
+        const available = items.filter(
+          (item) => !slot.options.some((option) => option.itemId === (item.firebaseId || item.id))
+        );
+
+        return (
+          <View key={slot.id} style={styles.slotCard}>
+            <View style={styles.slotHeader}>
+              <TextInput
+                style={[styles.input, styles.slotNameInput]}
+                value={slot.name}
+                onChangeText={(text) => updateSlot(slot.id, { name: text })}
+                placeholder="Slot name (e.g. Drink)"
+                placeholderTextColor="#9CA3AF"
+                editable={!disabled}
+              />
+              <Text style={styles.qtyLabel}>Qty</Text>
+              <TextInput
+                style={[styles.input, styles.qtyInput]}
+                defaultValue={slot.quantity.toString()}
+                onChangeText={(text) => updateSlot(slot.id, { quantity: Math.max(1, parseInt(text, 10) || 1) })}
+                keyboardType="numeric"
+                editable={!disabled}
+              />
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => onChange(slots.filter((s) => s.id !== slot.id))}
+                disabled={disabled}
+              >
+                <Feather name="trash-2" size={16} color="#DC2626" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.slotHint}>
+              {slot.options.length <= 1 ? "Fixed component" : "Customer chooses one"}
+            </Text>
+
+            {slot.options.map((option) => (
+              <View key={option.id} style={styles.optionRow}>
+                <Text style={styles.optionName} numberOfLines={1}>
+                  {option.name}
+                </Text>
+                {slot.options.length > 1 && (
+                  <TextInput
+                    style={[styles.input, styles.upchargeInput]}
+                    defaultValue={option.upcharge ? option.upcharge.toString() : ""}
+                    onChangeText={(text) => updateOption(slot, option.id, { upcharge: parseFloat(text) || 0 })}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="+₱0"
+                    placeholderTextColor="#9CA3AF"
+                    editable={!disabled}
+                  />
+                )}
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => updateSlot(slot.id, { options: slot.options.filter((o) => o.id !== option.id) })}
+                  disabled={disabled}
+                >
+                  <Feather name="x" size={16} color="#DC2626" />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {pickingSlotId === slot.id ? (
+              <View style={styles.pickerBox}>
+                {available.length === 0 ? (
+                  <Text style={styles.emptyText}>No other items to add.</Text>
+                ) : (
+                  <ScrollView style={styles.pickerList} nestedScrollEnabled>
+                    <View style={styles.itemChips}>
+                      {available.map((item) => (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={styles.itemChip}
+                          onPress={() => addOption(slot, item)}
+                          disabled={disabled}
+                        >
+                          <Text style={styles.itemChipText}>{item.name}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </ScrollView>
+                )}
+                <TouchableOpacity style={styles.addOptionButton} onPress={() => setPickingSlotId(null)}>
+                  <Feather name="check" size={14} color="#874E3B" />
+                  <Text style={styles.addOptionText}>Done</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.addOptionButton}
+                onPress={() => setPickingSlotId(slot.id)}
+                disabled={disabled}
+              >
+                <Feather name="plus" size={14} color="#874E3B" />
+                <Text style={styles.addOptionText}>Add Item</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addSlotButton} onPress={addSlot} disabled={disabled}>
+        <Feather name="plus-circle" size={16} color="#FFFEEA" />
+        <Text style={styles.addSlotText}>Add Bundle Slot</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 12,
+    color: "#5A3921",
+    marginBottom: 8,
+  },
+  slotCard: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+    backgroundColor: "#FFFEEA",
+  },
+  slotHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    color: "#854442",
+    backgroundColor: "#FFFFFF",
+  },
+  slotNameInput: {
+    flex: 1,
+    fontWeight: "bold",
+  },
+  qtyLabel: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  qtyInput: {
+    width: 44,
+    textAlign: "center",
+  },
+  iconButton: {
+    padding: 6,
+  },
+  slotHint: {
+    fontSize: 11,
+    color: "#874E3B",
+    marginVertical: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 13,
+    color: "#5A3921",
+  },
+  upchargeInput: {
+    width: 80,
+    textAlign: "right",
+  },
+  pickerBox: {
+    borderLeftWidth: 2,
+    borderLeftColor: "#D4A574",
+    paddingLeft: 8,
+  },
+  pickerList: {
+    maxHeight: 140,
+    marginBottom: 4,
+  },
+  itemChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  itemChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+  },
+  itemChipText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  addOptionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+  },
+  addOptionText: {
+    fontSize: 12,
+    color: "#874E3B",
+    fontWeight: "600",
+  },
+  addSlotButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: "#874E3B",
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  addSlotText: {
+    color: "#FFFEEA",
+    fontWeight: "bold",
+    fontSize: 13,
+  },
+});
+
+export default BundleEditor;
@@ -0,0 +1,357 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import RecipeEditor from "@/components/inventory/RecipeEditor";
+import { Ingredient } from "@/types/ingredient";
+import { ModifierGroup, ModifierOption } from "@/types/modifier";
+import { createModifierId } from "@/lib/modifiers";
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+  ingredients?: Ingredient[]; // enables per-option recipes when given
+  cupNames?: string[]; // enables per-option take-out cups (e.g. a bigger cup for "Large")
+  disabled?: boolean;
+}
+
+const ModifierGroupsEditor: React.FunctionComponent<ModifierGroupsEditorProps> = ({
+  groups,
+  onChange,
+  ingredients,
+  cupNames,
+  disabled,
+}) => {
+  const [recipeOptionId, setRecipeOptionId] = useState<string | null>(null);
+
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map((group) => (group.id === groupId ? { ...group, ...changes } : group)));
+  };
+
+  const updateOption = (groupId: string, optionId: string, changes: Partial<ModifierOption>) => {
+    const group = groups.find((g) => g.id === groupId);
+    if (!group) return;
+    updateGroup(groupId, {
+      options: group.options.map((option) => (option.id === optionId ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      {
+        id: createModifierId("grp"),
+        name: "",
+        required: false,
+        multiSelect: false,
+        maxSelect: 0,
+        options: [{ id: createModifierId("opt"), name: "", priceDelta: 0 }],
+      },
+    ]);
+  };
+
+  const addOption = (group: ModifierGroup) => {
+    updateGroup(group.id, {
+      options: [...group.options, { id: createModifierId("opt"), name: "", priceDelta: 0 }],
+    });
+  };
+
+  const removeOption = (group: ModifierGroup, optionId: string) => {
+    updateGroup(group.id, { options: group.options.filter((option) => option.id !== optionId) });
+  };
+
+  return (
+    <View>
+      {groups.length === 0 && (
+        <Text style={styles.emptyText}>
+          No modifiers. Add a group for sizes, sugar level or add-ons.
+        </Text>
+      )}
+
+      {groups.map((group) => (
+        <View key={group.id} style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <TextInput
+              style={[styles.input, styles.groupNameInput]}
+              value={group.name}
+              onChangeText={(text) => updateGroup(group.id, { name: text })}
+              placeholder="Group name (e.g. Size)"
+              placeholderTextColor="#9CA3AF"
+              editable={!disabled}
+            />
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange(groups.filter((g) => g.id !== group.id))}
+              disabled={disabled}
+            >
+              <Feather name="trash-2" size={16} color="#DC2626" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.flagsRow}>
+            <TouchableOpacity
+              style={styles.flag}
+              onPress={() => updateGroup(group.id, { required: !group.required })}
+              disabled={disabled}
+            >
+              <Feather name={group.required ? "check-square" : "square"} size={16} color="#874E3B" />
+              <Text style={styles.flagText}>Required</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.flag}
+              onPress={() => updateGroup(group.id, { multiSelect: !group.multiSelect })}
+              disabled={disabled}
+            >
+              <Feather name={group.multiSelect ? "check-square" : "square"} size={16} color="#874E3B" />
+              <Text style={styles.flagText}>Multi-select</Text>
+            </TouchableOpacity>
+            {group.multiSelect && (
+              <View style={styles.flag}>
+                <Text style={styles.flagText}>Max</Text>
+                <TextInput
+                  style={[styles.input, styles.maxInput]}
+                  defaultValue={group.maxSelect ? group.maxSelect.toString() : ""}
+                  onChangeText={(text) => updateGroup(group.id, { maxSelect: parseInt(text, 10) || 0 })}
+                  keyboardType="numeric"
+                  placeholder="∞"
+                  placeholderTextColor="#9CA3AF"
+                  editable={!disabled}
+                />
+              </View>
+            )}
+          </View>
+
+          {group.options.map((option) => (
+            <View key={option.id}>
+              <View style={styles.optionRow}>
+                <TextInput
+                  style={[styles.input, styles.optionNameInput]}
+                  value={option.name}
+                  onChangeText={(text) => updateOption(group.id, option.id, { name: text })}
+                  placeholder="Option (e.g. Large)"
+                  placeholderTextColor="#9CA3AF"
+                  editable={!disabled}
+                />
+                <TextInput
+                  style={[styles.input, styles.deltaInput]}
+                  defaultValue={option.priceDelta ? option.priceDelta.toString() : ""}
+                  onChangeText={(text) =>
+                    updateOption(group.id, option.id, { priceDelta: parseFloat(text) || 0 })
+                  }
+                  keyboardType="numbers-and-punctuation"
+                  placeholder="+₱0"
+                  placeholderTextColor="#9CA3AF"
+                  editable={!disabled}
+                />
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => removeOption(group, option.id)}
+                  disabled={disabled || group.options.length <= 1}
+                >
+                  <Feather name="x" size={16} color={group.options.length <= 1 ? "#D4A574" : "#DC2626"} />
+                </TouchableOpacity>
+                {(ingredients || cupNames) && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => setRecipeOptionId(recipeOptionId === option.id ? null : option.id)}
+                  >
+                    <Feather
+                      name="droplet"
+                      size={16}
+                      color={option.recipe?.length || option.cupName ? "#16A34A" : "#874E3B"}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+              {recipeOptionId === option.id && (
+                <View style={styles.recipeBox}>
+                  {ingredients && (
+                    <>
+                      <Text style={styles.recipeLabel}>Extra ingredients per item</Text>
+                      <RecipeEditor
+                        recipe={option.recipe || []}
+                        ingredients={ingredients}
+                        onChange={(recipe) => updateOption(group.id, option.id, { recipe })}
+                        disabled={disabled}
+                      />
+                    </>
+                  )}
+                  {cupNames && cupNames.length > 0 && (
+                    <>
+                      <Text style={[styles.recipeLabel, styles.cupLabel]}>Take-out cup (overrides the item&apos;s cup)</Text>
+                      <View style={styles.cupChips}>
+                        {cupNames.map((cupName) => (
+                          <TouchableOpacity
+                            key={cupName}
+                            style={[styles.cupChip, option.cupName === cupName && styles.cupChipSelected]}
+                            onPress={() =>
+                              updateOption(group.id, option.id, {
+                                cupName: option.cupName === cupName ? "" : cupName,
+                              })
+                            }
+                            disabled={disabled}
+                          >
+                            <Text
+                              style={[styles.cupChipText, option.cupName === cupName && styles.cupChipTextSelected]}
+                            >
+                              {cupName}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                </View>
+              )}
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.addOptionButton} onPress={() => addOption(group)} disabled={disabled}>
+            <Feather name="plus" size={14} color="#874E3B" />
+            <Text style={styles.addOptionText}>Add Option</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addGroupButton} onPress={addGroup} disabled={disabled}>
+        <Feather name="plus-circle" size={16} color="#FFFEEA" />
+        <Text style={styles.addGroupText}>Add Modifier Group</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 12,
+    color: "#5A3921",
+    marginBottom: 8,
+  },
+  groupCard: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+    backgroundColor: "#FFFEEA",
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    color: "#854442",
+    backgroundColor: "#FFFFFF",
+  },
+  groupNameInput: {
+    flex: 1,
+    fontWeight: "bold",
+  },
+  iconButton: {
+    padding: 6,
+  },
+  flagsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    marginVertical: 8,
+  },
+  flag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  flagText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  maxInput: {
+    width: 44,
+    paddingVertical: 2,
+    textAlign: "center",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  optionNameInput: {
+    flex: 1,
+  },
+  deltaInput: {
+    width: 80,
+    textAlign: "right",
+  },
+  recipeBox: {
+    borderLeftWidth: 2,
+    borderLeftColor: "#D4A574",
+    paddingLeft: 8,
+    marginBottom: 8,
+  },
+  recipeLabel: {
+    fontSize: 11,
+    color: "#874E3B",
+    marginBottom: 4,
+  },
+  cupLabel: {
+    marginTop: 6,
+  },
+  cupChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  cupChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+  },
+  cupChipSelected: {
+    backgroundColor: "#874E3B",
+    borderColor: "#874E3B",
+  },
+  cupChipText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  cupChipTextSelected: {
+    color: "#FFFEEA",
+  },
+  addOptionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+  },
+  addOptionText: {
+    fontSize: 12,
+    color: "#874E3B",
+    fontWeight: "600",
+  },
+  addGroupButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: "#874E3B",
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  addGroupText: {
+    color: "#FFFEEA",
+    fontWeight: "bold",
+    fontSize: 13,
+  },
+});
+
+export default ModifierGroupsEditor;
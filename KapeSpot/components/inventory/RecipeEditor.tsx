@@ -0,0 +1,136 @@
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import { Ingredient, RecipeComponent } from "@/types/ingredient";
+
+interface RecipeEditorProps {
+  recipe: RecipeComponent[];
+  ingredients: Ingredient[];
+  onChange: (recipe: RecipeComponent[]) => void;
+  disabled?: boolean;
+}
+
+const RecipeEditor: React.FunctionComponent<RecipeEditorProps> = ({ recipe, ingredients, onChange, disabled }) => {
+  const unused = ingredients.filter(
+    (ingredient) => !recipe.some((component) => component.ingredientId === ingredient.id)
+  );
+
+  const updateQuantity = (ingredientId: string, text: string) => {
+    onChange(
+      recipe.map((component) =>
+        component.ingredientId === ingredientId ? { ...component, quantity: parseFloat(text) || 0 } : component
+      )
+    );
+  };
+
+  if (ingredients.length === 0) {
+    return <Text style={styles.emptyText}>No ingredients yet. Add them under Inventory → Ingredients.</Text>;
+  }
+
+  return (
+    <View>
+      {recipe.map((component) => {
+        const ingredient = ingredients.find((i) => i.id === component.ingredientId);
+        return (
+          <View key={component.ingredientId} style={styles.row}>
+            <Text style={styles.name} numberOfLines={1}>
+              {ingredient ? ingredient.name : "Removed ingredient"}
+            </Text>
+            <TextInput
+              style={styles.input}
+              defaultValue={component.quantity ? component.quantity.toString() : ""}
+              onChangeText={(text) => updateQuantity(component.ingredientId, text)}
+              keyboardType="decimal-pad"
+              placeholder="0"
+              placeholderTextColor="#9CA3AF"
+              editable={!disabled}
+            />
+            <Text style={styles.unit}>{ingredient?.unit || ""}</Text>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onChange(recipe.filter((c) => c.ingredientId !== component.ingredientId))}
+              disabled={disabled}
+            >
+              <Feather name="x" size={16} color="#DC2626" />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {unused.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+          {unused.map((ingredient) => (
+            <TouchableOpacity
+              key={ingredient.id}
+              style={styles.chip}
+              onPress={() => onChange([...recipe, { ingredientId: ingredient.id, quantity: 0 }])}
+              disabled={disabled}
+            >
+              <Feather name="plus" size={12} color="#874E3B" />
+              <Text style={styles.chipText}>{ingredient.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 12,
+    color: "#5A3921",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  name: {
+    flex: 1,
+    fontSize: 13,
+    color: "#5A3921",
+  },
+  input: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+    color: "#854442",
+    backgroundColor: "#FFFFFF",
+    textAlign: "right",
+  },
+  unit: {
+    width: 24,
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  iconButton: {
+    padding: 4,
+  },
+  chips: {
+    flexGrow: 0,
+    marginTop: 2,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    marginRight: 6,
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+});
+
+export default RecipeEditor;
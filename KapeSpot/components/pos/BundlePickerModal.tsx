@@ -0,0 +1,201 @@
+import { Alert, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React, { useEffect, useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { BundleComponent, BundleSlot } from "@/types/bundle";
+import {
+  BundleSourceItem,
+  buildBundleComponents,
+  findBundleItem,
+  getBundleUpcharge,
+  getDefaultBundlePicks,
+  validateBundleSelection,
+} from "@/lib/bundles";
+import { describeModifierDelta } from "@/lib/modifiers";
+
+interface BundlePickerModalProps {
+  visible: boolean;
+  itemName: string;
+  basePrice: number;
+  slots: BundleSlot[];
+  items: BundleSourceItem[]; // menu items with the stock left after the cart
+  onConfirm: (components: BundleComponent[]) => void;
+  onClose: () => void;
+}
+
+const BundlePickerModal: React.FunctionComponent<BundlePickerModalProps> = ({
+  visible,
+  itemName,
+  basePrice,
+  slots,
+  items,
+  onConfirm,
+  onClose,
+}) => {
+  const [picks, setPicks] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    setPicks(getDefaultBundlePicks(slots));
+  }, [visible, slots]);
+
+  const handleConfirm = () => {
+    const error = validateBundleSelection(slots, picks, items);
+    if (error) {
+      Alert.alert("Bundle", error);
+      return;
+    }
+    onConfirm(buildBundleComponents(slots, picks, items));
+  };
+
+  const linePrice = basePrice + getBundleUpcharge(buildBundleComponents(slots, picks, items));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {itemName}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.slotsList}>
+            {slots.map((slot) => (
+              <View key={slot.id} style={styles.slot}>
+                <Text style={styles.slotName}>
+                  {slot.quantity > 1 ? `${slot.quantity}x ` : ""}
+                  {slot.name}
+                  <Text style={styles.slotHint}>{slot.options.length === 1 ? "  Included" : "  Pick one"}</Text>
+                </Text>
+                <View style={styles.optionsWrap}>
+                  {slot.options.map((option) => {
+                    const active = picks[slot.id] === option.id;
+                    const stock = findBundleItem(items, option.itemId)?.stocks || 0;
+                    const soldOut = stock < slot.quantity;
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.option, active && styles.optionActive, soldOut && styles.optionSoldOut]}
+                        onPress={() => setPicks({ ...picks, [slot.id]: option.id })}
+                        disabled={soldOut || slot.options.length === 1}
+                      >
+                        <Text style={[styles.optionText, active && styles.optionTextActive]}>
+                          {findBundleItem(items, option.itemId)?.name || option.name}
+                        </Text>
+                        <Text style={[styles.optionDelta, active && styles.optionTextActive]}>
+                          {soldOut ? "Sold out" : option.upcharge ? describeModifierDelta(option.upcharge) : ""}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.confirmButton} onPress={handleConfirm}>
+            <Text style={styles.confirmText}>Add to Order · ₱{linePrice.toFixed(2)}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "85%",
+    maxWidth: 460,
+    maxHeight: "80%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+    marginRight: 8,
+  },
+  slotsList: {
+    flexGrow: 0,
+  },
+  slot: {
+    marginBottom: 12,
+  },
+  slotName: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#5A3921",
+    marginBottom: 6,
+  },
+  slotHint: {
+    fontSize: 11,
+    fontWeight: "normal",
+    color: "#B08968",
+  },
+  optionsWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    alignItems: "center",
+    minWidth: 80,
+  },
+  optionActive: {
+    backgroundColor: "#874E3B",
+  },
+  optionSoldOut: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#874E3B",
+    fontWeight: "600",
+  },
+  optionDelta: {
+    fontSize: 11,
+    color: "#874E3B",
+  },
+  optionTextActive: {
+    color: "#FFFEEA",
+  },
+  confirmButton: {
+    backgroundColor: "#16A34A",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  confirmText: {
+    color: "#FFFEEA",
+    fontWeight: "bold",
+    fontSize: 15,
+  },
+});
+
+export default BundlePickerModal;
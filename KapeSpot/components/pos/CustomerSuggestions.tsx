@@ -0,0 +1,125 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import { Customer } from "@/types/customer";
+import { findCustomerByName, searchCustomers } from "@/lib/customers";
+
+interface CustomerSuggestionsProps {
+  customers: Customer[];
+  customerName: string; // what has been typed in the name field
+  customer: Customer | null; // the profile the order is linked to
+  onSelect: (customer: Customer) => void;
+  onCreate: () => void;
+  onClear: () => void;
+  onRepeatLastOrder: () => void;
+  disabled?: boolean;
+}
+
+// Shown under the customer name field: matching profiles to pick, or a button to save the typed name
+// as a new one. Once linked, the profile's phone and notes show with "Repeat Last Order".
+const CustomerSuggestions: React.FunctionComponent<CustomerSuggestionsProps> = ({
+  customers,
+  customerName,
+  customer,
+  onSelect,
+  onCreate,
+  onClear,
+  onRepeatLastOrder,
+  disabled,
+}) => {
+  if (customer) {
+    return (
+      <View style={styles.linkedRow}>
+        <Feather name="user-check" size={14} color="#16A34A" />
+        <Text style={styles.linkedText} numberOfLines={1}>
+          {customer.name}
+          {customer.phone ? ` · ${customer.phone}` : ""}
+          {customer.notes ? ` · ${customer.notes}` : ""}
+        </Text>
+        <TouchableOpacity style={styles.actionChip} onPress={onRepeatLastOrder} disabled={disabled}>
+          <Feather name="rotate-cw" size={12} color="#FFFEEA" />
+          <Text style={styles.actionChipText}>Repeat Last Order</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onClear} disabled={disabled}>
+          <Feather name="x-circle" size={16} color="#DC2626" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const matches = searchCustomers(customers, customerName);
+  const canCreate = !!customerName.trim() && !findCustomerByName(customers, customerName);
+  if (matches.length === 0 && !canCreate) return null;
+
+  return (
+    <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} contentContainerStyle={styles.suggestionRow}>
+      {matches.map((match) => (
+        <TouchableOpacity key={match.id} style={styles.suggestionChip} onPress={() => onSelect(match)} disabled={disabled}>
+          <Feather name="user" size={12} color="#874E3B" />
+          <Text style={styles.suggestionText}>
+            {match.name}
+            {match.phone ? ` · ${match.phone}` : ""}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {canCreate && (
+        <TouchableOpacity style={styles.actionChip} onPress={onCreate} disabled={disabled}>
+          <Feather name="user-plus" size={12} color="#FFFEEA" />
+          <Text style={styles.actionChipText}>Save &quot;{customerName.trim()}&quot;</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  suggestionRow: {
+    flexDirection: "row",
+    gap: 6,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  suggestionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    backgroundColor: "#FFFEEA",
+  },
+  suggestionText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  linkedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  linkedText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#5A3921",
+  },
+  actionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: "#874E3B",
+  },
+  actionChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#FFFEEA",
+  },
+});
+
+export default CustomerSuggestions;
@@ -0,0 +1,339 @@
+import { Alert, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useEffect, useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import ManagerApprovalModal from "@/components/ManagerApprovalModal";
+import { DiscountKind, DiscountValueType, OrderDiscount, PromoCode } from "@/types/discount";
+import { createDiscountId, findPromoCode, STATUTORY_DISCOUNT_RATE, validatePromoCode } from "@/lib/discounts";
+
+interface DiscountModalProps {
+  visible: boolean;
+  kind: DiscountKind | null;
+  gross: number;
+  promoCodes: PromoCode[];
+  lineId?: string;
+  lineLabel?: string;
+  onApply: (discount: OrderDiscount) => void;
+  onClose: () => void;
+}
+
+const TITLES: Record<DiscountKind, string> = {
+  senior: "Senior Citizen Discount",
+  pwd: "PWD Discount",
+  promo: "Promo Code",
+  line: "Item Discount",
+  manual: "Manual Discount",
+  reward: "Stamp Card Reward",
+  points: "Loyalty Points",
+};
+
+const DiscountModal: React.FunctionComponent<DiscountModalProps> = ({
+  visible,
+  kind,
+  gross,
+  promoCodes,
+  lineId,
+  lineLabel,
+  onApply,
+  onClose,
+}) => {
+  const [idNumber, setIdNumber] = useState("");
+  const [holderName, setHolderName] = useState("");
+  const [qualifiedCount, setQualifiedCount] = useState("1");
+  const [dinerCount, setDinerCount] = useState("1");
+  const [promoCode, setPromoCode] = useState("");
+  const [valueType, setValueType] = useState<DiscountValueType>("percent");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [pendingDiscount, setPendingDiscount] = useState<OrderDiscount | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setIdNumber("");
+    setHolderName("");
+    setQualifiedCount("1");
+    setDinerCount("1");
+    setPromoCode("");
+    setValueType("percent");
+    setValue("");
+    setReason("");
+    setPendingDiscount(null);
+  }, [visible, kind]);
+
+  if (!kind) return null;
+
+  const handleSubmit = () => {
+    if (kind === "senior" || kind === "pwd") {
+      if (!idNumber.trim()) {
+        Alert.alert("ID Required", `Please enter the ${kind === "senior" ? "OSCA / Senior Citizen" : "PWD"} ID number.`);
+        return;
+      }
+      const diners = Math.max(1, parseInt(dinerCount, 10) || 1);
+      const qualified = Math.min(diners, Math.max(1, parseInt(qualifiedCount, 10) || 1));
+
+      onApply({
+        id: createDiscountId(kind),
+        kind,
+        label: kind === "senior" ? "Senior Citizen" : "PWD",
+        valueType: "percent",
+        value: STATUTORY_DISCOUNT_RATE * 100,
+        amount: 0,
+        idNumber: idNumber.trim(),
+        holderName: holderName.trim(),
+        qualifiedCount: qualified,
+        dinerCount: diners,
+      });
+      return;
+    }
+
+    if (kind === "promo") {
+      const promo = findPromoCode(promoCodes, promoCode);
+      const error = validatePromoCode(promo, gross);
+      if (error || !promo) {
+        Alert.alert("Invalid Promo", error || "Promo code not found.");
+        return;
+      }
+
+      onApply({
+        id: createDiscountId("promo"),
+        kind: "promo",
+        label: promo.label,
+        valueType: promo.valueType,
+        value: promo.value,
+        amount: 0,
+        promoCode: promo.code,
+      });
+      return;
+    }
+
+    // Item and manual discounts are free-form, so they need a manager's approval
+    const discountValue = parseFloat(value);
+    if (!(discountValue > 0) || (valueType === "percent" && discountValue > 100)) {
+      Alert.alert("Invalid Discount", "Please enter a valid discount amount or percentage.");
+      return;
+    }
+    if (kind === "manual" && !reason.trim()) {
+      Alert.alert("Reason Required", "Please enter a reason for the manual discount.");
+      return;
+    }
+
+    setPendingDiscount({
+      id: createDiscountId(kind),
+      kind,
+      label: kind === "line" ? lineLabel || "Item" : "Manual",
+      valueType,
+      value: discountValue,
+      amount: 0,
+      lineId: kind === "line" ? lineId : undefined,
+      reason: reason.trim(),
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{TITLES[kind]}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          {(kind === "senior" || kind === "pwd") && (
+            <>
+              <Text style={styles.hint}>
+                20% off the VAT-exclusive price of the qualified share. The share is VAT-exempt.
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={idNumber}
+                onChangeText={setIdNumber}
+                placeholder="ID number *"
+                placeholderTextColor="#B08968"
+              />
+              <TextInput
+                style={styles.input}
+                value={holderName}
+                onChangeText={setHolderName}
+                placeholder="Name on ID"
+                placeholderTextColor="#B08968"
+              />
+              <View style={styles.row}>
+                <View style={styles.rowItem}>
+                  <Text style={styles.fieldLabel}>Qualified diners</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={qualifiedCount}
+                    onChangeText={setQualifiedCount}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <View style={styles.rowItem}>
+                  <Text style={styles.fieldLabel}>Total diners</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={dinerCount}
+                    onChangeText={setDinerCount}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+            </>
+          )}
+
+          {kind === "promo" && (
+            <TextInput
+              style={styles.input}
+              value={promoCode}
+              onChangeText={setPromoCode}
+              placeholder="Enter promo code"
+              placeholderTextColor="#B08968"
+              autoCapitalize="characters"
+            />
+          )}
+
+          {(kind === "line" || kind === "manual") && (
+            <>
+              {kind === "line" && lineLabel ? <Text style={styles.hint}>{lineLabel}</Text> : null}
+              <View style={styles.row}>
+                {(["percent", "fixed"] as DiscountValueType[]).map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.toggle, valueType === type && styles.toggleActive]}
+                    onPress={() => setValueType(type)}
+                  >
+                    <Text style={[styles.toggleText, valueType === type && styles.toggleTextActive]}>
+                      {type === "percent" ? "Percent (%)" : "Amount (₱)"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.input}
+                value={value}
+                onChangeText={setValue}
+                placeholder={valueType === "percent" ? "e.g. 10" : "e.g. 25.00"}
+                placeholderTextColor="#B08968"
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={styles.input}
+                value={reason}
+                onChangeText={setReason}
+                placeholder={kind === "manual" ? "Reason *" : "Reason"}
+                placeholderTextColor="#B08968"
+              />
+            </>
+          )}
+
+          <TouchableOpacity style={styles.applyButton} onPress={handleSubmit}>
+            <Text style={styles.applyText}>Apply Discount</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ManagerApprovalModal
+        visible={!!pendingDiscount}
+        title="Manager Approval"
+        message="This discount needs a manager's approval."
+        onCancel={() => setPendingDiscount(null)}
+        onApproved={approvedBy => {
+          if (pendingDiscount) {
+            onApply({ ...pendingDiscount, approvedBy });
+          }
+          setPendingDiscount(null);
+        }}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "85%",
+    maxWidth: 420,
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#5A3921",
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: "#874E3B",
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#854442",
+    backgroundColor: "#FFFFFF",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 8,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  toggle: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    alignItems: "center",
+  },
+  toggleActive: {
+    backgroundColor: "#874E3B",
+  },
+  toggleText: {
+    fontSize: 13,
+    color: "#874E3B",
+  },
+  toggleTextActive: {
+    color: "#FFFEEA",
+  },
+  applyButton: {
+    backgroundColor: "#874E3B",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  applyText: {
+    color: "#FFFEEA",
+    fontWeight: "bold",
+    fontSize: 15,
+  },
+});
+
+export default DiscountModal;
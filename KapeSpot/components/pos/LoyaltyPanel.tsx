@@ -0,0 +1,112 @@
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import { LoyaltyBalance, LoyaltySettings } from "@/types/loyalty";
+
+interface LoyaltyPanelProps {
+  settings: LoyaltySettings;
+  balance: LoyaltyBalance | null; // null while the ledger is loading
+  rewardApplied: boolean;
+  pointsApplied: boolean;
+  onRedeemReward: () => void;
+  onRedeemPoints: () => void;
+  disabled?: boolean;
+}
+
+// The linked customer's stamp card and points, with buttons to spend them on this order
+const LoyaltyPanel: React.FunctionComponent<LoyaltyPanelProps> = ({
+  settings,
+  balance,
+  rewardApplied,
+  pointsApplied,
+  onRedeemReward,
+  onRedeemPoints,
+  disabled,
+}) => {
+  if (!balance) {
+    return (
+      <View style={styles.panel}>
+        <Feather name="award" size={14} color="#874E3B" />
+        <Text style={styles.balanceText}>Loading loyalty...</Text>
+      </View>
+    );
+  }
+
+  const filled = Math.min(balance.stamps, settings.stampsPerReward);
+  const canRedeemReward = !rewardApplied && balance.stamps >= settings.stampsPerReward;
+  const canRedeemPoints = !pointsApplied && settings.pointValue > 0 && balance.points >= settings.minPointsToRedeem;
+
+  return (
+    <View style={styles.panel}>
+      <Feather name="award" size={14} color="#874E3B" />
+      <View style={styles.stampRow}>
+        {Array.from({ length: settings.stampsPerReward }, (_, index) => (
+          <View key={index} style={[styles.stamp, index < filled && styles.stampFilled]} />
+        ))}
+      </View>
+      <Text style={styles.balanceText}>
+        {balance.stamps}/{settings.stampsPerReward}
+        {settings.pesosPerPoint > 0 ? ` · ${balance.points} pts` : ""}
+      </Text>
+      {canRedeemReward && (
+        <TouchableOpacity style={styles.redeemChip} onPress={onRedeemReward} disabled={disabled}>
+          <Feather name="gift" size={12} color="#FFFEEA" />
+          <Text style={styles.redeemChipText}>Free Item</Text>
+        </TouchableOpacity>
+      )}
+      {canRedeemPoints && (
+        <TouchableOpacity style={styles.redeemChip} onPress={onRedeemPoints} disabled={disabled}>
+          <Feather name="star" size={12} color="#FFFEEA" />
+          <Text style={styles.redeemChipText}>Use Points</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  stampRow: {
+    flexDirection: "row",
+    gap: 3,
+  },
+  stamp: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    backgroundColor: "#FFFEEA",
+  },
+  stampFilled: {
+    backgroundColor: "#874E3B",
+  },
+  balanceText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#5A3921",
+  },
+  redeemChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: "#16A34A",
+  },
+  redeemChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#FFFEEA",
+  },
+});
+
+export default LoyaltyPanel;
@@ -0,0 +1,140 @@
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import { TableOrder } from "@/types/table";
+
+interface MergeOrderModalProps {
+  visible: boolean;
+  target: TableOrder | null;
+  orders: TableOrder[]; // open orders that could be folded into the target
+  onSelect: (order: TableOrder) => void;
+  onClose: () => void;
+}
+
+// Orders at the target's table are listed first since that is the usual reason to merge
+const MergeOrderModal: React.FunctionComponent<MergeOrderModalProps> = ({
+  visible,
+  target,
+  orders,
+  onSelect,
+  onClose,
+}) => {
+  const candidates = orders
+    .filter((order) => order.status === "unpaid" && target && order.orderId !== target.orderId)
+    .sort((a, b) => {
+      const aSameTable = !!target?.tableId && a.tableId === target.tableId ? 0 : 1;
+      const bSameTable = !!target?.tableId && b.tableId === target.tableId ? 0 : 1;
+      return aSameTable - bSameTable;
+    });
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Merge into #{target?.orderId}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            The order you pick is closed and its items and payments move to #{target?.orderId}.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {candidates.length === 0 && <Text style={styles.emptyText}>No other open orders</Text>}
+            {candidates.map((order) => (
+              <TouchableOpacity
+                key={order.firebaseId || order.idempotencyKey || order.orderId}
+                style={styles.orderRow}
+                onPress={() => onSelect(order)}
+              >
+                <View style={styles.orderInfo}>
+                  <Text style={styles.orderName}>
+                    #{order.orderId} · {order.customerName}
+                  </Text>
+                  <Text style={styles.orderMeta}>
+                    {order.tableName ? `Table ${order.tableName} · ` : ""}
+                    {new Date(order.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </Text>
+                </View>
+                <Text style={styles.orderTotal}>₱{order.total.toFixed(2)}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "85%",
+    maxWidth: 460,
+    maxHeight: "80%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#B08968",
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#B08968",
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  orderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E8D8C8",
+  },
+  orderInfo: {
+    flex: 1,
+  },
+  orderName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#5A3921",
+  },
+  orderMeta: {
+    fontSize: 12,
+    color: "#B08968",
+  },
+  orderTotal: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+});
+
+export default MergeOrderModal;
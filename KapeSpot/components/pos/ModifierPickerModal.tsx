@@ -0,0 +1,243 @@
+import { Alert, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React, { useEffect, useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { ModifierGroup, ModifierOption, SelectedModifier } from "@/types/modifier";
+import { describeModifierDelta, getModifiersTotal, validateModifierSelection } from "@/lib/modifiers";
+
+interface ModifierPickerModalProps {
+  visible: boolean;
+  itemName: string;
+  basePrice: number;
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+  onClose: () => void;
+}
+
+const ModifierPickerModal: React.FunctionComponent<ModifierPickerModalProps> = ({
+  visible,
+  itemName,
+  basePrice,
+  groups,
+  onConfirm,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<SelectedModifier[]>([]);
+
+  // Required single-choice groups start on their first option so the common order is one tap
+  useEffect(() => {
+    if (!visible) return;
+    setSelected(
+      groups
+        .filter((group) => group.required && !group.multiSelect && group.options.length > 0)
+        .map((group) => ({
+          groupId: group.id,
+          groupName: group.name,
+          optionId: group.options[0].id,
+          optionName: group.options[0].name,
+          priceDelta: group.options[0].priceDelta,
+        }))
+    );
+  }, [visible, groups]);
+
+  const isSelected = (groupId: string, optionId: string) =>
+    selected.some((modifier) => modifier.groupId === groupId && modifier.optionId === optionId);
+
+  const toggleOption = (group: ModifierGroup, option: ModifierOption) => {
+    const pick: SelectedModifier = {
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      optionName: option.name,
+      priceDelta: option.priceDelta,
+    };
+
+    if (isSelected(group.id, option.id)) {
+      // Single-choice required groups can be switched but never emptied
+      if (group.required && !group.multiSelect) return;
+      setSelected(selected.filter((modifier) => !(modifier.groupId === group.id && modifier.optionId === option.id)));
+      return;
+    }
+
+    if (!group.multiSelect) {
+      setSelected([...selected.filter((modifier) => modifier.groupId !== group.id), pick]);
+      return;
+    }
+
+    const groupCount = selected.filter((modifier) => modifier.groupId === group.id).length;
+    if (group.maxSelect && groupCount >= group.maxSelect) {
+      Alert.alert("Limit Reached", `Choose up to ${group.maxSelect} for ${group.name}.`);
+      return;
+    }
+    setSelected([...selected, pick]);
+  };
+
+  const handleConfirm = () => {
+    const error = validateModifierSelection(groups, selected);
+    if (error) {
+      Alert.alert("Options Required", error);
+      return;
+    }
+
+    // Keep the picks in the order the groups and options are defined, not the order they were tapped
+    const ordered: SelectedModifier[] = [];
+    groups.forEach((group) => {
+      group.options.forEach((option) => {
+        const pick = selected.find((modifier) => modifier.groupId === group.id && modifier.optionId === option.id);
+        if (pick) ordered.push(pick);
+      });
+    });
+    onConfirm(ordered);
+  };
+
+  const linePrice = basePrice + getModifiersTotal(selected);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {itemName}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.groupsList}>
+            {groups.map((group) => (
+              <View key={group.id} style={styles.group}>
+                <Text style={styles.groupName}>
+                  {group.name}
+                  <Text style={styles.groupHint}>
+                    {group.required ? "  Required" : "  Optional"}
+                    {group.multiSelect
+                      ? group.maxSelect
+                        ? ` · up to ${group.maxSelect}`
+                        : " · any"
+                      : " · pick one"}
+                  </Text>
+                </Text>
+                <View style={styles.optionsWrap}>
+                  {group.options.map((option) => {
+                    const active = isSelected(group.id, option.id);
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.option, active && styles.optionActive]}
+                        onPress={() => toggleOption(group, option)}
+                      >
+                        <Text style={[styles.optionText, active && styles.optionTextActive]}>{option.name}</Text>
+                        {!!option.priceDelta && (
+                          <Text style={[styles.optionDelta, active && styles.optionTextActive]}>
+                            {describeModifierDelta(option.priceDelta)}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.confirmButton} onPress={handleConfirm}>
+            <Text style={styles.confirmText}>Add to Order · ₱{linePrice.toFixed(2)}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "85%",
+    maxWidth: 460,
+    maxHeight: "80%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+    marginRight: 8,
+  },
+  groupsList: {
+    flexGrow: 0,
+  },
+  group: {
+    marginBottom: 12,
+  },
+  groupName: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#5A3921",
+    marginBottom: 6,
+  },
+  groupHint: {
+    fontSize: 11,
+    fontWeight: "normal",
+    color: "#B08968",
+  },
+  optionsWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    alignItems: "center",
+    minWidth: 80,
+  },
+  optionActive: {
+    backgroundColor: "#874E3B",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#874E3B",
+    fontWeight: "600",
+  },
+  optionDelta: {
+    fontSize: 11,
+    color: "#874E3B",
+  },
+  optionTextActive: {
+    color: "#FFFEEA",
+  },
+  confirmButton: {
+    backgroundColor: "#16A34A",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  confirmText: {
+    color: "#FFFEEA",
+    fontWeight: "bold",
+    fontSize: 15,
+  },
+});
+
+export default ModifierPickerModal;
@@ -0,0 +1,139 @@
+import { Alert, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import { ParkedCart } from "@/types/order";
+
+interface ParkedCartsModalProps {
+  visible: boolean;
+  carts: ParkedCart[];
+  onRecall: (cart: ParkedCart) => void;
+  onDiscard: (cart: ParkedCart) => void;
+  onClose: () => void;
+}
+
+const getCartTotal = (cart: ParkedCart) =>
+  cart.items.reduce((sum, item) => sum + (Number(item.price) || 0) * (Number(item.quantity) || 0), 0);
+
+const ParkedCartsModal: React.FunctionComponent<ParkedCartsModalProps> = ({
+  visible,
+  carts,
+  onRecall,
+  onDiscard,
+  onClose,
+}) => {
+  const confirmDiscard = (cart: ParkedCart) => {
+    Alert.alert("Discard Parked Cart", `Discard the cart for ${cart.customerName || "this customer"}?`, [
+      { text: "Keep", style: "cancel" },
+      { text: "Discard", style: "destructive", onPress: () => onDiscard(cart) },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Parked Carts</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {carts.length === 0 && <Text style={styles.emptyText}>No parked carts</Text>}
+            {carts.map((cart) => (
+              <View key={cart.id} style={styles.cartRow}>
+                <TouchableOpacity style={styles.cartInfo} onPress={() => onRecall(cart)}>
+                  <Text style={styles.cartName}>
+                    {cart.customerName || "No name"}
+                    {cart.orderType ? ` · ${cart.orderType === "dine-in" ? "Dine In" : "Take Out"}` : ""}
+                    {cart.tableName ? ` · Table ${cart.tableName}` : ""}
+                  </Text>
+                  <Text style={styles.cartMeta} numberOfLines={1}>
+                    {cart.items.map((item) => `${item.quantity}x ${item.name}`).join(", ")}
+                  </Text>
+                  <Text style={styles.cartMeta}>
+                    Parked {new Date(cart.parkedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </Text>
+                </TouchableOpacity>
+                <Text style={styles.cartTotal}>₱{getCartTotal(cart).toFixed(2)}</Text>
+                <TouchableOpacity style={styles.discardButton} onPress={() => confirmDiscard(cart)}>
+                  <Feather name="trash-2" size={16} color="#DC2626" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "85%",
+    maxWidth: 460,
+    maxHeight: "80%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#B08968",
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  cartRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E8D8C8",
+  },
+  cartInfo: {
+    flex: 1,
+  },
+  cartName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#5A3921",
+  },
+  cartMeta: {
+    fontSize: 12,
+    color: "#B08968",
+  },
+  cartTotal: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  discardButton: {
+    padding: 6,
+  },
+});
+
+export default ParkedCartsModal;
@@ -0,0 +1,297 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useEffect, useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { Tender, TenderType } from "@/types/payment";
+import {
+  TENDER_OPTIONS,
+  getAmountTendered,
+  getBalanceDue,
+  getChangeDue,
+  getTenderLabel,
+  roundMoney,
+  tenderRequiresReference,
+} from "@/lib/payments";
+
+interface PaymentSectionProps {
+  total: number;
+  tenders: Tender[];
+  onChangeTenders: (tenders: Tender[]) => void;
+  accountCredit?: number | null; // credit the linked customer has left; leave out to hide "Charge"
+  disabled?: boolean;
+}
+
+const QUICK_CASH = [100, 200, 500, 1000];
+
+const PaymentSection: React.FunctionComponent<PaymentSectionProps> = ({
+  total,
+  tenders,
+  onChangeTenders,
+  accountCredit,
+  disabled,
+}) => {
+  const [tenderType, setTenderType] = useState<TenderType>("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+
+  // Unlinking the customer takes the "Charge" chip away, so don't leave it selected
+  useEffect(() => {
+    if (accountCredit === undefined) {
+      setTenderType(current => (current === "account" ? "cash" : current));
+    }
+  }, [accountCredit]);
+
+  const balanceDue = getBalanceDue(total, tenders);
+  const changeDue = getChangeDue(total, tenders);
+  const needsReference = tenderRequiresReference(tenderType);
+
+  const addTender = (value: number) => {
+    const tenderAmount = roundMoney(value);
+    if (!(tenderAmount > 0)) return;
+    if (needsReference && !reference.trim()) return;
+
+    onChangeTenders([
+      ...tenders,
+      {
+        type: tenderType,
+        amount: tenderAmount,
+        reference: needsReference ? reference.trim() : "",
+        receivedAt: new Date().toISOString(),
+      },
+    ]);
+    setAmount("");
+    setReference("");
+  };
+
+  const removeTender = (index: number) => {
+    onChangeTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Payment:</Text>
+
+      {/* Tender type selector */}
+      <View style={styles.typeRow}>
+        {TENDER_OPTIONS.filter(option => option.type !== "account" || accountCredit !== undefined).map(option => (
+          <TouchableOpacity
+            key={option.type}
+            style={[styles.typeChip, tenderType === option.type && styles.typeChipActive]}
+            onPress={() => setTenderType(option.type)}
+            disabled={disabled}
+          >
+            <Feather
+              name={option.icon}
+              size={12}
+              color={tenderType === option.type ? "#FFFEEA" : "#874E3B"}
+            />
+            <Text style={[styles.typeChipText, tenderType === option.type && styles.typeChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Amount and reference entry */}
+      <View style={styles.entryRow}>
+        <TextInput
+          style={[styles.input, styles.amountInput]}
+          value={amount}
+          onChangeText={setAmount}
+          placeholder={balanceDue > 0 ? balanceDue.toFixed(2) : "0.00"}
+          placeholderTextColor="#B08968"
+          keyboardType="decimal-pad"
+          editable={!disabled}
+        />
+        {needsReference && (
+          <TextInput
+            style={[styles.input, styles.referenceInput]}
+            value={reference}
+            onChangeText={setReference}
+            placeholder="Reference no."
+            placeholderTextColor="#B08968"
+            editable={!disabled}
+          />
+        )}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => addTender(amount.trim() ? parseFloat(amount) : balanceDue)}
+          disabled={disabled}
+        >
+          <Feather name="plus" size={16} color="#FFFEEA" />
+        </TouchableOpacity>
+      </View>
+
+      {tenderType === "account" && accountCredit !== undefined && (
+        <Text style={styles.creditHint}>
+          {accountCredit === null ? "Loading account..." : `₱${accountCredit.toFixed(2)} credit available`}
+        </Text>
+      )}
+
+      {/* Quick cash buttons */}
+      {tenderType === "cash" && (
+        <View style={styles.typeRow}>
+          <TouchableOpacity
+            style={styles.quickButton}
+            onPress={() => addTender(balanceDue)}
+            disabled={disabled || balanceDue <= 0}
+          >
+            <Text style={styles.quickButtonText}>Exact</Text>
+          </TouchableOpacity>
+          {QUICK_CASH.filter(value => value >= balanceDue && balanceDue > 0).map(value => (
+            <TouchableOpacity
+              key={value}
+              style={styles.quickButton}
+              onPress={() => addTender(value)}
+              disabled={disabled}
+            >
+              <Text style={styles.quickButtonText}>₱{value}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Tenders added so far */}
+      {tenders.map((tender, index) => (
+        <View key={`${tender.type}-${index}`} style={styles.tenderRow}>
+          <Text style={styles.tenderText}>
+            {getTenderLabel(tender.type)}
+            {tender.reference ? ` (${tender.reference})` : ""}
+          </Text>
+          <Text style={styles.tenderAmount}>₱{tender.amount.toFixed(2)}</Text>
+          <TouchableOpacity onPress={() => removeTender(index)} disabled={disabled}>
+            <Feather name="x-circle" size={16} color="#DC2626" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryText}>Tendered: ₱{getAmountTendered(tenders).toFixed(2)}</Text>
+        {balanceDue > 0 ? (
+          <Text style={[styles.summaryText, styles.balanceText]}>Balance: ₱{balanceDue.toFixed(2)}</Text>
+        ) : (
+          <Text style={[styles.summaryText, styles.changeText]}>Change: ₱{changeDue.toFixed(2)}</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#FFFEEA",
+    borderWidth: 1,
+    borderColor: "#DFCCAF",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#874E3B",
+    marginBottom: 6,
+  },
+  typeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 6,
+  },
+  creditHint: {
+    fontSize: 12,
+    color: "#5A3921",
+    marginBottom: 6,
+  },
+  typeChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+  },
+  typeChipActive: {
+    backgroundColor: "#874E3B",
+  },
+  typeChipText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  typeChipTextActive: {
+    color: "#FFFEEA",
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#D4A574",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: "#854442",
+    backgroundColor: "#FFFFFF",
+  },
+  amountInput: {
+    flex: 1,
+  },
+  referenceInput: {
+    flex: 1.3,
+  },
+  addButton: {
+    backgroundColor: "#874E3B",
+    borderRadius: 6,
+    padding: 8,
+  },
+  quickButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: "#DFCCAF",
+  },
+  quickButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#854442",
+  },
+  tenderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 3,
+    gap: 8,
+  },
+  tenderText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#854442",
+  },
+  tenderAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#854442",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#874E3B",
+  },
+  balanceText: {
+    color: "#DC2626",
+  },
+  changeText: {
+    color: "#16A34A",
+  },
+});
+
+export default PaymentSection;
@@ -0,0 +1,111 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+import React, { useRef, useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { normalizeScannedCode } from "@/lib/scanning";
+
+interface ScanModeBarProps {
+  message: string; // result of the last scan
+  onScan: (code: string) => void;
+  onOpenCamera: () => void;
+  onExit: () => void;
+}
+
+// Shown while the POS is in scan mode. USB/Bluetooth (HID) scanners type the code into a hidden
+// input and press Enter; the input keeps the keyboard closed. Tapping another field takes the focus
+// away, so the bar says so and a tap on it hands the focus back to the scanner.
+const ScanModeBar: React.FunctionComponent<ScanModeBarProps> = ({ message, onScan, onOpenCamera, onExit }) => {
+  const inputRef = useRef<TextInput>(null);
+  const [value, setValue] = useState("");
+  const [listening, setListening] = useState(false);
+
+  const submit = () => {
+    const code = normalizeScannedCode(value);
+    setValue("");
+    if (code) onScan(code);
+  };
+
+  return (
+    <View style={styles.bar}>
+      <TextInput
+        ref={inputRef}
+        style={styles.hiddenInput}
+        value={value}
+        onChangeText={setValue}
+        onSubmitEditing={submit}
+        onFocus={() => setListening(true)}
+        onBlur={() => setListening(false)}
+        submitBehavior="submit"
+        showSoftInputOnFocus={false}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+      />
+      <TouchableOpacity style={styles.status} onPress={() => inputRef.current?.focus()}>
+        <Feather name="maximize" size={14} color={listening ? "#16A34A" : "#874E3B"} />
+        <View style={styles.statusText}>
+          <Text style={styles.title}>{listening ? "Scanner ready" : "Tap to resume scanner"}</Text>
+          {message ? (
+            <Text style={styles.message} numberOfLines={1}>
+              {message}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={onOpenCamera}>
+        <Feather name="camera" size={16} color="#FFFEEA" />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.exitButton} onPress={onExit}>
+        <Feather name="x" size={16} color="#874E3B" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    backgroundColor: "#FFFEEA",
+  },
+  hiddenInput: {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+  status: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  statusText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5A3921",
+  },
+  message: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  iconButton: {
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: "#874E3B",
+  },
+  exitButton: {
+    padding: 6,
+  },
+});
+
+export default ScanModeBar;
@@ -0,0 +1,199 @@
+import { Alert, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { OrderBill } from "@/types/order";
+import { Tender } from "@/types/payment";
+import { settleBills, validateBillTenders } from "@/lib/bills";
+import { validateTenders } from "@/lib/payments";
+import PaymentSection from "@/components/pos/PaymentSection";
+
+interface SettleBillsModalProps {
+  visible: boolean;
+  orderId: string;
+  bills: OrderBill[]; // unpaid bills from the split
+  onSettle: (bills: OrderBill[]) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+// Takes the tenders of each bill of a placed order in turn; charging to an account is left out since the
+// order's checkout tenders are replaced. Mounted only while open, so every settle starts with no tenders.
+const SettleBillsModal: React.FunctionComponent<SettleBillsModalProps> = ({
+  visible,
+  orderId,
+  bills,
+  onSettle,
+  onClose,
+  disabled,
+}) => {
+  const [activeBillId, setActiveBillId] = useState<string | null>(bills[0]?.id || null);
+  const [billTenders, setBillTenders] = useState<Record<string, Tender[]>>({});
+
+  const handleSettle = () => {
+    const error = validateBillTenders(bills, billTenders);
+    if (error) {
+      Alert.alert("Payment Required", error);
+      return;
+    }
+    onSettle(settleBills(bills, billTenders));
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Settle Bills · #{orderId}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>Each bill takes its own payment. They replace the payment taken at checkout.</Text>
+
+          <View style={styles.billTabs}>
+            {bills.map((bill) => {
+              const active = bill.id === activeBillId;
+              const settled = !validateTenders(bill.amount, billTenders[bill.id] || []);
+              return (
+                <TouchableOpacity
+                  key={bill.id}
+                  style={[styles.billTab, active && styles.billTabActive]}
+                  onPress={() => setActiveBillId(bill.id)}
+                >
+                  <Feather
+                    name={settled ? "check-circle" : "circle"}
+                    size={12}
+                    color={active ? "#FFFEEA" : settled ? "#16A34A" : "#874E3B"}
+                  />
+                  <Text style={[styles.billTabText, active && styles.billTabTextActive]}>
+                    Bill {bill.index} · ₱{bill.amount.toFixed(2)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <ScrollView style={styles.paymentArea}>
+            {bills
+              .filter((bill) => bill.id === activeBillId)
+              .map((bill) => (
+                <PaymentSection
+                  key={bill.id}
+                  total={bill.amount}
+                  tenders={billTenders[bill.id] || []}
+                  onChangeTenders={(tenders) => setBillTenders({ ...billTenders, [bill.id]: tenders })}
+                  disabled={disabled}
+                />
+              ))}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={handleSettle} disabled={disabled}>
+              <Text style={styles.applyText}>Settle {bills.length} Bills</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "90%",
+    maxWidth: 520,
+    maxHeight: "85%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#B08968",
+    marginBottom: 10,
+  },
+  billTabs: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 10,
+  },
+  billTab: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+  },
+  billTabActive: {
+    backgroundColor: "#874E3B",
+    borderColor: "#874E3B",
+  },
+  billTabText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  billTabTextActive: {
+    color: "#FFFEEA",
+  },
+  paymentArea: {
+    maxHeight: 380,
+    marginBottom: 10,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    alignItems: "center",
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#874E3B",
+  },
+  applyButton: {
+    flex: 2,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#874E3B",
+    alignItems: "center",
+  },
+  applyText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFEEA",
+  },
+});
+
+export default SettleBillsModal;
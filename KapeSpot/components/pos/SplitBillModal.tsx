@@ -0,0 +1,352 @@
+import { Alert, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { BillSplitMode, OrderBill } from "@/types/order";
+import {
+  BILL_SPLIT_MODES,
+  BillAllocation,
+  MAX_BILLS,
+  SplitLine,
+  buildSplitBills,
+  createAllocation,
+  getUnassignedQuantity,
+  resizeAllocation,
+  validateSplit,
+} from "@/lib/bills";
+
+interface SplitBillModalProps {
+  visible: boolean;
+  lines: SplitLine[];
+  total: number;
+  onApply: (mode: BillSplitMode, bills: OrderBill[]) => void;
+  onClose: () => void;
+}
+
+// Items and units start unassigned; the cashier picks a bill and taps lines (or adds units) onto it.
+// The POS mounts this only while it is open, so every split starts fresh.
+const SplitBillModal: React.FunctionComponent<SplitBillModalProps> = ({
+  visible,
+  lines,
+  total,
+  onApply,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<BillSplitMode>("items");
+  const [count, setCount] = useState(2);
+  const [activeBill, setActiveBill] = useState(0);
+  const [allocation, setAllocation] = useState<BillAllocation>(() => createAllocation(lines, 2));
+
+  const changeCount = (next: number) => {
+    const clamped = Math.max(2, Math.min(MAX_BILLS, next));
+    setCount(clamped);
+    setActiveBill(Math.min(activeBill, clamped - 1));
+    setAllocation(resizeAllocation(allocation, lines, clamped));
+  };
+
+  const changeMode = (next: BillSplitMode) => {
+    setMode(next);
+    setAllocation(createAllocation(lines, count));
+  };
+
+  // By item: the whole line goes on the active bill, or comes off it when it is already there
+  const toggleLine = (line: SplitLine) => {
+    const current = allocation[line.lineId] || [];
+    const onActive = current[activeBill] === line.quantity;
+    setAllocation({
+      ...allocation,
+      [line.lineId]: current.map((_, index) => (index === activeBill && !onActive ? line.quantity : 0)),
+    });
+  };
+
+  const changeUnits = (line: SplitLine, delta: number) => {
+    const current = allocation[line.lineId] || [];
+    const next = (current[activeBill] || 0) + delta;
+    if (next < 0 || (delta > 0 && getUnassignedQuantity(line, allocation) <= 0)) return;
+    setAllocation({
+      ...allocation,
+      [line.lineId]: current.map((quantity, index) => (index === activeBill ? next : quantity)),
+    });
+  };
+
+  const preview = buildSplitBills(mode, lines, allocation, count, total);
+
+  const handleApply = () => {
+    const error = validateSplit(mode, lines, allocation, count);
+    if (error) {
+      Alert.alert("Split Bill", error);
+      return;
+    }
+    onApply(mode, preview);
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Split Bill</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.chipRow}>
+            {BILL_SPLIT_MODES.map((option) => (
+              <TouchableOpacity
+                key={option.mode}
+                style={[styles.chip, mode === option.mode && styles.chipActive]}
+                onPress={() => changeMode(option.mode)}
+              >
+                <Text style={[styles.chipText, mode === option.mode && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.countRow}>
+            <Text style={styles.label}>Bills</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeCount(count - 1)}>
+              <Feather name="minus" size={14} color="#874E3B" />
+            </TouchableOpacity>
+            <Text style={styles.countText}>{count}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeCount(count + 1)}>
+              <Feather name="plus" size={14} color="#874E3B" />
+            </TouchableOpacity>
+          </View>
+
+          {/* Bill tabs with their running amounts */}
+          <View style={styles.chipRow}>
+            {preview.map((bill, index) => (
+              <TouchableOpacity
+                key={bill.index}
+                style={[styles.billChip, mode !== "even" && activeBill === index && styles.chipActive]}
+                onPress={() => setActiveBill(index)}
+                disabled={mode === "even"}
+              >
+                <Text style={[styles.chipText, mode !== "even" && activeBill === index && styles.chipTextActive]}>
+                  Bill {bill.index} · ₱{bill.amount.toFixed(2)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {mode === "even" ? (
+            <Text style={styles.hint}>
+              ₱{total.toFixed(2)} shared evenly by {count}. Any centavo left over goes on the last bill.
+            </Text>
+          ) : (
+            <ScrollView style={styles.lineList}>
+              {lines.map((line) => {
+                const onActive = allocation[line.lineId]?.[activeBill] || 0;
+                const unassigned = getUnassignedQuantity(line, allocation);
+                const elsewhere = (allocation[line.lineId] || [])
+                  .map((quantity, index) => (quantity > 0 && index !== activeBill ? `B${index + 1}×${quantity}` : ""))
+                  .filter(Boolean)
+                  .join(" ");
+                return (
+                  <TouchableOpacity
+                    key={line.lineId}
+                    style={[styles.lineRow, onActive > 0 && styles.lineRowActive]}
+                    onPress={() => toggleLine(line)}
+                    disabled={mode !== "items"}
+                  >
+                    <View style={styles.lineInfo}>
+                      <Text style={styles.lineName} numberOfLines={1}>
+                        {line.quantity}× {line.name}
+                      </Text>
+                      <Text style={styles.lineMeta}>
+                        ₱{line.amount.toFixed(2)}
+                        {unassigned > 0 ? ` · ${unassigned} not on a bill` : ""}
+                        {elsewhere ? ` · ${elsewhere}` : ""}
+                      </Text>
+                    </View>
+                    {mode === "items" ? (
+                      <Feather
+                        name={onActive > 0 ? "check-square" : "square"}
+                        size={18}
+                        color="#874E3B"
+                      />
+                    ) : (
+                      <View style={styles.countRow}>
+                        <TouchableOpacity style={styles.stepButton} onPress={() => changeUnits(line, -1)}>
+                          <Feather name="minus" size={12} color="#874E3B" />
+                        </TouchableOpacity>
+                        <Text style={styles.countText}>{onActive}</Text>
+                        <TouchableOpacity style={styles.stepButton} onPress={() => changeUnits(line, 1)}>
+                          <Feather name="plus" size={12} color="#874E3B" />
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+              <Text style={styles.applyText}>Split into {count} Bills</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "90%",
+    maxWidth: 520,
+    maxHeight: "85%",
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#874E3B",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+  },
+  billChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#D4A574",
+  },
+  chipActive: {
+    backgroundColor: "#874E3B",
+    borderColor: "#874E3B",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#874E3B",
+  },
+  chipTextActive: {
+    color: "#FFFEEA",
+  },
+  countRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 10,
+  },
+  stepButton: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  countText: {
+    minWidth: 20,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#5A3921",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#5A3921",
+    marginBottom: 10,
+  },
+  lineList: {
+    maxHeight: 320,
+    marginBottom: 10,
+  },
+  lineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#DFCCAF",
+    marginBottom: 6,
+  },
+  lineRowActive: {
+    borderColor: "#874E3B",
+    backgroundColor: "#F5E6D3",
+  },
+  lineInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  lineName: {
+    fontSize: 14,
+    color: "#5A3921",
+  },
+  lineMeta: {
+    fontSize: 11,
+    color: "#B08968",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+    alignItems: "center",
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#874E3B",
+  },
+  applyButton: {
+    flex: 2,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#874E3B",
+    alignItems: "center",
+  },
+  applyText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFEEA",
+  },
+});
+
+export default SplitBillModal;
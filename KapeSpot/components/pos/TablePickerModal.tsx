@@ -0,0 +1,100 @@
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React from "react";
+import { Feather } from "@expo/vector-icons";
+import FloorMap from "@/components/tables/FloorMap";
+import { DiningTable, TableStatus } from "@/types/table";
+
+interface TablePickerModalProps {
+  visible: boolean;
+  tables: DiningTable[];
+  statuses: Record<string, TableStatus>;
+  selectedTableId?: string | null;
+  onSelect: (table: DiningTable | null) => void; // null seats the order without a table
+  onClose: () => void;
+}
+
+// Dine-in orders pick their table from the floor map. Busy tables can still be picked for a
+// second party or a guest ordering separately.
+const TablePickerModal: React.FunctionComponent<TablePickerModalProps> = ({
+  visible,
+  tables,
+  statuses,
+  selectedTableId,
+  onSelect,
+  onClose,
+}) => {
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Choose a Table</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={22} color="#854442" />
+            </TouchableOpacity>
+          </View>
+
+          <FloorMap
+            tables={tables}
+            statuses={statuses}
+            selectedTableId={selectedTableId}
+            onTablePress={onSelect}
+            showLegend={true}
+          />
+
+          <TouchableOpacity style={styles.noTableButton} onPress={() => onSelect(null)}>
+            <Feather name="slash" size={16} color="#874E3B" />
+            <Text style={styles.noTableText}>No Table</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    width: "90%",
+    maxWidth: 640,
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: "#854442",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#854442",
+  },
+  noTableButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#874E3B",
+  },
+  noTableText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#874E3B",
+  },
+});
+
+export default TablePickerModal;
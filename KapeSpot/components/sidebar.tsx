@@ -34,6 +34,11 @@ import { getAuth, updatePassword, reauthenticateWithCredential, EmailAuthProvide
 import { app } from '@/lib/firebase-config';
 import { NetworkScanner } from '@/lib/network-scanner';
 import { LinearGradient } from 'expo-linear-gradient';
+import { Ingredient } from '@/types/ingredient';
+import { getLowStockIngredients, loadIngredients } from '@/lib/ingredients';
+import { loadPrintQueue } from '@/lib/print-queue';
+import { loadPrinterHealth, loadSavedPrinters } from '@/lib/printer';
+import { PrinterHealth, SavedPrinter } from '@/types/print';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -80,6 +85,12 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
     // New state for dropdown
     const [isInventoryOpen, setIsInventoryOpen] = useState(false);
     const [selectedInventorySubMenu, setSelectedInventorySubMenu] = useState<'food-items' | 'categories' | 'cups'>('food-items');
+    const [lowStockIngredients, setLowStockIngredients] = useState<Ingredient[]>([]);
+    const [conflictCount, setConflictCount] = useState(0);
+    const [deadLetterCount, setDeadLetterCount] = useState(0);
+    const [waitingPrintJobs, setWaitingPrintJobs] = useState(0);
+    const [savedPrinters, setSavedPrinters] = useState<SavedPrinter[]>([]);
+    const [printerHealth, setPrinterHealth] = useState<Record<string, PrinterHealth>>({});
 
     // Animation values
     const slideAnim = useRef(new Animated.Value(-300)).current;
@@ -121,6 +132,28 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
         }
     }, [isOpen, sidebarWidth]);
 
+    // Refresh the low-stock and sync-conflict alerts every time the sidebar opens
+    useEffect(() => {
+        if (!isOpen) return;
+
+        loadIngredients()
+            .then(ingredients => setLowStockIngredients(getLowStockIngredients(ingredients)))
+            .catch(error => console.error('Error loading low-stock ingredients:', error));
+        OfflineSyncService.getInstance().getConflicts()
+            .then(conflicts => setConflictCount(conflicts.length))
+            .catch(error => console.error('Error loading sync conflicts:', error));
+        OfflineSyncService.getInstance().getDeadLetterItems()
+            .then(items => setDeadLetterCount(items.length))
+            .catch(error => console.error('Error loading failed sync items:', error));
+        loadPrintQueue()
+            .then(jobs => setWaitingPrintJobs(jobs.filter(job => job.status === 'failed' || job.status === 'pending').length))
+            .catch(error => console.error('Error loading print queue:', error));
+        loadSavedPrinters()
+            .then(setSavedPrinters)
+            .catch(error => console.error('Error loading saved printers:', error));
+        loadPrinterHealth().then(setPrinterHealth);
+    }, [isOpen]);
+
     // Load current user data
     useEffect(() => {
         const loadCurrentUser = async () => {
@@ -417,12 +450,17 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
     // Helper function to check if a nav item is active
     const isNavActive = (key: string) => {
         if (key === 'inventory') {
-            return pathname === '/items';
+            return pathname === '/items' || pathname === '/ingredients';
         }
         if (key === 'pos') return pathname === '/pos';
         if (key === 'order-status') return pathname === '/orderStatus';
+        if (key === 'tables') return pathname === '/tables';
+        if (key === 'customers') return pathname === '/customers';
         if (key === 'log') return pathname === '/log';
         if (key === 'sales') return pathname === '/sales-expense';
+        if (key === 'pricing') return pathname === '/pricing';
+        if (key === 'print-queue') return pathname === '/print-queue';
+        if (key === 'printers') return pathname === '/printers';
         if (key === 'settings') return pathname === '/settings';
         return false;
     };
@@ -431,8 +469,13 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
     const mainNavItems = [
         { key: 'pos', route: '/pos', icon: 'shopping-cart', label: 'POS' },
         { key: 'order-status', route: '/orderStatus', icon: 'clipboard', label: 'Order Status' },
+        { key: 'tables', route: '/tables', icon: 'grid', label: 'Tables' },
+        { key: 'customers', route: '/customers', icon: 'users', label: 'Customers' },
         { key: 'log', route: '/log', icon: 'archive', label: 'Log' }, // ADDED LOG BUTTON HERE
         { key: 'sales', route: '/sales-expense', icon: 'bar-chart-2', label: 'Expenses' },
+        { key: 'pricing', route: '/pricing', icon: 'percent', label: 'Pricing' },
+        { key: 'print-queue', route: '/print-queue', icon: 'printer', label: 'Print Queue' },
+        { key: 'printers', route: '/printers', icon: 'sliders', label: 'Printers' },
         { key: 'settings', route: '/settings', icon: 'settings', label: 'Settings' },
     ];
 
@@ -441,8 +484,15 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
         { key: 'food-items', icon: 'grid', label: 'Food Items' },
         { key: 'categories', icon: 'folder', label: 'Categories' },
         { key: 'cups', icon: 'coffee', label: 'Cups' },
+        { key: 'ingredients', icon: 'droplet', label: 'Ingredients', route: '/ingredients' },
     ];
 
+    // Ingredients is its own screen; the other sub-menus switch tabs inside the items screen
+    const isInventorySubItemActive = (subItem: { key: string; route?: string }) => {
+        if (subItem.route) return pathname === subItem.route;
+        return selectedInventorySubMenu === subItem.key && pathname !== '/ingredients';
+    };
+
     return (
         <>
             {/* Overlay */}
@@ -568,19 +618,21 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
                                             key={subItem.key}
                                             style={[
                                                 styles.dropdownItem,
-                                                selectedInventorySubMenu === subItem.key && styles.dropdownItemActive
+                                                isInventorySubItemActive(subItem) && styles.dropdownItemActive
                                             ]}
-                                            onPress={() => handleInventorySubMenuSelect(subItem.key as 'food-items' | 'categories' | 'cups')}
+                                            onPress={() => subItem.route
+                                                ? handleNavigate(subItem.route)
+                                                : handleInventorySubMenuSelect(subItem.key as 'food-items' | 'categories' | 'cups')}
                                         >
                                             <Feather
                                                 name={subItem.icon as keyof typeof Feather.glyphMap}
                                                 size={16}
-                                                color={selectedInventorySubMenu === subItem.key ? '#dfccaf' : '#854442'}
+                                                color={isInventorySubItemActive(subItem) ? '#dfccaf' : '#854442'}
                                                 style={styles.dropdownItemIcon}
                                             />
                                             <ThemedText style={[
                                                 styles.dropdownItemText,
-                                                selectedInventorySubMenu === subItem.key && styles.dropdownItemTextActive
+                                                isInventorySubItemActive(subItem) && styles.dropdownItemTextActive
                                             ]}>
                                                 {subItem.label}
                                             </ThemedText>
@@ -590,6 +642,97 @@ export default function Sidebar({ isOpen, onClose, onInventorySubMenuChange }: S
                             )}
                         </View>
 
+                        {/* Low-stock ingredient alert */}
+                        {lowStockIngredients.length > 0 && (
+                            <TouchableOpacity style={styles.lowStockAlert} onPress={() => handleNavigate('/ingredients')}>
+                                <Feather name="alert-triangle" size={16} color="#DC2626" />
+                                <View style={styles.lowStockTextContainer}>
+                                    <ThemedText style={styles.lowStockTitle}>
+                                        Low stock ({lowStockIngredients.length})
+                                    </ThemedText>
+                                    <ThemedText style={styles.lowStockNames} numberOfLines={2}>
+                                        {lowStockIngredients.slice(0, 3).map(ingredient => ingredient.name).join(', ')}
+                                        {lowStockIngredients.length > 3 ? ` +${lowStockIngredients.length - 3} more` : ''}
+                                    </ThemedText>
+                                </View>
+                            </TouchableOpacity>
+                        )}
+
+                        {/* Offline edits that clashed with another device */}
+                        {conflictCount > 0 && (
+                            <TouchableOpacity style={styles.lowStockAlert} onPress={() => handleNavigate('/conflicts')}>
+                                <Feather name="git-merge" size={16} color="#DC2626" />
+                                <View style={styles.lowStockTextContainer}>
+                                    <ThemedText style={styles.lowStockTitle}>
+                                        Sync conflicts ({conflictCount})
+                                    </ThemedText>
+                                    <ThemedText style={styles.lowStockNames} numberOfLines={2}>
+                                        Choose which version wins
+                                    </ThemedText>
+                                </View>
+                            </TouchableOpacity>
+                        )}
+
+                        {/* Offline changes the sync engine gave up on */}
+                        {deadLetterCount > 0 && (
+                            <TouchableOpacity style={styles.lowStockAlert} onPress={() => handleNavigate('/conflicts')}>
+                                <Feather name="alert-octagon" size={16} color="#DC2626" />
+                                <View style={styles.lowStockTextContainer}>
+                                    <ThemedText style={styles.lowStockTitle}>
+                                        Failed to sync ({deadLetterCount})
+                                    </ThemedText>
+                                    <ThemedText style={styles.lowStockNames} numberOfLines={2}>
+                                        Retry or discard
+                                    </ThemedText>
+                                </View>
+                            </TouchableOpacity>
+                        )}
+
+                        {/* Receipts that could not reach the printer */}
+                        {waitingPrintJobs > 0 && (
+                            <TouchableOpacity style={styles.lowStockAlert} onPress={() => handleNavigate('/print-queue')}>
+                                <Feather name="printer" size={16} color="#DC2626" />
+                                <View style={styles.lowStockTextContainer}>
+                                    <ThemedText style={styles.lowStockTitle}>
+                                        Print queue ({waitingPrintJobs})
+                                    </ThemedText>
+                                    <ThemedText style={styles.lowStockNames} numberOfLines={2}>
+                                        Waiting for the printer
+                                    </ThemedText>
+                                </View>
+                            </TouchableOpacity>
+                        )}
+
+                        {/* Whether each saved printer took its last job */}
+                        {savedPrinters.length > 0 && (
+                            <TouchableOpacity style={styles.printerHealthSection} onPress={() => handleNavigate('/printers')}>
+                                {savedPrinters.map(printer => {
+                                    const health = printerHealth[printer.id];
+                                    return (
+                                        <View key={printer.id} style={styles.printerHealthRow}>
+                                            <View
+                                                style={[
+                                                    styles.printerHealthDot,
+                                                    health ? (health.ok ? styles.printerHealthOk : styles.printerHealthFailed) : styles.printerHealthUnknown
+                                                ]}
+                                            />
+                                            <ThemedText style={styles.printerHealthName} numberOfLines={1}>
+                                                {printer.name}
+                                            </ThemedText>
+                                            <ThemedText
+                                                style={[
+                                                    styles.printerHealthStatus,
+                                                    health && (health.ok ? styles.printerHealthStatusOk : styles.printerHealthStatusFailed)
+                                                ]}
+                                            >
+                                                {health ? (health.ok ? 'OK' : 'Failing') : 'Unused'}
+                                            </ThemedText>
+                                        </View>
+                                    );
+                                })}
+                            </TouchableOpacity>
+                        )}
+
                         <View style={styles.menuSeparator} />
 
                         {/* Status Indicators - Sync & Online Status - Below Inventory */}
@@ -926,6 +1069,76 @@ const styles = StyleSheet.create({
     dropdownItemTextActive: {
         color: '#dfccaf',
     },
+    lowStockAlert: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 4,
+        marginBottom: 4,
+        padding: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#DC2626',
+        backgroundColor: 'rgba(220, 38, 38, 0.08)',
+    },
+    lowStockTextContainer: {
+        flex: 1,
+    },
+    lowStockTitle: {
+        fontSize: 13,
+        fontWeight: 'bold',
+        color: '#DC2626',
+    },
+    lowStockNames: {
+        fontSize: 12,
+        color: '#5A3921',
+    },
+    printerHealthSection: {
+        marginTop: 4,
+        marginBottom: 4,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#854442',
+        backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    printerHealthRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 3,
+    },
+    printerHealthDot: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+    },
+    printerHealthOk: {
+        backgroundColor: '#16A34A',
+    },
+    printerHealthFailed: {
+        backgroundColor: '#DC2626',
+    },
+    printerHealthUnknown: {
+        backgroundColor: '#D4A574',
+    },
+    printerHealthName: {
+        flex: 1,
+        fontSize: 13,
+        color: '#5A3921',
+    },
+    printerHealthStatus: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#5A3921',
+    },
+    printerHealthStatusOk: {
+        color: '#16A34A',
+    },
+    printerHealthStatusFailed: {
+        color: '#DC2626',
+    },
     statusSection: {
         marginVertical: 4,
     },
@@ -0,0 +1,171 @@
+import { GestureResponderEvent, LayoutChangeEvent, Pressable, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import React, { useState } from "react";
+import { Feather } from "@expo/vector-icons";
+import { DiningTable, TableStatus } from "@/types/table";
+import { TABLE_STATUS_COLORS, TABLE_STATUS_LABELS } from "@/lib/tables";
+
+// Share of the map one table takes; positions are clamped so a table never hangs off the edge
+export const TABLE_WIDTH_PERCENT = 15;
+export const TABLE_HEIGHT_PERCENT = 22;
+
+interface FloorMapProps {
+  tables: DiningTable[];
+  statuses?: Record<string, TableStatus>; // colours the tables; plain when left out (editing)
+  selectedTableId?: string | null;
+  onTablePress?: (table: DiningTable) => void;
+  onMapPress?: (x: number, y: number) => void; // empty spot tapped, as percentages of the map
+  showLegend?: boolean;
+}
+
+const FloorMap: React.FunctionComponent<FloorMapProps> = ({
+  tables,
+  statuses,
+  selectedTableId,
+  onTablePress,
+  onMapPress,
+  showLegend,
+}) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handleMapPress = (event: GestureResponderEvent) => {
+    if (!onMapPress || size.width === 0 || size.height === 0) return;
+    const x = (event.nativeEvent.locationX / size.width) * 100 - TABLE_WIDTH_PERCENT / 2;
+    const y = (event.nativeEvent.locationY / size.height) * 100 - TABLE_HEIGHT_PERCENT / 2;
+    onMapPress(
+      Math.round(Math.min(100 - TABLE_WIDTH_PERCENT, Math.max(0, x))),
+      Math.round(Math.min(100 - TABLE_HEIGHT_PERCENT, Math.max(0, y)))
+    );
+  };
+
+  return (
+    <View>
+      <Pressable style={styles.map} onLayout={handleLayout} onPress={handleMapPress} disabled={!onMapPress}>
+        {tables.length === 0 && (
+          <Text style={styles.emptyText}>No tables yet. An admin can add them on the Tables screen.</Text>
+        )}
+        {tables.map((table) => {
+          const status = statuses?.[table.id];
+          const selected = table.id === selectedTableId;
+          return (
+            <TouchableOpacity
+              key={table.id}
+              style={[
+                styles.table,
+                table.shape === "round" && styles.tableRound,
+                {
+                  left: `${table.x}%`,
+                  top: `${table.y}%`,
+                  backgroundColor: status ? TABLE_STATUS_COLORS[status] : "#E8D8C8",
+                },
+                selected && styles.tableSelected,
+              ]}
+              onPress={() => onTablePress?.(table)}
+              disabled={!onTablePress}
+            >
+              <Text style={[styles.tableName, status && styles.tableNameOnColor]} numberOfLines={1}>
+                {table.name}
+              </Text>
+              <View style={styles.seats}>
+                <Feather name="users" size={10} color={status ? "#FFFEEA" : "#5A3921"} />
+                <Text style={[styles.seatsText, status && styles.tableNameOnColor]}>{table.seats}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </Pressable>
+
+      {showLegend && (
+        <View style={styles.legend}>
+          {(Object.keys(TABLE_STATUS_LABELS) as TableStatus[]).map((status) => (
+            <View key={status} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: TABLE_STATUS_COLORS[status] }]} />
+              <Text style={styles.legendText}>{TABLE_STATUS_LABELS[status]}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    width: "100%",
+    aspectRatio: 1.6,
+    backgroundColor: "#FFFEEA",
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#D4A574",
+    borderStyle: "dashed",
+    overflow: "hidden",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#B08968",
+    textAlign: "center",
+    marginTop: "20%",
+    paddingHorizontal: 20,
+  },
+  table: {
+    position: "absolute",
+    width: `${TABLE_WIDTH_PERCENT}%`,
+    height: `${TABLE_HEIGHT_PERCENT}%`,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#854442",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 2,
+  },
+  tableRound: {
+    borderRadius: 999,
+  },
+  tableSelected: {
+    borderWidth: 3,
+    borderColor: "#5A3921",
+  },
+  tableName: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#5A3921",
+  },
+  tableNameOnColor: {
+    color: "#FFFEEA",
+  },
+  seats: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+  },
+  seatsText: {
+    fontSize: 11,
+    color: "#5A3921",
+  },
+  legend: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 16,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: "#5A3921",
+  },
+});
+
+export default FloorMap;
@@ -0,0 +1,155 @@
+// lib/__tests__/escpos.test.ts
+import { compileDocument, encodeText, layoutRow, wrapText } from '../escpos';
+import { PrintBlock, PrintOptions } from '@/types/print';
+
+const ESC = 0x1B;
+const GS = 0x1D;
+const LF = 0x0A;
+
+const LETTER: PrintOptions = { columns: 32, peso: 'letter' };
+const GLYPH: PrintOptions = { columns: 32, peso: 'glyph' };
+
+// ESC @ (reset), ESC t 0 (code page 437)
+const INIT = [ESC, 0x40, ESC, 0x74, 0x00];
+
+// Bytes after the reset header
+const compileBlocks = (blocks: PrintBlock[], options: PrintOptions = LETTER): number[] => {
+    const bytes = compileDocument({ blocks }, options);
+    expect(bytes.slice(0, INIT.length)).toEqual(INIT);
+    return bytes.slice(INIT.length);
+};
+
+describe('compileDocument styles', () => {
+    it('sends align, bold, underline and size when they change and resets them after', () => {
+        const bytes = compileBlocks([
+            { type: 'text', text: 'A', align: 'center', bold: true, underline: true, size: 'double' },
+            { type: 'text', text: 'B' }
+        ]);
+
+        expect(bytes).toEqual([
+            ESC, 0x61, 1, ESC, 0x45, 1, ESC, 0x2D, 1, GS, 0x21, 0x11, 0x41, LF,
+            ESC, 0x61, 0, ESC, 0x45, 0, ESC, 0x2D, 0, GS, 0x21, 0x00, 0x42, LF
+        ]);
+    });
+
+    it('maps each size to its GS ! multiplier', () => {
+        const bytes = compileBlocks([
+            { type: 'text', text: 'T', size: 'tall' },
+            { type: 'text', text: 'W', size: 'wide' },
+            { type: 'text', text: 'N' }
+        ]);
+
+        expect(bytes).toEqual([
+            GS, 0x21, 0x01, 0x54, LF,
+            GS, 0x21, 0x10, 0x57, LF,
+            GS, 0x21, 0x00, 0x4E, LF
+        ]);
+    });
+
+    it('does not resend a style that is already active', () => {
+        const bytes = compileBlocks([
+            { type: 'text', text: 'A', align: 'right', bold: true },
+            { type: 'text', text: 'B', align: 'right', bold: true }
+        ]);
+
+        expect(bytes).toEqual([ESC, 0x61, 2, ESC, 0x45, 1, 0x41, LF, 0x42, LF]);
+    });
+});
+
+describe('encodeText', () => {
+    it('maps accented characters to code page 437', () => {
+        expect(encodeText('Café ñ 5°', LETTER)).toEqual([0x43, 0x61, 0x66, 0x82, 0x20, 0xA4, 0x20, 0x35, 0xF8]);
+    });
+
+    it('substitutes typographic punctuation and prints unknown characters as ?', () => {
+        expect(encodeText('“Hi”—€', LETTER)).toEqual([0x22, 0x48, 0x69, 0x22, 0x2D, 0x3F]);
+    });
+
+    it('prints the peso sign as the letter P', () => {
+        expect(encodeText('₱5~', LETTER)).toEqual([0x50, 0x35, 0x7E]);
+    });
+
+    it('prints the peso sign as the downloaded glyph on ~, and ~ itself as -', () => {
+        expect(encodeText('₱5~', GLYPH)).toEqual([0x7E, 0x35, 0x2D]);
+    });
+});
+
+describe('peso glyph', () => {
+    it('defines the glyph with ESC & over ~ and turns it on with ESC %', () => {
+        const bytes = compileBlocks([], GLYPH);
+
+        expect(bytes).toHaveLength(6 + 12 * 3 + 3);
+        expect(bytes.slice(0, 6)).toEqual([ESC, 0x26, 3, 0x7E, 0x7E, 12]);
+        // Column 0 only has the two bars (rows 6 and 8); column 1 is the stem from row 2 to row 18
+        expect(bytes.slice(6, 12)).toEqual([0x02, 0x80, 0x00, 0x3F, 0xFF, 0xE0]);
+        expect(bytes.slice(-3)).toEqual([ESC, 0x25, 1]);
+    });
+
+    it('is not downloaded when printing the letter P', () => {
+        expect(compileBlocks([], LETTER)).toEqual([]);
+    });
+});
+
+describe('codes', () => {
+    it('frames a QR code: model, module size, error correction, store, print', () => {
+        const bytes = compileBlocks([{ type: 'qr', data: 'AB', size: 4 }]);
+
+        expect(bytes).toEqual([
+            ESC, 0x61, 1,
+            GS, 0x28, 0x6B, 4, 0, 0x31, 0x41, 0x32, 0x00,
+            GS, 0x28, 0x6B, 3, 0, 0x31, 0x43, 4,
+            GS, 0x28, 0x6B, 3, 0, 0x31, 0x45, 0x31,
+            GS, 0x28, 0x6B, 5, 0, 0x31, 0x50, 0x30, 0x41, 0x42,
+            GS, 0x28, 0x6B, 3, 0, 0x31, 0x51, 0x30
+        ]);
+    });
+
+    it('clamps the QR module size to 1-16', () => {
+        const bytes = compileBlocks([{ type: 'qr', data: 'A', size: 40 }]);
+        expect(bytes.slice(3 + 9, 3 + 17)).toEqual([GS, 0x28, 0x6B, 3, 0, 0x31, 0x43, 16]);
+    });
+
+    it('frames a Code 128 barcode in code set B with height, width and readable digits', () => {
+        const bytes = compileBlocks([{ type: 'barcode', data: 'A1' }]);
+
+        expect(bytes).toEqual([
+            ESC, 0x61, 1,
+            GS, 0x68, 60,
+            GS, 0x77, 2,
+            GS, 0x48, 2,
+            GS, 0x6B, 73, 4, 0x7B, 0x42, 0x41, 0x31
+        ]);
+    });
+
+    it('upper-cases Code 39 data and uses the given height', () => {
+        const bytes = compileBlocks([{ type: 'barcode', data: 'ab', symbology: 'code39', height: 80 }]);
+        expect(bytes.slice(3)).toEqual([GS, 0x68, 80, GS, 0x77, 2, GS, 0x48, 2, GS, 0x6B, 69, 2, 0x41, 0x42]);
+    });
+});
+
+describe('paper handling', () => {
+    it('cuts fully or partially', () => {
+        expect(compileBlocks([{ type: 'cut' }])).toEqual([GS, 0x56, 0x41, 0x10]);
+        expect(compileBlocks([{ type: 'cut', partial: true }])).toEqual([GS, 0x56, 0x42, 0x10]);
+    });
+
+    it('kicks the cash drawer on pin 2', () => {
+        expect(compileBlocks([{ type: 'drawer' }])).toEqual([ESC, 0x70, 0, 25, 250]);
+    });
+
+    it('feeds lines and draws full-width rules', () => {
+        expect(compileBlocks([{ type: 'feed', lines: 3 }])).toEqual([ESC, 0x64, 3]);
+        expect(compileBlocks([{ type: 'separator', char: '=' }], { columns: 4, peso: 'letter' }))
+            .toEqual([0x3D, 0x3D, 0x3D, 0x3D, LF]);
+    });
+});
+
+describe('layout', () => {
+    it('wraps words and keeps a hanging indent', () => {
+        expect(wrapText('   + Extra shot espresso', 12)).toEqual(['   + Extra', '   shot', '   espresso']);
+    });
+
+    it('right-aligns the amount and wraps the label in the space left', () => {
+        expect(layoutRow('Iced Caramel Macchiato', '₱165.00', 20)).toEqual(['Iced Caramel ₱165.00', 'Macchiato']);
+    });
+});
@@ -0,0 +1,327 @@
+// lib/__tests__/sync-engine.test.ts
+import {
+    getRetryDelay,
+    MAX_SYNC_RETRIES,
+    mergeOfflineChanges,
+    SyncBackend,
+    SyncEngine,
+    SyncOperation,
+    SyncQueueStore
+} from '../sync-engine';
+
+const MINUTE = 60 * 1000;
+
+const createMemoryStore = (queue: SyncOperation[] = [], deadLetters: SyncOperation[] = []) => {
+    const state = { queue, deadLetters };
+    const store: SyncQueueStore = {
+        loadQueue: async () => state.queue.map(operation => ({ ...operation })),
+        saveQueue: async operations => { state.queue = operations; },
+        loadDeadLetters: async () => state.deadLetters.map(operation => ({ ...operation })),
+        saveDeadLetters: async operations => { state.deadLetters = operations; }
+    };
+    return { state, store };
+};
+
+// Firestore stand-in: collections of documents in memory, with a switch to make writes fail
+const createFakeBackend = () => {
+    const collections: Record<string, Record<string, Record<string, any>>> = {};
+    const writes: string[] = [];
+    const failing = new Set<string>();
+    let nextId = 1;
+
+    const write = (collectionName: string, id: string, data: Record<string, any>) => {
+        if (failing.has(id)) throw new Error(`Write to ${id} rejected`);
+        collections[collectionName] = collections[collectionName] || {};
+        collections[collectionName][id] = { ...collections[collectionName][id], ...data };
+        writes.push(`${collectionName}/${id}:${JSON.stringify(data)}`);
+    };
+
+    const backend: SyncBackend = {
+        create: async (collectionName, data) => {
+            const id = `doc-${nextId++}`;
+            write(collectionName, id, data);
+            return id;
+        },
+        update: async (collectionName, id, data) => write(collectionName, id, data),
+        set: async (collectionName, id, data) => write(collectionName, id, data),
+        remove: async (collectionName, id) => {
+            delete collections[collectionName]?.[id];
+        },
+        updateWithLatest: async (collectionName, id, buildUpdate) => {
+            const update = buildUpdate(collections[collectionName]?.[id] || null);
+            if (update) write(collectionName, id, update);
+        },
+        commitOrder: async order => ({ firebaseId: `doc-${nextId++}`, alreadyCommitted: false, sequence: order.sequence ?? null }),
+        commitRefund: async () => ({ alreadyCommitted: false }),
+        commitOrderAddition: async () => ({ alreadyCommitted: false }),
+        commitOrderMerge: async () => ({ alreadyCommitted: false })
+    };
+
+    return { backend, collections, writes, failing };
+};
+
+const operation = (id: string, type: SyncOperation['type'], entityId: string, timestamp: number, data = {}): SyncOperation => ({
+    id,
+    type,
+    data: { entityId, ...data },
+    timestamp,
+    retryCount: 0
+});
+
+const createEngine = (store: SyncQueueStore, backend: SyncBackend, clock: { now: number }) => {
+    const engine = new SyncEngine(store, backend, () => clock.now);
+    const itemHandler = {
+        collection: 'items',
+        getEntityId: (op: SyncOperation) => op.data.entityId,
+        apply: async (op: SyncOperation, target: SyncBackend) => {
+            await target.update('items', op.data.entityId, { name: op.data.name });
+        }
+    };
+    engine.register('CREATE_ITEM', itemHandler);
+    engine.register('UPDATE_ITEM', itemHandler);
+    return engine;
+};
+
+describe('getRetryDelay', () => {
+    it('doubles from 30 seconds and caps at 30 minutes', () => {
+        expect(getRetryDelay(1)).toBe(30 * 1000);
+        expect(getRetryDelay(2)).toBe(MINUTE);
+        expect(getRetryDelay(3)).toBe(2 * MINUTE);
+        expect(getRetryDelay(6)).toBe(16 * MINUTE);
+        expect(getRetryDelay(7)).toBe(30 * MINUTE);
+        expect(getRetryDelay(MAX_SYNC_RETRIES)).toBe(30 * MINUTE);
+    });
+});
+
+describe('mergeOfflineChanges', () => {
+    const base = { revision: 3, updated_at: '2026-10-19T08:00:00.000Z', status: 'unpaid', total: 150 };
+
+    it('writes every change when the document has not moved since the edit', () => {
+        const remote = { ...base, items: [{ id: 'latte' }] };
+        const result = mergeOfflineChanges(base, { status: 'paid', total: 120 }, remote);
+
+        expect(result).toEqual({ changes: { status: 'paid', total: 120 }, conflicts: [] });
+    });
+
+    it('keeps fields another device changed when this tablet left them alone', () => {
+        const remote = { ...base, revision: 4, updated_at: '2026-10-19T08:05:00.000Z', total: 210 };
+        const result = mergeOfflineChanges(base, { status: 'paid' }, remote);
+
+        expect(result).toEqual({ changes: { status: 'paid' }, conflicts: [] });
+    });
+
+    it('records a conflict when both sides changed a field to different values', () => {
+        const remote = { ...base, revision: 4, updated_at: '2026-10-19T08:05:00.000Z', status: 'cancelled', total: 150 };
+        const result = mergeOfflineChanges(base, { status: 'paid', total: 120 }, remote);
+
+        expect(result.changes).toEqual({ total: 120 });
+        expect(result.conflicts).toEqual([{ field: 'status', base: 'unpaid', local: 'paid', remote: 'cancelled' }]);
+    });
+
+    it('skips fields both sides changed to the same value', () => {
+        const remote = { ...base, revision: 4, updated_at: '2026-10-19T08:05:00.000Z', status: 'paid' };
+        const result = mergeOfflineChanges(base, { status: 'paid' }, remote);
+
+        expect(result).toEqual({ changes: {}, conflicts: [] });
+    });
+
+    it('writes fields that have no base value over the remote value', () => {
+        const remote = { ...base, revision: 4, updated_at: '2026-10-19T08:05:00.000Z', tableId: 'tbl-2' };
+        const result = mergeOfflineChanges(base, { tableId: 'tbl-5' }, remote);
+
+        expect(result).toEqual({ changes: { tableId: 'tbl-5' }, conflicts: [] });
+    });
+
+    it('compares structured values by content', () => {
+        const lines = [{ id: 'latte', quantity: 1 }];
+        const remote = { ...base, revision: 4, updated_at: '2026-10-19T08:05:00.000Z', items: [{ id: 'latte', quantity: 2 }] };
+        const result = mergeOfflineChanges({ ...base, items: lines }, { items: [{ id: 'latte', quantity: 3 }] }, remote);
+
+        expect(result.changes).toEqual({});
+        expect(result.conflicts.map(conflict => conflict.field)).toEqual(['items']);
+    });
+});
+
+describe('SyncEngine', () => {
+    it('applies operations on one entity in queue order, even when queued out of order', async () => {
+        const { state, store } = createMemoryStore([
+            operation('op-2', 'UPDATE_ITEM', 'item-1', 2, { name: 'Latte' }),
+            operation('op-1', 'CREATE_ITEM', 'item-1', 1, { name: 'Cafe Latte' })
+        ]);
+        const { backend, writes, collections } = createFakeBackend();
+        const engine = createEngine(store, backend, { now: 1000 });
+
+        const result = await engine.run();
+
+        expect(result.synced).toBe(2);
+        expect(writes).toEqual(['items/item-1:{"name":"Cafe Latte"}', 'items/item-1:{"name":"Latte"}']);
+        expect(collections.items['item-1'].name).toBe('Latte');
+        expect(state.queue).toEqual([]);
+    });
+
+    it('holds later operations on a failing entity without holding other entities', async () => {
+        const { state, store } = createMemoryStore([
+            operation('op-1', 'CREATE_ITEM', 'item-1', 1, { name: 'Mocha' }),
+            operation('op-2', 'UPDATE_ITEM', 'item-1', 2, { name: 'Iced Mocha' }),
+            operation('op-3', 'CREATE_ITEM', 'item-2', 3, { name: 'Americano' })
+        ]);
+        const { backend, writes, failing } = createFakeBackend();
+        const clock = { now: 1000 };
+        const engine = createEngine(store, backend, clock);
+
+        failing.add('item-1');
+        const first = await engine.run();
+
+        expect(first).toEqual({ synced: 1, failed: 1, deadLettered: 0, skipped: 1, remaining: 2 });
+        expect(writes).toEqual(['items/item-2:{"name":"Americano"}']);
+        expect(state.queue.map(op => op.id)).toEqual(['op-1', 'op-2']);
+        expect(state.queue[0]).toMatchObject({ retryCount: 1, nextAttemptAt: 1000 + 30 * 1000, lastError: 'Write to item-1 rejected' });
+
+        // Still backing off: nothing on the entity is tried
+        failing.delete('item-1');
+        clock.now += 10 * 1000;
+        const waiting = await engine.run();
+        expect(waiting).toMatchObject({ synced: 0, skipped: 2 });
+
+        clock.now += 30 * 1000;
+        const second = await engine.run();
+        expect(second).toMatchObject({ synced: 2, remaining: 0 });
+        expect(writes.slice(1)).toEqual(['items/item-1:{"name":"Mocha"}', 'items/item-1:{"name":"Iced Mocha"}']);
+    });
+
+    it('holds an operation behind failures on its related entities too', async () => {
+        const { state, store } = createMemoryStore([
+            operation('op-1', 'UPDATE_ITEM', 'item-2', 1, { name: 'Extra shot' }),
+            operation('op-2', 'MERGE_ORDERS', 'item-1', 2, { sourceId: 'item-2' }),
+            operation('op-3', 'UPDATE_ITEM', 'item-1', 3, { name: 'Latte' })
+        ]);
+        const { backend, writes, failing } = createFakeBackend();
+        const clock = { now: 1000 };
+        const engine = createEngine(store, backend, clock);
+        engine.register('MERGE_ORDERS', {
+            collection: 'items',
+            getEntityId: op => op.data.entityId,
+            getRelatedEntityIds: op => [op.data.sourceId],
+            apply: async (op, target) => {
+                await target.update('items', op.data.entityId, { mergedFrom: op.data.sourceId });
+            }
+        });
+
+        failing.add('item-2');
+        const first = await engine.run();
+
+        expect(first).toMatchObject({ synced: 0, failed: 1, skipped: 2 });
+        expect(writes).toEqual([]);
+
+        failing.delete('item-2');
+        clock.now += 30 * 1000;
+        const second = await engine.run();
+        expect(second).toMatchObject({ synced: 3, remaining: 0 });
+        expect(state.queue).toEqual([]);
+        expect(writes).toEqual([
+            'items/item-2:{"name":"Extra shot"}',
+            'items/item-1:{"mergedFrom":"item-2"}',
+            'items/item-1:{"name":"Latte"}'
+        ]);
+    });
+
+    it('backs off 30s x 2^n per failed attempt, capped at 30 minutes', async () => {
+        const { state, store } = createMemoryStore([operation('op-1', 'CREATE_ITEM', 'item-1', 1)]);
+        const { backend, failing } = createFakeBackend();
+        const clock = { now: 0 };
+        const engine = createEngine(store, backend, clock);
+        failing.add('item-1');
+
+        const delays: number[] = [];
+        for (let attempt = 0; attempt < 8; attempt++) {
+            await engine.run();
+            delays.push(state.queue[0].nextAttemptAt! - clock.now);
+            clock.now = state.queue[0].nextAttemptAt!;
+        }
+
+        expect(delays).toEqual([0.5, 1, 2, 4, 8, 16, 30, 30].map(minutes => minutes * MINUTE));
+    });
+
+    it('dead-letters an operation after MAX_SYNC_RETRIES and keeps its entity blocked until it is discarded', async () => {
+        const failingCreate = { ...operation('op-1', 'CREATE_ITEM', 'item-1', 1, { name: 'Mocha' }), retryCount: MAX_SYNC_RETRIES };
+        const { state, store } = createMemoryStore([
+            failingCreate,
+            operation('op-2', 'UPDATE_ITEM', 'item-1', 2, { name: 'Iced Mocha' })
+        ]);
+        const { backend, writes, failing } = createFakeBackend();
+        const clock = { now: 1000 };
+        const engine = createEngine(store, backend, clock);
+
+        failing.add('item-1');
+        const first = await engine.run();
+
+        expect(first).toMatchObject({ deadLettered: 1, skipped: 1, remaining: 1 });
+        expect(state.deadLetters).toHaveLength(1);
+        expect(state.deadLetters[0]).toMatchObject({ id: 'op-1', retryCount: MAX_SYNC_RETRIES + 1, failedAt: 1000 });
+
+        // The write that never landed still holds back the update in later runs
+        failing.delete('item-1');
+        const blocked = await engine.run();
+        expect(blocked).toMatchObject({ synced: 0, skipped: 1, remaining: 1 });
+        expect(writes).toEqual([]);
+
+        expect(await engine.discardDeadLetter('op-1')).toBe(true);
+        const released = await engine.run();
+        expect(released).toMatchObject({ synced: 1, remaining: 0 });
+        expect(state.deadLetters).toEqual([]);
+        expect(writes).toEqual(['items/item-1:{"name":"Iced Mocha"}']);
+    });
+
+    it('replays a requeued dead letter before the operations held behind it', async () => {
+        const { state, store } = createMemoryStore(
+            [operation('op-2', 'UPDATE_ITEM', 'item-1', 2, { name: 'Iced Mocha' })],
+            [{ ...operation('op-1', 'CREATE_ITEM', 'item-1', 1, { name: 'Mocha' }), retryCount: 11, failedAt: 500, nextAttemptAt: 900 }]
+        );
+        const { backend, writes } = createFakeBackend();
+        const engine = createEngine(store, backend, { now: 1000 });
+
+        expect(await engine.requeueDeadLetter('op-1')).toBe(true);
+        const requeued = state.queue.find(op => op.id === 'op-1');
+        expect(requeued?.retryCount).toBe(0);
+        expect(requeued?.nextAttemptAt).toBeUndefined();
+        expect(requeued?.failedAt).toBeUndefined();
+
+        const result = await engine.run();
+        expect(result).toMatchObject({ synced: 2, remaining: 0 });
+        expect(writes).toEqual(['items/item-1:{"name":"Mocha"}', 'items/item-1:{"name":"Iced Mocha"}']);
+    });
+
+    it('dead-letters operations without a handler', async () => {
+        const { state, store } = createMemoryStore([
+            operation('op-1', 'DELETE_CUP', 'cup-1', 1),
+            operation('op-2', 'CREATE_ITEM', 'item-1', 2, { name: 'Mocha' })
+        ]);
+        const { backend } = createFakeBackend();
+        const engine = createEngine(store, backend, { now: 1000 });
+
+        const result = await engine.run();
+
+        expect(result).toMatchObject({ synced: 1, deadLettered: 1, remaining: 0 });
+        expect(state.deadLetters[0]).toMatchObject({ id: 'op-1', lastError: 'No sync handler for DELETE_CUP', failedAt: 1000 });
+    });
+
+    it('keeps operations queued while a run was in progress', async () => {
+        const { state, store } = createMemoryStore([operation('op-1', 'CREATE_ITEM', 'item-1', 1, { name: 'Mocha' })]);
+        const { backend } = createFakeBackend();
+        const engine = new SyncEngine(store, backend, () => 1000);
+        engine.register('CREATE_ITEM', {
+            collection: 'items',
+            getEntityId: op => op.data.entityId,
+            apply: async (op, target) => {
+                // A sale rings up on the tablet while this write is in flight
+                state.queue = [...state.queue, operation('op-2', 'CREATE_ITEM', 'item-2', 2, { name: 'Latte' })];
+                await target.update('items', op.data.entityId, { name: op.data.name });
+            }
+        });
+
+        const result = await engine.run();
+
+        expect(result).toMatchObject({ synced: 1, remaining: 1 });
+        expect(state.queue.map(op => op.id)).toEqual(['op-2']);
+    });
+});
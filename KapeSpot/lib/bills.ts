@@ -0,0 +1,319 @@
+// lib/bills.ts
+import { doc, getFirestore, updateDoc } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { MergeableOrder, commitOrderMerge, getOrderLineId, mergeOrders } from './orders';
+import { buildPaymentSummary, formatTenderLines, roundMoney, validateTenders } from './payments';
+import { textBlocks } from './escpos';
+import { BillSplitMode, OrderBill, OrderLine, OrderMerge } from '@/types/order';
+import { PaymentSummary, Tender } from '@/types/payment';
+import { PrintBlock, PrintDocument } from '@/types/print';
+
+export const BILL_SPLIT_MODES: { mode: BillSplitMode; label: string }[] = [
+    { mode: 'items', label: 'By Item' },
+    { mode: 'quantity', label: 'By Quantity' },
+    { mode: 'even', label: 'Evenly' }
+];
+
+export const MAX_BILLS = 10;
+
+// A cart line as the split sees it; amount is after line discounts
+export interface SplitLine {
+    lineId: string;
+    name: string;
+    quantity: number;
+    amount: number;
+}
+
+// Units of each line given to each bill: allocation[lineId][billIndex]
+export type BillAllocation = Record<string, number[]>;
+
+export const createBillId = (): string => {
+    return `bill_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const createAllocation = (lines: SplitLine[], count: number): BillAllocation => {
+    const allocation: BillAllocation = {};
+    lines.forEach(line => {
+        allocation[line.lineId] = Array(count).fill(0);
+    });
+    return allocation;
+};
+
+// Units on bills that no longer exist go back to being unassigned
+export const resizeAllocation = (allocation: BillAllocation, lines: SplitLine[], count: number): BillAllocation => {
+    const resized: BillAllocation = {};
+    lines.forEach(line => {
+        const current = allocation[line.lineId] || [];
+        resized[line.lineId] = Array.from({ length: count }, (_, index) => current[index] || 0);
+    });
+    return resized;
+};
+
+export const getUnassignedQuantity = (line: SplitLine, allocation: BillAllocation): number => {
+    return line.quantity - (allocation[line.lineId] || []).reduce((sum, quantity) => sum + quantity, 0);
+};
+
+// Shares of the total in proportion to each bill's weight, rounded to centavos with the remainder on
+// the last bill so the bills always add up to the order total
+export const allocateBillAmounts = (total: number, weights: number[]): number[] => {
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+    const amounts = weights.map(weight => weightTotal > 0 ? roundMoney(total * weight / weightTotal) : 0);
+    const allocated = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0);
+    amounts[amounts.length - 1] = roundMoney(total - allocated);
+    return amounts;
+};
+
+// Returns an error message when the split can't be used, null when it can
+export const validateSplit = (
+    mode: BillSplitMode,
+    lines: SplitLine[],
+    allocation: BillAllocation,
+    count: number
+): string | null => {
+    if (count < 2) return 'Split into at least two bills.';
+    if (mode === 'even') return null;
+
+    const unassigned = lines.filter(line => getUnassignedQuantity(line, allocation) !== 0);
+    if (unassigned.length > 0) {
+        return `Not every item is on a bill yet: ${unassigned.map(line => line.name).join(', ')}`;
+    }
+    for (let index = 0; index < count; index++) {
+        if (!lines.some(line => (allocation[line.lineId]?.[index] || 0) > 0)) {
+            return `Bill ${index + 1} has no items.`;
+        }
+    }
+    return null;
+};
+
+// The bills, unpaid. Discounts, VAT and service charge are shared out with the amount of what each bill takes.
+export const buildSplitBills = (
+    mode: BillSplitMode,
+    lines: SplitLine[],
+    allocation: BillAllocation,
+    count: number,
+    total: number
+): OrderBill[] => {
+    const billIndexes = Array.from({ length: count }, (_, index) => index);
+    const weights = mode === 'even'
+        ? billIndexes.map(() => 1)
+        : billIndexes.map(index => lines.reduce((sum, line) => {
+            const quantity = allocation[line.lineId]?.[index] || 0;
+            return sum + (line.quantity > 0 ? line.amount * quantity / line.quantity : 0);
+        }, 0));
+    const amounts = allocateBillAmounts(total, weights);
+
+    return billIndexes.map(index => ({
+        id: createBillId(),
+        index: index + 1,
+        lines: mode === 'even'
+            ? []
+            : lines
+                .map(line => ({ lineId: line.lineId, quantity: allocation[line.lineId]?.[index] || 0 }))
+                .filter(line => line.quantity > 0),
+        amount: amounts[index],
+        payments: [],
+        amountTendered: 0,
+        changeDue: 0
+    }));
+};
+
+export const validateBillTenders = (bills: OrderBill[], tendersByBill: Record<string, Tender[]>): string | null => {
+    for (const bill of bills) {
+        const error = validateTenders(bill.amount, tendersByBill[bill.id] || []);
+        if (error) return `Bill ${bill.index}: ${error}`;
+    }
+    return null;
+};
+
+export const settleBills = (bills: OrderBill[], tendersByBill: Record<string, Tender[]>): OrderBill[] => {
+    return bills.map(bill => ({ ...bill, ...buildPaymentSummary(bill.amount, tendersByBill[bill.id] || []) }));
+};
+
+// The order's own payment fields are all of its bills together
+export const combineBillPayments = (bills: OrderBill[]): PaymentSummary => ({
+    payments: bills.flatMap(bill => bill.payments),
+    amountTendered: roundMoney(bills.reduce((sum, bill) => sum + bill.amountTendered, 0)),
+    changeDue: roundMoney(bills.reduce((sum, bill) => sum + bill.changeDue, 0))
+});
+
+// Slip for one bill on the thermal printer, laid out to the paper width
+export const formatBillReceipt = (
+    order: { orderId: string; customerName: string; tableName?: string; items: OrderLine[]; total: number; timestamp: string },
+    bill: OrderBill,
+    billCount: number
+): PrintDocument => {
+    const date = new Date(order.timestamp);
+    const details = [
+        `DATE: ${date.toLocaleDateString()}`,
+        `TIME: ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+        `ORDER: ${order.orderId}`,
+        `CUSTOMER: ${order.customerName}`,
+        ...(order.tableName ? [`TABLE: ${order.tableName}`] : [])
+    ];
+
+    const blocks: PrintBlock[] = [
+        { type: 'text', text: 'KAPE SPOT', align: 'center', bold: true, size: 'double' },
+        { type: 'text', text: `BILL ${bill.index} OF ${billCount}`, align: 'center', bold: true },
+        { type: 'separator' },
+        { type: 'text', text: details.join('\n') },
+        { type: 'separator' }
+    ];
+
+    if (bill.lines.length === 0) {
+        blocks.push({ type: 'row', left: 'EVEN SHARE OF', right: `₱${order.total.toFixed(2)}` });
+    }
+    bill.lines.forEach(line => {
+        const item = order.items.find((orderItem, index) => getOrderLineId(orderItem, index) === line.lineId);
+        blocks.push({ type: 'text', text: `${line.quantity}x ${item ? String(item.name) : line.lineId}` });
+    });
+
+    blocks.push(
+        { type: 'separator' },
+        { type: 'row', left: 'BILL TOTAL:', right: `₱${bill.amount.toFixed(2)}`, bold: true }
+    );
+    const tenderLines = formatTenderLines(bill.payments, bill.changeDue);
+    if (tenderLines) {
+        blocks.push(...textBlocks(tenderLines.trimEnd()));
+    }
+    blocks.push({ type: 'separator' }, { type: 'feed', lines: 3 }, { type: 'cut' });
+
+    return { blocks };
+};
+
+// ===== Merging orders =====
+
+export const buildOrderMerge = (
+    target: { orderId: string; firebaseId?: string; idempotencyKey?: string },
+    source: { orderId: string; firebaseId?: string; idempotencyKey?: string }
+): OrderMerge => {
+    const targetDocId = target.firebaseId || target.idempotencyKey || target.orderId;
+    const sourceDocId = source.firebaseId || source.idempotencyKey || source.orderId;
+    return {
+        id: `mrg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        targetOrderId: target.orderId,
+        targetDocId,
+        targetKey: target.idempotencyKey || targetDocId,
+        sourceOrderId: source.orderId,
+        sourceDocId,
+        sourceKey: source.idempotencyKey || sourceDocId,
+        timestamp: new Date().toISOString()
+    };
+};
+
+const isMergeOrder = (
+    receipt: { orderId: string; firebaseId?: string; idempotencyKey?: string },
+    docId: string,
+    key: string
+): boolean => {
+    return receipt.idempotencyKey === key || receipt.firebaseId === docId ||
+        (!receipt.idempotencyKey && !receipt.firebaseId && receipt.orderId === docId);
+};
+
+// Local copies follow right away; the source snapshot is used when this tablet has no receipt for it
+const applyMergeLocally = async (merge: OrderMerge, source: MergeableOrder): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    const receipts = await syncService.getPendingReceipts();
+    const localSource = receipts.find(receipt => isMergeOrder(receipt, merge.sourceDocId, merge.sourceKey)) || source;
+
+    await syncService.setItem('pendingReceipts', JSON.stringify(receipts.map(receipt => {
+        if (isMergeOrder(receipt, merge.sourceDocId, merge.sourceKey)) {
+            return { ...receipt, status: 'cancelled', mergedInto: merge.targetOrderId };
+        }
+        if (isMergeOrder(receipt, merge.targetDocId, merge.targetKey)) {
+            const { bills, ...merged } = mergeOrders(receipt, localSource, merge.id);
+            return {
+                ...receipt,
+                ...merged,
+                ...(bills.length ? { splitMode: receipt.splitMode || 'items', bills } : {}),
+                mergedFrom: [...(receipt.mergedFrom || []), merge.sourceOrderId]
+            };
+        }
+        return receipt;
+    })));
+};
+
+// Records the merge locally and queues it, then commits to Firestore right away when online.
+// If either order still has queued writes the engine sends the merge after them instead.
+export const processOrderMerge = async (merge: OrderMerge, source: MergeableOrder): Promise<OrderMerge> => {
+    const syncService = OfflineSyncService.getInstance();
+    const pendingForOrders = (await syncService.getPendingItems()).some(item =>
+        [merge.targetKey, merge.sourceKey].some(key =>
+            item.data?.idempotencyKey === key || item.data?.orderKey === key || item.data?.targetKey === key
+        ) ||
+        (!!item.data?.firebaseId && [merge.targetDocId, merge.sourceDocId].includes(item.data.firebaseId))
+    );
+
+    await applyMergeLocally(merge, source);
+    await syncService.addPendingOrderMerge(merge);
+    console.log('✅ Order merge recorded locally:', merge.sourceOrderId, '→', merge.targetOrderId);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode !== 'online') return merge;
+
+        if (pendingForOrders) {
+            await syncService.trySync();
+            return merge;
+        }
+
+        await commitOrderMerge(getFirestore(app), merge);
+        await syncService.markOrderMergeSynced(merge.id);
+        console.log('✅ Order merge committed to Firebase:', merge.id);
+        return { ...merge, synced: true };
+    } catch (error) {
+        console.error('❌ Order merge commit error - it stays queued for sync:', error);
+        return merge;
+    }
+};
+
+// ===== Splitting a placed order =====
+
+// A placed order is split after the fact: the settled bills' tenders take the place of the ones taken at
+// checkout. The payments and bills as this tablet saw them are the base, so an addition paid on another
+// device in the meantime comes back as a conflict instead of being overwritten.
+export const processOrderSplit = async (
+    order: { orderId: string; firebaseId?: string; idempotencyKey?: string; payments?: Tender[]; bills?: OrderBill[] },
+    splitMode: BillSplitMode,
+    paidBills: OrderBill[]
+): Promise<PaymentSummary> => {
+    const syncService = OfflineSyncService.getInstance();
+    const paymentSummary = combineBillPayments(paidBills);
+    const changes = {
+        split_mode: splitMode,
+        bills: paidBills,
+        payments: paymentSummary.payments,
+        amount_tendered: paymentSummary.amountTendered,
+        change_due: paymentSummary.changeDue
+    };
+    const base = {
+        bills: order.bills?.length ? order.bills : null,
+        payments: order.payments || []
+    };
+
+    const docId = order.firebaseId || order.idempotencyKey || order.orderId;
+    const key = order.idempotencyKey || docId;
+    const receipts = await syncService.getPendingReceipts();
+    await syncService.setItem('pendingReceipts', JSON.stringify(receipts.map(receipt =>
+        isMergeOrder(receipt, docId, key) ? { ...receipt, ...paymentSummary, splitMode, bills: paidBills } : receipt
+    )));
+
+    const orderDocId = order.firebaseId || order.idempotencyKey;
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online' && orderDocId) {
+            await updateDoc(doc(getFirestore(app), 'orders', orderDocId), {
+                ...changes,
+                updated_at: new Date().toISOString()
+            });
+        } else {
+            await syncService.addPendingOrderUpdate(order, changes, base);
+        }
+    } catch (error) {
+        console.error('❌ Error saving the bill split to Firebase - queued for sync:', error);
+        await syncService.addPendingOrderUpdate(order, changes, base);
+    }
+    console.log('✂️ Order', order.orderId, 'split into', paidBills.map(bill => bill.amount).join(' / '));
+    return paymentSummary;
+};
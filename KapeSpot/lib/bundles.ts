@@ -0,0 +1,209 @@
+// lib/bundles.ts
+import { getFirestore, collection, getDocs } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { roundMoney } from './payments';
+import { normalizeRecipe } from './ingredients';
+import { BundleComponent, BundleOption, BundleSlot } from '@/types/bundle';
+import { RecipeComponent } from '@/types/ingredient';
+
+// What bundle helpers need from a menu item, in the POS or the inventory screens
+export interface BundleSourceItem {
+    id: string;
+    firebaseId?: string;
+    name: string;
+    stocks: number;
+    cupName?: string;
+    recipe?: RecipeComponent[];
+}
+
+// What cup and ingredient usage is computed from
+type StockLine = { quantity: number; cupName?: string; recipe?: RecipeComponent[] };
+
+// Item picked into a bundle slot in the add-item screen
+export interface BundleCandidate {
+    id: string;
+    firebaseId?: string;
+    name: string;
+    price: number;
+}
+
+export const createBundleId = (prefix: 'slot' | 'opt'): string => {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+};
+
+// Items saved before bundles existed have no slots; slots without a usable option are dropped
+export const normalizeBundleSlots = (raw: any): BundleSlot[] => {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+        .filter(slot => slot && String(slot.name || '').trim() && Array.isArray(slot.options))
+        .map(slot => ({
+            id: slot.id || createBundleId('slot'),
+            name: String(slot.name).trim(),
+            quantity: Math.max(1, parseInt(slot.quantity, 10) || 1),
+            options: slot.options
+                .filter((option: any) => option && option.itemId)
+                .map((option: any): BundleOption => ({
+                    id: option.id || createBundleId('opt'),
+                    itemId: String(option.itemId),
+                    name: String(option.name || '').trim(),
+                    upcharge: Number(option.upcharge) || 0
+                }))
+        }))
+        .filter(slot => slot.options.length > 0);
+};
+
+export const isBundle = (item: { bundleSlots?: BundleSlot[] }): boolean => {
+    return !!item.bundleSlots && item.bundleSlots.length > 0;
+};
+
+// Bundles are never components of other bundles, so there is no stock loop to follow
+export const canBeBundleComponent = (item: { bundleSlots?: BundleSlot[] }): boolean => !isBundle(item);
+
+// Options store the items document id; POS items offline may only have the local id
+export const findBundleItem = <T extends { id: string; firebaseId?: string }>(items: T[], itemId: string): T | undefined => {
+    return items.find(item => item.firebaseId === itemId || item.id === itemId);
+};
+
+export const getBundleUpcharge = (components?: BundleComponent[]): number => {
+    if (!components || components.length === 0) return 0;
+    return roundMoney(components.reduce((sum, component) => sum + component.upcharge, 0));
+};
+
+// Same bundle with the same picks stacks on one cart line, different picks get their own line
+export const buildBundleLineId = (itemId: string, components: BundleComponent[]): string => {
+    const signature = components
+        .map(component => `${component.slotId}:${component.optionId}`)
+        .sort()
+        .join('|');
+    return `${itemId}@${signature}`;
+};
+
+// Fixed slots come pre-picked; choice slots keep what the cashier tapped
+export const getDefaultBundlePicks = (slots: BundleSlot[]): Record<string, string> => {
+    const picks: Record<string, string> = {};
+    slots.forEach(slot => {
+        if (slot.options.length === 1) picks[slot.id] = slot.options[0].id;
+    });
+    return picks;
+};
+
+// Returns an error message when a slot is unpicked or its item can't cover the bundles wanted, null otherwise
+export const validateBundleSelection = (
+    slots: BundleSlot[],
+    picks: Record<string, string>,
+    items: BundleSourceItem[],
+    bundles: number = 1
+): string | null => {
+    for (const slot of slots) {
+        const option = slot.options.find(o => o.id === picks[slot.id]);
+        if (!option) {
+            return `Please choose ${slot.name}.`;
+        }
+        const item = findBundleItem(items, option.itemId);
+        if (!item) {
+            return `${option.name || slot.name} is no longer on the menu.`;
+        }
+        if (item.stocks < slot.quantity * bundles) {
+            return `Not enough ${item.name} left.`;
+        }
+    }
+    return null;
+};
+
+export const buildBundleComponents = (
+    slots: BundleSlot[],
+    picks: Record<string, string>,
+    items: BundleSourceItem[]
+): BundleComponent[] => {
+    return slots.flatMap(slot => {
+        const option = slot.options.find(o => o.id === picks[slot.id]);
+        const item = option ? findBundleItem(items, option.itemId) : undefined;
+        if (!option || !item) return [];
+
+        return [{
+            slotId: slot.id,
+            slotName: slot.name,
+            optionId: option.id,
+            itemId: option.itemId,
+            name: item.name,
+            quantity: slot.quantity,
+            upcharge: option.upcharge,
+            cupName: item.cupName || '',
+            recipe: normalizeRecipe(item.recipe)
+        }];
+    });
+};
+
+// How many bundles the component stock still covers: every slot needs at least one option in stock
+export const getBundleAvailability = (slots: BundleSlot[], items: BundleSourceItem[]): number => {
+    if (slots.length === 0) return 0;
+
+    return Math.min(...slots.map(slot => Math.max(0, ...slot.options.map(option => {
+        const item = findBundleItem(items, option.itemId);
+        return item ? Math.floor(item.stocks / slot.quantity) : 0;
+    }))));
+};
+
+// Bundle lines take cups and ingredients through their components; other lines pass through unchanged
+export const expandBundleLines = <T extends { quantity: number; cupName?: string; recipe?: RecipeComponent[]; bundle?: BundleComponent[] }>(
+    lines: T[]
+): StockLine[] => {
+    return lines.flatMap<StockLine>(line => {
+        if (!line.bundle || line.bundle.length === 0) return [line];
+        return line.bundle.map(component => ({
+            quantity: component.quantity * line.quantity,
+            cupName: component.cupName,
+            recipe: component.recipe
+        }));
+    });
+};
+
+// One-line summary for cart rows, e.g. "Latte, Croissant"
+export const formatBundleSummary = (components?: BundleComponent[]): string => {
+    if (!components || components.length === 0) return '';
+    return components
+        .map(component => `${component.quantity > 1 ? `${component.quantity}x ` : ''}${component.name}`)
+        .join(', ');
+};
+
+// Plain-text lines for the thermal receipt, indented under the bundle with the units for the whole line
+export const formatBundleLines = (components: BundleComponent[] | undefined, lineQuantity: number): string => {
+    if (!components || components.length === 0) return '';
+
+    return components
+        .map(component => {
+            const upcharge = component.upcharge ? ` +₱${component.upcharge.toFixed(2)}` : '';
+            return `   - ${component.quantity * lineQuantity}x ${component.name}${upcharge}\n`;
+        })
+        .join('');
+};
+
+// Items that can fill a slot of a new bundle, from Firebase when online, otherwise from local storage
+export const loadBundleCandidates = async (): Promise<BundleCandidate[]> => {
+    let raw: any[] = [];
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const snapshot = await getDocs(collection(getFirestore(app), 'items'));
+            raw = snapshot.docs.map(itemDoc => ({ ...itemDoc.data(), id: itemDoc.id, firebaseId: itemDoc.id }));
+        } else {
+            raw = await OfflineSyncService.getInstance().getItems();
+        }
+    } catch (error) {
+        console.error('❌ Error loading bundle items:', error);
+        raw = await OfflineSyncService.getInstance().getItems();
+    }
+
+    return raw
+        .filter(item => item.status !== false && canBeBundleComponent({ bundleSlots: normalizeBundleSlots(item.bundleSlots) }))
+        .map(item => ({
+            id: item.id,
+            firebaseId: item.firebaseId,
+            name: item.name || '',
+            price: Number(item.price) || 0
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
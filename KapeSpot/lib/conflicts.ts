@@ -0,0 +1,143 @@
+// lib/conflicts.ts
+import {
+    getFirestore,
+    collection,
+    addDoc,
+    doc,
+    runTransaction
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { ConflictChoice, ConflictDecision, SyncConflict } from '@/types/conflict';
+
+const CONFLICT_LOG_KEY = 'conflictLog';
+const MAX_LOCAL_LOG_ENTRIES = 100;
+
+const FIELD_LABELS: Record<string, string> = {
+    price: 'Price',
+    stocks: 'Stock',
+    category: 'Category',
+    name: 'Name',
+    size: 'Size',
+    status: 'Status',
+    modifierGroups: 'Modifiers',
+    bundleSlots: 'Bundle',
+    recipe: 'Recipe',
+    cupName: 'Cup',
+    items: 'Items',
+    subtotal: 'Subtotal',
+    total: 'Total'
+};
+
+export const getConflictFieldLabel = (field: string): string => FIELD_LABELS[field] || field;
+
+// Short text for one side of a conflicting field
+export const formatConflictValue = (field: string, value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (['price', 'subtotal', 'total'].includes(field)) return `₱${(Number(value) || 0).toFixed(2)}`;
+    if (field === 'status' && typeof value === 'boolean') return value ? 'Active' : 'Inactive';
+    if ((field === 'modifierGroups' || field === 'bundleSlots') && Array.isArray(value)) {
+        return value.length === 0 ? 'None' : value.map(group => group.name).join(', ');
+    }
+    if (field === 'items' && Array.isArray(value)) {
+        return value.map(item => `${item.quantity}× ${item.name}`).join(', ');
+    }
+    if (Array.isArray(value)) return `${value.length} entr${value.length === 1 ? 'y' : 'ies'}`;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// The local copy takes the remote value for every field where the other device won
+const applyToLocalCopy = async (conflict: SyncConflict, remoteWins: Record<string, any>): Promise<void> => {
+    if (Object.keys(remoteWins).length === 0) return;
+
+    const syncService = OfflineSyncService.getInstance();
+    const matches = (record: { id?: string; firebaseId?: string; idempotencyKey?: string }) =>
+        record.firebaseId === conflict.documentId ||
+        record.id === conflict.documentId ||
+        record.idempotencyKey === conflict.documentId ||
+        (!!conflict.localId && record.id === conflict.localId);
+
+    if (conflict.collection === 'items') {
+        const localItems = await syncService.getItems();
+        await syncService.setItem('localItems', JSON.stringify(
+            localItems.map(item => matches(item) ? { ...item, ...remoteWins } : item)
+        ));
+    } else if (conflict.collection === 'cups') {
+        const cups = await syncService.getCups();
+        await syncService.saveCups(cups.map(cup => matches(cup) ? { ...cup, ...remoteWins } : cup));
+    } else {
+        const receipts = await syncService.getPendingReceipts();
+        await syncService.setItem('pendingReceipts', JSON.stringify(
+            receipts.map(receipt => matches(receipt) ? { ...receipt, ...remoteWins } : receipt)
+        ));
+    }
+};
+
+// Writes the admin's choice: fields where this tablet won go to Firestore (bumping the revision),
+// fields where the other device won replace the local copy. The decision is logged in both places.
+export const resolveConflict = async (
+    conflict: SyncConflict,
+    choices: Record<string, ConflictChoice>,
+    decidedBy: string
+): Promise<ConflictDecision> => {
+    const db = getFirestore(app);
+    const localWins: Record<string, any> = {};
+    const remoteWins: Record<string, any> = {};
+
+    conflict.fields.forEach(field => {
+        if ((choices[field.field] || 'remote') === 'local') {
+            localWins[field.field] = field.local;
+        } else {
+            remoteWins[field.field] = field.remote;
+        }
+    });
+
+    if (Object.keys(localWins).length > 0) {
+        const ref = doc(db, conflict.collection, conflict.documentId);
+        await runTransaction(db, async transaction => {
+            const snapshot = await transaction.get(ref);
+            if (!snapshot.exists()) {
+                throw new Error(`${conflict.entityName} no longer exists in Firebase`);
+            }
+            transaction.update(ref, {
+                ...localWins,
+                revision: (Number(snapshot.data().revision) || 0) + 1,
+                updated_at: new Date().toISOString()
+            });
+        });
+    }
+
+    await applyToLocalCopy(conflict, remoteWins);
+
+    const decision: ConflictDecision = {
+        conflictId: conflict.id,
+        collection: conflict.collection,
+        documentId: conflict.documentId,
+        entityName: conflict.entityName,
+        fields: conflict.fields.map(field => ({ ...field, choice: choices[field.field] || 'remote' })),
+        decidedBy,
+        decidedAt: new Date().toISOString()
+    };
+
+    await addDoc(collection(db, 'sync_conflict_log'), decision);
+
+    const syncService = OfflineSyncService.getInstance();
+    const log = await getConflictLog();
+    await syncService.setItem(CONFLICT_LOG_KEY, JSON.stringify([decision, ...log].slice(0, MAX_LOCAL_LOG_ENTRIES)));
+    await syncService.removeConflict(conflict.id);
+
+    console.log('✅ Conflict resolved:', conflict.entityName, choices);
+    return decision;
+};
+
+// Decisions made on this tablet, newest first
+export const getConflictLog = async (): Promise<ConflictDecision[]> => {
+    try {
+        const stored = await OfflineSyncService.getInstance().getItem(CONFLICT_LOG_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error('❌ Error reading conflict log:', error);
+        return [];
+    }
+};
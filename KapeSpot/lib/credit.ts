@@ -0,0 +1,369 @@
+// lib/credit.ts
+import {
+    getFirestore,
+    collection,
+    doc,
+    getDocs,
+    query,
+    setDoc,
+    where
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { getTenderLabel, roundMoney } from './payments';
+import { AgingBucket, CreditAging, CreditEntry } from '@/types/credit';
+import { Customer } from '@/types/customer';
+import { PrintBlock, PrintDocument } from '@/types/print';
+import { Tender, TenderType } from '@/types/payment';
+import { RefundRecord } from '@/types/refund';
+
+const CREDIT_LEDGER_KEY = 'creditLedger';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS: { bucket: AgingBucket; label: string }[] = [
+    { bucket: 'current', label: '0-7 days' },
+    { bucket: 'days8to30', label: '8-30 days' },
+    { bucket: 'days31to60', label: '31-60 days' },
+    { bucket: 'over60', label: 'Over 60 days' }
+];
+
+// What recording a charge needs from an order, the same fields the receipt data carries
+export interface CreditOrder {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerId?: string;
+    customerName: string;
+    payments?: Tender[];
+}
+
+// Same key refunds use, so a refund finds the charge of its order
+const getCreditOrderKey = (order: CreditOrder): string => {
+    return order.idempotencyKey || order.firebaseId || order.orderId;
+};
+
+export const getCreditLimit = (customer: Customer | null | undefined): number => {
+    return Number(customer?.creditLimit) || 0;
+};
+
+export const getCreditBalance = (entries: CreditEntry[]): number => {
+    return roundMoney(entries.reduce((sum, entry) => sum + entry.amount, 0));
+};
+
+export const getAvailableCredit = (customer: Customer, balance: number): number => {
+    return Math.max(0, roundMoney(getCreditLimit(customer) - balance));
+};
+
+export const getChargedAmount = (payments: Tender[] = []): number => {
+    return roundMoney(payments
+        .filter(payment => payment.type === 'account')
+        .reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+// Returns an error message when the amount can't go on the customer's account, otherwise null
+export const validateCharge = (customer: Customer | null, balance: number | null, amount: number): string | null => {
+    if (amount <= 0) return null;
+    if (!customer) {
+        return 'Link a customer to the order before charging it to an account.';
+    }
+    if (getCreditLimit(customer) <= 0) {
+        return `${customer.name} has no credit account. Set a credit limit on the Customers screen first.`;
+    }
+    if (balance === null) {
+        return `${customer.name}'s account balance is still loading. Please try again.`;
+    }
+
+    const available = getAvailableCredit(customer, balance);
+    if (roundMoney(amount) > available) {
+        return `Charging ₱${amount.toFixed(2)} would put ${customer.name} over their ₱${getCreditLimit(customer).toFixed(2)} limit ` +
+            `(₱${available.toFixed(2)} available).`;
+    }
+    return null;
+};
+
+const getAgingBucket = (days: number): AgingBucket => {
+    if (days <= 7) return 'current';
+    if (days <= 30) return 'days8to30';
+    if (days <= 60) return 'days31to60';
+    return 'over60';
+};
+
+// Payments and credits pay off the oldest charges first; whatever is left of each charge is aged
+// from the day it was made. Only customers who still owe something are listed, biggest balance first.
+export const computeCreditAging = (
+    customers: Customer[],
+    entries: CreditEntry[],
+    now: Date = new Date()
+): CreditAging[] => {
+    const byCustomer = new Map<string, CreditEntry[]>();
+    entries.forEach(entry => {
+        byCustomer.set(entry.customerId, [...(byCustomer.get(entry.customerId) || []), entry]);
+    });
+
+    const agings: CreditAging[] = [];
+    byCustomer.forEach((customerEntries, customerId) => {
+        const balance = getCreditBalance(customerEntries);
+        if (balance <= 0) return;
+
+        let paidOff = -customerEntries
+            .filter(entry => entry.amount < 0)
+            .reduce((sum, entry) => sum + entry.amount, 0);
+        const charges = customerEntries
+            .filter(entry => entry.amount > 0)
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+        const buckets: Record<AgingBucket, number> = { current: 0, days8to30: 0, days31to60: 0, over60: 0 };
+        let oldestCharge: string | undefined;
+        charges.forEach(charge => {
+            const covered = Math.min(paidOff, charge.amount);
+            paidOff -= covered;
+            const open = roundMoney(charge.amount - covered);
+            if (open <= 0) return;
+
+            const days = Math.floor((now.getTime() - new Date(charge.timestamp).getTime()) / DAY_MS);
+            const bucket = getAgingBucket(days);
+            buckets[bucket] = roundMoney(buckets[bucket] + open);
+            oldestCharge = oldestCharge || charge.timestamp;
+        });
+
+        const customer = customers.find(c => c.id === customerId);
+        agings.push({
+            customerId,
+            customerName: customer?.name || customerEntries[0].customerName,
+            creditLimit: getCreditLimit(customer),
+            balance,
+            buckets,
+            ...(oldestCharge ? { oldestCharge } : {})
+        });
+    });
+
+    return agings.sort((a, b) => b.balance - a.balance);
+};
+
+// ===== Ledger =====
+
+const getLocalLedger = async (): Promise<CreditEntry[]> => {
+    const localLedger = await OfflineSyncService.getInstance().getItem(CREDIT_LEDGER_KEY);
+    return localLedger ? JSON.parse(localLedger) : [];
+};
+
+// Adds entries to the local ledger, replacing any with the same id
+const saveLocalEntries = async (entries: CreditEntry[]): Promise<void> => {
+    const ids = new Set(entries.map(entry => entry.id));
+    const localLedger = await getLocalLedger();
+    await OfflineSyncService.getInstance().setItem(CREDIT_LEDGER_KEY, JSON.stringify([
+        ...localLedger.filter(entry => !ids.has(entry.id)),
+        ...entries
+    ]));
+};
+
+// Firestore entries matching the filter (every entry without one, for the aging report), kept locally
+// so balances still show offline, plus this tablet's entries that haven't synced yet. Newest first.
+const loadEntries = async (filter?: { field: 'customerId' | 'orderKey'; value: string }): Promise<CreditEntry[]> => {
+    const localEntries = (await getLocalLedger()).filter(entry => !filter || entry[filter.field] === filter.value);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const ledgerRef = collection(getFirestore(app), 'credit_ledger');
+            const snapshot = await getDocs(filter ? query(ledgerRef, where(filter.field, '==', filter.value)) : ledgerRef);
+            const remote = snapshot.docs.map(entryDoc => ({ ...entryDoc.data(), id: entryDoc.id, synced: true } as CreditEntry));
+            await saveLocalEntries(remote);
+
+            const remoteIds = new Set(remote.map(entry => entry.id));
+            return [...remote, ...localEntries.filter(entry => !remoteIds.has(entry.id))]
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        }
+    } catch (error) {
+        console.error('❌ Error loading credit ledger from Firebase:', error);
+    }
+
+    return localEntries.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+export const loadCreditLedger = async (customerId: string): Promise<CreditEntry[]> => {
+    return loadEntries({ field: 'customerId', value: customerId });
+};
+
+export const loadAllCreditEntries = async (): Promise<CreditEntry[]> => {
+    return loadEntries();
+};
+
+// Writes an entry once: local ledger first, then Firestore or the sync queue.
+// An id already in the local ledger means it was recorded before and nothing happens.
+const recordEntry = async (entry: CreditEntry): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    if ((await getLocalLedger()).some(existing => existing.id === entry.id)) {
+        console.log('⏭️ Credit entry already recorded:', entry.id);
+        return;
+    }
+    await saveLocalEntries([entry]);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            await setDoc(doc(getFirestore(app), 'credit_ledger', entry.id), entry);
+        } else {
+            await syncService.addPendingCreditEntry(entry);
+        }
+    } catch (error) {
+        console.error('❌ Error saving credit entry to Firebase - queued for sync:', error);
+        await syncService.addPendingCreditEntry(entry);
+    }
+    console.log('📒 Credit', entry.kind, 'for', entry.customerName, entry.amount);
+};
+
+// Called once an order is committed: puts what was tendered as "Charge" on the customer's account.
+// Errors are logged rather than thrown so the order itself never fails on the ledger.
+export const recordCreditCharge = async (order: CreditOrder): Promise<void> => {
+    const amount = getChargedAmount(order.payments);
+    if (!order.customerId || amount <= 0) return;
+
+    try {
+        const orderKey = getCreditOrderKey(order);
+        await recordEntry({
+            id: `charge_${orderKey}`,
+            customerId: order.customerId,
+            customerName: order.customerName,
+            kind: 'charge',
+            amount,
+            orderId: order.orderId,
+            orderKey,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('❌ Error recording credit charge:', error);
+    }
+};
+
+export const recordCreditPayment = async (
+    customer: Customer,
+    amount: number,
+    tender: TenderType,
+    reference: string,
+    receivedBy: string
+): Promise<CreditEntry> => {
+    const entry: CreditEntry = {
+        id: `pay_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        customerId: customer.id,
+        customerName: customer.name,
+        kind: 'payment',
+        amount: -roundMoney(amount),
+        tender,
+        ...(reference.trim() ? { reference: reference.trim() } : {}),
+        ...(receivedBy ? { receivedBy } : {}),
+        timestamp: new Date().toISOString()
+    };
+    await recordEntry(entry);
+    return entry;
+};
+
+// Takes a voided or charge-refunded amount back off the account, never more than the order still
+// has charged. Orders that weren't charged have no ledger entries and are left alone.
+export const reverseCreditForRefund = async (refund: RefundRecord): Promise<void> => {
+    if (refund.kind === 'refund' && refund.tender !== 'account') return;
+
+    try {
+        const entries = await loadEntries({ field: 'orderKey', value: refund.orderKey });
+        const charge = entries.find(entry => entry.kind === 'charge');
+        if (!charge) return;
+
+        const chargedLeft = getCreditBalance(entries);
+        const amount = roundMoney(Math.min(refund.amount, chargedLeft));
+        if (amount <= 0) return;
+
+        await recordEntry({
+            id: `credit_${refund.id}`,
+            customerId: charge.customerId,
+            customerName: charge.customerName,
+            kind: 'credit',
+            amount: -amount,
+            orderId: refund.orderId,
+            orderKey: refund.orderKey,
+            refundId: refund.id,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('❌ Error reversing credit for refund:', error);
+    }
+};
+
+export const describeCreditEntry = (entry: CreditEntry): string => {
+    if (entry.kind === 'charge') return `Charge · Order #${entry.orderId}`;
+    if (entry.kind === 'credit') return `Void/Refund · Order #${entry.orderId}`;
+    const via = entry.tender ? ` · ${getTenderLabel(entry.tender)}` : '';
+    return `Payment${via}${entry.reference ? ` (${entry.reference})` : ''}`;
+};
+
+// ===== Printing =====
+
+// Statement for the thermal printer, oldest entry first with a running balance beside each amount
+export const formatCreditStatement = (customer: Customer, entries: CreditEntry[]): PrintDocument => {
+    const blocks: PrintBlock[] = [
+        { type: 'text', text: 'STATEMENT OF ACCOUNT', align: 'center', bold: true },
+        { type: 'separator', char: '=' },
+        { type: 'text', text: customer.name, bold: true },
+        ...(customer.phone ? [{ type: 'text', text: customer.phone } as PrintBlock] : []),
+        { type: 'text', text: `Date: ${new Date().toLocaleDateString()}` },
+        { type: 'separator', char: '=' }
+    ];
+
+    let running = 0;
+    [...entries]
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .forEach(entry => {
+            running = roundMoney(running + entry.amount);
+            const label = entry.kind === 'charge'
+                ? `#${entry.orderId}`
+                : entry.kind === 'credit' ? `Credit #${entry.orderId}` : 'Payment';
+            blocks.push(
+                { type: 'text', text: `${new Date(entry.timestamp).toLocaleDateString()} ${label}` },
+                { type: 'row', left: `  ${entry.amount >= 0 ? '' : '-'}₱${Math.abs(entry.amount).toFixed(2)}`, right: `₱${running.toFixed(2)}` }
+            );
+        });
+
+    const balance = getCreditBalance(entries);
+    blocks.push(
+        { type: 'separator' },
+        { type: 'row', left: 'BALANCE DUE:', right: `₱${balance.toFixed(2)}`, bold: true },
+        { type: 'row', left: 'CREDIT LIMIT:', right: `₱${getCreditLimit(customer).toFixed(2)}` },
+        { type: 'row', left: 'AVAILABLE:', right: `₱${getAvailableCredit(customer, balance).toFixed(2)}` },
+        { type: 'separator', char: '=' },
+        { type: 'text', text: 'Thank you!', align: 'center' },
+        { type: 'feed', lines: 3 },
+        { type: 'cut' }
+    );
+    return { blocks };
+};
+
+export const formatAgingReport = (agings: CreditAging[]): PrintDocument => {
+    const blocks: PrintBlock[] = [
+        { type: 'text', text: 'ACCOUNTS AGING REPORT', align: 'center', bold: true },
+        { type: 'separator', char: '=' },
+        { type: 'text', text: `Date: ${new Date().toLocaleDateString()}` },
+        { type: 'separator', char: '=' }
+    ];
+
+    agings.forEach(aging => {
+        blocks.push({ type: 'row', left: aging.customerName, right: `₱${aging.balance.toFixed(2)}`, bold: true });
+        AGING_BUCKETS.forEach(({ bucket, label }) => {
+            if (aging.buckets[bucket] > 0) {
+                blocks.push({ type: 'row', left: `  ${label}`, right: `₱${aging.buckets[bucket].toFixed(2)}` });
+            }
+        });
+    });
+
+    blocks.push({ type: 'separator' });
+    AGING_BUCKETS.forEach(({ bucket, label }) => {
+        const total = roundMoney(agings.reduce((sum, aging) => sum + aging.buckets[bucket], 0));
+        blocks.push({ type: 'row', left: label, right: `₱${total.toFixed(2)}` });
+    });
+    blocks.push(
+        { type: 'row', left: 'TOTAL OWED:', right: `₱${roundMoney(agings.reduce((sum, aging) => sum + aging.balance, 0)).toFixed(2)}`, bold: true },
+        { type: 'separator', char: '=' },
+        { type: 'feed', lines: 3 },
+        { type: 'cut' }
+    );
+    return { blocks };
+};
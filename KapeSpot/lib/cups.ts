@@ -0,0 +1,201 @@
+// lib/cups.ts
+import {
+    getFirestore,
+    collection,
+    getDocs,
+    doc,
+    runTransaction
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { ModifierGroup, SelectedModifier } from '@/types/modifier';
+
+// Cups used per cup name, e.g. { '12oz Hot Cup': 3, '16oz Cold Cup': 1 }
+export type CupUsage = Record<string, number>;
+
+const PENDING_CUP_USAGE_KEY = 'pendingCupUsage';
+
+const cupKey = (name: string): string => name.trim().toLowerCase();
+
+// Cup a cart line uses: a picked option with its own cup (e.g. "Large" → 16oz) wins over the item's cup
+export const resolveLineCupName = (
+    itemCupName: string | undefined,
+    groups: ModifierGroup[] | undefined,
+    modifiers: SelectedModifier[] | undefined
+): string => {
+    let cupName = (itemCupName || '').trim();
+
+    (modifiers || []).forEach(modifier => {
+        const group = groups?.find(g => g.id === modifier.groupId);
+        const optionCup = group?.options.find(option => option.id === modifier.optionId)?.cupName?.trim();
+        if (optionCup) {
+            cupName = optionCup;
+        }
+    });
+
+    return cupName;
+};
+
+// Cups needed for a set of take-out lines; lines without a cup (pastries, etc.) are skipped
+export const computeCupUsage = (lines: { cupName?: string; quantity: number }[]): CupUsage => {
+    const usage: CupUsage = {};
+
+    lines.forEach(line => {
+        const cupName = (line.cupName || '').trim();
+        if (!cupName || line.quantity <= 0) return;
+        usage[cupName] = (usage[cupName] || 0) + line.quantity;
+    });
+
+    return usage;
+};
+
+export const getTotalCups = (usage: CupUsage): number => {
+    return Object.values(usage).reduce((sum, count) => sum + count, 0);
+};
+
+export const mergeCupUsage = (target: CupUsage, usage?: CupUsage | null): CupUsage => {
+    Object.entries(usage || {}).forEach(([cupName, count]) => {
+        target[cupName] = (target[cupName] || 0) + (Number(count) || 0);
+    });
+    return target;
+};
+
+// ===== Depletion / restoration =====
+
+// Cup docs are matched by name (what items store), then updated in one transaction so
+// two tablets selling at the same time can't overwrite each other's counts
+const applyCupChangesOnline = async (changes: CupUsage): Promise<void> => {
+    const names = Object.keys(changes).filter(name => changes[name] !== 0);
+    if (names.length === 0) return;
+
+    const db = getFirestore(app);
+    const cupsSnapshot = await getDocs(collection(db, 'cups'));
+    const targets = names
+        .map(name => ({
+            name,
+            cupDoc: cupsSnapshot.docs.find(cupDoc => cupKey(cupDoc.data().name || '') === cupKey(name))
+        }))
+        .filter(target => {
+            if (!target.cupDoc) {
+                console.log('⚠️ No cup named', target.name, '- skipping stock update');
+            }
+            return !!target.cupDoc;
+        });
+    if (targets.length === 0) return;
+
+    await runTransaction(db, async transaction => {
+        const refs = targets.map(target => doc(db, 'cups', target.cupDoc!.id));
+        const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+
+        snapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const stocks = Number(snapshot.data().stocks) || 0;
+            transaction.update(refs[index], {
+                stocks: stocks + changes[targets[index].name],
+                updated_at: new Date().toISOString()
+            });
+        });
+    });
+};
+
+// Keep the local copy in step so the cups screen is right while offline
+const applyCupChangesLocally = async (changes: CupUsage): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    const localCups = await syncService.getCups();
+    if (localCups.length === 0) return;
+
+    await syncService.saveCups(localCups.map(cup => {
+        const name = Object.keys(changes).find(cupName => cupKey(cupName) === cupKey(cup.name));
+        return name ? { ...cup, stocks: cup.stocks + changes[name] } : cup;
+    }));
+};
+
+const adjustCupStocks = async (changes: CupUsage): Promise<void> => {
+    if (Object.keys(changes).length === 0) return;
+
+    await applyCupChangesLocally(changes);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            await flushPendingCupUsage();
+            await applyCupChangesOnline(changes);
+            console.log('✅ Cup stocks updated in Firebase:', changes);
+            return;
+        }
+    } catch (error) {
+        console.error('❌ Error updating cup stocks in Firebase:', error);
+    }
+
+    // Offline (or the transaction failed): remember the change and apply it once back online
+    const syncService = OfflineSyncService.getInstance();
+    const pending = await syncService.getItem(PENDING_CUP_USAGE_KEY);
+    const pendingChanges: CupUsage[] = pending ? JSON.parse(pending) : [];
+    pendingChanges.push(changes);
+    await syncService.setItem(PENDING_CUP_USAGE_KEY, JSON.stringify(pendingChanges));
+    console.log('📱 Cup stock change queued for sync');
+};
+
+export const flushPendingCupUsage = async (): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    const pending = await syncService.getItem(PENDING_CUP_USAGE_KEY);
+    const pendingChanges: CupUsage[] = pending ? JSON.parse(pending) : [];
+    if (pendingChanges.length === 0) return;
+
+    const merged: CupUsage = {};
+    pendingChanges.forEach(changes => mergeCupUsage(merged, changes));
+
+    await applyCupChangesOnline(merged);
+    await syncService.setItem(PENDING_CUP_USAGE_KEY, JSON.stringify([]));
+    console.log('✅ Synced', pendingChanges.length, 'queued cup stock changes');
+};
+
+const negateUsage = (usage: CupUsage): CupUsage => {
+    const changes: CupUsage = {};
+    Object.entries(usage).forEach(([cupName, count]) => { changes[cupName] = -count; });
+    return changes;
+};
+
+export const depleteCups = async (usage: CupUsage): Promise<void> => {
+    await adjustCupStocks(negateUsage(usage));
+};
+
+// Like ingredients, new orders commit cup stock with the order itself; only the local copy changes here
+export const depleteCupsLocally = async (usage: CupUsage): Promise<void> => {
+    await applyCupChangesLocally(negateUsage(usage));
+};
+
+export const restoreCups = async (usage: CupUsage): Promise<void> => {
+    await adjustCupStocks({ ...usage });
+};
+
+// Refunds give cups back in their own transaction (lib/orders); only the local copy changes here
+export const restoreCupsLocally = async (usage: CupUsage): Promise<void> => {
+    await applyCupChangesLocally({ ...usage });
+};
+
+export interface DailyCupUsage {
+    date: string; // toDateString() of the order's local day
+    usage: CupUsage;
+    total: number;
+}
+
+// Cup usage per calendar day, newest first; orders saved before per-cup tracking only have a total
+export const summarizeCupUsageByDay = (
+    orders: { timestamp: string; cups_breakdown?: CupUsage; cupsBreakdown?: CupUsage }[]
+): DailyCupUsage[] => {
+    const days: Record<string, CupUsage> = {};
+
+    orders.forEach(order => {
+        const breakdown = order.cups_breakdown || order.cupsBreakdown;
+        if (!breakdown || Object.keys(breakdown).length === 0) return;
+
+        const date = new Date(order.timestamp).toDateString();
+        days[date] = mergeCupUsage(days[date] || {}, breakdown);
+    });
+
+    return Object.entries(days)
+        .map(([date, usage]) => ({ date, usage, total: getTotalCups(usage) }))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
@@ -0,0 +1,226 @@
+// lib/customers.ts
+import {
+    getFirestore,
+    collection,
+    doc,
+    getDocs,
+    query,
+    setDoc,
+    where
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { Customer, CustomerOrder } from '@/types/customer';
+
+const CUSTOMERS_KEY = 'customers';
+
+export const createCustomerId = (): string => {
+    return `cus_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// "Ana", " ana " and "ANA" are the same person; spelling variants like "Anna" need the customer picked
+export const normalizeCustomerName = (name: string): string => {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+// How reports tell customers apart: the linked profile when there is one, otherwise the tidied name
+export const getCustomerKey = (order: { customerId?: string; customer_id?: string; customerName: string }): string => {
+    return order.customerId || order.customer_id || normalizeCustomerName(order.customerName || '');
+};
+
+export const findCustomerByName = (customers: Customer[], name: string): Customer | undefined => {
+    const normalized = normalizeCustomerName(name);
+    return normalized ? customers.find(customer => normalizeCustomerName(customer.name) === normalized) : undefined;
+};
+
+// Names starting with the query come first, then names or phone numbers containing it
+export const searchCustomers = (customers: Customer[], search: string, limit: number = 5): Customer[] => {
+    const normalized = normalizeCustomerName(search);
+    if (!normalized) return [];
+    const digits = normalized.replace(/\D/g, '');
+
+    const matches = customers.filter(customer =>
+        normalizeCustomerName(customer.name).includes(normalized) ||
+        (digits.length >= 3 && customer.phone.replace(/\D/g, '').includes(digits))
+    );
+    const startsWith = (customer: Customer) => normalizeCustomerName(customer.name).startsWith(normalized) ? 0 : 1;
+    return matches
+        .sort((a, b) => startsWith(a) - startsWith(b) || a.name.localeCompare(b.name))
+        .slice(0, limit);
+};
+
+// Returns an error message when the customer can't be saved, null when it can
+export const validateCustomer = (customer: Customer, customers: Customer[]): string | null => {
+    if (!customer.name.trim()) return 'Enter the customer\'s name.';
+    if (customer.birthday && !/^\d{4}-\d{2}-\d{2}$/.test(customer.birthday)) {
+        return 'Enter the birthday as YYYY-MM-DD.';
+    }
+    const sameName = findCustomerByName(customers, customer.name);
+    if (sameName && sameName.id !== customer.id) {
+        return `${sameName.name} is already a customer${sameName.phone ? ` (${sameName.phone})` : ''}.`;
+    }
+    return null;
+};
+
+const getLocalCustomers = async (): Promise<Customer[]> => {
+    const localCustomers = await OfflineSyncService.getInstance().getItem(CUSTOMERS_KEY);
+    return localCustomers ? JSON.parse(localCustomers) : [];
+};
+
+// Firebase when online, keeping customers made on this tablet that haven't synced yet; otherwise local storage
+export const loadCustomers = async (): Promise<Customer[]> => {
+    const localCustomers = await getLocalCustomers();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const snapshot = await getDocs(collection(getFirestore(app), CUSTOMERS_KEY));
+            const firebaseCustomers: Customer[] = snapshot.docs.map(customerDoc => {
+                const data = customerDoc.data();
+                return {
+                    id: customerDoc.id,
+                    name: data.name || '',
+                    phone: data.phone || '',
+                    birthday: data.birthday || '',
+                    notes: data.notes || '',
+                    creditLimit: Number(data.creditLimit) || 0,
+                    created_at: data.created_at || '',
+                    updated_at: data.updated_at
+                };
+            });
+            const firebaseIds = new Set(firebaseCustomers.map(customer => customer.id));
+            const customers = [
+                ...firebaseCustomers,
+                ...localCustomers.filter(customer => !firebaseIds.has(customer.id))
+            ];
+
+            await OfflineSyncService.getInstance().setItem(CUSTOMERS_KEY, JSON.stringify(customers));
+            console.log('✅ Customers loaded from Firebase:', firebaseCustomers.length);
+            return customers;
+        }
+    } catch (error) {
+        console.error('❌ Error loading customers from Firebase:', error);
+    }
+
+    return localCustomers;
+};
+
+// Local copy first so the POS can use the customer right away, then Firebase or the sync queue
+export const saveCustomer = async (customer: Customer): Promise<Customer> => {
+    const syncService = OfflineSyncService.getInstance();
+    const saved: Customer = {
+        ...customer,
+        name: customer.name.trim().replace(/\s+/g, ' '),
+        phone: customer.phone.trim(),
+        notes: customer.notes.trim(),
+        updated_at: new Date().toISOString()
+    };
+
+    const localCustomers = await getLocalCustomers();
+    await syncService.setItem(CUSTOMERS_KEY, JSON.stringify([
+        ...localCustomers.filter(existing => existing.id !== saved.id),
+        saved
+    ]));
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            await setDoc(doc(getFirestore(app), CUSTOMERS_KEY, saved.id), saved, { merge: true });
+        } else {
+            await syncService.addPendingCustomer(saved);
+        }
+    } catch (error) {
+        console.error('❌ Error saving customer to Firebase - queued for sync:', error);
+        await syncService.addPendingCustomer(saved);
+    }
+    console.log('👤 Customer saved:', saved.name);
+    return saved;
+};
+
+export const createCustomer = (name: string): Customer => ({
+    id: createCustomerId(),
+    name: name.trim().replace(/\s+/g, ' '),
+    phone: '',
+    birthday: '',
+    notes: '',
+    created_at: new Date().toISOString()
+});
+
+const isCustomersOrder = (
+    customer: Customer,
+    order: { customerId?: string; customer_id?: string; customerName: string }
+): boolean => {
+    const linkedId = order.customerId || order.customer_id;
+    return linkedId
+        ? linkedId === customer.id
+        : normalizeCustomerName(order.customerName || '') === normalizeCustomerName(customer.name);
+};
+
+// Orders linked to the customer, plus older ones placed under the same name before profiles existed.
+// Newest first; orders still waiting to sync come from this tablet's receipts.
+export const loadCustomerOrders = async (customer: Customer): Promise<CustomerOrder[]> => {
+    const orders: CustomerOrder[] = [];
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const ordersCollection = collection(getFirestore(app), 'orders');
+            const [linked, byName] = await Promise.all([
+                getDocs(query(ordersCollection, where('customer_id', '==', customer.id))),
+                getDocs(query(ordersCollection, where('customerName', '==', customer.name)))
+            ]);
+
+            const seen = new Set<string>();
+            [...linked.docs, ...byName.docs].forEach(orderDoc => {
+                const data = orderDoc.data();
+                if (seen.has(orderDoc.id) || !isCustomersOrder(customer, { customer_id: data.customer_id, customerName: data.customerName })) {
+                    return;
+                }
+                seen.add(orderDoc.id);
+                orders.push({
+                    orderId: data.orderId || orderDoc.id,
+                    firebaseId: orderDoc.id,
+                    idempotencyKey: data.idempotency_key,
+                    customerId: data.customer_id || undefined,
+                    customerName: data.customerName || '',
+                    items: data.items || [],
+                    total: Number(data.total) || 0,
+                    status: data.status || 'paid',
+                    orderType: data.order_type,
+                    timestamp: data.timestamp || data.created_at || ''
+                });
+            });
+        }
+    } catch (error) {
+        console.error('❌ Error loading customer orders from Firebase:', error);
+    }
+
+    const knownKeys = new Set(orders.map(order => order.idempotencyKey).filter(Boolean));
+    const receipts = await OfflineSyncService.getInstance().getPendingReceipts();
+    receipts
+        .filter(receipt => isCustomersOrder(customer, receipt))
+        .filter(receipt => !receipt.idempotencyKey || !knownKeys.has(receipt.idempotencyKey))
+        .forEach(receipt => {
+            orders.push({
+                orderId: receipt.orderId,
+                firebaseId: receipt.firebaseId,
+                idempotencyKey: receipt.idempotencyKey,
+                customerId: receipt.customerId,
+                customerName: receipt.customerName,
+                items: receipt.items,
+                total: receipt.total,
+                status: receipt.status,
+                orderType: receipt.orderType,
+                timestamp: receipt.timestamp
+            });
+        });
+
+    return orders.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+// The order "repeat last order" copies: the newest one that wasn't cancelled
+export const getLastOrder = (orders: CustomerOrder[]): CustomerOrder | undefined => {
+    return orders.find(order => order.status !== 'cancelled' && order.items.length > 0);
+};
@@ -0,0 +1,232 @@
+// lib/discounts.ts
+import {
+    getFirestore,
+    collection,
+    getDocs,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    doc
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { roundMoney } from './payments';
+import { DiscountLine, DiscountResult, OrderDiscount, PromoCode } from '@/types/discount';
+
+// RA 9994 / RA 10754: 20% off the VAT-exclusive price, and the sale is VAT-exempt
+export const STATUTORY_DISCOUNT_RATE = 0.20;
+export const DEFAULT_VAT_RATE = 0.12;
+
+const PROMO_CODES_KEY = 'promoCodes';
+
+export const isStatutoryDiscount = (discount: OrderDiscount): boolean => {
+    return discount.kind === 'senior' || discount.kind === 'pwd';
+};
+
+export const createDiscountId = (kind: string): string => {
+    return `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+};
+
+const applyValue = (base: number, valueType: 'percent' | 'fixed', value: number): number => {
+    if (base <= 0 || !(value > 0)) return 0;
+    const amount = valueType === 'percent' ? base * Math.min(value, 100) / 100 : value;
+    return roundMoney(Math.min(amount, base));
+};
+
+// Apply discounts in a fixed order so the result never depends on the order they were added:
+// per-line discounts, then Senior/PWD on the qualifying share, then promo and manual overrides
+// on whatever is not covered by the statutory discount (they can't be stacked on top of it).
+export const computeDiscounts = (
+    lines: DiscountLine[],
+    discounts: OrderDiscount[],
+    vatRate: number = DEFAULT_VAT_RATE
+): DiscountResult => {
+    const gross = roundMoney(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    const applied: OrderDiscount[] = [];
+    const lineDiscounts: Record<string, number> = {};
+
+    // STEP 1: Per-line discounts, and stamp rewards that make one unit of a line free
+    discounts.filter(discount => discount.kind === 'line' || discount.kind === 'reward').forEach(discount => {
+        const line = lines.find(l => l.lineId === discount.lineId);
+        if (!line) return;
+
+        const lineTotal = roundMoney(line.price * line.quantity) - (lineDiscounts[line.lineId] || 0);
+        const amount = applyValue(lineTotal, discount.valueType, discount.value);
+        lineDiscounts[line.lineId] = roundMoney((lineDiscounts[line.lineId] || 0) + amount);
+        applied.push({ ...discount, amount });
+    });
+
+    const lineDiscountTotal = roundMoney(Object.values(lineDiscounts).reduce((sum, value) => sum + value, 0));
+    let remaining = roundMoney(gross - lineDiscountTotal);
+
+    // STEP 2: Senior Citizen / PWD (only one statutory discount per order)
+    let statutoryShare = 0;
+    let vatRelief = 0;
+    let orderDiscountTotal = 0;
+    const statutory = discounts.find(isStatutoryDiscount);
+
+    if (statutory && remaining > 0) {
+        const diners = Math.max(1, statutory.dinerCount || 1);
+        const qualified = Math.min(diners, Math.max(1, statutory.qualifiedCount || 1));
+
+        statutoryShare = roundMoney(remaining * qualified / diners);
+        const vatExclusive = roundMoney(statutoryShare / (1 + vatRate));
+        vatRelief = roundMoney(statutoryShare - vatExclusive);
+        const amount = roundMoney(vatExclusive * STATUTORY_DISCOUNT_RATE);
+
+        orderDiscountTotal += amount;
+        applied.push({ ...statutory, valueType: 'percent', value: STATUTORY_DISCOUNT_RATE * 100, amount, vatRelief });
+        remaining = roundMoney(remaining - statutoryShare);
+    }
+
+    // STEP 3: Promo codes, then manager overrides, then loyalty points on the non-statutory remainder
+    ['promo', 'manual', 'points'].forEach(kind => {
+        discounts.filter(discount => discount.kind === kind).forEach(discount => {
+            const amount = applyValue(remaining, discount.valueType, discount.value);
+            orderDiscountTotal += amount;
+            remaining = roundMoney(remaining - amount);
+            applied.push({ ...discount, amount });
+        });
+    });
+
+    orderDiscountTotal = roundMoney(orderDiscountTotal);
+    const discountTotal = roundMoney(lineDiscountTotal + orderDiscountTotal + vatRelief);
+
+    return {
+        gross,
+        lineDiscountTotal,
+        orderDiscountTotal,
+        vatRelief,
+        discountTotal,
+        net: roundMoney(Math.max(0, gross - discountTotal)),
+        statutoryShare,
+        lineDiscounts,
+        discounts: applied
+    };
+};
+
+// Returns an error message when the promo can't be used on this order, null when it can
+export const validatePromoCode = (promo: PromoCode | undefined, gross: number): string | null => {
+    if (!promo) return 'Promo code not found.';
+    if (!promo.active) return `${promo.code} is no longer active.`;
+    if (promo.expiresAt && new Date(promo.expiresAt).getTime() < Date.now()) {
+        return `${promo.code} has expired.`;
+    }
+    if (promo.minSpend && gross < promo.minSpend) {
+        return `${promo.code} needs a minimum spend of ₱${promo.minSpend.toFixed(2)}.`;
+    }
+    return null;
+};
+
+export const describeDiscount = (discount: OrderDiscount): string => {
+    const rate = discount.valueType === 'percent' ? `${discount.value}%` : `₱${discount.value.toFixed(2)}`;
+
+    switch (discount.kind) {
+        case 'senior':
+            return `Senior ${rate}${discount.idNumber ? ` (ID ${discount.idNumber})` : ''}`;
+        case 'pwd':
+            return `PWD ${rate}${discount.idNumber ? ` (ID ${discount.idNumber})` : ''}`;
+        case 'promo':
+            return `Promo ${discount.promoCode || discount.label}`;
+        case 'line':
+            return `${discount.label} ${rate}`;
+        case 'manual':
+            return `Discount ${rate}${discount.reason ? ` - ${discount.reason}` : ''}`;
+        case 'reward':
+            return discount.label;
+        case 'points':
+            return `Points (${discount.points || 0} pts)`;
+        default:
+            return discount.label;
+    }
+};
+
+// Plain-text lines for the thermal receipt
+export const formatDiscountLines = (discounts: OrderDiscount[]): string => {
+    if (!discounts || discounts.length === 0) return '';
+
+    let lines = '';
+    discounts.forEach(discount => {
+        lines += `${describeDiscount(discount).toUpperCase()}: -₱${discount.amount.toFixed(2)}\n`;
+        if (isStatutoryDiscount(discount) && discount.vatRelief) {
+            lines += `VAT EXEMPT: -₱${discount.vatRelief.toFixed(2)}\n`;
+        }
+    });
+
+    return lines;
+};
+
+// ===== Promo code storage =====
+
+// Load promo codes from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadPromoCodes = async (): Promise<PromoCode[]> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const db = getFirestore(app);
+            const snapshot = await getDocs(collection(db, 'promo_codes'));
+            const promos: PromoCode[] = snapshot.docs.map(promoDoc => {
+                const data = promoDoc.data();
+                return {
+                    id: promoDoc.id,
+                    firebaseId: promoDoc.id,
+                    code: (data.code || '').toUpperCase(),
+                    label: data.label || data.code || '',
+                    valueType: data.valueType === 'fixed' ? 'fixed' : 'percent',
+                    value: Number(data.value) || 0,
+                    minSpend: Number(data.minSpend) || 0,
+                    active: data.active !== false,
+                    expiresAt: data.expiresAt || null
+                };
+            });
+
+            await syncService.setItem(PROMO_CODES_KEY, JSON.stringify(promos));
+            console.log('✅ Promo codes loaded from Firebase:', promos.length);
+            return promos;
+        }
+    } catch (error) {
+        console.error('❌ Error loading promo codes from Firebase:', error);
+    }
+
+    const localPromos = await syncService.getItem(PROMO_CODES_KEY);
+    return localPromos ? JSON.parse(localPromos) : [];
+};
+
+export const findPromoCode = (promos: PromoCode[], code: string): PromoCode | undefined => {
+    return promos.find(promo => promo.code === code.trim().toUpperCase());
+};
+
+// Promo codes are managed online only so every tablet sees the same list
+export const savePromoCode = async (promo: Omit<PromoCode, 'id'> & { id?: string }): Promise<void> => {
+    const db = getFirestore(app);
+    const data = {
+        code: promo.code.trim().toUpperCase(),
+        label: promo.label.trim() || promo.code.trim().toUpperCase(),
+        valueType: promo.valueType,
+        value: promo.value,
+        minSpend: promo.minSpend || 0,
+        active: promo.active,
+        expiresAt: promo.expiresAt || null,
+        updated_at: new Date().toISOString()
+    };
+
+    if (promo.firebaseId) {
+        await updateDoc(doc(db, 'promo_codes', promo.firebaseId), data);
+    } else {
+        await addDoc(collection(db, 'promo_codes'), { ...data, created_at: new Date().toISOString() });
+    }
+};
+
+export const deletePromoCode = async (firebaseId: string): Promise<void> => {
+    const db = getFirestore(app);
+    await deleteDoc(doc(db, 'promo_codes', firebaseId));
+};
+
+// Orders from Firebase carry discount_total, local pendingReceipts carry discountTotal
+export const getOrderDiscountTotal = (order: { discount_total?: number; discountTotal?: number }): number => {
+    return Number(order.discount_total ?? order.discountTotal) || 0;
+};
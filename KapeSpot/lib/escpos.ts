@@ -0,0 +1,292 @@
+// lib/escpos.ts
+// Pure ESC/POS encoding: no React Native imports, so documents can be compiled and checked byte for byte anywhere
+import { PrintAlign, PrintBlock, PrintDocument, PrintOptions, PrintSize } from '@/types/print';
+
+const ESC = 0x1B;
+const GS = 0x1D;
+const LF = 0x0A;
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { columns: 32, peso: 'letter' };
+
+// Characters per line in font A: 384 dots on 58mm heads, 512 or 576 on 80mm
+export const PAPER_PROFILES: { columns: number; label: string }[] = [
+    { columns: 32, label: '58mm · 32 columns' },
+    { columns: 42, label: '80mm · 42 columns' },
+    { columns: 48, label: '80mm · 48 columns' }
+];
+
+// Upper half of code page 437 (ESC t 0), the table every ESC/POS printer ships with; index + 0x80 is the byte
+const CP437_HIGH =
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»' +
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0';
+
+// Typographic characters the app's own text uses that CP437 lacks
+const SUBSTITUTES: Record<string, string> = {
+    '‘': "'",
+    '’': "'",
+    '“': '"',
+    '”': '"',
+    '–': '-',
+    '—': '-',
+    '…': '...',
+    '×': 'x',
+    '•': '*',
+    '→': '->'
+};
+
+// The peso sign is downloaded over '~', which receipts never print, so '~' itself is sent as '-'
+const PESO_CODE = 0x7E;
+
+// 12 x 24 dot peso sign for font A: a P with two bars through the bowl
+const PESO_GLYPH = [
+    '............',
+    '............',
+    '.#######....',
+    '.########...',
+    '.##....###..',
+    '.##.....##..',
+    '############',
+    '.##.....##..',
+    '############',
+    '.##....###..',
+    '.########...',
+    '.#######....',
+    '.##.........',
+    '.##.........',
+    '.##.........',
+    '.##.........',
+    '.##.........',
+    '.##.........',
+    '.##.........',
+    '............',
+    '............',
+    '............',
+    '............',
+    '............'
+];
+
+// ESC & 3 c c 12 + column-major bitmap (3 bytes per column, top dot in the high bit), then ESC % 1 to use it
+const definePesoGlyph = (): number[] => {
+    const bitmap: number[] = [];
+    for (let column = 0; column < 12; column++) {
+        for (let band = 0; band < 3; band++) {
+            let byte = 0;
+            for (let bit = 0; bit < 8; bit++) {
+                if (PESO_GLYPH[band * 8 + bit][column] === '#') byte |= 0x80 >> bit;
+            }
+            bitmap.push(byte);
+        }
+    }
+    return [ESC, 0x26, 3, PESO_CODE, PESO_CODE, 12, ...bitmap, ESC, 0x25, 1];
+};
+
+// Substituted before measuring, so wrapping counts the characters that will actually print
+const normalizeText = (text: string): string => Array.from(text).map(char => SUBSTITUTES[char] ?? char).join('');
+
+// One byte per printed character; anything the code page can't show prints as '?'
+export const encodeText = (text: string, options: PrintOptions = DEFAULT_PRINT_OPTIONS): number[] => {
+    const bytes: number[] = [];
+
+    for (const char of normalizeText(text)) {
+        if (char === '₱') {
+            if (options.peso === 'glyph') {
+                bytes.push(PESO_CODE);
+            } else {
+                bytes.push(0x50);
+            }
+            continue;
+        }
+        if (char === '~' && options.peso === 'glyph') {
+            bytes.push(0x2D);
+            continue;
+        }
+
+        const code = char.codePointAt(0) || 0;
+        if (code === LF || (code >= 0x20 && code < 0x7F)) {
+            bytes.push(code);
+            continue;
+        }
+
+        const index = CP437_HIGH.indexOf(char);
+        bytes.push(index >= 0 ? 0x80 + index : 0x3F);
+    }
+
+    return bytes;
+};
+
+const ALIGN_CODES: Record<PrintAlign, number> = { left: 0, center: 1, right: 2 };
+
+// GS ! n: width multiplier in the high nibble, height in the low one
+const SIZE_CODES: Record<PrintSize, number> = { normal: 0x00, tall: 0x01, wide: 0x10, double: 0x11 };
+
+interface PrintStyle {
+    align: PrintAlign;
+    bold: boolean;
+    underline: boolean;
+    size: PrintSize;
+}
+
+const INITIAL_STYLE: PrintStyle = { align: 'left', bold: false, underline: false, size: 'normal' };
+
+const BARCODE_TYPES = { code128: 73, code39: 69, ean13: 67 };
+
+// Word wrap one line; its leading spaces are kept as a hanging indent so "   + Oat milk" stays under its item
+export const wrapText = (text: string, width: number): string[] => {
+    const line = normalizeText(text).replace(/\s+$/, '');
+    if (line.length <= width) return [line];
+
+    const indent = (line.match(/^ */)?.[0] || '').slice(0, Math.floor(width / 2));
+    const lines: string[] = [];
+    let current = '';
+    const flush = () => {
+        lines.push(indent + current);
+        current = '';
+    };
+
+    line.trim().split(/ +/).forEach(word => {
+        let rest = word;
+        while (rest) {
+            const room = width - indent.length;
+            if ((current ? current.length + 1 : 0) + rest.length <= room) {
+                current = current ? `${current} ${rest}` : rest;
+                rest = '';
+            } else if (current) {
+                flush();
+            } else {
+                // Longer than a whole line: break it mid-word
+                current = rest.slice(0, room);
+                rest = rest.slice(room);
+                flush();
+            }
+        }
+    });
+    if (current) flush();
+
+    return lines;
+};
+
+// Label wrapped in the space the amount leaves, amount flush right on the first line
+export const layoutRow = (left: string, right: string, columns: number): string[] => {
+    const amount = normalizeText(right).trim();
+    const room = columns - amount.length - 1;
+    if (room < columns / 2) {
+        return [...wrapText(left, columns), amount.padStart(columns)];
+    }
+
+    const lines = wrapText(left, room);
+    lines[0] = lines[0].padEnd(room + 1) + amount;
+    return lines;
+};
+
+const encodeQr = (data: number[], size: number): number[] => {
+    const stored = data.length + 3;
+    return [
+        GS, 0x28, 0x6B, 4, 0, 0x31, 0x41, 0x32, 0x00, // model 2
+        GS, 0x28, 0x6B, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, size)),
+        GS, 0x28, 0x6B, 3, 0, 0x31, 0x45, 0x31, // error correction M
+        GS, 0x28, 0x6B, stored & 0xFF, stored >> 8, 0x31, 0x50, 0x30, ...data,
+        GS, 0x28, 0x6B, 3, 0, 0x31, 0x51, 0x30
+    ];
+};
+
+const encodeBarcode = (block: Extract<PrintBlock, { type: 'barcode' }>, options: PrintOptions): number[] => {
+    const symbology = block.symbology || 'code128';
+    let data = encodeText(block.data, options);
+    if (symbology === 'code128') {
+        data = [0x7B, 0x42, ...data]; // "{B": code set B
+    } else if (symbology === 'code39') {
+        data = encodeText(block.data.toUpperCase(), options);
+    }
+
+    return [
+        GS, 0x68, Math.min(255, Math.max(1, block.height || 60)),
+        GS, 0x77, 2,
+        GS, 0x48, 2, // readable digits below the bars
+        GS, 0x6B, BARCODE_TYPES[symbology], data.length, ...data
+    ];
+};
+
+// Whole document to bytes, starting from a reset printer; style commands are only sent when they change
+export const compileDocument = (
+    document: PrintDocument,
+    options: PrintOptions = DEFAULT_PRINT_OPTIONS
+): number[] => {
+    const bytes: number[] = [ESC, 0x40, ESC, 0x74, 0x00];
+    if (options.peso === 'glyph') bytes.push(...definePesoGlyph());
+
+    let style: PrintStyle = { ...INITIAL_STYLE };
+    const applyStyle = (next: Partial<PrintStyle>) => {
+        const target: PrintStyle = {
+            align: next.align || INITIAL_STYLE.align,
+            bold: !!next.bold,
+            underline: !!next.underline,
+            size: next.size || INITIAL_STYLE.size
+        };
+        if (target.align !== style.align) bytes.push(ESC, 0x61, ALIGN_CODES[target.align]);
+        if (target.bold !== style.bold) bytes.push(ESC, 0x45, target.bold ? 1 : 0);
+        if (target.underline !== style.underline) bytes.push(ESC, 0x2D, target.underline ? 1 : 0);
+        if (target.size !== style.size) bytes.push(GS, 0x21, SIZE_CODES[target.size]);
+        style = target;
+    };
+
+    document.blocks.forEach(block => {
+        switch (block.type) {
+            case 'text': {
+                applyStyle({ align: block.align, bold: block.bold, underline: block.underline, size: block.size });
+                const width = block.size === 'wide' || block.size === 'double'
+                    ? Math.floor(options.columns / 2)
+                    : options.columns;
+                block.text.split('\n')
+                    .flatMap(line => wrapText(line, width))
+                    .forEach(line => bytes.push(...encodeText(line, options), LF));
+                break;
+            }
+            case 'row':
+                applyStyle({ bold: block.bold });
+                layoutRow(block.left, block.right, options.columns)
+                    .forEach(line => bytes.push(...encodeText(line, options), LF));
+                break;
+            case 'separator':
+                applyStyle({});
+                bytes.push(...new Array(options.columns).fill(encodeText(block.char || '-', options)[0] || 0x2D), LF);
+                break;
+            case 'feed':
+                bytes.push(ESC, 0x64, Math.min(255, Math.max(0, block.lines)));
+                break;
+            case 'qr':
+                applyStyle({ align: 'center' });
+                bytes.push(...encodeQr(encodeText(block.data, options), block.size || 6));
+                break;
+            case 'barcode':
+                applyStyle({ align: 'center' });
+                bytes.push(...encodeBarcode(block, options));
+                break;
+            case 'cut':
+                bytes.push(GS, 0x56, block.partial ? 0x42 : 0x41, 0x10);
+                break;
+            case 'drawer':
+                bytes.push(ESC, 0x70, 0, 25, 250);
+                break;
+        }
+    });
+
+    return bytes;
+};
+
+// Plain-text receipts from the formatters: lines of only dashes or equals signs become full-width rules
+export const textBlocks = (text: string, align: PrintAlign = 'left'): PrintBlock[] => {
+    return text.split('\n').map((line): PrintBlock => {
+        const rule = line.trim().match(/^([-=])\1{2,}$/);
+        return rule ? { type: 'separator', char: rule[1] } : { type: 'text', text: line, align };
+    });
+};
+
+// BLE characteristics take small writes; the printer buffers them in order
+export const chunkBytes = (bytes: number[], size: number = 100): number[][] => {
+    const chunks: number[][] = [];
+    for (let i = 0; i < bytes.length; i += size) {
+        chunks.push(bytes.slice(i, i + size));
+    }
+    return chunks;
+};
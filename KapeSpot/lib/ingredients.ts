@@ -0,0 +1,282 @@
+// lib/ingredients.ts
+import {
+    getFirestore,
+    collection,
+    getDocs,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    doc,
+    runTransaction
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { Ingredient, IngredientUnit, IngredientUsage, RecipeComponent } from '@/types/ingredient';
+import { ModifierGroup, SelectedModifier } from '@/types/modifier';
+
+const INGREDIENTS_KEY = 'ingredients';
+const PENDING_USAGE_KEY = 'pendingIngredientUsage';
+
+export const INGREDIENT_UNITS: { value: IngredientUnit; label: string }[] = [
+    { value: 'g', label: 'grams' },
+    { value: 'ml', label: 'ml' },
+    { value: 'pc', label: 'pieces' }
+];
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+export const formatIngredientQuantity = (quantity: number, unit: IngredientUnit): string => {
+    return `${roundQuantity(quantity)}${unit === 'pc' ? ' pc' : unit}`;
+};
+
+// Recipes saved from the editor or read back from Firestore; zero/blank rows are dropped
+export const normalizeRecipe = (raw: any): RecipeComponent[] => {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+        .filter(component => component && component.ingredientId && Number(component.quantity) > 0)
+        .map(component => ({
+            ingredientId: String(component.ingredientId),
+            quantity: Number(component.quantity)
+        }));
+};
+
+// Per-unit recipe of a cart line: the item's own recipe plus the recipe of every picked modifier
+// (e.g. "Large" adds 60ml milk, "Extra shot" adds 18g beans)
+export const buildLineRecipe = (
+    itemRecipe: RecipeComponent[] | undefined,
+    groups: ModifierGroup[] | undefined,
+    modifiers: SelectedModifier[] | undefined
+): RecipeComponent[] => {
+    const totals: IngredientUsage = {};
+
+    const add = (components?: RecipeComponent[]) => {
+        (components || []).forEach(component => {
+            totals[component.ingredientId] = roundQuantity((totals[component.ingredientId] || 0) + component.quantity);
+        });
+    };
+
+    add(itemRecipe);
+    (modifiers || []).forEach(modifier => {
+        const group = groups?.find(g => g.id === modifier.groupId);
+        add(group?.options.find(option => option.id === modifier.optionId)?.recipe);
+    });
+
+    return Object.entries(totals).map(([ingredientId, quantity]) => ({ ingredientId, quantity }));
+};
+
+// Total ingredient usage for a set of lines; each line's recipe is per unit sold
+export const computeIngredientUsage = (
+    lines: { recipe?: RecipeComponent[]; quantity: number }[]
+): IngredientUsage => {
+    const usage: IngredientUsage = {};
+
+    lines.forEach(line => {
+        (line.recipe || []).forEach(component => {
+            usage[component.ingredientId] = roundQuantity(
+                (usage[component.ingredientId] || 0) + component.quantity * line.quantity
+            );
+        });
+    });
+
+    return usage;
+};
+
+export const isIngredientLow = (ingredient: Ingredient): boolean => {
+    return ingredient.lowStockThreshold > 0 && ingredient.stock <= ingredient.lowStockThreshold;
+};
+
+export const getLowStockIngredients = (ingredients: Ingredient[]): Ingredient[] => {
+    return ingredients.filter(isIngredientLow);
+};
+
+// ===== Storage =====
+
+const getLocalIngredients = async (): Promise<Ingredient[]> => {
+    const localIngredients = await OfflineSyncService.getInstance().getItem(INGREDIENTS_KEY);
+    return localIngredients ? JSON.parse(localIngredients) : [];
+};
+
+const setLocalIngredients = async (ingredients: Ingredient[]): Promise<void> => {
+    await OfflineSyncService.getInstance().setItem(INGREDIENTS_KEY, JSON.stringify(ingredients));
+};
+
+// Load ingredients from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadIngredients = async (): Promise<Ingredient[]> => {
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            await flushPendingIngredientUsage();
+
+            const db = getFirestore(app);
+            const snapshot = await getDocs(collection(db, 'ingredients'));
+            const ingredients: Ingredient[] = snapshot.docs.map(ingredientDoc => {
+                const data = ingredientDoc.data();
+                return {
+                    id: ingredientDoc.id,
+                    firebaseId: ingredientDoc.id,
+                    name: data.name || '',
+                    unit: (['g', 'ml', 'pc'].includes(data.unit) ? data.unit : 'pc') as IngredientUnit,
+                    stock: Number(data.stock) || 0,
+                    lowStockThreshold: Number(data.lowStockThreshold) || 0,
+                    updated_at: data.updated_at
+                };
+            });
+            ingredients.sort((a, b) => a.name.localeCompare(b.name));
+
+            await setLocalIngredients(ingredients);
+            console.log('✅ Ingredients loaded from Firebase:', ingredients.length);
+            return ingredients;
+        }
+    } catch (error) {
+        console.error('❌ Error loading ingredients from Firebase:', error);
+    }
+
+    return getLocalIngredients();
+};
+
+// Ingredients are managed online only so every tablet depletes the same stock
+export const saveIngredient = async (ingredient: Omit<Ingredient, 'id'> & { id?: string }): Promise<void> => {
+    const db = getFirestore(app);
+    const data = {
+        name: ingredient.name.trim(),
+        unit: ingredient.unit,
+        stock: ingredient.stock,
+        lowStockThreshold: ingredient.lowStockThreshold || 0,
+        updated_at: new Date().toISOString()
+    };
+
+    if (ingredient.firebaseId) {
+        await updateDoc(doc(db, 'ingredients', ingredient.firebaseId), data);
+    } else {
+        await addDoc(collection(db, 'ingredients'), { ...data, created_at: new Date().toISOString() });
+    }
+};
+
+export const deleteIngredient = async (firebaseId: string): Promise<void> => {
+    const db = getFirestore(app);
+    await deleteDoc(doc(db, 'ingredients', firebaseId));
+};
+
+// ===== Depletion / restoration =====
+
+// A stock change waiting to reach Firestore; the id lets a retry see that it was already applied
+interface PendingStockChange {
+    id: string;
+    changes: IngredientUsage;
+}
+
+const createAdjustmentId = (): string => `ing_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Apply signed stock changes in one Firestore transaction so two tablets selling at
+// the same time can't overwrite each other's depletion. The adjustment document is written in the
+// same transaction, so a change that was applied before (a retry after a lost reply) is skipped.
+const applyStockChangesOnline = async (adjustmentId: string, changes: IngredientUsage): Promise<boolean> => {
+    const ids = Object.keys(changes).filter(id => changes[id] !== 0);
+    if (ids.length === 0) return false;
+
+    const db = getFirestore(app);
+    return runTransaction(db, async transaction => {
+        const adjustmentRef = doc(db, 'ingredient_adjustments', adjustmentId);
+        const existing = await transaction.get(adjustmentRef);
+        if (existing.exists()) {
+            return false;
+        }
+
+        const refs = ids.map(id => doc(db, 'ingredients', id));
+        const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+        const updatedAt = new Date().toISOString();
+
+        snapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) {
+                console.log('⚠️ Ingredient no longer exists, skipping:', ids[index]);
+                return;
+            }
+            const stock = Number(snapshot.data().stock) || 0;
+            transaction.update(refs[index], {
+                stock: roundQuantity(stock + changes[ids[index]]),
+                updated_at: updatedAt
+            });
+        });
+        transaction.set(adjustmentRef, { changes, created_at: updatedAt });
+        return true;
+    });
+};
+
+// Keep the local copy in step so the low-stock alert is right while offline
+const applyStockChangesLocally = async (changes: IngredientUsage): Promise<void> => {
+    const ingredients = await getLocalIngredients();
+    await setLocalIngredients(ingredients.map(ingredient =>
+        changes[ingredient.id]
+            ? { ...ingredient, stock: roundQuantity(ingredient.stock + changes[ingredient.id]) }
+            : ingredient
+    ));
+};
+
+const getPendingStockChanges = async (): Promise<PendingStockChange[]> => {
+    const pending = await OfflineSyncService.getInstance().getItem(PENDING_USAGE_KEY);
+    return pending ? JSON.parse(pending) : [];
+};
+
+const adjustIngredientStocks = async (changes: IngredientUsage): Promise<void> => {
+    if (Object.keys(changes).length === 0) return;
+
+    const adjustmentId = createAdjustmentId();
+    await applyStockChangesLocally(changes);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            await applyStockChangesOnline(adjustmentId, changes);
+            console.log('✅ Ingredient stocks updated in Firebase');
+            return;
+        }
+    } catch (error) {
+        console.error('❌ Error updating ingredient stocks in Firebase:', error);
+    }
+
+    // Offline (or the transaction failed): remember the change and apply it once back online
+    const pendingChanges = await getPendingStockChanges();
+    pendingChanges.push({ id: adjustmentId, changes });
+    await OfflineSyncService.getInstance().setItem(PENDING_USAGE_KEY, JSON.stringify(pendingChanges));
+    console.log('📱 Ingredient stock change queued for sync');
+};
+
+// Each queued change goes in its own transaction and leaves the queue once it is in Firestore,
+// so a flush that stops halfway (or runs twice) never applies a change again
+export const flushPendingIngredientUsage = async (): Promise<void> => {
+    const pendingChanges = await getPendingStockChanges();
+    if (pendingChanges.length === 0) return;
+
+    const syncService = OfflineSyncService.getInstance();
+    let synced = 0;
+    for (const pending of pendingChanges) {
+        const applied = await applyStockChangesOnline(pending.id, pending.changes);
+        const remaining = (await getPendingStockChanges()).filter(change => change.id !== pending.id);
+        await syncService.setItem(PENDING_USAGE_KEY, JSON.stringify(remaining));
+        if (applied) synced++;
+    }
+    console.log('✅ Synced', synced, 'queued ingredient stock changes');
+};
+
+const negateUsage = (usage: IngredientUsage): IngredientUsage => {
+    const changes: IngredientUsage = {};
+    Object.entries(usage).forEach(([id, quantity]) => { changes[id] = -quantity; });
+    return changes;
+};
+
+// New orders write their depletion to Firestore in the order's own transaction (lib/orders),
+// so only the local copy is updated here
+export const depleteIngredientsLocally = async (usage: IngredientUsage): Promise<void> => {
+    await applyStockChangesLocally(negateUsage(usage));
+};
+
+export const restoreIngredientsLocally = async (usage: IngredientUsage): Promise<void> => {
+    await applyStockChangesLocally({ ...usage });
+};
+
+export const restockIngredient = async (ingredientId: string, quantity: number): Promise<void> => {
+    await adjustIngredientStocks({ [ingredientId]: quantity });
+};
@@ -0,0 +1,390 @@
+// lib/loyalty.ts
+import {
+    getFirestore,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    where
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { getOrderLineId } from './orders';
+import { OrderDiscount } from '@/types/discount';
+import { OrderLine } from '@/types/order';
+import { RefundRecord } from '@/types/refund';
+import { LoyaltyBalance, LoyaltyEntry, LoyaltySettings, LoyaltySnapshot } from '@/types/loyalty';
+
+const LOYALTY_SETTINGS_KEY = 'loyaltySettings';
+const LOYALTY_LEDGER_KEY = 'loyaltyLedger';
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+    enabled: false,
+    stampsPerReward: 9,
+    stampCategories: [],
+    pesosPerPoint: 10,
+    pointValue: 1,
+    minPointsToRedeem: 50
+};
+
+// What earning and reversing need from an order, whether it came from Firestore or pendingReceipts
+export interface LoyaltyOrder {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerId?: string;
+    customerName: string;
+    items: OrderLine[];
+    total: number;
+    discounts?: OrderDiscount[];
+}
+
+// Same key refunds use, so a refund finds the entries of its order
+const getLoyaltyOrderKey = (order: LoyaltyOrder): string => {
+    return order.idempotencyKey || order.firebaseId || order.orderId;
+};
+
+export const isLoyaltyDiscount = (discount: OrderDiscount): boolean => {
+    return discount.kind === 'reward' || discount.kind === 'points';
+};
+
+export const earnsStamps = (item: { category?: string }, settings: LoyaltySettings): boolean => {
+    return settings.stampCategories.length === 0 || (!!item.category && settings.stampCategories.includes(item.category));
+};
+
+export const getLoyaltyBalance = (entries: LoyaltyEntry[]): LoyaltyBalance => {
+    return entries.reduce(
+        (balance, entry) => ({ stamps: balance.stamps + entry.stamps, points: balance.points + entry.points }),
+        { stamps: 0, points: 0 }
+    );
+};
+
+// Stamps per line of the order, leaving out cancelled and refunded lines and units taken free as a reward.
+// Points go by what the customer actually paid.
+export const computeLoyaltyEarned = (
+    order: LoyaltyOrder,
+    settings: LoyaltySettings
+): { stamps: number; points: number; lineStamps: Record<string, number> } => {
+    const lineStamps: Record<string, number> = {};
+    order.items.forEach((item, index) => {
+        if (item.cancelled || item.refunded || !earnsStamps(item, settings)) return;
+        const lineId = getOrderLineId(item, index);
+        const freeUnits = (order.discounts || [])
+            .filter(discount => discount.kind === 'reward' && discount.lineId === (item.lineId || item.id) && discount.amount > 0)
+            .length;
+        const stamps = (Number(item.quantity) || 0) - freeUnits;
+        if (stamps > 0) lineStamps[lineId] = stamps;
+    });
+
+    return {
+        stamps: Object.values(lineStamps).reduce((sum, stamps) => sum + stamps, 0),
+        points: settings.pesosPerPoint > 0 ? Math.floor(order.total / settings.pesosPerPoint) : 0,
+        lineStamps
+    };
+};
+
+// What the loyalty discounts of an order take off the balance. Points are counted from the amount
+// actually deducted, in case the order total came out lower than the points offered.
+export const computeLoyaltyRedeemed = (discounts: OrderDiscount[], settings: LoyaltySettings): LoyaltyBalance => {
+    return discounts.reduce((redeemed, discount) => {
+        if (discount.kind === 'reward' && discount.amount > 0) {
+            return { ...redeemed, stamps: redeemed.stamps + (discount.stamps || settings.stampsPerReward) };
+        }
+        if (discount.kind === 'points' && discount.amount > 0) {
+            const used = Math.min(discount.points || 0, Math.ceil(discount.amount / Math.max(settings.pointValue, 0.01)));
+            return { ...redeemed, points: redeemed.points + used };
+        }
+        return redeemed;
+    }, { stamps: 0, points: 0 });
+};
+
+// The cheapest unit in the cart that can be taken free with a full stamp card
+export const buildStampReward = (
+    lines: { lineId: string; name: string; price: number; category?: string }[],
+    settings: LoyaltySettings
+): OrderDiscount | null => {
+    const eligible = lines
+        .filter(line => line.price > 0 && earnsStamps(line, settings))
+        .sort((a, b) => a.price - b.price)[0];
+    if (!eligible) return null;
+
+    return {
+        id: `reward_${Date.now()}`,
+        kind: 'reward',
+        label: `Free ${eligible.name}`,
+        valueType: 'fixed',
+        value: eligible.price,
+        amount: 0,
+        lineId: eligible.lineId,
+        stamps: settings.stampsPerReward
+    };
+};
+
+// Spends as many points as the balance allows without going past what is left to pay
+export const buildPointsRedemption = (
+    balance: LoyaltyBalance,
+    amountDue: number,
+    settings: LoyaltySettings
+): OrderDiscount | null => {
+    if (settings.pointValue <= 0 || balance.points < settings.minPointsToRedeem) return null;
+    const points = Math.min(balance.points, Math.floor(amountDue / settings.pointValue));
+    if (points <= 0) return null;
+
+    return {
+        id: `points_${Date.now()}`,
+        kind: 'points',
+        label: `${points} points`,
+        valueType: 'fixed',
+        value: points * settings.pointValue,
+        amount: 0,
+        points
+    };
+};
+
+// Balance the receipt shows: what the customer has now, less this order's redemptions, plus what it earns once paid
+export const buildLoyaltySnapshot = (
+    balance: LoyaltyBalance,
+    order: LoyaltyOrder,
+    settings: LoyaltySettings
+): LoyaltySnapshot => {
+    const redeemed = computeLoyaltyRedeemed(order.discounts || [], settings);
+    const earned = computeLoyaltyEarned(order, settings);
+    return {
+        stamps: balance.stamps - redeemed.stamps + earned.stamps,
+        points: balance.points - redeemed.points + earned.points,
+        stampsEarned: earned.stamps,
+        pointsEarned: earned.points,
+        stampsPerReward: settings.stampsPerReward
+    };
+};
+
+// Plain-text lines for the thermal receipt
+export const formatLoyaltyLines = (snapshot: LoyaltySnapshot): string => {
+    const card = snapshot.stamps >= snapshot.stampsPerReward
+        ? `${snapshot.stamps} - FREE ITEM READY`
+        : `${snapshot.stamps}/${snapshot.stampsPerReward}`;
+    return `STAMPS: ${card}${snapshot.stampsEarned > 0 ? ` (+${snapshot.stampsEarned})` : ''}\n` +
+        `POINTS: ${snapshot.points}${snapshot.pointsEarned > 0 ? ` (+${snapshot.pointsEarned})` : ''}\n`;
+};
+
+// ===== Settings =====
+
+// Load the loyalty settings from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadLoyaltySettings = async (): Promise<LoyaltySettings> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const settingsDoc = await getDoc(doc(getFirestore(app), 'settings', 'loyalty'));
+
+            if (settingsDoc.exists()) {
+                const settings: LoyaltySettings = { ...DEFAULT_LOYALTY_SETTINGS, ...settingsDoc.data() };
+                await syncService.setItem(LOYALTY_SETTINGS_KEY, JSON.stringify(settings));
+                console.log('✅ Loyalty settings loaded from Firebase');
+                return settings;
+            }
+        }
+    } catch (error) {
+        console.error('❌ Error loading loyalty settings from Firebase:', error);
+    }
+
+    const localSettings = await syncService.getItem(LOYALTY_SETTINGS_KEY);
+    return localSettings ? { ...DEFAULT_LOYALTY_SETTINGS, ...JSON.parse(localSettings) } : DEFAULT_LOYALTY_SETTINGS;
+};
+
+export const saveLoyaltySettings = async (settings: LoyaltySettings): Promise<void> => {
+    const data = { ...settings, updated_at: new Date().toISOString() };
+
+    await setDoc(doc(getFirestore(app), 'settings', 'loyalty'), data);
+    await OfflineSyncService.getInstance().setItem(LOYALTY_SETTINGS_KEY, JSON.stringify(data));
+    console.log('✅ Loyalty settings saved');
+};
+
+// ===== Ledger =====
+
+const getLocalLedger = async (): Promise<LoyaltyEntry[]> => {
+    const localLedger = await OfflineSyncService.getInstance().getItem(LOYALTY_LEDGER_KEY);
+    return localLedger ? JSON.parse(localLedger) : [];
+};
+
+// Adds entries to the local ledger, replacing any with the same id
+const saveLocalEntries = async (entries: LoyaltyEntry[]): Promise<void> => {
+    const ids = new Set(entries.map(entry => entry.id));
+    const localLedger = await getLocalLedger();
+    await OfflineSyncService.getInstance().setItem(LOYALTY_LEDGER_KEY, JSON.stringify([
+        ...localLedger.filter(entry => !ids.has(entry.id)),
+        ...entries
+    ]));
+};
+
+// Firestore entries matching the query, kept locally so the balance is still there offline,
+// plus this tablet's entries that haven't synced yet. Newest first.
+const loadEntries = async (field: 'customerId' | 'orderKey', value: string): Promise<LoyaltyEntry[]> => {
+    const localEntries = (await getLocalLedger()).filter(entry => entry[field] === value);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const snapshot = await getDocs(query(collection(getFirestore(app), 'loyalty_ledger'), where(field, '==', value)));
+            const remote = snapshot.docs.map(entryDoc => ({ ...entryDoc.data(), id: entryDoc.id, synced: true } as LoyaltyEntry));
+            await saveLocalEntries(remote);
+
+            const remoteIds = new Set(remote.map(entry => entry.id));
+            return [...remote, ...localEntries.filter(entry => !remoteIds.has(entry.id))]
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        }
+    } catch (error) {
+        console.error('❌ Error loading loyalty ledger from Firebase:', error);
+    }
+
+    return localEntries.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+export const loadLoyaltyLedger = async (customerId: string): Promise<LoyaltyEntry[]> => {
+    return loadEntries('customerId', customerId);
+};
+
+// Writes an entry once: local ledger first, then Firestore or the sync queue.
+// An id already in the local ledger means it was recorded before and nothing happens.
+const recordEntry = async (entry: LoyaltyEntry): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    if ((await getLocalLedger()).some(existing => existing.id === entry.id)) {
+        console.log('⏭️ Loyalty entry already recorded:', entry.id);
+        return;
+    }
+    await saveLocalEntries([entry]);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            await setDoc(doc(getFirestore(app), 'loyalty_ledger', entry.id), entry);
+        } else {
+            await syncService.addPendingLoyaltyEntry(entry);
+        }
+    } catch (error) {
+        console.error('❌ Error saving loyalty entry to Firebase - queued for sync:', error);
+        await syncService.addPendingLoyaltyEntry(entry);
+    }
+    console.log('⭐ Loyalty', entry.kind, 'for', entry.customerName, { stamps: entry.stamps, points: entry.points });
+};
+
+// Called once an order is committed: takes the free item and points it used off the customer's balance.
+// Errors are logged rather than thrown, here and when earning, so the order itself never fails on loyalty.
+export const recordLoyaltyRedemption = async (order: LoyaltyOrder, settings: LoyaltySettings): Promise<void> => {
+    if (!order.customerId) return;
+    const redeemed = computeLoyaltyRedeemed(order.discounts || [], settings);
+    if (redeemed.stamps === 0 && redeemed.points === 0) return;
+
+    try {
+        const orderKey = getLoyaltyOrderKey(order);
+        await recordEntry({
+            id: `redeem_${orderKey}`,
+            customerId: order.customerId,
+            customerName: order.customerName,
+            kind: 'redeem',
+            orderId: order.orderId,
+            orderKey,
+            stamps: -redeemed.stamps,
+            points: -redeemed.points,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('❌ Error recording loyalty redeemed:', error);
+    }
+};
+
+// Called when an order is marked paid
+export const earnLoyalty = async (order: LoyaltyOrder): Promise<void> => {
+    if (!order.customerId) return;
+
+    try {
+        const settings = await loadLoyaltySettings();
+        if (!settings.enabled) return;
+
+        const earned = computeLoyaltyEarned(order, settings);
+        if (earned.stamps === 0 && earned.points === 0) return;
+
+        const orderKey = getLoyaltyOrderKey(order);
+        await recordEntry({
+            id: `earn_${orderKey}`,
+            customerId: order.customerId,
+            customerName: order.customerName,
+            kind: 'earn',
+            orderId: order.orderId,
+            orderKey,
+            stamps: earned.stamps,
+            points: earned.points,
+            lineStamps: earned.lineStamps,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('❌ Error recording loyalty earned:', error);
+    }
+};
+
+// Takes back what the refunded lines earned (all of it on a full refund) and, when the whole order
+// is voided or refunded, gives back what it redeemed. Works from the order's ledger entries, so
+// orders without a customer or without loyalty activity are left alone.
+export const reverseLoyaltyForRefund = async (refund: RefundRecord): Promise<void> => {
+    try {
+        const settings = await loadLoyaltySettings();
+        const entries = await loadEntries('orderKey', refund.orderKey);
+        if (entries.length === 0) return;
+
+        const earnEntry = entries.find(entry => entry.kind === 'earn');
+        const redeemed = getLoyaltyBalance(entries.filter(entry => entry.kind === 'redeem'));
+        const earned = getLoyaltyBalance(entries.filter(entry => entry.kind === 'earn'));
+        // Only the last, full refund gives anything back, so earlier reversals all took back earnings
+        const reversed = getLoyaltyBalance(entries.filter(entry => entry.kind === 'reverse'));
+        const earnedLeft = {
+            stamps: Math.max(0, earned.stamps + reversed.stamps),
+            points: Math.max(0, earned.points + reversed.points)
+        };
+
+        let stamps = 0;
+        let points = 0;
+        if (refund.kind === 'refund') {
+            stamps = refund.full
+                ? earnedLeft.stamps
+                : Math.min(earnedLeft.stamps, refund.lines.reduce((sum, line) =>
+                    sum + Math.min(line.quantity, earnEntry?.lineStamps?.[line.lineId] || 0), 0));
+            points = refund.full
+                ? earnedLeft.points
+                : Math.min(earnedLeft.points, settings.pesosPerPoint > 0 ? Math.floor(refund.amount / settings.pesosPerPoint) : 0);
+        }
+
+        const giveBack = refund.full ? { stamps: -redeemed.stamps, points: -redeemed.points } : { stamps: 0, points: 0 };
+        const change = { stamps: giveBack.stamps - stamps, points: giveBack.points - points };
+        if (change.stamps === 0 && change.points === 0) return;
+
+        const owner = entries[0];
+        await recordEntry({
+            id: `reverse_${refund.id}`,
+            customerId: owner.customerId,
+            customerName: owner.customerName,
+            kind: 'reverse',
+            orderId: refund.orderId,
+            orderKey: refund.orderKey,
+            stamps: change.stamps,
+            points: change.points,
+            refundId: refund.id,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error('❌ Error reversing loyalty for refund:', error);
+    }
+};
+
+export const describeLoyaltyEntry = (entry: LoyaltyEntry): string => {
+    const parts = [
+        entry.stamps !== 0 ? `${entry.stamps > 0 ? '+' : ''}${entry.stamps} stamps` : '',
+        entry.points !== 0 ? `${entry.points > 0 ? '+' : ''}${entry.points} pts` : ''
+    ].filter(Boolean);
+    const label = entry.kind === 'earn' ? 'Earned' : entry.kind === 'redeem' ? 'Redeemed' : 'Reversed';
+    return `${label} · ${parts.join(', ')}`;
+};
@@ -0,0 +1,76 @@
+// lib/manager-approval.ts
+import * as Crypto from 'expo-crypto';
+import { OfflineSyncService } from './offline-sync';
+
+// Holds { salt, hash } of the PIN; tablets set up before PINs were hashed have the plain PIN here
+const MANAGER_PIN_KEY = 'managerPin';
+
+interface StoredManagerPin {
+    salt: string;
+    hash: string; // SHA-256 of "salt:pin"
+}
+
+export interface CurrentUser {
+    id: string;
+    username: string;
+    name: string;
+    role: 'admin' | 'user';
+}
+
+export const getCurrentUser = async (): Promise<CurrentUser | null> => {
+    try {
+        const userData = await OfflineSyncService.getInstance().getItem('currentUser');
+        return userData ? JSON.parse(userData) : null;
+    } catch (error) {
+        console.error('❌ Error loading current user:', error);
+        return null;
+    }
+};
+
+const hashPin = (pin: string, salt: string): Promise<string> => {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+};
+
+export const hasManagerPin = async (): Promise<boolean> => {
+    const pin = await OfflineSyncService.getInstance().getItem(MANAGER_PIN_KEY);
+    return !!pin;
+};
+
+// Only a salted hash is kept, so the PIN can't be read back from the tablet's storage
+export const setManagerPin = async (pin: string): Promise<void> => {
+    const salt = Array.from(Crypto.getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+    const stored: StoredManagerPin = { salt, hash: await hashPin(pin.trim(), salt) };
+    await OfflineSyncService.getInstance().setItem(MANAGER_PIN_KEY, JSON.stringify(stored));
+    console.log('✅ Manager PIN updated');
+};
+
+const checkManagerPin = async (pin: string): Promise<boolean> => {
+    const stored = await OfflineSyncService.getInstance().getItem(MANAGER_PIN_KEY);
+    if (!stored) return false;
+
+    if (!stored.startsWith('{')) {
+        // Plain PIN from before hashing: check it, then replace it with its hash
+        if (stored !== pin) return false;
+        await setManagerPin(pin);
+        return true;
+    }
+
+    const { salt, hash }: StoredManagerPin = JSON.parse(stored);
+    return (await hashPin(pin, salt)) === hash;
+};
+
+// Returns the name to record as approver, or null when the approval is rejected.
+// Admins approve their own actions; everyone else needs the manager PIN set on this tablet.
+export const requestManagerApproval = async (pin: string): Promise<string | null> => {
+    const currentUser = await getCurrentUser();
+    if (currentUser?.role === 'admin') {
+        return currentUser.name || currentUser.username;
+    }
+
+    if (!(await checkManagerPin(pin.trim()))) {
+        console.log('❌ Manager approval rejected');
+        return null;
+    }
+
+    return `Manager PIN (${currentUser?.name || 'cashier'})`;
+};
@@ -0,0 +1,93 @@
+// lib/modifiers.ts
+import { roundMoney } from './payments';
+import { normalizeRecipe } from './ingredients';
+import { ModifierGroup, ModifierOption, SelectedModifier } from '@/types/modifier';
+
+export const createModifierId = (prefix: 'grp' | 'opt'): string => {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+};
+
+// Items saved before modifiers existed have no groups; anything malformed from Firestore is dropped
+export const normalizeModifierGroups = (raw: any): ModifierGroup[] => {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+        .filter(group => group && String(group.name || '').trim() && Array.isArray(group.options))
+        .map(group => ({
+            id: group.id || createModifierId('grp'),
+            name: String(group.name).trim(),
+            required: !!group.required,
+            multiSelect: !!group.multiSelect,
+            maxSelect: Number(group.maxSelect) || 0,
+            options: group.options
+                .filter((option: any) => option && String(option.name || '').trim())
+                .map((option: any): ModifierOption => ({
+                    id: option.id || createModifierId('opt'),
+                    name: String(option.name).trim(),
+                    priceDelta: Number(option.priceDelta) || 0,
+                    recipe: normalizeRecipe(option.recipe),
+                    cupName: String(option.cupName || '').trim()
+                }))
+        }))
+        .filter(group => group.options.length > 0);
+};
+
+export const getModifiersTotal = (modifiers?: SelectedModifier[]): number => {
+    if (!modifiers || modifiers.length === 0) return 0;
+    return roundMoney(modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0));
+};
+
+// Same item with the same picks stacks on one cart line, different picks get their own line
+export const buildCartLineId = (itemId: string, modifiers?: SelectedModifier[]): string => {
+    if (!modifiers || modifiers.length === 0) return itemId;
+
+    const signature = modifiers
+        .map(modifier => `${modifier.groupId}:${modifier.optionId}`)
+        .sort()
+        .join('|');
+    return `${itemId}#${signature}`;
+};
+
+// Returns an error message when the picks don't satisfy the groups, null when they do
+export const validateModifierSelection = (
+    groups: ModifierGroup[],
+    selected: SelectedModifier[]
+): string | null => {
+    for (const group of groups) {
+        const picks = selected.filter(modifier => modifier.groupId === group.id);
+
+        if (group.required && picks.length === 0) {
+            return `Please choose ${group.name}.`;
+        }
+        if (!group.multiSelect && picks.length > 1) {
+            return `Only one ${group.name} can be chosen.`;
+        }
+        if (group.multiSelect && group.maxSelect && picks.length > group.maxSelect) {
+            return `Choose up to ${group.maxSelect} for ${group.name}.`;
+        }
+    }
+    return null;
+};
+
+export const describeModifierDelta = (priceDelta: number): string => {
+    if (!priceDelta) return '';
+    return priceDelta > 0 ? `+₱${priceDelta.toFixed(2)}` : `-₱${Math.abs(priceDelta).toFixed(2)}`;
+};
+
+// One-line summary for cart rows and barista cards, e.g. "Large, Less sugar, Extra shot"
+export const formatModifierSummary = (modifiers?: SelectedModifier[]): string => {
+    if (!modifiers || modifiers.length === 0) return '';
+    return modifiers.map(modifier => modifier.optionName).join(', ');
+};
+
+// Plain-text lines for the thermal receipt, indented under the item
+export const formatModifierLines = (modifiers?: SelectedModifier[]): string => {
+    if (!modifiers || modifiers.length === 0) return '';
+
+    return modifiers
+        .map(modifier => {
+            const delta = describeModifierDelta(modifier.priceDelta);
+            return `  + ${modifier.optionName}${delta ? ` ${delta}` : ''}\n`;
+        })
+        .join('');
+};
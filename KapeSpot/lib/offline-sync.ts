@@ -4,6 +4,7 @@ import { NetworkScanner } from './network-scanner';
 import { Alert } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
+    Firestore,
     getFirestore,
     collection,
     addDoc,
@@ -13,24 +14,36 @@ import {
     query,
     where,
     deleteDoc,
-    orderBy
+    orderBy,
+    runTransaction,
+    setDoc
 } from 'firebase/firestore';
 import { app } from './firebase-config';
-
-// In offline-sync.ts - update the PendingItem interface
-interface PendingItem {
-    id: string;
-    type: 'CREATE_ITEM' | 'UPDATE_ITEM' | 'DELETE_ITEM' | 'CREATE_CATEGORY' | 'UPDATE_CATEGORY' | 'DELETE_CATEGORY' | 'CREATE_CUP' | 'UPDATE_CUP' | 'DELETE_CUP' | 'CREATE_ORDER' | 'UPDATE_ORDER';
-    data: any;
-    timestamp: number;
-    retryCount: number;
-    serverId?: string;
-}
+import { Tender } from '@/types/payment';
+import { OrderDiscount } from '@/types/discount';
+import { IngredientUsage } from '@/types/ingredient';
+import { BillSplitMode, OrderAddition, OrderBill, OrderLine, OrderMerge, OrderSyncState } from '@/types/order';
+import { commitOrder, commitOrderAddition, commitOrderMerge, commitRefund } from './orders';
+import { RefundRecord } from '@/types/refund';
+import { Customer } from '@/types/customer';
+import { LoyaltyEntry, LoyaltySnapshot } from '@/types/loyalty';
+import { CreditEntry } from '@/types/credit';
+import { ConflictCollection, ConflictField, SyncConflict } from '@/types/conflict';
+import { SyncBackend, SyncEngine, SyncOperation, SyncQueueStore, mergeOfflineChanges } from './sync-engine';
+
+// Queued offline writes; replayed by the sync engine (see lib/sync-engine.ts)
+type PendingItem = SyncOperation;
+
+const PENDING_ITEMS_KEY = 'pendingItems';
+const DEAD_LETTER_KEY = 'deadLetterItems';
+const CONFLICTS_KEY = 'syncConflicts';
+const REFUNDS_KEY = 'refunds';
 
 interface ReceiptData {
     orderId: string;
     customerName: string;
-    items: any[];
+    customerId?: string;
+    items: OrderLine[];
     subtotal: number;
     total: number;
     timestamp: string;
@@ -38,6 +51,30 @@ interface ReceiptData {
     firebaseId?: string;
     orderType?: 'dine-in' | 'take-out'; // ADD THIS LINE
     cupsUsed?: number;
+    cupsBreakdown?: Record<string, number>;
+    ingredientUsage?: IngredientUsage;
+    sequence?: number;
+    idempotencyKey?: string;
+    syncState?: OrderSyncState;
+    notes?: string;
+    payments?: Tender[];
+    amountTendered?: number;
+    changeDue?: number;
+    discounts?: OrderDiscount[];
+    discountTotal?: number;
+    vatableSales?: number;
+    vatAmount?: number;
+    vatExemptSales?: number;
+    serviceCharge?: number;
+    refundedTotal?: number;
+    allItemsReady?: boolean;
+    tableId?: string;
+    tableName?: string;
+    splitMode?: BillSplitMode;
+    bills?: OrderBill[];
+    mergedFrom?: string[];
+    mergedInto?: string;
+    loyalty?: LoyaltySnapshot; // the customer's stamps and points as printed on the receipt
   }
 // ADD CUPITEM INTERFACE HERE
 interface CupItem {
@@ -76,6 +113,94 @@ interface CupItem {
   size?: string;
 }
 
+// Firestore writes the sync handlers are allowed to make
+const createFirestoreBackend = (db: Firestore): SyncBackend => ({
+  create: async (collectionName, data) => (await addDoc(collection(db, collectionName), data)).id,
+  update: async (collectionName, id, data) => { await updateDoc(doc(db, collectionName, id), data); },
+  remove: async (collectionName, id) => { await deleteDoc(doc(db, collectionName, id)); },
+  set: async (collectionName, id, data) => { await setDoc(doc(db, collectionName, id), data, { merge: true }); },
+  updateWithLatest: async (collectionName, id, buildUpdate) => {
+    const ref = doc(db, collectionName, id);
+    await runTransaction(db, async transaction => {
+      const snapshot = await transaction.get(ref);
+      const update = buildUpdate(snapshot.exists() ? snapshot.data() : null);
+      if (update) {
+        transaction.update(ref, update);
+      }
+    });
+  },
+  commitOrder: order => commitOrder(db, order),
+  commitRefund: refund => commitRefund(db, refund),
+  commitOrderAddition: addition => commitOrderAddition(db, addition),
+  commitOrderMerge: merge => commitOrderMerge(db, merge)
+});
+
+const buildItemFields = (data: any) => ({
+  code: data.code,
+  name: data.name,
+  price: Number(data.price) || 0,
+  category: data.category || 'Uncategorized',
+  stocks: Number(data.stocks) || 0,
+  status: data.status !== false,
+  modifierGroups: data.modifierGroups || [],
+  bundleSlots: data.bundleSlots || [],
+  recipe: data.recipe || [],
+  cupName: data.cupName || '',
+  updated_at: new Date().toISOString()
+});
+
+const buildCategoryFields = (data: any) => ({
+  name: data.name,
+  icon: data.icon || 'folder',
+  items_count: Number(data.items_count) || 0,
+  updated_at: new Date().toISOString()
+});
+
+const buildCupFields = (data: any) => ({
+  name: data.name,
+  size: data.size || '',
+  stocks: Number(data.stocks) || 0,
+  status: data.status !== false,
+  updated_at: new Date().toISOString()
+});
+
+const buildCustomerFields = (data: any) => ({
+  name: data.name,
+  phone: data.phone || '',
+  birthday: data.birthday || '',
+  notes: data.notes || '',
+  creditLimit: Number(data.creditLimit) || 0,
+  created_at: data.created_at || new Date().toISOString(),
+  updated_at: data.updated_at || new Date().toISOString()
+});
+
+const buildLoyaltyEntryFields = (data: any) => ({
+  customerId: data.customerId,
+  customerName: data.customerName || '',
+  kind: data.kind,
+  orderId: data.orderId || '',
+  orderKey: data.orderKey || '',
+  stamps: Number(data.stamps) || 0,
+  points: Number(data.points) || 0,
+  ...(data.lineStamps ? { lineStamps: data.lineStamps } : {}),
+  ...(data.refundId ? { refundId: data.refundId } : {}),
+  timestamp: data.timestamp || new Date().toISOString()
+});
+
+const buildCreditEntryFields = (data: any) => ({
+  customerId: data.customerId,
+  customerName: data.customerName || '',
+  kind: data.kind,
+  amount: Number(data.amount) || 0,
+  ...(data.orderId ? { orderId: data.orderId } : {}),
+  ...(data.orderKey ? { orderKey: data.orderKey } : {}),
+  ...(data.refundId ? { refundId: data.refundId } : {}),
+  ...(data.tender ? { tender: data.tender } : {}),
+  ...(data.reference ? { reference: data.reference } : {}),
+  ...(data.receivedBy ? { receivedBy: data.receivedBy } : {}),
+  timestamp: data.timestamp || new Date().toISOString()
+});
+
 export interface SyncStatus {
   isSyncing: boolean;
   lastSync: number | null;
@@ -96,8 +221,10 @@ export class OfflineSyncService {
   };
   private syncListeners: ((status: SyncStatus) => void)[] = [];
   private db = getFirestore(app);
+  private syncEngine: SyncEngine;
 
   private constructor() {
+    this.syncEngine = this.createSyncEngine();
     this.initializeSync();
   }
 
@@ -368,7 +495,7 @@ export class OfflineSyncService {
 
   public async getPendingItems(): Promise<PendingItem[]> {
     try {
-      const pendingJson = await this.getItem('pendingItems');
+      const pendingJson = await this.getItem(PENDING_ITEMS_KEY);
       const pending = pendingJson ? JSON.parse(pendingJson) : [];
       console.log('⏳ Pending sync items:', pending.length);
       return pending;
@@ -402,439 +529,451 @@ export class OfflineSyncService {
     console.log('🔄 Starting Firebase sync process...');
 
     try {
+        // Lost the connection since the last status check: keep the queue for the next attempt
         const connectionMode = await NetworkScanner.getApiBaseUrl();
-        
         if (connectionMode === 'offline') {
-            console.log('📱 Demo mode - clearing pending items');
-            await this.setItem('pendingItems', '[]');
-            await this.updateSyncStatus({ 
-                isSyncing: false, 
-                lastSync: Date.now(),
-                pendingItems: 0 
-            });
+            console.log('📱 Connection dropped - pending items kept for later');
+            await this.updateSyncStatus({ isSyncing: false });
             return;
         }
 
-        const pendingItems = await this.getPendingItems();
-        
-        if (pendingItems.length === 0) {
-            console.log('✅ No pending items to sync');
-            await this.updateSyncStatus({ 
-                isSyncing: false,
-                lastSync: Date.now()
-            });
-            return;
+        const result = await this.syncEngine.run();
+
+        await this.updateSyncStatus({
+            isSyncing: false,
+            lastSync: Date.now(),
+            pendingItems: result.remaining
+        });
+
+        await this.setItem('lastSync', Date.now().toString());
+
+        console.log('📊 Firebase sync completed:', {
+            ...result,
+            totalTime: 'Completed at ' + new Date().toLocaleTimeString()
+        });
+
+        if (result.failed > 0) {
+            console.log('⚠️ Some items failed to sync. They will be retried with backoff.');
+        }
+        if (result.deadLettered > 0) {
+            console.log('🪦 Items moved to the dead-letter queue:', result.deadLettered);
         }
 
-        console.log('📤 Syncing', pendingItems.length, 'pending items to Firebase...');
-
-        let successCount = 0;
-        let failCount = 0;
-        const updatedPendingItems = [...pendingItems]; // Create a copy to modify
-
-        for (let i = 0; i < pendingItems.length; i++) {
-            const pendingItem = pendingItems[i];
-            try {
-                console.log(`🔄 Syncing item: ${pendingItem.data.name} (Attempt: ${pendingItem.retryCount + 1})`);
-
-                let success = false;
-                let firebaseId: string | null = null;
-
-                switch (pendingItem.type) {
-                    case 'CREATE_ITEM':
-                        console.log('🔥 Creating item in Firebase:', pendingItem.data.name);
-                        
-                        // Prepare item data for Firebase
-                        const itemData = {
-                            code: pendingItem.data.code,
-                            name: pendingItem.data.name,
-                            price: Number(pendingItem.data.price) || 0,
-                            category: pendingItem.data.category || 'Uncategorized',
-                            stocks: Number(pendingItem.data.stocks) || 0,
-                            status: pendingItem.data.status !== false,
-                            image_base64: pendingItem.data.image_base64 || null,
-                            has_image: pendingItem.data.has_image || false,
-                            sales: Number(pendingItem.data.sales) || 0,
-                            created_at: new Date().toISOString(),
-                            updated_at: new Date().toISOString()
-                        };
-
-                        const docRef = await addDoc(collection(this.db, 'items'), itemData);
-                        firebaseId = docRef.id;
-                        
-                        console.log('✅ Item created in Firebase:', {
-                            name: pendingItem.data.name,
-                            firebaseId: firebaseId
-                        });
-
-                        // Update local storage with Firebase ID
-                        const localItems = await this.getLocalItems();
-                        const updatedItems = localItems.map(item => 
-                            item.id === pendingItem.id 
-                                ? { 
-                                    ...item, 
-                                    id: firebaseId, 
-                                    firebaseId: firebaseId,
-                                    isOffline: false, 
-                                    syncStatus: 'synced',
-                                    lastSynced: Date.now()
-                                }
-                                : item
-                        );
-                        await this.setItem('localItems', JSON.stringify(updatedItems));
-                        
-                        success = true;
-                        successCount++;
-                        
-                        // Remove from pending items array
-                        const index = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                        if (index !== -1) {
-                            updatedPendingItems.splice(index, 1);
-                        }
-                        break;
-
-                    case 'UPDATE_ITEM':
-                        console.log('🔥 Updating item in Firebase:', pendingItem.data.name);
-                        
-                        if (pendingItem.data.firebaseId) {
-                            const itemDoc = doc(this.db, 'items', pendingItem.data.firebaseId);
-                            await updateDoc(itemDoc, {
-                                code: pendingItem.data.code,
-                                name: pendingItem.data.name,
-                                price: Number(pendingItem.data.price) || 0,
-                                category: pendingItem.data.category || 'Uncategorized',
-                                stocks: Number(pendingItem.data.stocks) || 0,
-                                status: pendingItem.data.status !== false,
-                                updated_at: new Date().toISOString()
-                            });
-                            
-                            console.log('✅ Item updated in Firebase:', pendingItem.data.name);
-                            success = true;
-                            successCount++;
-                            
-                            // Remove from pending items array
-                            const updateIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                            if (updateIndex !== -1) {
-                                updatedPendingItems.splice(updateIndex, 1);
-                            }
-                        } else {
-                            console.log('❌ No Firebase ID for update:', pendingItem.data.name);
-                            updatedPendingItems[i].retryCount += 1;
-                            failCount++;
-                        }
-                        break;
-
-                    case 'DELETE_ITEM':
-                        console.log('🔥 Deleting item from Firebase:', pendingItem.data.name);
-                        
-                        if (pendingItem.data.firebaseId) {
-                            const itemDoc = doc(this.db, 'items', pendingItem.data.firebaseId);
-                            await deleteDoc(itemDoc);
-                            
-                            console.log('✅ Item deleted from Firebase:', pendingItem.data.name);
-                            success = true;
-                            successCount++;
-                            
-                            // Remove from pending items array
-                            const deleteIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                            if (deleteIndex !== -1) {
-                                updatedPendingItems.splice(deleteIndex, 1);
-                            }
-                        } else {
-                            console.log('❌ No Firebase ID for delete:', pendingItem.data.name);
-                            updatedPendingItems[i].retryCount += 1;
-                            failCount++;
-                        }
-                        break;
-
-                    case 'CREATE_CATEGORY':
-                        console.log('🔥 Creating category in Firebase:', pendingItem.data.name);
-                        
-                        const categoryData = {
-                            name: pendingItem.data.name,
-                            icon: pendingItem.data.icon || 'folder',
-                            items_count: Number(pendingItem.data.items_count) || 0,
-                            created_at: new Date().toISOString(),
-                            updated_at: new Date().toISOString()
-                        };
-
-                        const categoryDocRef = await addDoc(collection(this.db, 'categories'), categoryData);
-                        const categoryFirebaseId = categoryDocRef.id;
-                        
-                        console.log('✅ Category created in Firebase:', {
-                            name: pendingItem.data.name,
-                            firebaseId: categoryFirebaseId
-                        });
-
-                        // Update local storage with Firebase ID
-                        const localCategories = await this.getLocalCategories();
-                        const updatedCategories = localCategories.map(cat => 
-                            cat.id === pendingItem.id 
-                                ? { 
-                                    ...cat, 
-                                    id: categoryFirebaseId, 
-                                    firebaseId: categoryFirebaseId,
-                                    isOffline: false, 
-                                    syncStatus: 'synced',
-                                    lastSynced: Date.now()
-                                }
-                                : cat
-                        );
-                        await this.setItem('localCategories', JSON.stringify(updatedCategories));
-                        
-                        success = true;
-                        successCount++;
-                        
-                        // Remove from pending items array
-                        const catIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                        if (catIndex !== -1) {
-                            updatedPendingItems.splice(catIndex, 1);
-                        }
-                        break;
-
-                    case 'UPDATE_CATEGORY':
-                        console.log('🔥 Updating category in Firebase:', pendingItem.data.name);
-                        
-                        if (pendingItem.data.firebaseId) {
-                            const categoryDoc = doc(this.db, 'categories', pendingItem.data.firebaseId);
-                            await updateDoc(categoryDoc, {
-                                name: pendingItem.data.name,
-                                icon: pendingItem.data.icon || 'folder',
-                                items_count: Number(pendingItem.data.items_count) || 0,
-                                updated_at: new Date().toISOString()
-                            });
-                            
-                            console.log('✅ Category updated in Firebase:', pendingItem.data.name);
-                            success = true;
-                            successCount++;
-                            
-                            // Remove from pending items array
-                            const updateCatIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                            if (updateCatIndex !== -1) {
-                                updatedPendingItems.splice(updateCatIndex, 1);
-                            }
-                        } else {
-                            console.log('❌ No Firebase ID for category update:', pendingItem.data.name);
-                            updatedPendingItems[i].retryCount += 1;
-                            failCount++;
-                        }
-                        break;
-
-                    case 'DELETE_CATEGORY':
-                        console.log('🔥 Deleting category from Firebase:', pendingItem.data.name);
-                        
-                        if (pendingItem.data.firebaseId) {
-                            const categoryDoc = doc(this.db, 'categories', pendingItem.data.firebaseId);
-                            await deleteDoc(categoryDoc);
-                            
-                            console.log('✅ Category deleted from Firebase:', pendingItem.data.name);
-                            success = true;
-                            successCount++;
-                            
-                            // Remove from pending items array
-                            const deleteCatIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                            if (deleteCatIndex !== -1) {
-                                updatedPendingItems.splice(deleteCatIndex, 1);
-                            }
-                        } else {
-                            console.log('❌ No Firebase ID for category delete:', pendingItem.data.name);
-                            updatedPendingItems[i].retryCount += 1;
-                            failCount++;
-                        }
-                        break;
-
-                    case 'CREATE_ORDER':
-                        console.log('🔥 Creating order in Firebase:', pendingItem.data.orderId);
-                        
-                        const orderData = {
-                            orderId: pendingItem.data.orderId,
-                            customerName: pendingItem.data.customerName,
-                            items: pendingItem.data.items,
-                            subtotal: Number(pendingItem.data.subtotal) || 0,
-                            total: Number(pendingItem.data.total) || 0,
-                            status: pendingItem.data.status || 'unpaid',
-                            timestamp: pendingItem.data.timestamp,
-                            created_at: new Date().toISOString()
-                        };
-
-                        const orderDocRef = await addDoc(collection(this.db, 'orders'), orderData);
-                        const orderFirebaseId = orderDocRef.id;
-                        
-                        console.log('✅ Order created in Firebase:', {
-                            orderId: pendingItem.data.orderId,
-                            firebaseId: orderFirebaseId
-                        });
-
-                        // Update local storage with Firebase ID
-                        const pendingReceipts = await this.getPendingReceipts();
-                        const updatedReceipts = pendingReceipts.map(receipt => 
-                            receipt.orderId === pendingItem.data.orderId 
-                                ? { 
-                                    ...receipt, 
-                                    firebaseId: orderFirebaseId,
-                                    syncStatus: 'synced'
-                                }
-                                : receipt
-                        );
-                        await this.setItem('pendingReceipts', JSON.stringify(updatedReceipts));
-                        
-                        success = true;
-                        successCount++;
-                        
-                        // Remove from pending items array
-                        const orderIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-                        if (orderIndex !== -1) {
-                            updatedPendingItems.splice(orderIndex, 1);
-                        }
-                        break;
-                        // In the trySync method, add these cases for cups (after the existing switch cases):
-
-case 'CREATE_CUP':
-    console.log('🔥 Creating cup in Firebase:', pendingItem.data.name);
-    
-    const cupData = {
-        name: pendingItem.data.name,
-        size: pendingItem.data.size || '',
-        stocks: Number(pendingItem.data.stocks) || 0,
-        status: pendingItem.data.status !== false,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-    };
+    } catch (error) {
+        console.error('❌ Firebase sync process failed:', error);
+        await this.updateSyncStatus({ 
+            isSyncing: false,
+            lastSyncAttempt: Date.now()
+        });
+    } finally {
+        this.syncInProgress = false;
+    }
+  }
 
-    const cupDocRef = await addDoc(collection(this.db, 'cups'), cupData);
-    const cupFirebaseId = cupDocRef.id;
-    
-    console.log('✅ Cup created in Firebase:', {
-        name: pendingItem.data.name,
-        firebaseId: cupFirebaseId
-    });
+  // Operations that kept failing (or had no handler); kept for review instead of being dropped
+  async getDeadLetterItems(): Promise<PendingItem[]> {
+    try {
+      const deadJson = await this.getItem(DEAD_LETTER_KEY);
+      return deadJson ? JSON.parse(deadJson) : [];
+    } catch (error) {
+      console.error('❌ Error reading dead-letter items:', error);
+      return [];
+    }
+  }
 
-    // Update local storage with Firebase ID
-    const currentCups = await this.getCups();
-    const updatedCups = currentCups.map(cup => 
-        cup.id === pendingItem.id 
-            ? { 
-                ...cup, 
-                id: cupFirebaseId, 
-                firebaseId: cupFirebaseId,
-                isOffline: false, 
-                syncStatus: 'synced',
-                lastSynced: Date.now()
-            }
-            : cup
-    );
-    await this.saveCups(updatedCups);
-    
-    success = true;
-    successCount++;
-    
-    // Remove from pending items array
-    const cupIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-    if (cupIndex !== -1) {
-        updatedPendingItems.splice(cupIndex, 1);
+  async retryDeadLetterItem(id: string): Promise<boolean> {
+    const requeued = await this.syncEngine.requeueDeadLetter(id);
+    if (requeued) {
+      const pending = await this.getPendingItems();
+      await this.updateSyncStatus({ pendingItems: pending.length });
+      if (this.syncStatus.isOnline) {
+        this.trySync();
+      }
     }
-    break;
+    return requeued;
+  }
 
-case 'UPDATE_CUP':
-    console.log('🔥 Updating cup in Firebase:', pendingItem.data.name);
-    
-    if (pendingItem.data.firebaseId) {
-        const cupDoc = doc(this.db, 'cups', pendingItem.data.firebaseId);
-        await updateDoc(cupDoc, {
-            name: pendingItem.data.name,
-            size: pendingItem.data.size || '',
-            stocks: Number(pendingItem.data.stocks) || 0,
-            status: pendingItem.data.status !== false,
-            updated_at: new Date().toISOString()
-        });
-        
-        console.log('✅ Cup updated in Firebase:', pendingItem.data.name);
-        success = true;
-        successCount++;
-        
-        // Remove from pending items array
-        const updateCupIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-        if (updateCupIndex !== -1) {
-            updatedPendingItems.splice(updateCupIndex, 1);
-        }
-    } else {
-        console.log('❌ No Firebase ID for cup update:', pendingItem.data.name);
-        updatedPendingItems[i].retryCount += 1;
-        failCount++;
+  // The write is lost for good; later edits of the same record held behind it can sync again
+  async discardDeadLetterItem(id: string): Promise<boolean> {
+    const discarded = await this.syncEngine.discardDeadLetter(id);
+    if (discarded && this.syncStatus.isOnline) {
+      this.trySync();
     }
-    break;
+    return discarded;
+  }
 
-case 'DELETE_CUP':
-    console.log('🔥 Deleting cup from Firebase:', pendingItem.data.name);
-    
-    if (pendingItem.data.firebaseId) {
-        const cupDoc = doc(this.db, 'cups', pendingItem.data.firebaseId);
-        await deleteDoc(cupDoc);
-        
-        console.log('✅ Cup deleted from Firebase:', pendingItem.data.name);
-        success = true;
-        successCount++;
-        
-        // Remove from pending items array
-        const deleteCupIndex = updatedPendingItems.findIndex(item => item.id === pendingItem.id);
-        if (deleteCupIndex !== -1) {
-            updatedPendingItems.splice(deleteCupIndex, 1);
+  // Queues an offline edit of a synced item or cup. `entity` is the local copy before the edit; its
+  // values for the edited fields (and its version stamp) are the base the merge compares against.
+  // Editing the same thing again before it syncs keeps the first base.
+  async queueOfflineUpdate(
+    type: 'UPDATE_ITEM' | 'UPDATE_CUP',
+    entity: Record<string, any> & { id: string },
+    changes: Record<string, any>
+  ): Promise<void> {
+    try {
+      const pendingItems = await this.getPendingItems();
+      const existing = pendingItems.find(item => item.id === entity.id);
+
+      if (existing && existing.type.startsWith('CREATE_')) {
+        // Never reached Firebase: nothing to merge with, the create just carries the new values
+        existing.data = { ...existing.data, ...changes };
+      } else {
+        const base: Record<string, any> = { revision: entity.revision, updated_at: entity.updated_at };
+        Object.keys(changes).forEach(field => { base[field] = entity[field] ?? null; });
+
+        const data = existing?.data || { ...entity };
+        const updated: PendingItem = {
+          id: entity.id,
+          type,
+          data: {
+            ...data,
+            ...changes,
+            changes: { ...(data.changes || {}), ...changes },
+            base: { ...base, ...(data.base || {}) }
+          },
+          timestamp: existing?.timestamp || Date.now(),
+          retryCount: 0
+        };
+
+        if (existing) {
+          pendingItems[pendingItems.indexOf(existing)] = updated;
+        } else {
+          pendingItems.push(updated);
         }
-    } else {
-        console.log('❌ No Firebase ID for cup delete:', pendingItem.data.name);
-        updatedPendingItems[i].retryCount += 1;
-        failCount++;
+      }
+
+      await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+      await this.updateSyncStatus({ pendingItems: pendingItems.length });
+      console.log('📬 Offline edit queued for sync:', entity.name || entity.id);
+
+      if (this.syncStatus.isOnline) {
+        this.trySync();
+      }
+    } catch (error) {
+      console.error('❌ Error queueing offline edit:', error);
     }
-    break;
-                }
+  }
 
-            } catch (error) {
-                console.error(`❌ Error syncing item ${pendingItem.data.name}:`, error);
-                updatedPendingItems[i].retryCount += 1;
-                failCount++;
-            }
+  // Conflicts waiting for an admin on the conflicts screen
+  async getConflicts(): Promise<SyncConflict[]> {
+    try {
+      const conflictsJson = await this.getItem(CONFLICTS_KEY);
+      return conflictsJson ? JSON.parse(conflictsJson) : [];
+    } catch (error) {
+      console.error('❌ Error reading sync conflicts:', error);
+      return [];
+    }
+  }
+
+  private async recordConflict(conflict: SyncConflict): Promise<void> {
+    const conflicts = await this.getConflicts();
+    await this.setItem(CONFLICTS_KEY, JSON.stringify([...conflicts, conflict]));
+  }
+
+  async removeConflict(id: string): Promise<void> {
+    const conflicts = await this.getConflicts();
+    await this.setItem(CONFLICTS_KEY, JSON.stringify(conflicts.filter(conflict => conflict.id !== id)));
+  }
+
+  private createSyncEngine(): SyncEngine {
+    const store: SyncQueueStore = {
+      loadQueue: () => this.getPendingItems(),
+      saveQueue: operations => this.setItem(PENDING_ITEMS_KEY, JSON.stringify(operations)),
+      loadDeadLetters: () => this.getDeadLetterItems(),
+      saveDeadLetters: operations => this.setItem(DEAD_LETTER_KEY, JSON.stringify(operations))
+    };
 
-            // Small delay between requests to avoid overwhelming Firebase
-            await new Promise(resolve => setTimeout(resolve, 500));
+    const engine = new SyncEngine(store, createFirestoreBackend(this.db));
+
+    engine.register('CREATE_ITEM', {
+      collection: 'items',
+      apply: async (operation, backend) => {
+        console.log('🔥 Creating item in Firebase:', operation.data.name);
+        await this.createItemInFirebase(operation, backend);
+      }
+    });
+
+    engine.register('UPDATE_ITEM', {
+      collection: 'items',
+      apply: async (operation, backend) => {
+        // Edited before its create ever synced (the update replaces the queued create): create it now
+        if (!operation.data.firebaseId) {
+          console.log('🔥 Item was never synced, creating it in Firebase:', operation.data.name);
+          await this.createItemInFirebase(operation, backend);
+          return;
         }
 
-        // Remove items that have exceeded max retries
-        const finalPendingItems = updatedPendingItems.filter(item => item.retryCount <= 10);
-        
-        // Save the updated pending items back to storage
-        await this.setItem('pendingItems', JSON.stringify(finalPendingItems));
+        console.log('🔥 Updating item in Firebase:', operation.data.name);
+        if (operation.data.base) {
+          await this.syncMergedUpdate('items', operation.data.firebaseId, operation, backend);
+        } else {
+          await backend.update('items', operation.data.firebaseId, buildItemFields(operation.data));
+        }
+        console.log('✅ Item updated in Firebase:', operation.data.name);
+      }
+    });
 
-        // Update sync status
-        await this.updateSyncStatus({
-            isSyncing: false,
-            lastSync: Date.now(),
-            pendingItems: finalPendingItems.length
+    engine.register('DELETE_ITEM', {
+      collection: 'items',
+      apply: async (operation, backend) => {
+        if (!operation.data.firebaseId) throw new Error(`No Firebase ID for delete: ${operation.data.name}`);
+        await backend.remove('items', operation.data.firebaseId);
+        console.log('✅ Item deleted from Firebase:', operation.data.name);
+      }
+    });
+
+    engine.register('CREATE_CATEGORY', {
+      collection: 'categories',
+      apply: async (operation, backend) => {
+        console.log('🔥 Creating category in Firebase:', operation.data.name);
+        const firebaseId = await backend.create('categories', {
+          ...buildCategoryFields(operation.data),
+          created_at: new Date().toISOString()
         });
 
-        await this.setItem('lastSync', Date.now().toString());
+        const localCategories = await this.getLocalCategories();
+        await this.setItem('localCategories', JSON.stringify(localCategories.map(cat =>
+          cat.id === operation.id
+            ? { ...cat, id: firebaseId, firebaseId, isOffline: false, syncStatus: 'synced', lastSynced: Date.now() }
+            : cat
+        )));
+        console.log('✅ Category created in Firebase:', { name: operation.data.name, firebaseId });
+      }
+    });
 
-        console.log('📊 Firebase sync completed:', {
-            successful: successCount,
-            failed: failCount,
-            remaining: finalPendingItems.length,
-            totalTime: 'Completed at ' + new Date().toLocaleTimeString()
+    engine.register('UPDATE_CATEGORY', {
+      collection: 'categories',
+      apply: async (operation, backend) => {
+        if (!operation.data.firebaseId) throw new Error(`No Firebase ID for category update: ${operation.data.name}`);
+        await backend.update('categories', operation.data.firebaseId, buildCategoryFields(operation.data));
+        console.log('✅ Category updated in Firebase:', operation.data.name);
+      }
+    });
+
+    engine.register('DELETE_CATEGORY', {
+      collection: 'categories',
+      apply: async (operation, backend) => {
+        if (!operation.data.firebaseId) throw new Error(`No Firebase ID for category delete: ${operation.data.name}`);
+        await backend.remove('categories', operation.data.firebaseId);
+        console.log('✅ Category deleted from Firebase:', operation.data.name);
+      }
+    });
+
+    engine.register('CREATE_CUP', {
+      collection: 'cups',
+      apply: async (operation, backend) => {
+        console.log('🔥 Creating cup in Firebase:', operation.data.name);
+        const firebaseId = await backend.create('cups', {
+          ...buildCupFields(operation.data),
+          created_at: new Date().toISOString()
         });
 
-        // Show alert if there were any failures
-        if (failCount > 0) {
-            console.log('⚠️ Some items failed to sync. They will be retried later.');
+        const currentCups = await this.getCups();
+        await this.saveCups(currentCups.map(cup =>
+          cup.id === operation.id
+            ? { ...cup, id: firebaseId, firebaseId, isOffline: false, syncStatus: 'synced', lastSynced: Date.now() }
+            : cup
+        ));
+        console.log('✅ Cup created in Firebase:', { name: operation.data.name, firebaseId });
+      }
+    });
+
+    engine.register('UPDATE_CUP', {
+      collection: 'cups',
+      apply: async (operation, backend) => {
+        if (!operation.data.firebaseId) throw new Error(`No Firebase ID for cup update: ${operation.data.name}`);
+        if (operation.data.base) {
+          await this.syncMergedUpdate('cups', operation.data.firebaseId, operation, backend);
+        } else {
+          await backend.update('cups', operation.data.firebaseId, buildCupFields(operation.data));
         }
+        console.log('✅ Cup updated in Firebase:', operation.data.name);
+      }
+    });
 
-    } catch (error) {
-        console.error('❌ Firebase sync process failed:', error);
-        await this.updateSyncStatus({ 
-            isSyncing: false,
-            lastSyncAttempt: Date.now()
+    engine.register('DELETE_CUP', {
+      collection: 'cups',
+      apply: async (operation, backend) => {
+        if (!operation.data.firebaseId) throw new Error(`No Firebase ID for cup delete: ${operation.data.name}`);
+        await backend.remove('cups', operation.data.firebaseId);
+        console.log('✅ Cup deleted from Firebase:', operation.data.name);
+      }
+    });
+
+    // Orders are keyed by their idempotency key so a status change can't overtake the create it follows
+    engine.register('CREATE_ORDER', {
+      collection: 'orders',
+      getEntityId: operation => operation.data.idempotencyKey || operation.id,
+      apply: async (operation, backend) => {
+        console.log('🔥 Creating order in Firebase:', operation.data.orderId);
+
+        // Same key as the first attempt, so an order that already reached Firestore is not written twice
+        const idempotencyKey = operation.data.idempotencyKey || `${operation.id}_${operation.timestamp}`;
+        const commitResult = await backend.commitOrder({ ...operation.data, idempotencyKey });
+
+        console.log(commitResult.alreadyCommitted ? '⏭️ Order was already in Firebase:' : '✅ Order created in Firebase:', {
+          orderId: operation.data.orderId,
+          firebaseId: commitResult.firebaseId,
+          sequence: commitResult.sequence
         });
-    } finally {
-        this.syncInProgress = false;
+
+        await this.markReceiptSynced(idempotencyKey, commitResult.firebaseId, operation.data.orderId, commitResult.sequence);
+      }
+    });
+
+    engine.register('UPDATE_ORDER', {
+      collection: 'orders',
+      getEntityId: operation => operation.data.idempotencyKey || operation.data.firebaseId,
+      apply: async (operation, backend) => {
+        const orderDocId = operation.data.firebaseId || operation.data.idempotencyKey;
+        if (!orderDocId) throw new Error(`No Firebase ID for order update: ${operation.data.orderId}`);
+
+        if (operation.data.base) {
+          await this.syncMergedUpdate('orders', orderDocId, operation, backend);
+        } else {
+          await backend.update('orders', orderDocId, {
+            ...operation.data.changes,
+            updated_at: new Date().toISOString()
+          });
+        }
+        console.log('✅ Order updated in Firebase:', operation.data.orderId);
+      }
+    });
+
+    // Lines added to an open order wait behind the order's create and earlier updates, like refunds
+    engine.register('ADD_ORDER_ITEMS', {
+      collection: 'orders',
+      getEntityId: operation => operation.data.orderKey,
+      apply: async (operation, backend) => {
+        const { alreadyCommitted } = await backend.commitOrderAddition(operation.data);
+        console.log(alreadyCommitted ? '⏭️ Order addition was already in Firebase:' : '✅ Items added to order in Firebase:', {
+          orderId: operation.data.orderId,
+          additionId: operation.data.id
+        });
+        await this.markOrderAdditionSynced(operation.data.id);
+      }
+    });
+
+    // Waits behind the queued writes of both orders, so lines added to or refunded on the source reach
+    // Firestore before it is folded in; if the source isn't in Firestore yet the commit fails and is retried
+    engine.register('MERGE_ORDERS', {
+      collection: 'orders',
+      getEntityId: operation => operation.data.targetKey,
+      getRelatedEntityIds: operation => [operation.data.sourceKey],
+      apply: async (operation, backend) => {
+        const { alreadyCommitted } = await backend.commitOrderMerge(operation.data);
+        console.log(alreadyCommitted ? '⏭️ Order merge was already in Firebase:' : '✅ Orders merged in Firebase:', {
+          target: operation.data.targetOrderId,
+          source: operation.data.sourceOrderId
+        });
+        await this.markOrderMergeSynced(operation.data.id);
+      }
+    });
+
+    // Keyed by the customer id, so edits made offline reach Firestore in the order they were made
+    engine.register('SAVE_CUSTOMER', {
+      collection: 'customers',
+      getEntityId: operation => operation.data.id,
+      apply: async (operation, backend) => {
+        await backend.set('customers', operation.data.id, buildCustomerFields(operation.data));
+        console.log('✅ Customer saved in Firebase:', operation.data.name);
+      }
+    });
+
+    // Entry ids come from the order or refund, so sending one twice leaves a single entry
+    engine.register('SAVE_LOYALTY_ENTRY', {
+      collection: 'loyalty_ledger',
+      getEntityId: operation => operation.data.id,
+      apply: async (operation, backend) => {
+        await backend.set('loyalty_ledger', operation.data.id, buildLoyaltyEntryFields(operation.data));
+        console.log('✅ Loyalty entry saved in Firebase:', operation.data.id);
+      }
+    });
+
+    engine.register('SAVE_CREDIT_ENTRY', {
+      collection: 'credit_ledger',
+      getEntityId: operation => operation.data.id,
+      apply: async (operation, backend) => {
+        await backend.set('credit_ledger', operation.data.id, buildCreditEntryFields(operation.data));
+        console.log('✅ Credit entry saved in Firebase:', operation.data.id);
+      }
+    });
+
+    // Same entity key as the order, so a refund is only sent once the order and its earlier updates are in
+    engine.register('CREATE_REFUND', {
+      collection: 'orders',
+      getEntityId: operation => operation.data.orderKey,
+      apply: async (operation, backend) => {
+        const { alreadyCommitted } = await backend.commitRefund(operation.data);
+        console.log(alreadyCommitted ? '⏭️ Refund was already in Firebase:' : '✅ Refund committed to Firebase:', {
+          orderId: operation.data.orderId,
+          refundId: operation.data.id
+        });
+        await this.markRefundSynced(operation.data.id);
+      }
+    });
+
+    return engine;
+  }
+
+  // Writes an offline edit merged field by field with the current document; fields another device
+  // changed differently are left alone and recorded as a conflict for an admin to settle
+  private async syncMergedUpdate(
+    collectionName: ConflictCollection,
+    documentId: string,
+    operation: PendingItem,
+    backend: SyncBackend
+  ): Promise<void> {
+    const { base, changes } = operation.data;
+    const entityName = operation.data.name || operation.data.orderId || documentId;
+    let conflicts: ConflictField[] = [];
+
+    await backend.updateWithLatest(collectionName, documentId, current => {
+      if (!current) throw new Error(`${entityName} no longer exists in Firebase`);
+
+      const merge = mergeOfflineChanges(base, changes, current);
+      conflicts = merge.conflicts;
+      if (Object.keys(merge.changes).length === 0) return null;
+
+      return {
+        ...merge.changes,
+        revision: (Number(current.revision) || 0) + 1,
+        updated_at: new Date().toISOString()
+      };
+    });
+
+    if (conflicts.length > 0) {
+      console.log('⚠️ Sync conflict on', entityName, conflicts.map(conflict => conflict.field));
+      await this.recordConflict({
+        id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        collection: collectionName,
+        documentId,
+        localId: operation.id,
+        entityName,
+        fields: conflicts,
+        detectedAt: new Date().toISOString()
+      });
     }
-}
+  }
+
+  // Creates the item doc and swaps the local offline id for the Firebase one
+  private async createItemInFirebase(operation: PendingItem, backend: SyncBackend): Promise<void> {
+    const firebaseId = await backend.create('items', {
+      ...buildItemFields(operation.data),
+      image_base64: operation.data.image_base64 || null,
+      has_image: operation.data.has_image || false,
+      sales: Number(operation.data.sales) || 0,
+      created_at: new Date().toISOString()
+    });
+
+    const localItems = await this.getLocalItems();
+    await this.setItem('localItems', JSON.stringify(localItems.map(item =>
+      item.id === operation.id
+        ? { ...item, id: firebaseId, firebaseId, isOffline: false, syncStatus: 'synced', lastSynced: Date.now() }
+        : item
+    )));
+    console.log('✅ Item created in Firebase:', { name: operation.data.name, firebaseId });
+  }
 
   // Get current sync status
   getSyncStatus(): SyncStatus {
@@ -859,6 +998,9 @@ case 'DELETE_CUP':
     try {
       await SecureStore.deleteItemAsync('localItems');
       await SecureStore.deleteItemAsync('pendingItems');
+      await SecureStore.deleteItemAsync(DEAD_LETTER_KEY);
+      await SecureStore.deleteItemAsync(CONFLICTS_KEY);
+      await SecureStore.deleteItemAsync(REFUNDS_KEY);
       await SecureStore.deleteItemAsync('lastSync');
       await SecureStore.deleteItemAsync('cups_data'); // ADD THIS FOR CUPS
       await SecureStore.deleteItemAsync('localCategories'); // ADD THIS FOR CATEGORIES
@@ -945,7 +1087,7 @@ async saveCups(cups: CupItem[]): Promise<void> {
 }
 async getCups(): Promise<CupItem[]> {
   try {
-      const cupsData = await AsyncStorage.getItem('cups');
+      const cupsData = await AsyncStorage.getItem('cups_data');
       if (cupsData) {
           const cups = JSON.parse(cupsData);
           console.log('🔍 [LOCAL STORAGE] Retrieved cups from local storage:', cups.length, 'cups');
@@ -1336,7 +1478,7 @@ async removeDuplicateItems(): Promise<void> {
 async addPendingOrder(orderData: ReceiptData): Promise<void> {
     try {
         const pendingItem: PendingItem = {
-            id: orderData.orderId,
+            id: orderData.idempotencyKey || orderData.orderId,
             type: 'CREATE_ORDER',
             data: orderData,
             timestamp: Date.now(),
@@ -1358,49 +1500,228 @@ async addPendingOrder(orderData: ReceiptData): Promise<void> {
     }
 }
 
+// Queues a change to an existing order (status, items, totals) made while offline. It is keyed to
+// the order's idempotency key, so it is only sent after the order's own CREATE_ORDER has synced.
+async addPendingOrderUpdate(
+    order: { orderId: string; firebaseId?: string; idempotencyKey?: string },
+    changes: Record<string, any>,
+    base?: Record<string, any> // the changed fields before the edit; enables the conflict check
+): Promise<void> {
+    try {
+        const pendingItem: PendingItem = {
+            id: `${order.idempotencyKey || order.firebaseId || order.orderId}_update_${Date.now()}`,
+            type: 'UPDATE_ORDER',
+            data: {
+                orderId: order.orderId,
+                firebaseId: order.firebaseId,
+                idempotencyKey: order.idempotencyKey,
+                changes,
+                base
+            },
+            timestamp: Date.now(),
+            retryCount: 0
+        };
+
+        const pendingItems = await this.getPendingItems();
+        pendingItems.push(pendingItem);
+        await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+        await this.updateSyncStatus({ pendingItems: pendingItems.length });
+        console.log('📬 Order update added to pending sync queue:', order.orderId);
+    } catch (error) {
+        console.error('❌ Error adding order update to pending sync:', error);
+    }
+}
+
+// Voids and refunds made on this tablet, newest first
+async getRefunds(): Promise<RefundRecord[]> {
+    try {
+        const refundsJson = await this.getItem(REFUNDS_KEY);
+        return refundsJson ? JSON.parse(refundsJson) : [];
+    } catch (error) {
+        console.error('❌ Error reading refunds:', error);
+        return [];
+    }
+}
+
+// Keeps the refund locally and queues it; the sync engine commits it after its order
+async addPendingRefund(refund: RefundRecord): Promise<void> {
+    const refunds = await this.getRefunds();
+    await this.setItem(REFUNDS_KEY, JSON.stringify([refund, ...refunds.filter(item => item.id !== refund.id)]));
+
+    const pendingItem: PendingItem = {
+        id: refund.id,
+        type: 'CREATE_REFUND',
+        data: refund,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Refund added to pending sync queue:', refund.orderId, refund.amount);
+}
+
+async markRefundSynced(refundId: string): Promise<void> {
+    const refunds = await this.getRefunds();
+    await this.setItem(REFUNDS_KEY, JSON.stringify(
+        refunds.map(refund => refund.id === refundId ? { ...refund, synced: true } : refund)
+    ));
+
+    const pendingItems = await this.getPendingItems();
+    const remainingItems = pendingItems.filter(item => !(item.type === 'CREATE_REFUND' && item.id === refundId));
+    if (remainingItems.length !== pendingItems.length) {
+        await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(remainingItems));
+        await this.updateSyncStatus({ pendingItems: remainingItems.length });
+    }
+}
+
+// Queues lines added to an open order; the sync engine commits them after the order itself
+async addPendingOrderAddition(addition: OrderAddition): Promise<void> {
+    const pendingItem: PendingItem = {
+        id: addition.id,
+        type: 'ADD_ORDER_ITEMS',
+        data: addition,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Order addition added to pending sync queue:', addition.orderId, addition.amountDue);
+}
+
+async markOrderAdditionSynced(additionId: string): Promise<void> {
+    const pendingItems = await this.getPendingItems();
+    const remainingItems = pendingItems.filter(item => !(item.type === 'ADD_ORDER_ITEMS' && item.id === additionId));
+    if (remainingItems.length !== pendingItems.length) {
+        await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(remainingItems));
+        await this.updateSyncStatus({ pendingItems: remainingItems.length });
+    }
+}
+
+async addPendingOrderMerge(merge: OrderMerge): Promise<void> {
+    const pendingItem: PendingItem = {
+        id: merge.id,
+        type: 'MERGE_ORDERS',
+        data: merge,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Order merge added to pending sync queue:', merge.sourceOrderId, '→', merge.targetOrderId);
+}
+
+async markOrderMergeSynced(mergeId: string): Promise<void> {
+    const pendingItems = await this.getPendingItems();
+    const remainingItems = pendingItems.filter(item => !(item.type === 'MERGE_ORDERS' && item.id === mergeId));
+    if (remainingItems.length !== pendingItems.length) {
+        await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(remainingItems));
+        await this.updateSyncStatus({ pendingItems: remainingItems.length });
+    }
+}
+
+async addPendingCustomer(customer: Customer): Promise<void> {
+    const pendingItem: PendingItem = {
+        id: `${customer.id}_${Date.now()}`,
+        type: 'SAVE_CUSTOMER',
+        data: customer,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Customer added to pending sync queue:', customer.name);
+}
+
+async addPendingLoyaltyEntry(entry: LoyaltyEntry): Promise<void> {
+    const pendingItem: PendingItem = {
+        id: `${entry.id}_${Date.now()}`,
+        type: 'SAVE_LOYALTY_ENTRY',
+        data: entry,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Loyalty entry added to pending sync queue:', entry.id);
+}
+
+async addPendingCreditEntry(entry: CreditEntry): Promise<void> {
+    const pendingItem: PendingItem = {
+        id: `${entry.id}_${Date.now()}`,
+        type: 'SAVE_CREDIT_ENTRY',
+        data: entry,
+        timestamp: Date.now(),
+        retryCount: 0
+    };
+    const pendingItems = await this.getPendingItems();
+    pendingItems.push(pendingItem);
+    await this.setItem(PENDING_ITEMS_KEY, JSON.stringify(pendingItems));
+
+    await this.updateSyncStatus({ pendingItems: pendingItems.length });
+    console.log('📬 Credit entry added to pending sync queue:', entry.id);
+}
+
 // Sync specific order to Firebase
 async syncOrderToFirebase(orderData: ReceiptData): Promise<boolean> {
     try {
         console.log('🔥 Syncing order to Firebase:', orderData.orderId);
-        
-        const orderDataForFirebase = {
-            orderId: orderData.orderId,
-            customerName: orderData.customerName,
-            items: orderData.items.map(item => ({
-                id: item.id,
-                name: item.name,
-                price: item.price,
-                quantity: item.quantity,
-                total: item.price * item.quantity
-            })),
-            subtotal: orderData.subtotal,
-            total: orderData.total,
-            status: orderData.status,
-            timestamp: orderData.timestamp,
-            created_at: new Date().toISOString()
-        };
 
-        const docRef = await addDoc(collection(this.db, 'orders'), orderDataForFirebase);
-        const firebaseId = docRef.id;
+        const idempotencyKey = orderData.idempotencyKey || `${orderData.orderId}_${orderData.timestamp}`;
+        const { firebaseId, sequence } = await commitOrder(this.db, { ...orderData, idempotencyKey });
 
         console.log('✅ Order synced to Firebase:', {
             orderId: orderData.orderId,
-            firebaseId: firebaseId
+            firebaseId: firebaseId,
+            sequence
         });
 
-        // Update local storage with Firebase ID
-        const pendingReceipts = await this.getPendingReceipts();
-        const updatedReceipts = pendingReceipts.map(receipt => 
-            receipt.orderId === orderData.orderId 
-                ? { ...receipt, firebaseId: firebaseId }
-                : receipt
-        );
-        await this.setItem('pendingReceipts', JSON.stringify(updatedReceipts));
-
+        await this.markReceiptSynced(idempotencyKey, firebaseId, orderData.orderId, sequence);
         return true;
     } catch (error) {
         console.error('❌ Error syncing order to Firebase:', error);
         return false;
     }
 }
+
+// committed → synced: store the Firestore id (and, for an order numbered offline, the place it took in
+// the day's shared sequence) locally and drop the queued CREATE_ORDER for this key.
+// Receipts saved before idempotency keys existed are matched by order number.
+async markReceiptSynced(idempotencyKey: string, firebaseId: string, orderId?: string, sequence?: number | null): Promise<void> {
+    const pendingReceipts = await this.getPendingReceipts();
+    const updatedReceipts = pendingReceipts.map(receipt => {
+        const isThisOrder = receipt.idempotencyKey === idempotencyKey ||
+            (!receipt.idempotencyKey && !receipt.firebaseId && receipt.orderId === orderId);
+        if (!isThisOrder) return receipt;
+        return {
+            ...receipt,
+            firebaseId,
+            syncState: 'synced' as OrderSyncState,
+            ...(sequence != null ? { sequence } : {})
+        };
+    });
+    await this.setItem('pendingReceipts', JSON.stringify(updatedReceipts));
+
+    const pendingItems = await this.getPendingItems();
+    const remainingItems = pendingItems.filter(item => !(item.type === 'CREATE_ORDER' && item.id === idempotencyKey));
+    if (remainingItems.length !== pendingItems.length) {
+        await this.setItem('pendingItems', JSON.stringify(remainingItems));
+        await this.updateSyncStatus({ pendingItems: remainingItems.length });
+    }
+}
 }
\ No newline at end of file
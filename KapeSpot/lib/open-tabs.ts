@@ -0,0 +1,247 @@
+// lib/open-tabs.ts
+import { getFirestore, doc, getDoc } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { commitOrderAddition, getOrderLineId } from './orders';
+import { OrderTotals, computeOrderTotals } from './pricing';
+import { roundMoney } from './payments';
+import { computeCupUsage, depleteCupsLocally, getTotalCups, mergeCupUsage } from './cups';
+import { computeIngredientUsage, depleteIngredientsLocally } from './ingredients';
+import { expandBundleLines } from './bundles';
+import { OrderDiscount } from '@/types/discount';
+import { PaymentSummary, Tender } from '@/types/payment';
+import { TaxLine, TaxProfile } from '@/types/tax';
+import { OrderAddition, OrderLine, ParkedCart } from '@/types/order';
+
+const PARKED_CARTS_KEY = 'parkedCarts';
+
+// ===== Parked carts =====
+
+export const getParkedCarts = async (): Promise<ParkedCart[]> => {
+    try {
+        const cartsJson = await OfflineSyncService.getInstance().getItem(PARKED_CARTS_KEY);
+        return cartsJson ? JSON.parse(cartsJson) : [];
+    } catch (error) {
+        console.error('❌ Error reading parked carts:', error);
+        return [];
+    }
+};
+
+export const parkCart = async (cart: Omit<ParkedCart, 'id' | 'parkedAt'>): Promise<ParkedCart> => {
+    const parked: ParkedCart = {
+        ...cart,
+        id: `park_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        parkedAt: new Date().toISOString()
+    };
+    const carts = await getParkedCarts();
+    await OfflineSyncService.getInstance().setItem(PARKED_CARTS_KEY, JSON.stringify([...carts, parked]));
+    console.log('🅿️ Cart parked:', parked.customerName || parked.id, parked.items.length, 'lines');
+    return parked;
+};
+
+export const removeParkedCart = async (id: string): Promise<void> => {
+    const carts = await getParkedCarts();
+    await OfflineSyncService.getInstance().setItem(
+        PARKED_CARTS_KEY,
+        JSON.stringify(carts.filter(cart => cart.id !== id))
+    );
+};
+
+// ===== Open tabs =====
+
+// An unpaid order the POS is adding lines to, from pendingReceipts or Firestore
+export interface OpenTab {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerName: string;
+    orderType: 'dine-in' | 'take-out';
+    tableName?: string;
+    status: 'unpaid' | 'paid' | 'cancelled';
+    items: OrderLine[];
+    subtotal: number;
+    total: number;
+    discounts: OrderDiscount[];
+}
+
+// Key the order status screen hands to the POS; the document id when there is one
+export const getOpenTabKey = (order: { orderId: string; firebaseId?: string; idempotencyKey?: string }): string => {
+    return order.firebaseId || order.idempotencyKey || order.orderId;
+};
+
+const isTabOrder = (order: { orderId: string; firebaseId?: string; idempotencyKey?: string }, key: string): boolean => {
+    return order.firebaseId === key || order.idempotencyKey === key || (!order.firebaseId && !order.idempotencyKey && order.orderId === key);
+};
+
+// Firestore has the latest lines when online (another tablet may have added some); otherwise the local copy
+export const loadOpenTab = async (key: string): Promise<OpenTab | null> => {
+    const receipts = await OfflineSyncService.getInstance().getPendingReceipts();
+    const receipt = receipts.find(order => isTabOrder(order, key));
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const orderDoc = await getDoc(doc(getFirestore(app), 'orders', receipt?.firebaseId || key));
+            if (orderDoc.exists()) {
+                const data = orderDoc.data();
+                return {
+                    orderId: data.orderId || orderDoc.id,
+                    firebaseId: orderDoc.id,
+                    idempotencyKey: data.idempotency_key,
+                    customerName: data.customerName || '',
+                    orderType: data.order_type === 'take-out' ? 'take-out' : 'dine-in',
+                    tableName: data.table_name || undefined,
+                    status: data.status || 'unpaid',
+                    items: data.items || [],
+                    subtotal: Number(data.subtotal) || 0,
+                    total: Number(data.total) || 0,
+                    discounts: data.discounts || []
+                };
+            }
+        }
+    } catch (error) {
+        console.error('❌ Error loading open tab from Firebase:', error);
+    }
+
+    if (!receipt) return null;
+    return {
+        orderId: receipt.orderId,
+        firebaseId: receipt.firebaseId,
+        idempotencyKey: receipt.idempotencyKey,
+        customerName: receipt.customerName,
+        orderType: receipt.orderType === 'take-out' ? 'take-out' : 'dine-in',
+        tableName: receipt.tableName,
+        status: receipt.status,
+        items: receipt.items,
+        subtotal: receipt.subtotal,
+        total: receipt.total,
+        discounts: receipt.discounts || []
+    };
+};
+
+const toTaxLine = (item: OrderLine, lineId: string): TaxLine => ({
+    lineId,
+    code: item.code,
+    category: item.category,
+    price: Number(item.price) || 0,
+    quantity: Number(item.quantity) || 0
+});
+
+// The order priced again with the new lines, through the same discounts and taxes as the POS.
+// Voided lines are left out; what the new lines add is the difference with the current total.
+export const computeTabTotals = (
+    tab: OpenTab,
+    newLines: { lineId: string; item: OrderLine }[],
+    profile: TaxProfile
+): { totals: OrderTotals; amountDue: number } => {
+    const lines = [
+        ...tab.items
+            .map((item, index) => ({ item, lineId: getOrderLineId(item, index) }))
+            .filter(line => !line.item.cancelled),
+        ...newLines
+    ].map(line => toTaxLine(line.item, line.lineId));
+
+    const totals = computeOrderTotals(lines, tab.discounts, tab.orderType, profile);
+    return { totals, amountDue: roundMoney(Math.max(0, totals.total - tab.total)) };
+};
+
+export const buildOrderAddition = (
+    tab: OpenTab,
+    cart: OrderLine[],
+    totals: OrderTotals,
+    amountDue: number,
+    paymentSummary: PaymentSummary
+): OrderAddition => {
+    const id = `add_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const addedAt = new Date().toISOString();
+    const orderDocId = tab.firebaseId || tab.idempotencyKey || tab.orderId;
+    const stockLines = expandBundleLines(cart);
+    const cupsBreakdown = tab.orderType === 'take-out' ? computeCupUsage(stockLines) : {};
+
+    return {
+        id,
+        orderId: tab.orderId,
+        orderDocId,
+        orderKey: tab.idempotencyKey || orderDocId,
+        customerName: tab.customerName,
+        orderType: tab.orderType,
+        // The same item with the same modifiers may already be on the order; new lines get their own id
+        items: cart.map(item => ({ ...item, lineId: `${item.lineId || item.id}_${id}`, addedAt })),
+        totalsAfter: {
+            subtotal: totals.subtotal,
+            total: totals.total,
+            discountTotal: totals.discount.discountTotal,
+            vatableSales: totals.tax.vatableSales,
+            vatAmount: totals.tax.vatAmount,
+            vatExemptSales: totals.tax.vatExemptSales,
+            serviceCharge: totals.tax.serviceCharge
+        },
+        amountDue,
+        payments: paymentSummary.payments,
+        amountTendered: paymentSummary.amountTendered,
+        changeDue: paymentSummary.changeDue,
+        cupsUsed: getTotalCups(cupsBreakdown),
+        cupsBreakdown,
+        ingredientUsage: computeIngredientUsage(stockLines),
+        timestamp: addedAt
+    };
+};
+
+const applyAdditionLocally = async (addition: OrderAddition): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    const receipts = await syncService.getPendingReceipts();
+    await syncService.setItem('pendingReceipts', JSON.stringify(receipts.map(receipt => {
+        if (!isTabOrder(receipt, addition.orderDocId) && receipt.idempotencyKey !== addition.orderKey) return receipt;
+
+        const payments: Tender[] = [...(receipt.payments || []), ...addition.payments];
+        return {
+            ...receipt,
+            items: [...receipt.items, ...addition.items],
+            ...addition.totalsAfter,
+            payments,
+            amountTendered: roundMoney((receipt.amountTendered || 0) + addition.amountTendered),
+            changeDue: roundMoney((receipt.changeDue || 0) + addition.changeDue),
+            cupsUsed: (receipt.cupsUsed || 0) + addition.cupsUsed,
+            cupsBreakdown: mergeCupUsage({ ...(receipt.cupsBreakdown || {}) }, addition.cupsBreakdown),
+            allItemsReady: false
+        };
+    })));
+
+    await depleteCupsLocally(addition.cupsBreakdown);
+    await depleteIngredientsLocally(addition.ingredientUsage);
+};
+
+// Adds the lines locally and queues them, then commits to Firestore right away when online.
+// If the order still has queued writes the engine sends the addition after them instead.
+export const processOrderAddition = async (addition: OrderAddition): Promise<OrderAddition> => {
+    const syncService = OfflineSyncService.getInstance();
+    const pendingForOrder = (await syncService.getPendingItems()).some(item =>
+        item.data?.idempotencyKey === addition.orderKey ||
+        item.data?.orderKey === addition.orderKey ||
+        (!!item.data?.firebaseId && item.data.firebaseId === addition.orderDocId)
+    );
+
+    await applyAdditionLocally(addition);
+    await syncService.addPendingOrderAddition(addition);
+    console.log('✅ Order addition recorded locally:', addition.orderId, addition.items.length, 'lines');
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode !== 'online') return addition;
+
+        if (pendingForOrder) {
+            await syncService.trySync();
+            return addition;
+        }
+
+        await commitOrderAddition(getFirestore(app), addition);
+        await syncService.markOrderAdditionSynced(addition.id);
+        console.log('✅ Order addition committed to Firebase:', addition.id);
+        return { ...addition, synced: true };
+    } catch (error) {
+        console.error('❌ Order addition commit error - it stays queued for sync:', error);
+        return addition;
+    }
+};
@@ -0,0 +1,85 @@
+// lib/order-numbers.ts
+import { getFirestore } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { formatOrderNumber, getOrderDayKey, reserveOrderSequence } from './orders';
+
+const DEVICE_CODE_KEY = 'deviceCode';
+const LAST_ORDER_KEY = 'lastOrderInfo'; // last shared number this tablet got: { number, date }
+const OFFLINE_ORDER_KEY = 'offlineOrderInfo'; // this tablet's own offline range: { number, date }
+
+export interface AllocatedOrderNumber {
+    orderId: string;
+    sequence?: number; // only when the number came from the shared counter
+}
+
+// Short random code that identifies this tablet in offline order numbers, e.g. "K7Q"
+export const getDeviceCode = async (): Promise<string> => {
+    const syncService = OfflineSyncService.getInstance();
+    const stored = await syncService.getItem(DEVICE_CODE_KEY);
+    if (stored) return stored;
+
+    const code = Math.random().toString(36).slice(2, 5).toUpperCase().padEnd(3, 'X');
+    await syncService.setItem(DEVICE_CODE_KEY, code);
+    return code;
+};
+
+const readDailyCounter = async (key: string, dayKey: string): Promise<number> => {
+    const stored = await OfflineSyncService.getInstance().getItem(key);
+    if (!stored) return 0;
+
+    const info = JSON.parse(stored);
+    return info.date === dayKey ? Number(info.number) || 0 : 0;
+};
+
+const writeDailyCounter = async (key: string, dayKey: string, number: number): Promise<void> => {
+    await OfflineSyncService.getInstance().setItem(key, JSON.stringify({ number, date: dayKey }));
+};
+
+// Offline numbers carry the tablet's code ("ORD-K7Q-03") so they can't clash with the shared
+// "ORD-07" sequence or with another tablet that is also offline
+const allocateOfflineOrderNumber = async (dayKey: string): Promise<AllocatedOrderNumber> => {
+    const deviceCode = await getDeviceCode();
+    const number = (await readDailyCounter(OFFLINE_ORDER_KEY, dayKey)) + 1;
+    await writeDailyCounter(OFFLINE_ORDER_KEY, dayKey, number);
+
+    return { orderId: `ORD-${deviceCode}-${number.toString().padStart(2, '0')}` };
+};
+
+// Next order number: from the shared daily counter when online, from this tablet's range otherwise
+export const allocateOrderNumber = async (): Promise<AllocatedOrderNumber> => {
+    const dayKey = getOrderDayKey();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const sequence = await reserveOrderSequence(getFirestore(app), dayKey);
+            await writeDailyCounter(LAST_ORDER_KEY, dayKey, sequence);
+            return { orderId: formatOrderNumber(sequence), sequence };
+        }
+    } catch (error) {
+        console.error('❌ Error reserving shared order number, using offline range:', error);
+    }
+
+    return allocateOfflineOrderNumber(dayKey);
+};
+
+// Back online: push orders numbered offline so they take their place in today's shared sequence. The
+// number itself is reserved by commitOrder and written back to the local receipt as `sequence`, which
+// getDisplayOrderNumber shows in place of the offline id.
+export const reconcileOrderNumbers = async (): Promise<void> => {
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode !== 'online') return;
+
+        const syncService = OfflineSyncService.getInstance();
+        const pendingOrders = (await syncService.getPendingItems()).filter(item => item.type === 'CREATE_ORDER');
+        if (pendingOrders.length === 0) return;
+
+        console.log('🔢 Reconciling', pendingOrders.length, 'orders numbered offline');
+        await syncService.trySync();
+    } catch (error) {
+        console.error('❌ Error reconciling order numbers:', error);
+    }
+};
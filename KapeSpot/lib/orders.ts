@@ -0,0 +1,650 @@
+// lib/orders.ts
+import {
+    Firestore,
+    DocumentReference,
+    Transaction,
+    collection,
+    doc,
+    getDocs,
+    runTransaction
+} from 'firebase/firestore';
+import { OrderAddition, OrderBill, OrderCommitData, OrderLine, OrderMerge } from '@/types/order';
+import { OrderDiscount } from '@/types/discount';
+import { Tender } from '@/types/payment';
+import { RefundRecord } from '@/types/refund';
+import { roundMoney } from './payments';
+
+export const createOrderKey = (): string => {
+    return `ord_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+// ===== Order numbers =====
+
+// Order numbers restart every local calendar day, e.g. "2026-10-19"
+export const getOrderDayKey = (date: Date = new Date()): string => {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const formatOrderNumber = (sequence: number): string => {
+    return `ORD-${sequence.toString().padStart(2, '0')}`;
+};
+
+// The shared number once the order has one; an order numbered offline shows its "ORD-K7Q-03" id until it syncs
+export const getDisplayOrderNumber = (order: { orderId: string; sequence?: number | null }): string => {
+    return order.sequence != null ? formatOrderNumber(order.sequence) : order.orderId;
+};
+
+// One counter document per day shared by every tablet: order_counters/{dayKey} { last }
+const getCounterRef = (db: Firestore, dayKey: string): DocumentReference => {
+    return doc(db, 'order_counters', dayKey);
+};
+
+const takeNextSequence = async (transaction: Transaction, counterRef: DocumentReference): Promise<number> => {
+    const counter = await transaction.get(counterRef);
+    return (counter.exists() ? Number(counter.data().last) || 0 : 0) + 1;
+};
+
+const saveSequence = (transaction: Transaction, counterRef: DocumentReference, sequence: number) => {
+    transaction.set(counterRef, { last: sequence, updated_at: new Date().toISOString() }, { merge: true });
+};
+
+// Reserves the next number of the day; two tablets asking at once get different numbers
+export const reserveOrderSequence = async (db: Firestore, dayKey: string = getOrderDayKey()): Promise<number> => {
+    const counterRef = getCounterRef(db, dayKey);
+    return runTransaction(db, async transaction => {
+        const sequence = await takeNextSequence(transaction, counterRef);
+        saveSequence(transaction, counterRef, sequence);
+        return sequence;
+    });
+};
+
+const getLineDiscount = (order: OrderCommitData, lineId: string): number => {
+    return (order.discounts || [])
+        .filter(discount => discount.lineId === lineId)
+        .reduce((sum, discount) => sum + (discount.amount || 0), 0);
+};
+
+// Firestore shape of one order line; lines added to an open order keep when they were added
+const buildOrderLine = (item: OrderLine, discount: number): OrderLine => {
+    return {
+        id: item.id,
+        firebaseId: item.firebaseId || null,
+        lineId: item.lineId || item.id,
+        code: item.code || '',
+        category: item.category || '',
+        name: item.name,
+        price: item.price,
+        basePrice: item.basePrice ?? item.price,
+        modifiers: item.modifiers || [],
+        recipe: item.recipe || [],
+        cupName: item.cupName || '',
+        ...(item.bundle?.length ? { bundle: item.bundle } : {}),
+        ...(item.promotion ? { promotion: item.promotion } : {}),
+        quantity: item.quantity,
+        total: item.price * item.quantity,
+        discount,
+        ...(item.addedAt ? { addedAt: item.addedAt } : {})
+    };
+};
+
+// Firestore shape of an order (snake_case), shared by the POS and the offline queue
+export const buildOrderDocument = (order: OrderCommitData) => {
+    return {
+        idempotency_key: order.idempotencyKey,
+        orderId: order.orderId,
+        sequence: order.sequence ?? null,
+        customerName: order.customerName,
+        customer_id: order.customerId || null,
+        items: order.items.map(item => buildOrderLine(item, getLineDiscount(order, item.lineId || item.id))),
+        subtotal: Number(order.subtotal) || 0,
+        total: Number(order.total) || 0,
+        status: order.status || 'unpaid',
+        timestamp: order.timestamp,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        cups_used: order.cupsUsed || 0,
+        cups_breakdown: order.cupsBreakdown || {},
+        order_type: order.orderType || 'take-out',
+        table_id: order.tableId || null,
+        table_name: order.tableName || null,
+        notes: order.notes || '',
+        payments: order.payments || [],
+        amount_tendered: Number(order.amountTendered) || 0,
+        change_due: Number(order.changeDue) || 0,
+        discounts: order.discounts || [],
+        discount_total: Number(order.discountTotal) || 0,
+        vatable_sales: Number(order.vatableSales) || 0,
+        vat_amount: Number(order.vatAmount) || 0,
+        vat_exempt_sales: Number(order.vatExemptSales) || 0,
+        service_charge: Number(order.serviceCharge) || 0,
+        ...(order.bills?.length ? { split_mode: order.splitMode || 'items', bills: order.bills } : {})
+    };
+};
+
+interface ItemMovement {
+    stock: number; // units taken out of the item's stock
+    sales: number; // units added to the item's sales counter
+}
+
+// Stock and sales per item document; lines of the same item with different modifiers are summed.
+// A bundle counts as sold itself but holds no stock - its components are taken and counted as sold.
+export const getItemMovements = (lines: { itemId?: string; quantity: number; bundle?: { itemId: string; quantity: number }[] }[]) => {
+    const movements: Record<string, ItemMovement> = {};
+    const add = (itemId: string, stock: number, sales: number) => {
+        const current = movements[itemId] || { stock: 0, sales: 0 };
+        movements[itemId] = { stock: current.stock + stock, sales: current.sales + sales };
+    };
+
+    lines.forEach(line => {
+        const quantity = Number(line.quantity) || 0;
+        if (line.itemId) {
+            add(line.itemId, line.bundle?.length ? 0 : quantity, quantity);
+        }
+        (line.bundle || []).forEach(component => {
+            const units = component.quantity * quantity;
+            add(component.itemId, units, units);
+        });
+    });
+    return movements;
+};
+
+const getQuantitySoldByItem = (order: { items: OrderLine[] }): Record<string, ItemMovement> => {
+    return getItemMovements(order.items.map(item => ({
+        itemId: item.firebaseId || undefined,
+        quantity: item.quantity,
+        bundle: item.bundle
+    })));
+};
+
+// Items store the cup by name; queries can't run inside a transaction so the ids are looked up first
+const findCupIds = async (db: Firestore, cupNames: string[]): Promise<Record<string, string>> => {
+    if (cupNames.length === 0) return {};
+
+    const snapshot = await getDocs(collection(db, 'cups'));
+    const ids: Record<string, string> = {};
+    cupNames.forEach(cupName => {
+        const match = snapshot.docs.find(cupDoc =>
+            String(cupDoc.data().name || '').trim().toLowerCase() === cupName.trim().toLowerCase()
+        );
+        if (match) {
+            ids[cupName] = match.id;
+        } else {
+            console.log('⚠️ No cup named', cupName, '- skipping stock update');
+        }
+    });
+    return ids;
+};
+
+// Writes the order and every stock change it causes (items, cups, ingredients) in one transaction.
+// The order document id is the idempotency key: if it already exists the order was committed by an
+// earlier attempt and nothing is written again, so queue retries can't duplicate orders or stock changes.
+// Orders numbered offline (device-prefixed) get their place in the day's shared sequence here.
+export const commitOrder = async (
+    db: Firestore,
+    order: OrderCommitData
+): Promise<{ firebaseId: string; alreadyCommitted: boolean; sequence: number | null }> => {
+    const orderRef = doc(db, 'orders', order.idempotencyKey);
+    const cupsBreakdown = order.cupsBreakdown || {};
+    const cupIds = await findCupIds(db, Object.keys(cupsBreakdown));
+    const itemSales = getQuantitySoldByItem(order);
+    const ingredientUsage = order.ingredientUsage || {};
+
+    const { alreadyCommitted, sequence } = await runTransaction(db, async transaction => {
+        const existing = await transaction.get(orderRef);
+        if (existing.exists()) {
+            return { alreadyCommitted: true, sequence: existing.data().sequence ?? null };
+        }
+
+        // Firestore transactions need every read before the first write
+        const counterRef = getCounterRef(db, getOrderDayKey(new Date(order.timestamp)));
+        const sequence = order.sequence ?? await takeNextSequence(transaction, counterRef);
+        const itemRefs = Object.keys(itemSales).map(id => doc(db, 'items', id));
+        const cupRefs = Object.keys(cupIds).map(cupName => doc(db, 'cups', cupIds[cupName]));
+        const ingredientRefs = Object.keys(ingredientUsage).map(id => doc(db, 'ingredients', id));
+        const [itemSnapshots, cupSnapshots, ingredientSnapshots] = await Promise.all([
+            Promise.all(itemRefs.map(ref => transaction.get(ref))),
+            Promise.all(cupRefs.map(ref => transaction.get(ref))),
+            Promise.all(ingredientRefs.map(ref => transaction.get(ref)))
+        ]);
+        const updatedAt = new Date().toISOString();
+
+        if (order.sequence == null) {
+            saveSequence(transaction, counterRef, sequence);
+        }
+        transaction.set(orderRef, buildOrderDocument({ ...order, sequence }));
+
+        itemSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const movement = itemSales[snapshot.id];
+            transaction.update(itemRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) - movement.stock,
+                sales: (Number(snapshot.data().sales) || 0) + movement.sales,
+                updated_at: updatedAt
+            });
+        });
+
+        // Like item stocks, cups can go below zero, so a refund puts back exactly what was taken
+        cupSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const cupName = Object.keys(cupIds)[index];
+            transaction.update(cupRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) - cupsBreakdown[cupName],
+                updated_at: updatedAt
+            });
+        });
+
+        ingredientSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            transaction.update(ingredientRefs[index], {
+                stock: roundQuantity((Number(snapshot.data().stock) || 0) - ingredientUsage[snapshot.id]),
+                updated_at: updatedAt
+            });
+        });
+
+        return { alreadyCommitted: false, sequence };
+    });
+
+    return { firebaseId: orderRef.id, alreadyCommitted, sequence };
+};
+
+// ===== Refunds and voids =====
+
+// Order lines are matched by lineId; orders saved before lines had one fall back to the item id, then the position
+export const getOrderLineId = (item: { lineId?: string; id?: string }, index: number): string => {
+    return String(item.lineId || item.id || index);
+};
+
+// Voided lines are flagged cancelled (as the kitchen screen shows them), refunded lines refunded
+export const markRefundedLines = <T extends { lineId?: string; id?: string }>(items: T[], refund: RefundRecord): T[] => {
+    const lineIds = new Set(refund.lines.map(line => line.lineId));
+    const flag = refund.kind === 'void' ? 'cancelled' : 'refunded';
+    return items.map((item, index) => lineIds.has(getOrderLineId(item, index)) ? { ...item, [flag]: true } : item);
+};
+
+// Voided and refunded lines stay on the order, struck through, but are no longer made
+export const isLineRemoved = (line: { cancelled?: boolean; refunded?: boolean }): boolean => {
+    return !!(line.cancelled || line.refunded);
+};
+
+// Fields of the order document a refund changes, given the document as it is now
+const buildRefundOrderUpdate = (order: Record<string, any>, refund: RefundRecord, updatedAt: string) => {
+    const update: Record<string, any> = {
+        items: markRefundedLines(order.items || [], refund),
+        updated_at: updatedAt
+    };
+
+    if (refund.kind === 'void' && refund.totalsAfter) {
+        update.subtotal = refund.totalsAfter.subtotal;
+        update.total = refund.totalsAfter.total;
+        update.discount_total = refund.totalsAfter.discountTotal;
+        update.vatable_sales = refund.totalsAfter.vatableSales;
+        update.vat_amount = refund.totalsAfter.vatAmount;
+        update.vat_exempt_sales = refund.totalsAfter.vatExemptSales;
+        update.service_charge = refund.totalsAfter.serviceCharge;
+        if (refund.full) {
+            update.status = 'cancelled';
+        }
+    } else {
+        update.refunded_total = roundMoney((Number(order.refunded_total) || 0) + refund.amount);
+        // A fully refunded order still in the queue is closed; the sale stands with the refund against it
+        if (refund.full) {
+            update.status = 'paid';
+        }
+    }
+
+    return update;
+};
+
+const getQuantityReturnedByItem = (refund: RefundRecord): Record<string, ItemMovement> => {
+    return getItemMovements(refund.lines);
+};
+
+// Writes the refund record, flags the lines on the order and puts item stock, sales counters, cups and
+// ingredients back, all in one transaction. The refund document id makes a retried sync a no-op.
+export const commitRefund = async (
+    db: Firestore,
+    refund: RefundRecord
+): Promise<{ alreadyCommitted: boolean }> => {
+    const refundRef = doc(db, 'refunds', refund.id);
+    const orderRef = doc(db, 'orders', refund.orderDocId);
+    const cupsBreakdown = refund.cupsBreakdown || {};
+    const cupIds = await findCupIds(db, Object.keys(cupsBreakdown));
+    const itemReturns = getQuantityReturnedByItem(refund);
+    const ingredientUsage = refund.ingredientUsage || {};
+
+    const alreadyCommitted = await runTransaction(db, async transaction => {
+        const existing = await transaction.get(refundRef);
+        if (existing.exists()) {
+            return true;
+        }
+
+        const orderSnapshot = await transaction.get(orderRef);
+        if (!orderSnapshot.exists()) {
+            throw new Error(`Order ${refund.orderId} is not in Firebase yet`);
+        }
+
+        const itemRefs = Object.keys(itemReturns).map(id => doc(db, 'items', id));
+        const cupRefs = Object.keys(cupIds).map(cupName => doc(db, 'cups', cupIds[cupName]));
+        const ingredientRefs = Object.keys(ingredientUsage).map(id => doc(db, 'ingredients', id));
+        const [itemSnapshots, cupSnapshots, ingredientSnapshots] = await Promise.all([
+            Promise.all(itemRefs.map(ref => transaction.get(ref))),
+            Promise.all(cupRefs.map(ref => transaction.get(ref))),
+            Promise.all(ingredientRefs.map(ref => transaction.get(ref)))
+        ]);
+        const updatedAt = new Date().toISOString();
+
+        const { synced, ...refundDocument } = refund;
+        transaction.set(refundRef, { ...refundDocument, created_at: updatedAt });
+        transaction.update(orderRef, buildRefundOrderUpdate(orderSnapshot.data(), refund, updatedAt));
+
+        itemSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const movement = itemReturns[snapshot.id];
+            transaction.update(itemRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) + movement.stock,
+                sales: Math.max(0, (Number(snapshot.data().sales) || 0) - movement.sales),
+                updated_at: updatedAt
+            });
+        });
+
+        cupSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const cupName = Object.keys(cupIds)[index];
+            transaction.update(cupRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) + cupsBreakdown[cupName],
+                updated_at: updatedAt
+            });
+        });
+
+        ingredientSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            transaction.update(ingredientRefs[index], {
+                stock: roundQuantity((Number(snapshot.data().stock) || 0) + ingredientUsage[snapshot.id]),
+                updated_at: updatedAt
+            });
+        });
+
+        return false;
+    });
+
+    return { alreadyCommitted };
+};
+
+// ===== Open tabs =====
+
+// Fields of the order document that adding lines changes, given the document as it is now
+const buildAdditionOrderUpdate = (order: Record<string, any>, addition: OrderAddition, updatedAt: string) => {
+    const cupsBreakdown: Record<string, number> = { ...(order.cups_breakdown || {}) };
+    Object.entries(addition.cupsBreakdown).forEach(([cupName, count]) => {
+        cupsBreakdown[cupName] = (cupsBreakdown[cupName] || 0) + count;
+    });
+
+    return {
+        items: [...(order.items || []), ...addition.items.map(item => buildOrderLine(item, 0))],
+        subtotal: addition.totalsAfter.subtotal,
+        total: addition.totalsAfter.total,
+        discount_total: addition.totalsAfter.discountTotal,
+        vatable_sales: addition.totalsAfter.vatableSales,
+        vat_amount: addition.totalsAfter.vatAmount,
+        vat_exempt_sales: addition.totalsAfter.vatExemptSales,
+        service_charge: addition.totalsAfter.serviceCharge,
+        payments: [...(order.payments || []), ...addition.payments],
+        amount_tendered: roundMoney((Number(order.amount_tendered) || 0) + addition.amountTendered),
+        change_due: roundMoney((Number(order.change_due) || 0) + addition.changeDue),
+        cups_used: (Number(order.cups_used) || 0) + addition.cupsUsed,
+        cups_breakdown: cupsBreakdown,
+        allItemsReady: false,
+        addition_ids: [...(order.addition_ids || []), addition.id],
+        updated_at: updatedAt
+    };
+};
+
+// Appends lines to an open order and takes their item stock, cups and ingredients in one transaction.
+// The addition id is kept on the order, so a retried sync finds it there and writes nothing.
+export const commitOrderAddition = async (
+    db: Firestore,
+    addition: OrderAddition
+): Promise<{ alreadyCommitted: boolean }> => {
+    const orderRef = doc(db, 'orders', addition.orderDocId);
+    const cupsBreakdown = addition.cupsBreakdown || {};
+    const cupIds = await findCupIds(db, Object.keys(cupsBreakdown));
+    const itemSales = getQuantitySoldByItem(addition);
+    const ingredientUsage = addition.ingredientUsage || {};
+
+    const alreadyCommitted = await runTransaction(db, async transaction => {
+        const orderSnapshot = await transaction.get(orderRef);
+        if (!orderSnapshot.exists()) {
+            throw new Error(`Order ${addition.orderId} is not in Firebase yet`);
+        }
+        const order = orderSnapshot.data();
+        if ((order.addition_ids || []).includes(addition.id)) {
+            return true;
+        }
+        if (order.status !== 'unpaid') {
+            throw new Error(`Order ${addition.orderId} is already ${order.status}`);
+        }
+
+        const itemRefs = Object.keys(itemSales).map(id => doc(db, 'items', id));
+        const cupRefs = Object.keys(cupIds).map(cupName => doc(db, 'cups', cupIds[cupName]));
+        const ingredientRefs = Object.keys(ingredientUsage).map(id => doc(db, 'ingredients', id));
+        const [itemSnapshots, cupSnapshots, ingredientSnapshots] = await Promise.all([
+            Promise.all(itemRefs.map(ref => transaction.get(ref))),
+            Promise.all(cupRefs.map(ref => transaction.get(ref))),
+            Promise.all(ingredientRefs.map(ref => transaction.get(ref)))
+        ]);
+        const updatedAt = new Date().toISOString();
+
+        transaction.update(orderRef, buildAdditionOrderUpdate(order, addition, updatedAt));
+
+        itemSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const movement = itemSales[snapshot.id];
+            transaction.update(itemRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) - movement.stock,
+                sales: (Number(snapshot.data().sales) || 0) + movement.sales,
+                updated_at: updatedAt
+            });
+        });
+
+        cupSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            const cupName = Object.keys(cupIds)[index];
+            transaction.update(cupRefs[index], {
+                stocks: (Number(snapshot.data().stocks) || 0) - cupsBreakdown[cupName],
+                updated_at: updatedAt
+            });
+        });
+
+        ingredientSnapshots.forEach((snapshot, index) => {
+            if (!snapshot.exists()) return;
+            transaction.update(ingredientRefs[index], {
+                stock: roundQuantity((Number(snapshot.data().stock) || 0) - ingredientUsage[snapshot.id]),
+                updated_at: updatedAt
+            });
+        });
+
+        return false;
+    });
+
+    return { alreadyCommitted };
+};
+
+// ===== Merged orders =====
+
+// What merging reads from an order, in the camelCase of local receipts
+export interface MergeableOrder {
+    orderId: string;
+    items: OrderLine[];
+    subtotal: number;
+    total: number;
+    discountTotal?: number;
+    vatableSales?: number;
+    vatAmount?: number;
+    vatExemptSales?: number;
+    serviceCharge?: number;
+    payments?: Tender[];
+    amountTendered?: number;
+    changeDue?: number;
+    cupsUsed?: number;
+    cupsBreakdown?: Record<string, number>;
+    discounts?: OrderDiscount[];
+    bills?: OrderBill[];
+    allItemsReady?: boolean;
+    notes?: string;
+}
+
+const fromOrderDocument = (data: Record<string, any>): MergeableOrder => ({
+    orderId: data.orderId,
+    items: data.items || [],
+    subtotal: Number(data.subtotal) || 0,
+    total: Number(data.total) || 0,
+    discountTotal: Number(data.discount_total) || 0,
+    vatableSales: Number(data.vatable_sales) || 0,
+    vatAmount: Number(data.vat_amount) || 0,
+    vatExemptSales: Number(data.vat_exempt_sales) || 0,
+    serviceCharge: Number(data.service_charge) || 0,
+    payments: data.payments || [],
+    amountTendered: Number(data.amount_tendered) || 0,
+    changeDue: Number(data.change_due) || 0,
+    cupsUsed: Number(data.cups_used) || 0,
+    cupsBreakdown: data.cups_breakdown || {},
+    discounts: data.discounts || [],
+    bills: data.bills || [],
+    allItemsReady: !!data.allItemsReady,
+    notes: data.notes || ''
+});
+
+// An order paid in one go becomes a single bill when it is merged with one that was split
+const getOrderBills = (order: MergeableOrder): OrderBill[] => {
+    if (order.bills?.length) return order.bills;
+    return [{
+        id: `bill_${order.orderId}`,
+        index: 1,
+        lines: order.items
+            .map((item, index) => ({ lineId: getOrderLineId(item, index), quantity: Number(item.quantity) || 0 }))
+            .filter((_, index) => !order.items[index].cancelled),
+        amount: order.total,
+        payments: order.payments || [],
+        amountTendered: order.amountTendered || 0,
+        changeDue: order.changeDue || 0
+    }];
+};
+
+// The target order with the source folded in. Money is added up as each order was priced and paid;
+// source lines get new line ids since the same item can sit on both orders under the same id.
+export const mergeOrders = (target: MergeableOrder, source: MergeableOrder, mergeId: string) => {
+    const renameLine = (lineId: string) => `${lineId}_${mergeId}`;
+    const sum = (key: keyof MergeableOrder) => roundMoney((Number(target[key]) || 0) + (Number(source[key]) || 0));
+
+    const cupsBreakdown: Record<string, number> = { ...(target.cupsBreakdown || {}) };
+    Object.entries(source.cupsBreakdown || {}).forEach(([cupName, count]) => {
+        cupsBreakdown[cupName] = (cupsBreakdown[cupName] || 0) + count;
+    });
+
+    const split = !!target.bills?.length || !!source.bills?.length;
+    const sourceBills = getOrderBills(source).map(bill => ({
+        ...bill,
+        lines: bill.lines.map(line => ({ ...line, lineId: renameLine(line.lineId) }))
+    }));
+
+    return {
+        items: [
+            ...target.items,
+            ...source.items.map((item, index) => ({
+                ...item,
+                lineId: renameLine(getOrderLineId(item, index)),
+                mergedFrom: source.orderId
+            }))
+        ],
+        subtotal: sum('subtotal'),
+        total: sum('total'),
+        discountTotal: sum('discountTotal'),
+        vatableSales: sum('vatableSales'),
+        vatAmount: sum('vatAmount'),
+        vatExemptSales: sum('vatExemptSales'),
+        serviceCharge: sum('serviceCharge'),
+        payments: [...(target.payments || []), ...(source.payments || [])],
+        amountTendered: sum('amountTendered'),
+        changeDue: sum('changeDue'),
+        cupsUsed: (target.cupsUsed || 0) + (source.cupsUsed || 0),
+        cupsBreakdown,
+        discounts: [
+            ...(target.discounts || []),
+            ...(source.discounts || []).map(discount =>
+                discount.lineId ? { ...discount, lineId: renameLine(discount.lineId) } : discount
+            )
+        ],
+        bills: split
+            ? [...getOrderBills(target), ...sourceBills].map((bill, index) => ({ ...bill, index: index + 1 }))
+            : [],
+        allItemsReady: !!target.allItemsReady && !!source.allItemsReady,
+        notes: [target.notes, source.notes].filter(note => note && note.trim()).join(' / ')
+    };
+};
+
+// Folds the source order into the target in one transaction; the source is cancelled and points to
+// the target. Stock is not touched, the lines only move. The merge id is kept on the target.
+export const commitOrderMerge = async (
+    db: Firestore,
+    merge: OrderMerge
+): Promise<{ alreadyCommitted: boolean }> => {
+    const targetRef = doc(db, 'orders', merge.targetDocId);
+    const sourceRef = doc(db, 'orders', merge.sourceDocId);
+
+    const alreadyCommitted = await runTransaction(db, async transaction => {
+        const [targetSnapshot, sourceSnapshot] = await Promise.all([
+            transaction.get(targetRef),
+            transaction.get(sourceRef)
+        ]);
+        if (!targetSnapshot.exists() || !sourceSnapshot.exists()) {
+            throw new Error(`Orders ${merge.targetOrderId} and ${merge.sourceOrderId} are not both in Firebase yet`);
+        }
+        const target = targetSnapshot.data();
+        const source = sourceSnapshot.data();
+        if ((target.merge_ids || []).includes(merge.id)) {
+            return true;
+        }
+        if (target.status !== 'unpaid' || source.status !== 'unpaid') {
+            throw new Error(`Only unpaid orders can be merged (${merge.targetOrderId}: ${target.status}, ${merge.sourceOrderId}: ${source.status})`);
+        }
+
+        const merged = mergeOrders(fromOrderDocument(target), fromOrderDocument(source), merge.id);
+        const updatedAt = new Date().toISOString();
+
+        transaction.update(targetRef, {
+            items: merged.items,
+            subtotal: merged.subtotal,
+            total: merged.total,
+            discount_total: merged.discountTotal,
+            vatable_sales: merged.vatableSales,
+            vat_amount: merged.vatAmount,
+            vat_exempt_sales: merged.vatExemptSales,
+            service_charge: merged.serviceCharge,
+            payments: merged.payments,
+            amount_tendered: merged.amountTendered,
+            change_due: merged.changeDue,
+            cups_used: merged.cupsUsed,
+            cups_breakdown: merged.cupsBreakdown,
+            discounts: merged.discounts,
+            ...(merged.bills.length ? { split_mode: target.split_mode || source.split_mode || 'items', bills: merged.bills } : {}),
+            allItemsReady: merged.allItemsReady,
+            notes: merged.notes,
+            merged_from: [...(target.merged_from || []), merge.sourceOrderId],
+            merge_ids: [...(target.merge_ids || []), merge.id],
+            updated_at: updatedAt
+        });
+        transaction.update(sourceRef, {
+            status: 'cancelled',
+            merged_into: merge.targetOrderId,
+            updated_at: updatedAt
+        });
+
+        return false;
+    });
+
+    return { alreadyCommitted };
+};
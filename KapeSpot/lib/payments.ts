@@ -0,0 +1,160 @@
+// lib/payments.ts
+import { Feather } from '@expo/vector-icons';
+import { Tender, TenderType, PaymentSummary } from '@/types/payment';
+
+export const TENDER_OPTIONS: {
+    type: TenderType;
+    label: string;
+    icon: keyof typeof Feather.glyphMap;
+    requiresReference: boolean;
+}[] = [
+    { type: 'cash', label: 'Cash', icon: 'dollar-sign', requiresReference: false },
+    { type: 'gcash', label: 'GCash', icon: 'smartphone', requiresReference: true },
+    { type: 'maya', label: 'Maya', icon: 'smartphone', requiresReference: true },
+    { type: 'card', label: 'Card', icon: 'credit-card', requiresReference: true },
+    { type: 'account', label: 'Charge', icon: 'book', requiresReference: false },
+];
+
+// Round to centavos so floating point sums never leave ₱0.0000001 balances
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const getTenderLabel = (type: TenderType): string => {
+    return TENDER_OPTIONS.find(option => option.type === type)?.label || type.toUpperCase();
+};
+
+export const tenderRequiresReference = (type: TenderType): boolean => {
+    return TENDER_OPTIONS.find(option => option.type === type)?.requiresReference || false;
+};
+
+export const getAmountTendered = (tenders: Tender[]): number => {
+    return roundMoney(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+};
+
+export const getBalanceDue = (total: number, tenders: Tender[]): number => {
+    return Math.max(0, roundMoney(total - getAmountTendered(tenders)));
+};
+
+// Change is only ever given back in cash, so it can never be more than the cash handed over
+export const getChangeDue = (total: number, tenders: Tender[]): number => {
+    const overpaid = roundMoney(getAmountTendered(tenders) - total);
+    if (overpaid <= 0) return 0;
+
+    const cashTendered = tenders
+        .filter(tender => tender.type === 'cash')
+        .reduce((sum, tender) => sum + tender.amount, 0);
+
+    return roundMoney(Math.min(overpaid, cashTendered));
+};
+
+// Returns an error message when the tenders can't settle the order, null when they can
+export const validateTenders = (total: number, tenders: Tender[]): string | null => {
+    if (tenders.length === 0) {
+        return 'Please add at least one payment.';
+    }
+
+    for (const tender of tenders) {
+        if (!(tender.amount > 0)) {
+            return `${getTenderLabel(tender.type)} amount must be greater than zero.`;
+        }
+        if (tenderRequiresReference(tender.type) && !tender.reference?.trim()) {
+            return `${getTenderLabel(tender.type)} payment needs a reference number.`;
+        }
+    }
+
+    const nonCashTendered = tenders
+        .filter(tender => tender.type !== 'cash')
+        .reduce((sum, tender) => sum + tender.amount, 0);
+
+    if (roundMoney(nonCashTendered) > roundMoney(total)) {
+        return 'Non-cash payments cannot exceed the amount due. Change can only be given for cash.';
+    }
+
+    if (getBalanceDue(total, tenders) > 0) {
+        return `Remaining balance of ₱${getBalanceDue(total, tenders).toFixed(2)} must be paid.`;
+    }
+
+    return null;
+};
+
+export const buildPaymentSummary = (total: number, tenders: Tender[]): PaymentSummary => ({
+    payments: tenders.map(tender => ({
+        ...tender,
+        amount: roundMoney(tender.amount),
+        reference: tender.reference?.trim() || ''
+    })),
+    amountTendered: getAmountTendered(tenders),
+    changeDue: getChangeDue(total, tenders)
+});
+
+// Tenders are taken when the order is placed, while its status stays 'unpaid' until it leaves the order
+// queue; reports and refunds go by the money, so an order counts as paid once its tenders cover the total
+export const isOrderPaid = (order: { status: string; total: number; payments?: Tender[] }): boolean => {
+    if (order.status === 'cancelled') return false;
+    if (order.status === 'paid') return true;
+    return !!order.payments?.length && getBalanceDue(order.total, order.payments) === 0;
+};
+
+// Net amount collected per tender type (cash is reduced by the change given back)
+export const getNetByTender = (payments: Tender[], changeDue: number): Record<TenderType, number> => {
+    const totals: Record<TenderType, number> = { cash: 0, gcash: 0, maya: 0, card: 0, account: 0 };
+
+    payments.forEach(payment => {
+        if (totals[payment.type] !== undefined) {
+            totals[payment.type] += payment.amount;
+        }
+    });
+    totals.cash = Math.max(0, totals.cash - (changeDue || 0));
+
+    (Object.keys(totals) as TenderType[]).forEach(type => {
+        totals[type] = roundMoney(totals[type]);
+    });
+
+    return totals;
+};
+
+// Sum net collections by tender type across orders. Orders placed before tenders
+// were recorded have no payments and are reported as 'unrecorded'.
+export const summarizeByTender = (
+    orders: { total: number; payments?: Tender[]; changeDue?: number }[]
+): Record<TenderType | 'unrecorded', number> => {
+    const summary: Record<TenderType | 'unrecorded', number> = { cash: 0, gcash: 0, maya: 0, card: 0, account: 0, unrecorded: 0 };
+
+    orders.forEach(order => {
+        // Refunds come in as negative orders, paid back through a single tender
+        if (order.total < 0) {
+            const type = order.payments?.[0]?.type;
+            summary[type && summary[type] !== undefined ? type : 'unrecorded'] += order.total;
+            return;
+        }
+
+        if (!order.payments || order.payments.length === 0) {
+            summary.unrecorded += order.total || 0;
+            return;
+        }
+
+        const net = getNetByTender(order.payments, order.changeDue || 0);
+        (Object.keys(net) as TenderType[]).forEach(type => {
+            summary[type] += net[type];
+        });
+    });
+
+    (Object.keys(summary) as (TenderType | 'unrecorded')[]).forEach(key => {
+        summary[key] = roundMoney(summary[key]);
+    });
+
+    return summary;
+};
+
+// Plain-text lines for the thermal receipt
+export const formatTenderLines = (payments: Tender[], changeDue: number): string => {
+    if (!payments || payments.length === 0) return '';
+
+    let lines = '';
+    payments.forEach(payment => {
+        const reference = payment.reference ? ` #${payment.reference.slice(-6)}` : '';
+        lines += `${getTenderLabel(payment.type).toUpperCase()}${reference}: ₱${payment.amount.toFixed(2)}\n`;
+    });
+    lines += `CHANGE: ₱${(changeDue || 0).toFixed(2)}\n`;
+
+    return lines;
+};
@@ -0,0 +1,30 @@
+// lib/pricing.ts
+import { computeDiscounts } from './discounts';
+import { computeTaxes, getStatutoryVatRate } from './tax';
+import { DiscountResult, OrderDiscount } from '@/types/discount';
+import { TaxBreakdown, TaxLine, TaxProfile } from '@/types/tax';
+
+export interface OrderTotals {
+    subtotal: number; // gross, before discounts
+    discount: DiscountResult;
+    tax: TaxBreakdown;
+    total: number; // amount the customer pays
+}
+
+// Single entry point for order money: gross -> discounts -> VAT/service charge
+export const computeOrderTotals = (
+    lines: TaxLine[],
+    discounts: OrderDiscount[],
+    orderType: 'dine-in' | 'take-out' | null,
+    profile: TaxProfile
+): OrderTotals => {
+    const discount = computeDiscounts(lines, discounts, getStatutoryVatRate(profile));
+    const tax = computeTaxes(lines, discount, orderType, profile);
+
+    return {
+        subtotal: discount.gross,
+        discount,
+        tax,
+        total: tax.total
+    };
+};
@@ -0,0 +1,301 @@
+// lib/print-queue.ts
+import BleManager from 'react-native-ble-manager';
+import RNBluetoothClassic from 'react-native-bluetooth-classic';
+import { OfflineSyncService } from './offline-sync';
+import { compileDocument } from './escpos';
+import {
+    describePrintError,
+    loadPrinterConnection,
+    loadPrintOptions,
+    recordPrinterHealth,
+    writeToPrinter
+} from './printer';
+import { PrintDocument, PrintJob, PrintJobSource } from '@/types/print';
+
+const PRINT_QUEUE_KEY = 'printQueue';
+const MAX_PRINTED_JOBS = 5;
+const COPY_GAP_MS = 1500;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+type QueueListener = (jobs: PrintJob[]) => void;
+
+const listeners = new Set<QueueListener>();
+let queueWrite: Promise<unknown> = Promise.resolve();
+let running: Promise<void> | null = null;
+let rerun = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAt = 0;
+// Compiled bytes stay in memory so the stored queue holds only documents; a job resumed after a restart
+// is compiled again from its document, which gives the same bytes while the print options are unchanged
+const compiledJobs = new Map<string, number[]>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createJobId = (): string => `print_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const loadPrintQueue = async (): Promise<PrintJob[]> => {
+    const stored = await OfflineSyncService.getInstance().getItem(PRINT_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+};
+
+// The worker and the print-queue screen both change the stored list, so writes are applied one at a time
+const mutateQueue = (change: (jobs: PrintJob[]) => PrintJob[]): Promise<PrintJob[]> => {
+    const next = queueWrite.then(async () => {
+        const jobs = change(await loadPrintQueue());
+        await OfflineSyncService.getInstance().setItem(PRINT_QUEUE_KEY, JSON.stringify(jobs));
+        listeners.forEach(listener => listener(jobs));
+        return jobs;
+    });
+    queueWrite = next.catch(() => undefined);
+    return next;
+};
+
+const updateJob = (jobId: string, changes: Partial<PrintJob>): Promise<PrintJob[]> => {
+    return mutateQueue(jobs => jobs.map(job => (job.id === jobId ? { ...job, ...changes } : job)));
+};
+
+// Only the last few printed jobs are kept for reprinting
+const prunePrinted = (jobs: PrintJob[]): PrintJob[] => {
+    const printed = jobs.filter(job => job.status === 'done');
+    const dropped = new Set(printed.slice(0, Math.max(0, printed.length - MAX_PRINTED_JOBS)).map(job => job.id));
+    return jobs.filter(job => !dropped.has(job.id));
+};
+
+export const subscribePrintQueue = (listener: QueueListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Several printers can be waiting at once, so the earliest retry wins
+const scheduleRetry = (delay: number) => {
+    const at = Date.now() + delay;
+    if (retryTimer && retryAt <= at) return;
+
+    if (retryTimer) clearTimeout(retryTimer);
+    retryAt = at;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        processPrintQueue().catch(error => console.error('❌ Print queue failed:', error));
+    }, delay);
+};
+
+// Sends the job from where it stopped; returns false when the printer failed and the job is waiting to retry
+const printJob = async (job: PrintJob): Promise<boolean> => {
+    let { copiesPrinted, sentChunks } = job;
+    let printerId = job.printerId;
+    await updateJob(job.id, { status: 'printing' });
+
+    try {
+        const connection = await loadPrinterConnection(job.printerId);
+        printerId = connection.id;
+        let bytes = compiledJobs.get(job.id);
+        if (!bytes) {
+            bytes = compileDocument(job.document, await loadPrintOptions(connection.id));
+            compiledJobs.set(job.id, bytes);
+        }
+
+        while (copiesPrinted < job.copies) {
+            // Let the cashier tear off the first copy
+            if (copiesPrinted > 0 && sentChunks === 0) await sleep(COPY_GAP_MS);
+
+            await writeToPrinter(connection, bytes, sentChunks, async sent => {
+                sentChunks = sent;
+                await updateJob(job.id, { sentChunks });
+            });
+            copiesPrinted += 1;
+            sentChunks = 0;
+            await updateJob(job.id, { copiesPrinted, sentChunks });
+        }
+
+        await mutateQueue(jobs => prunePrinted(jobs.map(queued => queued.id === job.id
+            ? { ...queued, status: 'done', lastError: null, nextAttemptAt: null, printedAt: new Date().toISOString() }
+            : queued)));
+        compiledJobs.delete(job.id);
+        await recordPrinterHealth(connection.id);
+        console.log('✅ Printed:', job.title);
+        return true;
+    } catch (error) {
+        const attempts = job.attempts + 1;
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+        console.error('❌ Print job failed:', job.title, error);
+        if (printerId) await recordPrinterHealth(printerId, error);
+
+        await updateJob(job.id, {
+            status: 'failed',
+            attempts,
+            nextAttemptAt: Date.now() + delay,
+            lastError: describePrintError(error)
+        });
+        scheduleRetry(delay);
+        return false;
+    }
+};
+
+// Receipts have no printer id and go wherever receipts print
+const queueKey = (job: PrintJob): string => job.printerId || 'receipt';
+
+// Each printer prints its jobs strictly in order: a job waiting to retry holds back the ones behind it
+// on the same printer, while the other printers carry on
+const runQueue = async () => {
+    const held = new Set<string>();
+
+    for (;;) {
+        const job = (await loadPrintQueue()).find(queued => queued.status !== 'done' && !held.has(queueKey(queued)));
+        if (!job) return;
+
+        const wait = (job.nextAttemptAt || 0) - Date.now();
+        if (wait > 0) {
+            scheduleRetry(wait);
+            held.add(queueKey(job));
+        } else if (!(await printJob(job))) {
+            held.add(queueKey(job));
+        }
+    }
+};
+
+export const processPrintQueue = (): Promise<void> => {
+    if (running) {
+        rerun = true;
+        return running;
+    }
+
+    running = (async () => {
+        try {
+            do {
+                rerun = false;
+                await runQueue();
+            } while (rerun);
+        } finally {
+            running = null;
+        }
+    })();
+    return running;
+};
+
+// Printer is back (or the cashier asked): failed jobs skip the rest of their backoff
+export const retryPrintQueue = async (): Promise<void> => {
+    await mutateQueue(jobs => jobs.map(job => (job.status === 'failed' ? { ...job, nextAttemptAt: null } : job)));
+    await processPrintQueue();
+};
+
+// Queues the document and prints it now if the printer allows; the returned job says whether it went out
+export const submitPrintJob = async (
+    title: string,
+    document: PrintDocument,
+    source: PrintJobSource,
+    copies: number = 1,
+    printerId?: string
+): Promise<PrintJob> => {
+    const job: PrintJob = {
+        id: createJobId(),
+        title,
+        source,
+        ...(printerId ? { printerId } : {}),
+        document,
+        copies,
+        status: 'pending',
+        copiesPrinted: 0,
+        sentChunks: 0,
+        attempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        createdAt: new Date().toISOString(),
+        printedAt: null
+    };
+
+    await mutateQueue(jobs => [...jobs, job]);
+    await retryPrintQueue();
+
+    return (await loadPrintQueue()).find(queued => queued.id === job.id) || job;
+};
+
+// A printed job goes back in at the end as a fresh single copy, laid out for the current paper
+export const reprintJob = async (jobId: string): Promise<void> => {
+    await mutateQueue(jobs => {
+        const job = jobs.find(queued => queued.id === jobId);
+        if (!job) return jobs;
+        return [...jobs, {
+            ...job,
+            id: createJobId(),
+            copies: 1,
+            status: 'pending',
+            copiesPrinted: 0,
+            sentChunks: 0,
+            attempts: 0,
+            nextAttemptAt: null,
+            lastError: null,
+            createdAt: new Date().toISOString(),
+            printedAt: null
+        }];
+    });
+    await processPrintQueue();
+};
+
+export const discardPrintJob = async (jobId: string): Promise<void> => {
+    await mutateQueue(jobs => jobs.filter(job => job.id !== jobId || job.status === 'printing'));
+    compiledJobs.delete(jobId);
+};
+
+// Swaps a waiting job with the next waiting one up or down, stepping over printed jobs; the job on the printer stays put
+export const movePrintJob = async (jobId: string, offset: -1 | 1): Promise<void> => {
+    await mutateQueue(jobs => {
+        const index = jobs.findIndex(job => job.id === jobId);
+        let target = index + offset;
+        while (target >= 0 && target < jobs.length && jobs[target].status === 'done') target += offset;
+        if (index < 0 || target < 0 || target >= jobs.length) return jobs;
+        if (jobs[index].status === 'printing' || jobs[target].status === 'printing') return jobs;
+
+        const reordered = [...jobs];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        return reordered;
+    });
+};
+
+export const clearPrintedJobs = async (): Promise<void> => {
+    await mutateQueue(jobs => jobs.filter(job => job.status !== 'done'));
+};
+
+// Alert text for a job that did not print right away
+export const describeQueuedJob = (job: PrintJob): string => {
+    const reason = job.status === 'failed' && job.lastError
+        ? job.lastError
+        : 'Earlier print jobs are still waiting for the printer.';
+    return `${reason}\n\n"${job.title}" is saved in the Print Queue and will print when the printer reconnects.`;
+};
+
+// A job still marked 'printing' when the app starts was cut off by a crash or a closed app, so it goes back
+// to waiting: it resumes from its last sent chunk and the cashier can move or discard it again.
+// Compiled bytes that older queues stored with each job are dropped here too.
+const recoverInterruptedJobs = (jobs: PrintJob[]): PrintJob[] => {
+    return jobs.map(job => {
+        const { bytes: _bytes, ...stored } = job as PrintJob & { bytes?: number[] | null };
+        return stored.status === 'printing' ? { ...stored, status: 'pending' } : stored;
+    });
+};
+
+// Started once by the tab layout: picks up jobs left from the last session and retries on a Bluetooth reconnect;
+// network printers have no reconnect event, so they rely on the backoff
+export const startPrintQueue = (): (() => void) => {
+    const retry = () => {
+        retryPrintQueue().catch(error => console.error('❌ Print queue retry failed:', error));
+    };
+    const subscriptions = [
+        BleManager.onConnectPeripheral(retry),
+        RNBluetoothClassic.onDeviceConnected(retry)
+    ];
+    mutateQueue(recoverInterruptedJobs)
+        .then(() => processPrintQueue())
+        .catch(error => console.error('❌ Print queue failed:', error));
+
+    return () => {
+        subscriptions.forEach(subscription => subscription.remove());
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        retryAt = 0;
+    };
+};
@@ -0,0 +1,112 @@
+// lib/printer-routing.ts
+import { OfflineSyncService } from './offline-sync';
+import { loadSavedPrinters } from './printer';
+import { submitPrintJob } from './print-queue';
+import { BundleComponent } from '@/types/bundle';
+import { SelectedModifier } from '@/types/modifier';
+import { PrepStation, PrintBlock, PrintDocument, PrinterRole, StationRouting } from '@/types/print';
+
+const STATION_ROUTING_KEY = 'stationRouting';
+
+export const PREP_STATIONS: PrepStation[] = ['bar', 'kitchen'];
+
+export const PRINTER_ROLE_LABELS: Record<PrinterRole, string> = {
+    receipt: 'Receipts',
+    bar: 'Bar',
+    kitchen: 'Kitchen'
+};
+
+export interface TicketLine {
+    name: string;
+    quantity: number;
+    category: string;
+    modifiers?: SelectedModifier[];
+    bundle?: BundleComponent[];
+}
+
+export interface TicketOrder {
+    orderId: string;
+    customerName: string;
+    orderType?: 'dine-in' | 'take-out' | null;
+    tableName?: string;
+    notes?: string;
+    lines: TicketLine[];
+    addition?: boolean; // items added to an open tab, printed as an add-on to the first ticket
+}
+
+export const loadStationRouting = async (): Promise<StationRouting> => {
+    try {
+        const stored = await OfflineSyncService.getInstance().getItem(STATION_ROUTING_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('❌ Error loading station routing:', error);
+        return {};
+    }
+};
+
+export const setCategoryStation = async (category: string, station: PrepStation | null): Promise<StationRouting> => {
+    const routing = await loadStationRouting();
+    if (station) {
+        routing[category] = station;
+    } else {
+        delete routing[category];
+    }
+
+    await OfflineSyncService.getInstance().setItem(STATION_ROUTING_KEY, JSON.stringify(routing));
+    return routing;
+};
+
+// Prep tickets carry no prices: what to make, how, and for whom
+export const buildStationTicket = (order: TicketOrder, station: PrepStation, lines: TicketLine[]): PrintDocument => {
+    const time = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const details = [
+        `TIME: ${time}`,
+        `CUSTOMER: ${order.customerName}`,
+        ...(order.orderType ? [`TYPE: ${order.orderType === 'dine-in' ? 'DINE IN' : 'TAKE OUT'}`] : []),
+        ...(order.tableName ? [`TABLE: ${order.tableName}`] : [])
+    ];
+
+    const blocks: PrintBlock[] = [
+        { type: 'text', text: PRINTER_ROLE_LABELS[station].toUpperCase(), align: 'center', bold: true, size: 'double' },
+        { type: 'text', text: order.addition ? `ADD-ON ${order.orderId}` : order.orderId, align: 'center', bold: true, size: 'tall' },
+        { type: 'separator' },
+        { type: 'text', text: details.join('\n') },
+        { type: 'separator' }
+    ];
+
+    lines.forEach(line => {
+        blocks.push({ type: 'text', text: `${line.quantity} x ${line.name}`, bold: true, size: 'tall' });
+        const options = [
+            ...(line.modifiers || []).map(modifier => `  + ${modifier.optionName}`),
+            ...(line.bundle || []).map(component => `   - ${component.quantity * line.quantity}x ${component.name}`)
+        ];
+        if (options.length > 0) {
+            blocks.push({ type: 'text', text: options.join('\n') });
+        }
+    });
+
+    blocks.push({ type: 'separator' });
+    if (order.notes && order.notes.trim()) {
+        blocks.push({ type: 'text', text: `NOTES: ${order.notes.trim()}`, bold: true }, { type: 'separator' });
+    }
+    blocks.push({ type: 'feed', lines: 3 }, { type: 'cut' });
+
+    return { blocks };
+};
+
+// Every printer of a station gets that station's lines; stations with no routed lines or no printer get nothing
+export const printStationTickets = async (order: TicketOrder): Promise<void> => {
+    const [routing, printers] = await Promise.all([loadStationRouting(), loadSavedPrinters()]);
+
+    for (const station of PREP_STATIONS) {
+        const lines = order.lines.filter(line => routing[line.category] === station);
+        const stationPrinters = printers.filter(printer => printer.role === station);
+        if (lines.length === 0 || stationPrinters.length === 0) continue;
+
+        const document = buildStationTicket(order, station, lines);
+        for (const printer of stationPrinters) {
+            await submitPrintJob(`${PRINTER_ROLE_LABELS[station]} ticket ${order.orderId}`, document, 'ticket', 1, printer.id);
+        }
+        console.log(`🧾 ${PRINTER_ROLE_LABELS[station]} ticket queued for ${order.orderId}: ${lines.length} line(s)`);
+    }
+};
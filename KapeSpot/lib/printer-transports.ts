@@ -0,0 +1,201 @@
+// lib/printer-transports.ts
+import BleManager from 'react-native-ble-manager';
+import RNBluetoothClassic, { BluetoothDevice } from 'react-native-bluetooth-classic';
+import TcpSocket from 'react-native-tcp-socket';
+import { File, Paths } from 'expo-file-system';
+import { PrinterConnection, PrinterTransport } from '@/types/print';
+
+export const RAW_PRINT_PORT = 9100;
+export const LOOPBACK_FILE_NAME = 'print-loopback.bin';
+
+const TCP_TIMEOUT_MS = 5000;
+
+const toBase64 = (bytes: number[]): string => btoa(String.fromCharCode(...bytes));
+
+const bleTransport = (connection: Extract<PrinterConnection, { kind: 'ble' }>): PrinterTransport => ({
+    kind: 'ble',
+    chunkDelayMs: 100,
+    open: async () => {
+        try {
+            await BleManager.checkState();
+        } catch {
+            await BleManager.start({ showAlert: false });
+        }
+    },
+    write: async chunk => {
+        await BleManager.write(connection.peripheralId, connection.serviceId, connection.transfer, chunk, chunk.length);
+    },
+    close: async () => undefined
+});
+
+// The SPP socket stays open between jobs; it is only dialled again after the printer dropped it
+const classicTransport = (connection: Extract<PrinterConnection, { kind: 'classic' }>): PrinterTransport => ({
+    kind: 'classic',
+    chunkDelayMs: 20,
+    open: async () => {
+        if (!(await RNBluetoothClassic.isBluetoothEnabled())) {
+            throw new Error('Bluetooth is turned off');
+        }
+        if (!(await RNBluetoothClassic.isDeviceConnected(connection.address))) {
+            await RNBluetoothClassic.connectToDevice(connection.address);
+        }
+    },
+    write: async chunk => {
+        const written = await RNBluetoothClassic.writeToDevice(connection.address, toBase64(chunk), 'base64');
+        if (!written) throw new Error('Device not connected');
+    },
+    close: async () => undefined
+});
+
+// Raw port 9100 takes the bytes as they are; a fresh socket per job so a power-cycled printer is picked up again
+const tcpTransport = (connection: Extract<PrinterConnection, { kind: 'tcp' }>): PrinterTransport => {
+    let socket: ReturnType<typeof TcpSocket.createConnection> | null = null;
+    let socketError: Error | null = null;
+
+    return {
+        kind: 'tcp',
+        chunkDelayMs: 0,
+        open: () => new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                socket?.destroy();
+                reject(new Error(`Connection to ${connection.host}:${connection.port} timed out`));
+            }, TCP_TIMEOUT_MS);
+
+            socket = TcpSocket.createConnection(
+                { host: connection.host, port: connection.port, connectTimeout: TCP_TIMEOUT_MS },
+                () => {
+                    clearTimeout(timer);
+                    resolve();
+                }
+            );
+            socket.on('error', error => {
+                clearTimeout(timer);
+                socketError = error;
+                reject(error);
+            });
+        }),
+        write: chunk => new Promise<void>((resolve, reject) => {
+            if (!socket || socketError) {
+                reject(socketError || new Error('Device not connected'));
+                return;
+            }
+            socket.write(Uint8Array.from(chunk), undefined, error => (error ? reject(error) : resolve()));
+        }),
+        close: async () => {
+            socket?.destroy();
+            socket = null;
+        }
+    };
+};
+
+const loopbackFile = (fileName: string): File => new File(Paths.document, fileName);
+
+// Virtual printer: bytes are appended to a file in the app's documents, so print paths can be checked without hardware
+const loopbackTransport = (connection: Extract<PrinterConnection, { kind: 'loopback' }>): PrinterTransport => {
+    const file = loopbackFile(connection.fileName);
+
+    return {
+        kind: 'loopback',
+        chunkDelayMs: 0,
+        open: async () => {
+            if (!file.exists) file.create();
+        },
+        write: async chunk => {
+            const handle = file.open();
+            try {
+                handle.offset = handle.size;
+                handle.writeBytes(Uint8Array.from(chunk));
+            } finally {
+                handle.close();
+            }
+        },
+        close: async () => undefined
+    };
+};
+
+export const createPrinterTransport = (connection: PrinterConnection): PrinterTransport => {
+    switch (connection.kind) {
+        case 'ble':
+            return bleTransport(connection);
+        case 'classic':
+            return classicTransport(connection);
+        case 'tcp':
+            return tcpTransport(connection);
+        case 'loopback':
+            return loopbackTransport(connection);
+    }
+};
+
+// Opens and closes the transport once, so the settings screen only saves a printer it could actually reach
+export const probePrinter = async (connection: PrinterConnection): Promise<void> => {
+    const transport = createPrinterTransport(connection);
+    try {
+        await transport.open();
+    } finally {
+        await transport.close();
+    }
+};
+
+export const disconnectPrinter = async (connection: PrinterConnection): Promise<void> => {
+    if (connection.kind === 'ble') {
+        await BleManager.disconnect(connection.peripheralId);
+    } else if (connection.kind === 'classic') {
+        await RNBluetoothClassic.disconnectFromDevice(connection.address);
+    }
+};
+
+export const PRINTER_KIND_LABELS: Record<PrinterConnection['kind'], string> = {
+    ble: 'Bluetooth LE',
+    classic: 'Bluetooth Classic',
+    tcp: 'Network (LAN)',
+    loopback: 'Virtual Printer'
+};
+
+// Paired devices first; a discovery run (Android only) adds unpaired ones in range
+export const findClassicDevices = async (discover: boolean): Promise<BluetoothDevice[]> => {
+    if (!(await RNBluetoothClassic.isBluetoothEnabled())) {
+        throw new Error('Bluetooth is turned off');
+    }
+
+    const devices = new Map<string, BluetoothDevice>();
+    (await RNBluetoothClassic.getBondedDevices()).forEach(device => devices.set(device.address, device));
+    if (discover) {
+        (await RNBluetoothClassic.startDiscovery()).forEach(device => {
+            if (!devices.has(device.address)) devices.set(device.address, device);
+        });
+    }
+    return Array.from(devices.values());
+};
+
+export const pairClassicDevice = (address: string): Promise<BluetoothDevice> => RNBluetoothClassic.pairDevice(address);
+
+export const cancelClassicDiscovery = async (): Promise<void> => {
+    await RNBluetoothClassic.cancelDiscovery();
+};
+
+export const createNetworkConnection = (host: string, port: number = RAW_PRINT_PORT): PrinterConnection => ({
+    kind: 'tcp',
+    id: `${host}:${port}`,
+    name: `Network printer ${host}`,
+    host,
+    port
+});
+
+export const createLoopbackConnection = (): PrinterConnection => ({
+    kind: 'loopback',
+    id: 'loopback',
+    name: 'Virtual Printer',
+    fileName: LOOPBACK_FILE_NAME
+});
+
+export const loopbackCaptureUri = (fileName: string = LOOPBACK_FILE_NAME): string => loopbackFile(fileName).uri;
+
+export const loopbackCaptureSize = (fileName: string = LOOPBACK_FILE_NAME): number => {
+    const file = loopbackFile(fileName);
+    return file.exists ? file.size : 0;
+};
+
+export const clearLoopbackCapture = (fileName: string = LOOPBACK_FILE_NAME): void => {
+    const file = loopbackFile(fileName);
+    if (file.exists) file.delete();
+};
@@ -0,0 +1,184 @@
+// lib/printer.ts
+import { OfflineSyncService } from './offline-sync';
+import { chunkBytes, DEFAULT_PRINT_OPTIONS } from './escpos';
+import { createPrinterTransport } from './printer-transports';
+import { PrintOptions, PrinterConnection, PrinterHealth, PrinterRole, SavedPrinter } from '@/types/print';
+
+const SAVED_PRINTERS_KEY = 'savedPrinters';
+const PRINTER_SETTINGS_KEY = 'printerSettings';
+const PRINTER_HEALTH_KEY = 'printerHealth';
+// Same size on every transport, so a job's sent-chunk count still means the same bytes after a printer change
+const CHUNK_SIZE = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Printers added in settings. Older installs had a single receipt printer, saved first as the BLE
+// characteristic ('bluetoothService') and then as one connection ('printerConnection')
+export const loadSavedPrinters = async (): Promise<SavedPrinter[]> => {
+    const syncService = OfflineSyncService.getInstance();
+    const stored = await syncService.getItem(SAVED_PRINTERS_KEY);
+    if (stored) {
+        return JSON.parse(stored);
+    }
+
+    const connection = await syncService.getItem('printerConnection');
+    if (connection) {
+        return [{ ...JSON.parse(connection), role: 'receipt' }];
+    }
+
+    const bluetoothService = await syncService.getItem('bluetoothService');
+    if (bluetoothService) {
+        const { peripheralId, serviceId, transfer } = JSON.parse(bluetoothService);
+        return [{ kind: 'ble', id: peripheralId, name: 'Bluetooth Printer', peripheralId, serviceId, transfer, role: 'receipt' }];
+    }
+    return [];
+};
+
+// POS, log and sales screens only offer printing while 'bluetoothConnection' says a receipt printer is set up
+const writeSavedPrinters = async (printers: SavedPrinter[]): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    await syncService.setItem(SAVED_PRINTERS_KEY, JSON.stringify(printers));
+
+    const receiptPrinter = printers.find(printer => printer.role === 'receipt');
+    await syncService.setItem('bluetoothConnection', JSON.stringify({
+        connected: !!receiptPrinter,
+        deviceName: receiptPrinter?.name || '',
+        peripheralId: receiptPrinter?.id || '',
+        serviceId: receiptPrinter?.kind === 'ble' ? receiptPrinter.serviceId : '',
+        connectedAt: receiptPrinter ? new Date().toISOString() : null,
+        printerKind: receiptPrinter?.kind || null
+    }));
+};
+
+// Reconnecting a saved printer keeps its role; a new one takes receipts if nothing does yet, otherwise the kitchen
+export const saveSavedPrinter = async (connection: PrinterConnection): Promise<SavedPrinter> => {
+    const printers = await loadSavedPrinters();
+    const existing = printers.find(printer => printer.id === connection.id);
+    const role: PrinterRole = existing?.role
+        || (printers.some(printer => printer.role === 'receipt') ? 'kitchen' : 'receipt');
+    const saved: SavedPrinter = { ...connection, role };
+
+    await writeSavedPrinters(existing
+        ? printers.map(printer => (printer.id === connection.id ? saved : printer))
+        : [...printers, saved]);
+    return saved;
+};
+
+export const setPrinterRole = async (printerId: string, role: PrinterRole): Promise<void> => {
+    const printers = await loadSavedPrinters();
+    await writeSavedPrinters(printers.map(printer => (printer.id === printerId ? { ...printer, role } : printer)));
+};
+
+export const removeSavedPrinter = async (printerId: string): Promise<void> => {
+    const printers = await loadSavedPrinters();
+    await writeSavedPrinters(printers.filter(printer => printer.id !== printerId));
+};
+
+// A saved printer by id, or the first receipt printer when no id is given
+export const loadPrinterConnection = async (printerId?: string): Promise<PrinterConnection> => {
+    const printers = await loadSavedPrinters();
+    const printer = printerId
+        ? printers.find(saved => saved.id === printerId)
+        : printers.find(saved => saved.role === 'receipt');
+
+    if (!printer) {
+        throw new Error(printerId ? 'Printer was removed' : 'No printer connected');
+    }
+    return printer;
+};
+
+export const loadPrinterHealth = async (): Promise<Record<string, PrinterHealth>> => {
+    try {
+        const stored = await OfflineSyncService.getInstance().getItem(PRINTER_HEALTH_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('❌ Error loading printer health:', error);
+        return {};
+    }
+};
+
+// Called with the error of a failed job or test, or without one when it printed
+export const recordPrinterHealth = async (printerId: string, error?: unknown): Promise<void> => {
+    try {
+        const health = await loadPrinterHealth();
+        const now = new Date().toISOString();
+
+        health[printerId] = {
+            ok: error === undefined,
+            checkedAt: now,
+            lastPrintedAt: error === undefined ? now : health[printerId]?.lastPrintedAt || null,
+            lastError: error === undefined ? null : describePrintError(error)
+        };
+        await OfflineSyncService.getInstance().setItem(PRINTER_HEALTH_KEY, JSON.stringify(health));
+    } catch (storageError) {
+        console.error('❌ Error saving printer health:', storageError);
+    }
+};
+
+// Paper width and peso style are kept per printer, keyed by connection id, on this device only
+export const loadPrintOptions = async (printerId: string): Promise<PrintOptions> => {
+    try {
+        const stored = await OfflineSyncService.getInstance().getItem(PRINTER_SETTINGS_KEY);
+        const settings: Record<string, Partial<PrintOptions>> = stored ? JSON.parse(stored) : {};
+        return { ...DEFAULT_PRINT_OPTIONS, ...settings[printerId] };
+    } catch (error) {
+        console.error('❌ Error loading printer settings:', error);
+        return DEFAULT_PRINT_OPTIONS;
+    }
+};
+
+export const savePrintOptions = async (printerId: string, options: PrintOptions): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    const stored = await syncService.getItem(PRINTER_SETTINGS_KEY);
+    const settings: Record<string, PrintOptions> = stored ? JSON.parse(stored) : {};
+
+    settings[printerId] = options;
+    await syncService.setItem(PRINTER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Starting at fromChunk lets an interrupted job pick up where the last write failed
+export const writeToPrinter = async (
+    connection: PrinterConnection,
+    bytes: number[],
+    fromChunk: number = 0,
+    onChunkSent?: (sentChunks: number) => Promise<void>
+): Promise<void> => {
+    const transport = createPrinterTransport(connection);
+    const chunks = chunkBytes(bytes, CHUNK_SIZE);
+    console.log(`🖨️ Sending chunks ${fromChunk + 1}-${chunks.length} (${bytes.length} bytes) to ${connection.name} over ${connection.kind}`);
+
+    await transport.open();
+    try {
+        for (let i = fromChunk; i < chunks.length; i++) {
+            await transport.write(chunks[i]);
+            if (onChunkSent) await onChunkSent(i + 1);
+
+            // Give the printer time to drain its buffer
+            if (transport.chunkDelayMs > 0 && i < chunks.length - 1) {
+                await sleep(transport.chunkDelayMs);
+            }
+        }
+    } finally {
+        await transport.close();
+    }
+};
+
+// Cashier-facing reason for a failed print
+export const describePrintError = (error: unknown): string => {
+    if (!(error instanceof Error)) return 'Unknown error occurred.';
+
+    const message = error.message;
+    if (message.includes('Device not connected')) return 'Printer is disconnected. Please reconnect.';
+    if (message.includes('No printer connected')) return 'No receipt printer is set up. Connect one in Settings.';
+    if (message.includes('Printer was removed')) return 'This printer was removed in Settings.';
+    if (message.includes('Bluetooth is turned off')) return 'Bluetooth is turned off. Turn it on to print.';
+    if (message.includes('timed out') || /ECONNREFUSED|EHOSTUNREACH|ENETUNREACH/.test(message)) {
+        return 'Network printer is not reachable. Check that it is on and on the same Wi-Fi.';
+    }
+    if (message.includes('Characteristic not found')) return 'Printer service not found.';
+    if (message.includes('Write not permitted')) return 'No permission to write to printer.';
+    if (message.includes('buffer') || message.includes('overflow')) {
+        return 'Receipt too large. Try with fewer items or contact support.';
+    }
+    return `Error: ${message}`;
+};
@@ -0,0 +1,225 @@
+// lib/promotions.ts
+import {
+    getFirestore,
+    collection,
+    getDocs,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    doc
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { roundMoney } from './payments';
+import { LinePromotion, Promotion, PromotionSummary } from '@/types/promotion';
+import { OrderLine } from '@/types/order';
+
+const PROMOTIONS_KEY = 'promotions';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidPromotionTime = (value: string): boolean => !value || TIME_PATTERN.test(value);
+export const isValidPromotionDate = (value: string): boolean => !value || DATE_PATTERN.test(value);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Local calendar date and clock, compared as strings against the schedule
+const toLocalDate = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toLocalTime = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const normalizePromotion = (id: string, data: any): Promotion => ({
+    id,
+    firebaseId: id,
+    name: data.name || '',
+    valueType: data.valueType === 'fixed' ? 'fixed' : 'percent',
+    value: Number(data.value) || 0,
+    days: Array.isArray(data.days) ? data.days.map(Number).filter((day: number) => day >= 0 && day <= 6) : [],
+    startTime: data.startTime || '',
+    endTime: data.endTime || '',
+    startDate: data.startDate || null,
+    endDate: data.endDate || null,
+    itemCodes: Array.isArray(data.itemCodes) ? data.itemCodes : [],
+    categories: Array.isArray(data.categories) ? data.categories : [],
+    active: data.active !== false
+});
+
+// A window whose end is earlier than its start (22:00-02:00) runs past midnight and counts for the day it started
+export const isPromotionRunning = (promotion: Promotion, now: Date = new Date()): boolean => {
+    if (!promotion.active || !(promotion.value > 0)) return false;
+
+    const today = toLocalDate(now);
+    if (promotion.startDate && today < promotion.startDate) return false;
+    if (promotion.endDate && today > promotion.endDate) return false;
+
+    const time = toLocalTime(now);
+    const { startTime, endTime } = promotion;
+    const overnight = !!startTime && !!endTime && endTime < startTime;
+    let day = now.getDay();
+
+    if (overnight) {
+        if (time < endTime) {
+            day = (day + 6) % 7;
+        } else if (time < startTime) {
+            return false;
+        }
+    } else {
+        if (startTime && time < startTime) return false;
+        if (endTime && time >= endTime) return false;
+    }
+
+    return promotion.days.length === 0 || promotion.days.includes(day);
+};
+
+export const isPromotionTarget = (promotion: Promotion, item: { code?: string; category?: string }): boolean => {
+    if (promotion.itemCodes.length === 0 && promotion.categories.length === 0) return true;
+    const code = (item.code || '').trim().toUpperCase();
+    return (!!code && promotion.itemCodes.some(itemCode => itemCode.trim().toUpperCase() === code)) ||
+        (!!item.category && promotion.categories.includes(item.category));
+};
+
+const getUnitDiscount = (promotion: Promotion, unitPrice: number): number => {
+    if (unitPrice <= 0) return 0;
+    const amount = promotion.valueType === 'percent'
+        ? unitPrice * Math.min(promotion.value, 100) / 100
+        : promotion.value;
+    return roundMoney(Math.min(amount, unitPrice));
+};
+
+// Promotions don't stack: the line gets the one running now that takes the most off
+export const findLinePromotion = (
+    promotions: Promotion[],
+    item: { code?: string; category?: string },
+    unitPrice: number,
+    now: Date = new Date()
+): LinePromotion | null => {
+    let best: LinePromotion | null = null;
+
+    promotions
+        .filter(promotion => isPromotionRunning(promotion, now) && isPromotionTarget(promotion, item))
+        .forEach(promotion => {
+            const unitDiscount = getUnitDiscount(promotion, unitPrice);
+            if (unitDiscount > 0 && (!best || unitDiscount > best.unitDiscount)) {
+                best = { promotionId: promotion.id, name: promotion.name, regularPrice: unitPrice, unitDiscount };
+            }
+        });
+
+    return best;
+};
+
+// e.g. "20% off · Mon, Tue · 14:00-16:00 · until 2026-12-31"
+export const describePromotion = (promotion: Promotion): string => {
+    const parts = [
+        promotion.valueType === 'percent' ? `${promotion.value}% off` : `₱${promotion.value.toFixed(2)} off each`
+    ];
+    parts.push(promotion.days.length === 0 || promotion.days.length === 7
+        ? 'Every day'
+        : [...promotion.days].sort().map(day => DAY_LABELS[day]).join(', '));
+    if (promotion.startTime || promotion.endTime) {
+        parts.push(`${promotion.startTime || 'open'}-${promotion.endTime || 'close'}`);
+    }
+    if (promotion.startDate) parts.push(`from ${promotion.startDate}`);
+    if (promotion.endDate) parts.push(`until ${promotion.endDate}`);
+    return parts.join(' · ');
+};
+
+export const describeLinePromotion = (promotion: LinePromotion | undefined, quantity: number): string => {
+    if (!promotion) return '';
+    return `${promotion.name} -₱${(promotion.unitDiscount * quantity).toFixed(2)}`;
+};
+
+// Plain-text line for the thermal receipt, under the item it priced
+export const formatPromotionLine = (promotion: LinePromotion | undefined, quantity: number): string => {
+    if (!promotion) return '';
+    return `   ${describeLinePromotion(promotion, quantity)}\n`;
+};
+
+// Redemptions and cost per promotion over paid orders; voided and refunded lines don't count
+export const summarizePromotions = (
+    orders: { refundId?: string; items?: OrderLine[] }[]
+): PromotionSummary[] => {
+    const summaries: Record<string, PromotionSummary> = {};
+
+    orders.forEach(order => {
+        if (order.refundId) return;
+        const counted = new Set<string>();
+
+        (order.items || []).forEach(line => {
+            const promotion = line.promotion;
+            if (!promotion || line.cancelled || line.refunded) return;
+
+            const quantity = Number(line.quantity) || 0;
+            const summary = summaries[promotion.promotionId] ||
+                { promotionId: promotion.promotionId, name: promotion.name, orders: 0, units: 0, cost: 0 };
+
+            summary.units += quantity;
+            summary.cost = roundMoney(summary.cost + promotion.unitDiscount * quantity);
+            if (!counted.has(promotion.promotionId)) {
+                summary.orders += 1;
+                counted.add(promotion.promotionId);
+            }
+            summaries[promotion.promotionId] = summary;
+        });
+    });
+
+    return Object.values(summaries).sort((a, b) => b.cost - a.cost);
+};
+
+// ===== Promotion storage =====
+
+// Load promotions from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadPromotions = async (): Promise<Promotion[]> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const db = getFirestore(app);
+            const snapshot = await getDocs(collection(db, 'promotions'));
+            const promotions = snapshot.docs.map(promotionDoc => normalizePromotion(promotionDoc.id, promotionDoc.data()));
+
+            await syncService.setItem(PROMOTIONS_KEY, JSON.stringify(promotions));
+            console.log('✅ Promotions loaded from Firebase:', promotions.length);
+            return promotions;
+        }
+    } catch (error) {
+        console.error('❌ Error loading promotions from Firebase:', error);
+    }
+
+    const localPromotions = await syncService.getItem(PROMOTIONS_KEY);
+    return localPromotions ? JSON.parse(localPromotions) : [];
+};
+
+// Managed online only, like promo codes, so every tablet prices the same
+export const savePromotion = async (promotion: Omit<Promotion, 'id'> & { id?: string }): Promise<void> => {
+    const db = getFirestore(app);
+    const data = {
+        name: promotion.name.trim(),
+        valueType: promotion.valueType,
+        value: promotion.value,
+        days: promotion.days,
+        startTime: promotion.startTime,
+        endTime: promotion.endTime,
+        startDate: promotion.startDate || null,
+        endDate: promotion.endDate || null,
+        itemCodes: promotion.itemCodes,
+        categories: promotion.categories,
+        active: promotion.active,
+        updated_at: new Date().toISOString()
+    };
+
+    if (promotion.firebaseId) {
+        await updateDoc(doc(db, 'promotions', promotion.firebaseId), data);
+    } else {
+        await addDoc(collection(db, 'promotions'), { ...data, created_at: new Date().toISOString() });
+    }
+};
+
+export const deletePromotion = async (firebaseId: string): Promise<void> => {
+    const db = getFirestore(app);
+    await deleteDoc(doc(db, 'promotions', firebaseId));
+};
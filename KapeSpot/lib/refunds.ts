@@ -0,0 +1,309 @@
+// lib/refunds.ts
+import { getFirestore, collection, getDocs } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { commitRefund, getItemMovements, getOrderLineId, markRefundedLines } from './orders';
+import { expandBundleLines } from './bundles';
+import { computeOrderTotals } from './pricing';
+import { getTenderLabel, isOrderPaid, roundMoney } from './payments';
+import { computeCupUsage, restoreCupsLocally } from './cups';
+import { computeIngredientUsage, restoreIngredientsLocally } from './ingredients';
+import { reverseLoyaltyForRefund } from './loyalty';
+import { reverseCreditForRefund } from './credit';
+import { OrderDiscount } from '@/types/discount';
+import { OrderLine } from '@/types/order';
+import { Tender, TenderType } from '@/types/payment';
+import { TaxLine, TaxProfile } from '@/types/tax';
+import { RefundKind, RefundLine, RefundReasonCode, RefundRecord } from '@/types/refund';
+import { PrintBlock, PrintDocument } from '@/types/print';
+
+export const REFUND_REASONS: { code: RefundReasonCode; label: string }[] = [
+    { code: 'customer_request', label: 'Customer request' },
+    { code: 'wrong_item', label: 'Wrong item' },
+    { code: 'quality', label: 'Quality issue' },
+    { code: 'long_wait', label: 'Long wait' },
+    { code: 'duplicate', label: 'Duplicate order' },
+    { code: 'pricing_error', label: 'Pricing error' },
+    { code: 'other', label: 'Other' }
+];
+
+export const getRefundReasonLabel = (code: RefundReasonCode): string => {
+    return REFUND_REASONS.find(reason => reason.code === code)?.label || code;
+};
+
+export const createRefundId = (): string => {
+    return `rfd_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// What the refund flow needs from an order, whether it came from Firestore or pendingReceipts
+export interface RefundableOrder {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerName: string;
+    orderType?: 'dine-in' | 'take-out';
+    status: 'unpaid' | 'paid' | 'cancelled';
+    items: OrderLine[];
+    total: number;
+    discounts?: OrderDiscount[];
+    payments?: Tender[];
+    refundedTotal?: number;
+}
+
+export interface RefundableLine {
+    lineId: string;
+    item: OrderLine;
+}
+
+// Orders nothing was paid on are voided; once tenders were taken the money goes back as a refund
+export const getRefundKind = (order: RefundableOrder): RefundKind => {
+    return isOrderPaid(order) ? 'refund' : 'void';
+};
+
+// Lines that can still be voided or refunded
+export const getRefundableLines = (order: RefundableOrder): RefundableLine[] => {
+    return order.items
+        .map((item, index) => ({ lineId: getOrderLineId(item, index), item }))
+        .filter(line => !line.item.cancelled && !line.item.refunded);
+};
+
+export const isRefundForOrder = (
+    refund: RefundRecord,
+    order: { orderId: string; firebaseId?: string; idempotencyKey?: string }
+): boolean => {
+    if (order.idempotencyKey && refund.orderKey === order.idempotencyKey) return true;
+    if (order.firebaseId) return refund.orderDocId === order.firebaseId;
+    return !order.idempotencyKey && refund.orderId === order.orderId;
+};
+
+const toTaxLines = (lines: RefundableLine[]): TaxLine[] => {
+    return lines.map(line => ({
+        lineId: line.lineId,
+        code: line.item.code,
+        category: line.item.category,
+        price: Number(line.item.price) || 0,
+        quantity: Number(line.item.quantity) || 0
+    }));
+};
+
+const toRefundLine = (line: RefundableLine): RefundLine => {
+    const price = Number(line.item.price) || 0;
+    const quantity = Number(line.item.quantity) || 0;
+    const itemId = line.item.firebaseId || line.item.id;
+    return {
+        lineId: line.lineId,
+        name: line.item.name,
+        quantity,
+        price,
+        amount: roundMoney(price * quantity),
+        ...(itemId ? { itemId: String(itemId) } : {}),
+        ...(line.item.bundle?.length ? {
+            bundle: line.item.bundle.map(component => ({ itemId: component.itemId, quantity: component.quantity }))
+        } : {})
+    };
+};
+
+export interface RefundRequest {
+    order: RefundableOrder;
+    lineIds: string[];
+    reasonCode: RefundReasonCode;
+    reasonNote: string;
+    requestedBy: string;
+    approvedBy: string;
+    tender?: TenderType;
+}
+
+// Works out what a void/refund takes off the order with the same totals the POS uses: the amount is
+// the difference between the order with and without the selected lines, so discounts and VAT follow
+export const buildRefund = (request: RefundRequest, profile: TaxProfile): RefundRecord => {
+    const { order } = request;
+    const kind = getRefundKind(order);
+    const remaining = getRefundableLines(order);
+    const selected = remaining.filter(line => request.lineIds.includes(line.lineId));
+    const kept = remaining.filter(line => !request.lineIds.includes(line.lineId));
+    const full = kept.length === 0;
+    const orderType = order.orderType || null;
+    const discounts = order.discounts || [];
+    const after = computeOrderTotals(toTaxLines(kept), discounts, orderType, profile);
+
+    let amount: number;
+    if (kind === 'void') {
+        amount = full ? order.total : order.total - after.total;
+    } else {
+        const paidLeft = order.total - (order.refundedTotal || 0);
+        const before = computeOrderTotals(toTaxLines(remaining), discounts, orderType, profile);
+        amount = full ? paidLeft : Math.min(paidLeft, before.total - after.total);
+    }
+
+    const selectedItems = selected.map(line => line.item);
+    const orderDocId = order.firebaseId || order.idempotencyKey || order.orderId;
+
+    return {
+        id: createRefundId(),
+        kind,
+        orderId: order.orderId,
+        orderDocId,
+        orderKey: order.idempotencyKey || orderDocId,
+        customerName: order.customerName,
+        ...(order.orderType ? { orderType: order.orderType } : {}),
+        lines: selected.map(toRefundLine),
+        full,
+        amount: roundMoney(Math.max(0, amount)),
+        ...(kind === 'refund' ? { tender: request.tender || order.payments?.[0]?.type || 'cash' } : {}),
+        ...(kind === 'void' ? {
+            totalsAfter: {
+                subtotal: full ? 0 : after.subtotal,
+                total: full ? 0 : after.total,
+                discountTotal: full ? 0 : after.discount.discountTotal,
+                vatableSales: full ? 0 : after.tax.vatableSales,
+                vatAmount: full ? 0 : after.tax.vatAmount,
+                vatExemptSales: full ? 0 : after.tax.vatExemptSales,
+                serviceCharge: full ? 0 : after.tax.serviceCharge
+            }
+        } : {}),
+        cupsBreakdown: order.orderType === 'take-out' ? computeCupUsage(expandBundleLines(selectedItems)) : {},
+        ingredientUsage: computeIngredientUsage(expandBundleLines(selectedItems)),
+        reasonCode: request.reasonCode,
+        reasonNote: request.reasonNote.trim(),
+        requestedBy: request.requestedBy,
+        approvedBy: request.approvedBy,
+        timestamp: new Date().toISOString()
+    };
+};
+
+// Local copies follow right away so every screen is right while offline
+const applyRefundLocally = async (refund: RefundRecord): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    const receipts = await syncService.getPendingReceipts();
+    await syncService.setItem('pendingReceipts', JSON.stringify(receipts.map(receipt => {
+        if (!isRefundForOrder(refund, receipt)) return receipt;
+
+        const items = markRefundedLines(receipt.items, refund);
+        if (refund.kind === 'void' && refund.totalsAfter) {
+            return { ...receipt, items, ...refund.totalsAfter, status: refund.full ? 'cancelled' : receipt.status };
+        }
+        return {
+            ...receipt,
+            items,
+            refundedTotal: roundMoney((receipt.refundedTotal || 0) + refund.amount),
+            status: refund.full ? 'paid' : receipt.status
+        };
+    })));
+
+    const returned = getItemMovements(refund.lines);
+    if (Object.keys(returned).length > 0) {
+        const localItems = await syncService.getItems();
+        await syncService.setItem('localItems', JSON.stringify(localItems.map(item => {
+            const movement = returned[item.firebaseId] || returned[item.id];
+            return movement
+                ? { ...item, stocks: (Number(item.stocks) || 0) + movement.stock, sales: Math.max(0, (Number(item.sales) || 0) - movement.sales) }
+                : item;
+        })));
+    }
+
+    await restoreCupsLocally(refund.cupsBreakdown);
+    await restoreIngredientsLocally(refund.ingredientUsage);
+};
+
+// Records a void/refund: local copies, the customer's loyalty and the sync queue first, then Firestore
+// right away when online.
+// If the order still has queued writes the engine sends the refund after them instead.
+export const processRefund = async (refund: RefundRecord): Promise<RefundRecord> => {
+    const syncService = OfflineSyncService.getInstance();
+    const pendingForOrder = (await syncService.getPendingItems()).some(item =>
+        item.data?.idempotencyKey === refund.orderKey ||
+        item.data?.orderKey === refund.orderKey ||
+        (!!item.data?.firebaseId && item.data.firebaseId === refund.orderDocId)
+    );
+
+    await applyRefundLocally(refund);
+    await syncService.addPendingRefund(refund);
+    await reverseLoyaltyForRefund(refund);
+    await reverseCreditForRefund(refund);
+    console.log('✅ Refund recorded locally:', refund.orderId, refund.kind, refund.amount);
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode !== 'online') return refund;
+
+        if (pendingForOrder) {
+            await syncService.trySync();
+            return refund;
+        }
+
+        await commitRefund(getFirestore(app), refund);
+        await syncService.markRefundSynced(refund.id);
+        console.log('✅ Refund committed to Firebase:', refund.id);
+        return { ...refund, synced: true };
+    } catch (error) {
+        console.error('❌ Refund commit error - it stays queued for sync:', error);
+        return refund;
+    }
+};
+
+// Refunds in Firestore plus this tablet's refunds that haven't synced yet, newest first
+export const loadRefunds = async (): Promise<RefundRecord[]> => {
+    const localRefunds = await OfflineSyncService.getInstance().getRefunds();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const snapshot = await getDocs(collection(getFirestore(app), 'refunds'));
+            const remote = snapshot.docs.map(refundDoc => ({ ...refundDoc.data(), id: refundDoc.id, synced: true } as RefundRecord));
+            const remoteIds = new Set(remote.map(refund => refund.id));
+            return [...remote, ...localRefunds.filter(refund => !remoteIds.has(refund.id))]
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        }
+    } catch (error) {
+        console.error('❌ Error loading refunds from Firebase:', error);
+    }
+
+    return localRefunds;
+};
+
+// Slip for the thermal printer; names and the note wrap to the paper width, amounts stay flush right
+export const formatRefundReceipt = (refund: RefundRecord): PrintDocument => {
+    const date = new Date(refund.timestamp);
+    const details = [
+        `DATE: ${date.toLocaleDateString()}`,
+        `TIME: ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+        `ORDER: ${refund.orderId}`,
+        `CUSTOMER: ${refund.customerName}`
+    ];
+
+    const blocks: PrintBlock[] = [
+        { type: 'text', text: 'KAPE SPOT', align: 'center', bold: true, size: 'double' },
+        { type: 'text', text: refund.kind === 'void' ? 'VOID SLIP' : 'REFUND RECEIPT', align: 'center', bold: true },
+        { type: 'separator' },
+        { type: 'text', text: details.join('\n') },
+        { type: 'separator' },
+        ...refund.lines.map((line): PrintBlock => ({
+            type: 'row',
+            left: `${line.quantity}x ${line.name}`,
+            right: `-₱${line.amount.toFixed(2)}`
+        })),
+        { type: 'separator' },
+        { type: 'row', left: refund.kind === 'void' ? 'VOIDED:' : 'REFUNDED:', right: `-₱${refund.amount.toFixed(2)}`, bold: true }
+    ];
+
+    const footer: string[] = [];
+    if (refund.tender) {
+        footer.push(`PAID BACK: ${getTenderLabel(refund.tender).toUpperCase()}`);
+    }
+    footer.push(`REASON: ${getRefundReasonLabel(refund.reasonCode)}`);
+    if (refund.reasonNote) {
+        footer.push(`NOTE: ${refund.reasonNote}`);
+    }
+    footer.push(`APPROVED BY: ${refund.approvedBy}`);
+
+    blocks.push(
+        { type: 'text', text: footer.join('\n') },
+        { type: 'separator' },
+        { type: 'feed', lines: 3 },
+        { type: 'cut' }
+    );
+
+    return { blocks };
+};
@@ -0,0 +1,29 @@
+// lib/scanning.ts
+
+// The camera reports the same code many times a second while it stays in view
+export const SCAN_REPEAT_MS = 1500;
+
+export interface LastScan {
+    code: string;
+    at: number;
+}
+
+// Scanners can send a trailing Enter/Tab or stray control characters with the code
+export const normalizeScannedCode = (raw: string): string => {
+    return raw
+        .split('')
+        .filter(char => char.charCodeAt(0) > 31 && char.charCodeAt(0) !== 127)
+        .join('')
+        .trim();
+};
+
+// Item codes are matched ignoring case, so a QR label printed in lower case still finds its item
+export const findItemByCode = <T extends { code: string }>(items: T[], raw: string): T | undefined => {
+    const code = normalizeScannedCode(raw).toLowerCase();
+    if (!code) return undefined;
+    return items.find(item => (item.code || '').trim().toLowerCase() === code);
+};
+
+export const isRepeatScan = (last: LastScan | null, code: string, now: number = Date.now()): boolean => {
+    return !!last && last.code === code && now - last.at < SCAN_REPEAT_MS;
+};
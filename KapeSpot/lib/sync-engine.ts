@@ -0,0 +1,247 @@
+// lib/sync-engine.ts
+// Operation-log sync: queued offline writes are replayed against Firestore through one handler per
+// operation type. Nothing in here touches Firebase or device storage directly, so the engine can be
+// driven by an in-memory queue and a fake backend.
+import { OrderAddition, OrderCommitData, OrderMerge } from '@/types/order';
+import { ConflictField } from '@/types/conflict';
+import { RefundRecord } from '@/types/refund';
+
+export type SyncOperationType =
+    | 'CREATE_ITEM' | 'UPDATE_ITEM' | 'DELETE_ITEM'
+    | 'CREATE_CATEGORY' | 'UPDATE_CATEGORY' | 'DELETE_CATEGORY'
+    | 'CREATE_CUP' | 'UPDATE_CUP' | 'DELETE_CUP'
+    | 'CREATE_ORDER' | 'UPDATE_ORDER' | 'ADD_ORDER_ITEMS' | 'MERGE_ORDERS'
+    | 'CREATE_REFUND'
+    | 'SAVE_CUSTOMER' | 'SAVE_LOYALTY_ENTRY' | 'SAVE_CREDIT_ENTRY';
+
+export interface SyncOperation {
+    id: string;
+    type: SyncOperationType;
+    data: any;
+    timestamp: number;
+    retryCount: number;
+    serverId?: string;
+    nextAttemptAt?: number; // backoff: not retried before this time
+    lastError?: string;
+    failedAt?: number; // set when moved to the dead-letter queue
+}
+
+// The few Firestore calls handlers need; the app passes a Firestore-backed one, tests a fake
+export interface SyncBackend {
+    create(collectionName: string, data: Record<string, any>): Promise<string>;
+    update(collectionName: string, id: string, data: Record<string, any>): Promise<void>;
+    remove(collectionName: string, id: string): Promise<void>;
+    // Creates or overwrites the fields of a document whose id was made on the tablet
+    set(collectionName: string, id: string, data: Record<string, any>): Promise<void>;
+    // Reads the document and writes what buildUpdate returns in one transaction (null = write nothing)
+    updateWithLatest(
+        collectionName: string,
+        id: string,
+        buildUpdate: (current: Record<string, any> | null) => Record<string, any> | null
+    ): Promise<void>;
+    commitOrder(order: OrderCommitData): Promise<{ firebaseId: string; alreadyCommitted: boolean; sequence: number | null }>;
+    commitRefund(refund: RefundRecord): Promise<{ alreadyCommitted: boolean }>;
+    commitOrderAddition(addition: OrderAddition): Promise<{ alreadyCommitted: boolean }>;
+    commitOrderMerge(merge: OrderMerge): Promise<{ alreadyCommitted: boolean }>;
+}
+
+export interface SyncHandler {
+    collection: string;
+    // Operations on the same entity are applied in queue order; defaults to the operation id
+    getEntityId?: (operation: SyncOperation) => string;
+    // Further entities of the same collection the operation touches; it waits behind their failed
+    // operations as well, and their later operations wait behind it
+    getRelatedEntityIds?: (operation: SyncOperation) => string[];
+    apply: (operation: SyncOperation, backend: SyncBackend) => Promise<void>;
+}
+
+export interface SyncQueueStore {
+    loadQueue(): Promise<SyncOperation[]>;
+    saveQueue(operations: SyncOperation[]): Promise<void>;
+    loadDeadLetters(): Promise<SyncOperation[]>;
+    saveDeadLetters(operations: SyncOperation[]): Promise<void>;
+}
+
+export interface SyncRunResult {
+    synced: number;
+    failed: number;
+    deadLettered: number;
+    skipped: number; // backing off or waiting behind an earlier operation on the same entity
+    remaining: number;
+}
+
+export const MAX_SYNC_RETRIES = 10;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at 30 minutes
+export const getRetryDelay = (retryCount: number): number => {
+    return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1)));
+};
+
+// ===== Offline edit merge =====
+
+// Version stamp of a synced document: `revision` is bumped by every sync write, `updated_at` by every write
+export interface VersionStamp {
+    revision?: number;
+    updated_at?: string;
+}
+
+export interface MergeResult {
+    changes: Record<string, any>; // fields safe to write
+    conflicts: ConflictField[]; // fields the other device also changed; left as they are in Firestore
+}
+
+const sameValue = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Three-way merge of an offline edit: `base` is what this tablet saw before editing, `changes` the
+// fields it edited, `remote` the document now. Untouched fields never overwrite the other device's
+// edits; a field only conflicts when both sides changed it to different values.
+// Fields without a base value (not recorded when the edit was queued) are written as they are.
+export const mergeOfflineChanges = (
+    base: Record<string, any> & VersionStamp,
+    changes: Record<string, any>,
+    remote: Record<string, any> & VersionStamp
+): MergeResult => {
+    const unchangedRemotely = base.revision != null
+        && remote.revision === base.revision
+        && remote.updated_at === base.updated_at;
+    if (unchangedRemotely) {
+        return { changes: { ...changes }, conflicts: [] };
+    }
+
+    const merged: Record<string, any> = {};
+    const conflicts: ConflictField[] = [];
+
+    Object.keys(changes).forEach(field => {
+        if (sameValue(changes[field], remote[field])) return;
+
+        // No base value recorded for this field: last write wins, as before
+        if (!(field in base) || sameValue(base[field], remote[field])) {
+            merged[field] = changes[field];
+        } else {
+            conflicts.push({ field, base: base[field], local: changes[field], remote: remote[field] });
+        }
+    });
+
+    return { changes: merged, conflicts };
+};
+
+const describeError = (error: unknown): string => {
+    return error instanceof Error ? error.message : String(error);
+};
+
+export class SyncEngine {
+    private handlers: Partial<Record<SyncOperationType, SyncHandler>> = {};
+
+    constructor(
+        private store: SyncQueueStore,
+        private backend: SyncBackend,
+        private now: () => number = Date.now
+    ) {}
+
+    register(type: SyncOperationType, handler: SyncHandler): this {
+        this.handlers[type] = handler;
+        return this;
+    }
+
+    private getEntityKeys(operation: SyncOperation): string[] {
+        const handler = this.handlers[operation.type];
+        const entityId = handler?.getEntityId ? handler.getEntityId(operation) : operation.id;
+        const relatedIds = handler?.getRelatedEntityIds ? handler.getRelatedEntityIds(operation) : [];
+        return [entityId, ...relatedIds].map(id => `${handler?.collection || operation.type}:${id}`);
+    }
+
+    // Replays the queue oldest first. A failed operation blocks later operations on the same entity
+    // until it succeeds, so an update can never overtake the create it depends on. A dead-lettered
+    // operation keeps its entity blocked until it is requeued or discarded.
+    async run(): Promise<SyncRunResult> {
+        const queue = [...await this.store.loadQueue()].sort((a, b) => a.timestamp - b.timestamp);
+        const result: SyncRunResult = { synced: 0, failed: 0, deadLettered: 0, skipped: 0, remaining: 0 };
+        const existingDeadLetters = await this.store.loadDeadLetters();
+        const blockedEntities = new Set(existingDeadLetters.flatMap(operation => this.getEntityKeys(operation)));
+        const doneIds = new Set<string>();
+        const retried = new Map<string, SyncOperation>();
+        const deadLetters: SyncOperation[] = [];
+
+        for (const operation of queue) {
+            const entityKeys = this.getEntityKeys(operation);
+            const handler = this.handlers[operation.type];
+            const block = () => entityKeys.forEach(key => blockedEntities.add(key));
+
+            if (entityKeys.some(key => blockedEntities.has(key)) || (operation.nextAttemptAt && operation.nextAttemptAt > this.now())) {
+                block();
+                result.skipped++;
+                continue;
+            }
+
+            if (!handler) {
+                deadLetters.push({ ...operation, lastError: `No sync handler for ${operation.type}`, failedAt: this.now() });
+                block();
+                result.deadLettered++;
+                continue;
+            }
+
+            try {
+                await handler.apply(operation, this.backend);
+                doneIds.add(operation.id);
+                result.synced++;
+            } catch (error) {
+                const retryCount = operation.retryCount + 1;
+                const failed: SyncOperation = {
+                    ...operation,
+                    retryCount,
+                    lastError: describeError(error),
+                    nextAttemptAt: this.now() + getRetryDelay(retryCount)
+                };
+                block();
+
+                if (retryCount > MAX_SYNC_RETRIES) {
+                    deadLetters.push({ ...failed, failedAt: this.now() });
+                    result.deadLettered++;
+                } else {
+                    retried.set(operation.id, failed);
+                    result.failed++;
+                }
+            }
+        }
+
+        // Re-read the queue: operations may have been added (or removed) while this run was awaiting Firestore
+        const deadIds = new Set(deadLetters.map(operation => operation.id));
+        const latest = await this.store.loadQueue();
+        const remaining = latest
+            .filter(operation => !doneIds.has(operation.id) && !deadIds.has(operation.id))
+            .map(operation => retried.get(operation.id) || operation);
+        await this.store.saveQueue(remaining);
+
+        if (deadLetters.length > 0) {
+            const latestDeadLetters = await this.store.loadDeadLetters();
+            await this.store.saveDeadLetters([...latestDeadLetters, ...deadLetters]);
+        }
+
+        result.remaining = remaining.length;
+        return result;
+    }
+
+    // Puts a dead-lettered operation back on the queue with a fresh retry budget
+    async requeueDeadLetter(operationId: string): Promise<boolean> {
+        const deadLetters = await this.store.loadDeadLetters();
+        const operation = deadLetters.find(item => item.id === operationId);
+        if (!operation) return false;
+
+        const { failedAt, nextAttemptAt, ...rest } = operation;
+        const queue = await this.store.loadQueue();
+        await this.store.saveQueue([...queue, { ...rest, retryCount: 0 }]);
+        await this.store.saveDeadLetters(deadLetters.filter(item => item.id !== operationId));
+        return true;
+    }
+
+    // Drops a dead-lettered operation for good, releasing the later operations held behind it
+    async discardDeadLetter(operationId: string): Promise<boolean> {
+        const deadLetters = await this.store.loadDeadLetters();
+        if (!deadLetters.some(item => item.id === operationId)) return false;
+
+        await this.store.saveDeadLetters(deadLetters.filter(item => item.id !== operationId));
+        return true;
+    }
+}
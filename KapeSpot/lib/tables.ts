@@ -0,0 +1,180 @@
+// lib/tables.ts
+import {
+    getFirestore,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { DiningTable, FloorLayout, TableOrder, TableStatus } from '@/types/table';
+
+const FLOOR_LAYOUT_KEY = 'floorLayout';
+
+export const DEFAULT_FLOOR_LAYOUT: FloorLayout = {
+    tables: []
+};
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+    free: 'Free',
+    occupied: 'Occupied',
+    needs_bill: 'Needs Bill'
+};
+
+export const TABLE_STATUS_COLORS: Record<TableStatus, string> = {
+    free: '#16A34A',
+    occupied: '#D4A574',
+    needs_bill: '#DC2626'
+};
+
+export const createTableId = (): string => {
+    return `tbl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// New tables go in the next free slot of a 4-column grid so they don't land on top of each other
+export const createTable = (layout: FloorLayout): DiningTable => {
+    const slot = layout.tables.length;
+    return {
+        id: createTableId(),
+        name: `T${slot + 1}`,
+        seats: 4,
+        x: 6 + (slot % 4) * 23,
+        y: 6 + (Math.floor(slot / 4) % 4) * 23,
+        shape: 'square'
+    };
+};
+
+// Load the floor layout from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadFloorLayout = async (): Promise<FloorLayout> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const layoutDoc = await getDoc(doc(getFirestore(app), 'settings', 'floor_layout'));
+
+            if (layoutDoc.exists()) {
+                const layout: FloorLayout = { ...DEFAULT_FLOOR_LAYOUT, ...layoutDoc.data() };
+                await syncService.setItem(FLOOR_LAYOUT_KEY, JSON.stringify(layout));
+                console.log('✅ Floor layout loaded from Firebase:', layout.tables.length, 'tables');
+                return layout;
+            }
+        }
+    } catch (error) {
+        console.error('❌ Error loading floor layout from Firebase:', error);
+    }
+
+    const localLayout = await syncService.getItem(FLOOR_LAYOUT_KEY);
+    return localLayout ? { ...DEFAULT_FLOOR_LAYOUT, ...JSON.parse(localLayout) } : DEFAULT_FLOOR_LAYOUT;
+};
+
+export const saveFloorLayout = async (layout: FloorLayout): Promise<void> => {
+    const data = { ...layout, updated_at: new Date().toISOString() };
+
+    await setDoc(doc(getFirestore(app), 'settings', 'floor_layout'), data);
+    await OfflineSyncService.getInstance().setItem(FLOOR_LAYOUT_KEY, JSON.stringify(data));
+    console.log('✅ Floor layout saved');
+};
+
+// Unpaid orders from Firebase when online, otherwise the ones this tablet knows about
+export const loadOpenOrders = async (): Promise<TableOrder[]> => {
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online') {
+            const snapshot = await getDocs(query(collection(getFirestore(app), 'orders'), where('status', '==', 'unpaid')));
+            return snapshot.docs.map(orderDoc => {
+                const data = orderDoc.data();
+                return {
+                    orderId: data.orderId || orderDoc.id,
+                    firebaseId: orderDoc.id,
+                    idempotencyKey: data.idempotency_key,
+                    customerName: data.customerName || '',
+                    total: Number(data.total) || 0,
+                    status: data.status || 'unpaid',
+                    allItemsReady: data.allItemsReady || false,
+                    tableId: data.table_id || undefined,
+                    tableName: data.table_name || undefined,
+                    timestamp: data.timestamp || data.created_at || ''
+                };
+            });
+        }
+    } catch (error) {
+        console.error('❌ Error loading open orders from Firebase:', error);
+    }
+
+    const receipts = await OfflineSyncService.getInstance().getPendingReceipts();
+    return receipts.filter(receipt => receipt.status === 'unpaid');
+};
+
+export const getTableOrders = (tableId: string, orders: TableOrder[]): TableOrder[] => {
+    return orders.filter(order => order.status === 'unpaid' && order.tableId === tableId);
+};
+
+// A table needs its bill once every open order at it has been fully served
+export const getTableStatus = (tableId: string, orders: TableOrder[]): TableStatus => {
+    const tableOrders = getTableOrders(tableId, orders);
+    if (tableOrders.length === 0) return 'free';
+    return tableOrders.every(order => order.allItemsReady) ? 'needs_bill' : 'occupied';
+};
+
+export const getTableStatuses = (tables: DiningTable[], orders: TableOrder[]): Record<string, TableStatus> => {
+    const statuses: Record<string, TableStatus> = {};
+    tables.forEach(table => {
+        statuses[table.id] = getTableStatus(table.id, orders);
+    });
+    return statuses;
+};
+
+// Seats an open order at another table (or none). Local copy first, then Firebase or the sync queue.
+export const moveOrderToTable = async (order: TableOrder, table: DiningTable | null): Promise<void> => {
+    const syncService = OfflineSyncService.getInstance();
+    const changes = {
+        table_id: table ? table.id : null,
+        table_name: table ? table.name : null
+    };
+
+    const receipts = await syncService.getPendingReceipts();
+    await syncService.setItem('pendingReceipts', JSON.stringify(receipts.map(receipt => {
+        const sameOrder = order.idempotencyKey
+            ? receipt.idempotencyKey === order.idempotencyKey
+            : receipt.orderId === order.orderId;
+        if (!sameOrder) return receipt;
+
+        const { tableId: _tableId, tableName: _tableName, ...rest } = receipt;
+        return table ? { ...rest, tableId: table.id, tableName: table.name } : rest;
+    })));
+
+    const orderDocId = order.firebaseId || order.idempotencyKey;
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+        if (connectionMode === 'online' && orderDocId) {
+            await updateDoc(doc(getFirestore(app), 'orders', orderDocId), {
+                ...changes,
+                updated_at: new Date().toISOString()
+            });
+        } else {
+            await syncService.addPendingOrderUpdate(order, changes);
+        }
+    } catch (error) {
+        console.error('❌ Error moving order in Firebase - queued for sync:', error);
+        await syncService.addPendingOrderUpdate(order, changes);
+    }
+    console.log('🪑 Order', order.orderId, 'moved to', table ? table.name : 'no table');
+};
+
+// Transfer (to a free table) and merge (into an occupied one) both move every open order of the table;
+// a merged table then shows all of its guests' orders together
+export const moveTableOrders = async (fromTableId: string, toTable: DiningTable, orders: TableOrder[]): Promise<number> => {
+    const moving = getTableOrders(fromTableId, orders);
+    for (const order of moving) {
+        await moveOrderToTable(order, toTable);
+    }
+    return moving.length;
+};
@@ -0,0 +1,146 @@
+// lib/tax.ts
+import { getFirestore, doc, getDoc, setDoc } from 'firebase/firestore';
+import { app } from './firebase-config';
+import { OfflineSyncService } from './offline-sync';
+import { NetworkScanner } from './network-scanner';
+import { roundMoney } from './payments';
+import { DiscountResult } from '@/types/discount';
+import { TaxBreakdown, TaxLine, TaxProfile } from '@/types/tax';
+
+const TAX_PROFILE_KEY = 'taxProfile';
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+    vatRegistered: false,
+    vatRate: 12,
+    pricesIncludeVat: true,
+    tin: '',
+    exemptCategories: [],
+    exemptItemCodes: [],
+    serviceChargeRate: 0,
+    serviceChargeDineInOnly: true
+};
+
+// VAT rate the Senior/PWD discount has to strip out of the price before taking 20% off.
+// Exclusive prices already have no VAT in them, and non-VAT businesses have none to remove.
+export const getStatutoryVatRate = (profile: TaxProfile): number => {
+    return profile.vatRegistered && profile.pricesIncludeVat ? profile.vatRate / 100 : 0;
+};
+
+export const isLineVatExempt = (line: TaxLine, profile: TaxProfile): boolean => {
+    return (!!line.category && profile.exemptCategories.includes(line.category)) ||
+        (!!line.code && profile.exemptItemCodes.includes(line.code));
+};
+
+// Split the discounted order into VATable and VAT-exempt sales, then add VAT (exclusive pricing)
+// and the service charge. Order-level discounts are spread over lines in proportion to their amount.
+export const computeTaxes = (
+    lines: TaxLine[],
+    discountResult: DiscountResult,
+    orderType: 'dine-in' | 'take-out' | null,
+    profile: TaxProfile
+): TaxBreakdown => {
+    const net = discountResult.net;
+
+    // Senior/PWD share that is left after the statutory discount is always VAT-exempt
+    const statutory = discountResult.discounts.find(d => d.kind === 'senior' || d.kind === 'pwd');
+    const statutoryNet = statutory
+        ? roundMoney(Math.max(0, discountResult.statutoryShare - discountResult.vatRelief - statutory.amount))
+        : 0;
+    const remainingNet = roundMoney(Math.max(0, net - statutoryNet));
+
+    // Share of the remaining sale that comes from VAT-exempt items/categories
+    const afterLineDiscounts = lines.map(line => ({
+        line,
+        amount: line.price * line.quantity - (discountResult.lineDiscounts[line.lineId] || 0)
+    }));
+    const linesTotal = afterLineDiscounts.reduce((sum, entry) => sum + entry.amount, 0);
+    const exemptLinesTotal = afterLineDiscounts
+        .filter(entry => isLineVatExempt(entry.line, profile))
+        .reduce((sum, entry) => sum + entry.amount, 0);
+    const exemptNet = linesTotal > 0 ? roundMoney(remainingNet * exemptLinesTotal / linesTotal) : 0;
+    const taxableNet = roundMoney(remainingNet - exemptNet);
+
+    let vatableSales = 0;
+    let vatAmount = 0;
+    let vatExemptSales = 0;
+    let totalBeforeService = net;
+
+    if (profile.vatRegistered) {
+        const rate = profile.vatRate / 100;
+        vatExemptSales = roundMoney(statutoryNet + exemptNet);
+
+        if (profile.pricesIncludeVat) {
+            vatAmount = roundMoney(taxableNet * rate / (1 + rate));
+            vatableSales = roundMoney(taxableNet - vatAmount);
+        } else {
+            vatableSales = taxableNet;
+            vatAmount = roundMoney(taxableNet * rate);
+            totalBeforeService = roundMoney(net + vatAmount);
+        }
+    }
+
+    // Service charge is computed on the VAT-exclusive amount
+    let serviceCharge = 0;
+    const serviceApplies = profile.serviceChargeRate > 0 &&
+        (!profile.serviceChargeDineInOnly || orderType === 'dine-in');
+
+    if (serviceApplies) {
+        const base = profile.vatRegistered ? vatableSales + vatExemptSales : net;
+        serviceCharge = roundMoney(base * profile.serviceChargeRate / 100);
+    }
+
+    return {
+        vatableSales,
+        vatAmount,
+        vatExemptSales,
+        serviceCharge,
+        total: roundMoney(totalBeforeService + serviceCharge)
+    };
+};
+
+// Plain-text lines for the thermal receipt (printed after the TOTAL line)
+export const formatTaxLines = (
+    receipt: { vatableSales?: number; vatAmount?: number; vatExemptSales?: number },
+    profile: TaxProfile
+): string => {
+    if (!profile.vatRegistered) return '';
+
+    return `VATABLE SALES: ₱${(receipt.vatableSales || 0).toFixed(2)}\n` +
+        `VAT (${profile.vatRate}%): ₱${(receipt.vatAmount || 0).toFixed(2)}\n` +
+        `VAT-EXEMPT SALES: ₱${(receipt.vatExemptSales || 0).toFixed(2)}\n`;
+};
+
+// Load the tax profile from Firebase when online (refreshing the local copy), otherwise from local storage
+export const loadTaxProfile = async (): Promise<TaxProfile> => {
+    const syncService = OfflineSyncService.getInstance();
+
+    try {
+        const connectionMode = await NetworkScanner.getApiBaseUrl();
+
+        if (connectionMode === 'online') {
+            const db = getFirestore(app);
+            const profileDoc = await getDoc(doc(db, 'settings', 'tax_profile'));
+
+            if (profileDoc.exists()) {
+                const profile: TaxProfile = { ...DEFAULT_TAX_PROFILE, ...profileDoc.data() };
+                await syncService.setItem(TAX_PROFILE_KEY, JSON.stringify(profile));
+                console.log('✅ Tax profile loaded from Firebase');
+                return profile;
+            }
+        }
+    } catch (error) {
+        console.error('❌ Error loading tax profile from Firebase:', error);
+    }
+
+    const localProfile = await syncService.getItem(TAX_PROFILE_KEY);
+    return localProfile ? { ...DEFAULT_TAX_PROFILE, ...JSON.parse(localProfile) } : DEFAULT_TAX_PROFILE;
+};
+
+export const saveTaxProfile = async (profile: TaxProfile): Promise<void> => {
+    const db = getFirestore(app);
+    const data = { ...profile, updated_at: new Date().toISOString() };
+
+    await setDoc(doc(db, 'settings', 'tax_profile'), data);
+    await OfflineSyncService.getInstance().setItem(TAX_PROFILE_KEY, JSON.stringify(data));
+    console.log('✅ Tax profile saved');
+};
@@ -0,0 +1,31 @@
+import { RecipeComponent } from './ingredient';
+
+// An item the slot can be filled with. Options point at other items so their stock and sales move.
+export interface BundleOption {
+    id: string;
+    itemId: string; // items document id of the component
+    name: string;
+    upcharge: number; // added to the bundle price when picked, e.g. +₱20 for a croissant instead of a cookie
+}
+
+// One part of a bundle, e.g. "Drink" or "Pastry". A slot with a single option is a fixed component;
+// with more the cashier chooses one.
+export interface BundleSlot {
+    id: string;
+    name: string;
+    quantity: number; // units of the picked item per bundle
+    options: BundleOption[];
+}
+
+// Component picked for a cart line / order item, copied so old orders keep their names, cups and recipes
+export interface BundleComponent {
+    slotId: string;
+    slotName: string;
+    optionId: string;
+    itemId: string;
+    name: string;
+    quantity: number; // per bundle
+    upcharge: number;
+    cupName?: string;
+    recipe?: RecipeComponent[];
+}
@@ -0,0 +1,32 @@
+export type ConflictCollection = 'items' | 'cups' | 'orders';
+
+// One field both this tablet (offline) and another device changed to different values
+export interface ConflictField {
+    field: string;
+    base: any; // value this tablet last saw before its offline edit
+    local: any; // this tablet's offline value
+    remote: any; // value in Firestore when the edit synced
+}
+
+export interface SyncConflict {
+    id: string;
+    collection: ConflictCollection;
+    documentId: string; // Firestore document id
+    localId?: string; // id of the local copy (items / cups still carrying an offline id)
+    entityName: string; // item or cup name, order number
+    fields: ConflictField[];
+    detectedAt: string;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// What an admin decided for a conflict; kept locally and in Firestore (sync_conflict_log)
+export interface ConflictDecision {
+    conflictId: string;
+    collection: ConflictCollection;
+    documentId: string;
+    entityName: string;
+    fields: (ConflictField & { choice: ConflictChoice })[];
+    decidedBy: string;
+    decidedAt: string;
+}
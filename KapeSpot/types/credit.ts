@@ -0,0 +1,36 @@
+import { TenderType } from './payment';
+
+// charge  - an order (or part of one) put on the customer's account at the POS
+// payment - money the customer brought in against what they owe
+// credit  - a void or refund of a charged order taking the amount back off the account
+export type CreditEntryKind = 'charge' | 'payment' | 'credit';
+
+// One line of a customer's account; what they owe is the sum of the amounts. Charge and credit ids
+// come from the order or refund, so recording the same thing twice changes nothing.
+export interface CreditEntry {
+    id: string;
+    customerId: string;
+    customerName: string;
+    kind: CreditEntryKind;
+    amount: number; // positive for charges, negative for payments and credits
+    orderId?: string; // printed order number
+    orderKey?: string; // idempotency key of the order (falls back to the document id)
+    refundId?: string;
+    tender?: TenderType; // payments only: how the money came in
+    reference?: string;
+    receivedBy?: string;
+    timestamp: string;
+    synced?: boolean;
+}
+
+export type AgingBucket = 'current' | 'days8to30' | 'days31to60' | 'over60';
+
+// What one customer owes, split by how long ago it was charged
+export interface CreditAging {
+    customerId: string;
+    customerName: string;
+    creditLimit: number;
+    balance: number;
+    buckets: Record<AgingBucket, number>;
+    oldestCharge?: string; // date of the oldest charge not yet paid off
+}
@@ -0,0 +1,28 @@
+import { OrderLine } from './order';
+
+// A regular of the shop. The id is made on the tablet, so a customer created offline keeps the
+// same document id once it syncs and orders can point at it straight away.
+export interface Customer {
+    id: string;
+    name: string;
+    phone: string;
+    birthday: string; // YYYY-MM-DD, empty when not given
+    notes: string;
+    creditLimit?: number; // most the customer may owe on their account; 0 or missing means no charging
+    created_at: string;
+    updated_at?: string;
+}
+
+// A past order as the customer screen lists it
+export interface CustomerOrder {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerId?: string;
+    customerName: string;
+    items: OrderLine[];
+    total: number;
+    status: 'unpaid' | 'paid' | 'cancelled';
+    orderType?: 'dine-in' | 'take-out';
+    timestamp: string;
+}
@@ -0,0 +1,54 @@
+// reward and points are loyalty redemptions: a free item from the stamp card, or points spent as pesos
+export type DiscountKind = 'senior' | 'pwd' | 'promo' | 'line' | 'manual' | 'reward' | 'points';
+
+export type DiscountValueType = 'percent' | 'fixed';
+
+export interface OrderDiscount {
+    id: string;
+    kind: DiscountKind;
+    label: string;
+    valueType: DiscountValueType;
+    value: number;
+    amount: number; // peso amount actually deducted, filled in by computeDiscounts
+    vatRelief?: number; // Senior/PWD only: VAT removed from the qualifying share
+    idNumber?: string; // Senior/PWD ID number
+    holderName?: string;
+    qualifiedCount?: number; // Senior/PWD diners on this order
+    dinerCount?: number;
+    promoCode?: string;
+    lineId?: string; // per-line discounts and stamp rewards
+    stamps?: number; // stamp rewards: stamps the free item costs
+    points?: number; // points redeemed
+    reason?: string;
+    approvedBy?: string;
+}
+
+export interface PromoCode {
+    id: string;
+    code: string;
+    label: string;
+    valueType: DiscountValueType;
+    value: number;
+    minSpend?: number;
+    active: boolean;
+    expiresAt?: string | null;
+    firebaseId?: string;
+}
+
+export interface DiscountLine {
+    lineId: string;
+    price: number;
+    quantity: number;
+}
+
+export interface DiscountResult {
+    gross: number;
+    lineDiscountTotal: number;
+    orderDiscountTotal: number;
+    vatRelief: number;
+    discountTotal: number; // everything deducted, including Senior/PWD VAT relief
+    net: number;
+    statutoryShare: number; // part of the order covered by Senior/PWD (VAT-exempt sale)
+    lineDiscounts: Record<string, number>;
+    discounts: OrderDiscount[];
+}
@@ -0,0 +1,20 @@
+export type IngredientUnit = 'g' | 'ml' | 'pc';
+
+export interface Ingredient {
+    id: string;
+    name: string; // e.g. "Espresso beans", "Fresh milk", "12oz lid"
+    unit: IngredientUnit;
+    stock: number; // in `unit`, can go negative when recipes are off
+    lowStockThreshold: number; // 0 disables the low-stock alert
+    firebaseId?: string;
+    updated_at?: string;
+}
+
+// How much of one ingredient a single unit of an item/modifier uses
+export interface RecipeComponent {
+    ingredientId: string;
+    quantity: number;
+}
+
+// Total amount per ingredient id for an order (or a cancelled part of it)
+export type IngredientUsage = Record<string, number>;
@@ -0,0 +1,43 @@
+export interface LoyaltySettings {
+    enabled: boolean;
+    stampsPerReward: number; // stamps for one free item: 9 means "buy 9, get the 10th free"
+    stampCategories: string[]; // categories that earn stamps and can be taken free; empty means every item
+    pesosPerPoint: number; // pesos spent for one point, 0 turns points off
+    pointValue: number; // pesos one point takes off an order
+    minPointsToRedeem: number;
+    updated_at?: string;
+}
+
+// earn    - stamps and points from an order once it is paid
+// redeem  - a free item or points taken off an order at the POS
+// reverse - a void or refund giving back what was redeemed or taking back what was earned
+export type LoyaltyEntryKind = 'earn' | 'redeem' | 'reverse';
+
+// One line of a customer's loyalty ledger; the balance is the sum of all of them. Ids are built
+// from the order or refund they belong to, so recording the same thing twice changes nothing.
+export interface LoyaltyEntry {
+    id: string;
+    customerId: string;
+    customerName: string;
+    kind: LoyaltyEntryKind;
+    orderId: string; // printed order number
+    orderKey: string; // idempotency key of the order (falls back to the document id)
+    stamps: number; // negative when taken off the balance
+    points: number;
+    lineStamps?: Record<string, number>; // earn only: stamps per order line, so a refund takes back the right ones
+    refundId?: string;
+    timestamp: string;
+    synced?: boolean;
+}
+
+export interface LoyaltyBalance {
+    stamps: number;
+    points: number;
+}
+
+// Printed on the receipt: the balance once this order is paid
+export interface LoyaltySnapshot extends LoyaltyBalance {
+    stampsEarned: number;
+    pointsEarned: number;
+    stampsPerReward: number;
+}
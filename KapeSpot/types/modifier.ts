@@ -0,0 +1,27 @@
+import { RecipeComponent } from './ingredient';
+
+export interface ModifierOption {
+    id: string;
+    name: string; // e.g. "Large", "Less sugar", "Extra shot"
+    priceDelta: number; // added to the item price, can be 0 or negative
+    recipe?: RecipeComponent[]; // extra ingredients used on top of the item's recipe
+    cupName?: string; // take-out cup this option switches to, e.g. "Large" → "16oz Cup"
+}
+
+export interface ModifierGroup {
+    id: string;
+    name: string; // e.g. "Size", "Sugar Level", "Add-ons"
+    required: boolean; // at least one option must be picked
+    multiSelect: boolean; // single choice when false
+    maxSelect?: number; // multi-select only, 0/undefined = no limit
+    options: ModifierOption[];
+}
+
+// Option picked for a cart line / order item, copied so old orders keep their names and prices
+export interface SelectedModifier {
+    groupId: string;
+    groupName: string;
+    optionId: string;
+    optionName: string;
+    priceDelta: number;
+}
@@ -0,0 +1,143 @@
+import { Tender } from './payment';
+import { OrderDiscount } from './discount';
+import { IngredientUsage, RecipeComponent } from './ingredient';
+import { SelectedModifier } from './modifier';
+import { BundleComponent } from './bundle';
+import { LinePromotion } from './promotion';
+
+// Local lifecycle of an order placed at the POS:
+// draft     - built from the cart, nothing saved yet
+// committed - saved to pendingReceipts and queued; the sale stands even if Firestore is unreachable
+// synced    - the Firestore transaction wrote the order together with its stock changes
+export type OrderSyncState = 'draft' | 'committed' | 'synced';
+
+// One line of an order: a POS cart line as placed, and the same line read back from the order document
+export interface OrderLine {
+    id: string; // menu item id
+    lineId?: string; // same item with different modifiers or picks is its own line; falls back to id
+    firebaseId?: string | null; // items document whose stock and sales move
+    code?: string;
+    category?: string;
+    name: string;
+    price: number; // unit price, modifiers and promotion included
+    basePrice?: number; // unit price before modifiers
+    quantity: number;
+    modifiers?: SelectedModifier[];
+    recipe?: RecipeComponent[]; // per unit, modifiers included
+    cupName?: string; // take-out cup per unit, after size modifiers
+    bundle?: BundleComponent[];
+    promotion?: LinePromotion;
+    addedAt?: string; // added to the open order after it was placed
+    total?: number; // price x quantity, stored on the order document
+    discount?: number; // line discounts, stored on the order document
+    ready?: boolean; // the barista finished it
+    cancelled?: boolean; // voided
+    refunded?: boolean;
+}
+
+// What the commit transaction needs; local receipts (camelCase) are written as snake_case order docs
+export interface OrderCommitData {
+    idempotencyKey: string; // also the order document id, so a retried commit finds the first one
+    orderId: string; // printed number: "ORD-07" from the shared counter, "ORD-K7Q-03" when numbered offline
+    sequence?: number; // place in the day's shared sequence, set once the order reaches Firestore
+    customerName: string;
+    customerId?: string; // profile from the customers collection, when one was picked
+    items: OrderLine[];
+    subtotal: number;
+    total: number;
+    status: 'unpaid' | 'paid' | 'cancelled';
+    timestamp: string;
+    orderType?: 'dine-in' | 'take-out';
+    tableId?: string; // dine-in table from the floor layout
+    tableName?: string; // kept on the order so it still prints if the table is renamed or removed
+    notes?: string;
+    cupsUsed?: number;
+    cupsBreakdown?: Record<string, number>;
+    ingredientUsage?: IngredientUsage;
+    payments?: Tender[];
+    amountTendered?: number;
+    changeDue?: number;
+    discounts?: OrderDiscount[];
+    discountTotal?: number;
+    vatableSales?: number;
+    vatAmount?: number;
+    vatExemptSales?: number;
+    serviceCharge?: number;
+    splitMode?: BillSplitMode;
+    bills?: OrderBill[]; // the order was paid as separate bills; payments above are all of them together
+}
+
+// How the amount of one order was divided between people paying separately
+export type BillSplitMode = 'items' | 'quantity' | 'even';
+
+// One of the bills an order was split into, paid and printed on its own
+export interface OrderBill {
+    id: string;
+    index: number; // 1-based, printed as "BILL 2 OF 3"
+    lines: { lineId: string; quantity: number }[]; // the units this bill pays for; empty for an even split
+    amount: number; // share of the order total, discounts and taxes included
+    payments: Tender[];
+    amountTendered: number;
+    changeDue: number;
+}
+
+// Order money after lines are voided or added, written back to the order document
+export interface OrderTotalsUpdate {
+    subtotal: number;
+    total: number;
+    discountTotal: number;
+    vatableSales: number;
+    vatAmount: number;
+    vatExemptSales: number;
+    serviceCharge: number;
+}
+
+// Lines added to an open (unpaid) order after it was placed. What they add to the total is paid
+// when they are added, like any other sale at the POS.
+export interface OrderAddition {
+    id: string; // recorded on the order document (addition_ids) so a retried sync adds the lines once
+    orderId: string; // printed order number
+    orderDocId: string; // orders document id
+    orderKey: string; // idempotency key of the order (falls back to the document id)
+    customerName: string;
+    orderType?: 'dine-in' | 'take-out';
+    items: OrderLine[]; // new cart lines, each stamped with addedAt
+    totalsAfter: OrderTotalsUpdate;
+    amountDue: number; // what the new lines add to the order total
+    payments: Tender[];
+    amountTendered: number;
+    changeDue: number;
+    cupsUsed: number;
+    cupsBreakdown: Record<string, number>;
+    ingredientUsage: IngredientUsage;
+    timestamp: string;
+    synced?: boolean;
+}
+
+// A cart put aside at the POS without placing it; nothing is committed or taken out of stock
+export interface ParkedCart {
+    id: string;
+    customerName: string;
+    customerId?: string;
+    notes: string;
+    orderType: 'dine-in' | 'take-out' | null;
+    tableId?: string;
+    tableName?: string;
+    items: OrderLine[];
+    discounts: OrderDiscount[];
+    parkedAt: string;
+}
+
+// One unpaid order folded into another, e.g. two tickets of the same table. The source's lines,
+// money and bills move to the target and the source is cancelled with a pointer to it.
+export interface OrderMerge {
+    id: string; // recorded on the target (merge_ids) so a retried sync merges once
+    targetOrderId: string;
+    targetDocId: string;
+    targetKey: string;
+    sourceOrderId: string;
+    sourceDocId: string;
+    sourceKey: string;
+    timestamp: string;
+    synced?: boolean;
+}
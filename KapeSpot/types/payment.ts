@@ -0,0 +1,15 @@
+// account - charged to the customer's credit account and paid later (see lib/credit.ts)
+export type TenderType = 'cash' | 'gcash' | 'maya' | 'card' | 'account';
+
+export interface Tender {
+    type: TenderType;
+    amount: number;
+    reference?: string; // e-wallet reference number or card approval code
+    receivedAt: string;
+}
+
+export interface PaymentSummary {
+    payments: Tender[];
+    amountTendered: number;
+    changeDue: number;
+}
@@ -0,0 +1,96 @@
+// Printer-independent receipt layout, compiled to ESC/POS bytes by lib/escpos
+export type PrintAlign = 'left' | 'center' | 'right';
+
+// Character scale on the thermal head; 'double' is twice as wide and twice as tall
+export type PrintSize = 'normal' | 'tall' | 'wide' | 'double';
+
+export type PrintBlock =
+    | {
+        type: 'text';
+        text: string; // may span several lines
+        align?: PrintAlign;
+        bold?: boolean;
+        underline?: boolean;
+        size?: PrintSize;
+    }
+    | { type: 'row'; left: string; right: string; bold?: boolean } // label left, amount flush right
+    | { type: 'separator'; char?: string } // full-width rule, '-' by default
+    | { type: 'feed'; lines: number }
+    | { type: 'qr'; data: string; size?: number } // module size in dots, 1-16
+    | { type: 'barcode'; data: string; symbology?: 'code128' | 'code39' | 'ean13'; height?: number }
+    | { type: 'cut'; partial?: boolean }
+    | { type: 'drawer' }; // cash drawer kick on pin 2
+
+export interface PrintDocument {
+    blocks: PrintBlock[];
+}
+
+// How the peso sign reaches paper: no stock code page has it, so either a downloaded glyph or a plain "P"
+export type PesoStyle = 'glyph' | 'letter';
+
+export interface PrintOptions {
+    columns: number; // characters per line at normal size, 32 on 58mm paper
+    peso: PesoStyle;
+}
+
+// How bytes reach the printer: BLE characteristic, Bluetooth Classic SPP, raw TCP (port 9100) or a capture file
+export type PrinterKind = 'ble' | 'classic' | 'tcp' | 'loopback';
+
+interface PrinterConnectionBase {
+    id: string; // print options are keyed by this: peripheral id, MAC address, host:port or 'loopback'
+    name: string;
+}
+
+export type PrinterConnection =
+    | (PrinterConnectionBase & { kind: 'ble'; peripheralId: string; serviceId: string; transfer: string })
+    | (PrinterConnectionBase & { kind: 'classic'; address: string })
+    | (PrinterConnectionBase & { kind: 'tcp'; host: string; port: number })
+    | (PrinterConnectionBase & { kind: 'loopback'; fileName: string });
+
+// Receipts go to the counter; bar and kitchen printers get tickets with only their own lines
+export type PrinterRole = 'receipt' | 'bar' | 'kitchen';
+export type PrepStation = Exclude<PrinterRole, 'receipt'>;
+
+export type SavedPrinter = PrinterConnection & { role: PrinterRole };
+
+// Category name -> station whose printer gets its lines; categories not listed print no ticket
+export type StationRouting = Record<string, PrepStation>;
+
+// Result of the last job or test sent to a printer
+export interface PrinterHealth {
+    ok: boolean;
+    checkedAt: string;
+    lastPrintedAt: string | null;
+    lastError: string | null;
+}
+
+// One print session: open, write chunks in order, close; every write resolves once the chunk has left the device
+export interface PrinterTransport {
+    kind: PrinterKind;
+    chunkDelayMs: number; // pause between chunks so slow printers can drain their buffer
+    open(): Promise<void>;
+    write(chunk: number[]): Promise<void>;
+    close(): Promise<void>;
+}
+
+export type PrintJobSource = 'pos' | 'log' | 'sales' | 'ticket';
+
+// 'failed' jobs wait for nextAttemptAt or a printer reconnect; the last few 'done' jobs stay for reprinting
+export type PrintJobStatus = 'pending' | 'printing' | 'failed' | 'done';
+
+export interface PrintJob {
+    id: string;
+    title: string; // e.g. "Receipt ORD-0042"
+    source: PrintJobSource;
+    printerId?: string; // saved printer the job is for; receipts without one go to the receipt printer
+    document: PrintDocument;
+    copies: number;
+    status: PrintJobStatus;
+    copiesPrinted: number;
+    sentChunks: number; // chunks of the copy in progress that reached the printer; a resumed job sends the rest
+    attempts: number;
+    nextAttemptAt: number | null; // epoch ms
+    lastError: string | null;
+    createdAt: string;
+    printedAt: string | null;
+}
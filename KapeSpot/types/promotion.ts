@@ -0,0 +1,34 @@
+import { DiscountValueType } from './discount';
+
+// Scheduled price cut applied by the POS on its own, e.g. "Happy Hour: 20% off iced drinks, weekdays 2-4pm"
+export interface Promotion {
+    id: string;
+    firebaseId?: string;
+    name: string;
+    valueType: DiscountValueType; // percent of the unit price, or pesos off each unit
+    value: number;
+    days: number[]; // 0 = Sunday; empty = every day
+    startTime: string; // 'HH:MM'; empty = from opening
+    endTime: string; // 'HH:MM', exclusive; empty = until closing. Earlier than startTime runs past midnight
+    startDate: string | null; // 'YYYY-MM-DD', inclusive
+    endDate: string | null; // 'YYYY-MM-DD', inclusive
+    itemCodes: string[]; // no codes and no categories = the whole menu
+    categories: string[];
+    active: boolean;
+}
+
+// Promotion priced into a cart line / order item, copied so reports keep the name after it is deleted
+export interface LinePromotion {
+    promotionId: string;
+    name: string;
+    regularPrice: number; // unit price before the promotion
+    unitDiscount: number;
+}
+
+export interface PromotionSummary {
+    promotionId: string;
+    name: string;
+    orders: number;
+    units: number;
+    cost: number; // pesos given away: regular minus promo price, times units
+}
@@ -0,0 +1,49 @@
+import { TenderType } from './payment';
+import { IngredientUsage } from './ingredient';
+import { OrderTotalsUpdate } from './order';
+
+// void   - lines taken off an order still being prepared (unpaid); the order total goes down
+// refund - money given back on a completed (paid) order; the sale stays and the refund is a negative line
+export type RefundKind = 'void' | 'refund';
+
+export type RefundReasonCode =
+    | 'customer_request'
+    | 'wrong_item'
+    | 'quality'
+    | 'long_wait'
+    | 'duplicate'
+    | 'pricing_error'
+    | 'other';
+
+export interface RefundLine {
+    lineId: string; // matches the order line (lineId, else item id, else position)
+    name: string;
+    quantity: number;
+    price: number;
+    amount: number; // price × quantity before discounts
+    itemId?: string; // items document whose stock and sales counter are reversed
+    bundle?: { itemId: string; quantity: number }[]; // bundle lines: components per bundle, whose stock goes back
+}
+
+export interface RefundRecord {
+    id: string; // also the refunds document id, so a retried sync can't reverse stock twice
+    kind: RefundKind;
+    orderId: string; // printed order number
+    orderDocId: string; // orders document id
+    orderKey: string; // idempotency key of the order (falls back to the document id)
+    customerName: string;
+    orderType?: 'dine-in' | 'take-out';
+    lines: RefundLine[];
+    full: boolean; // every remaining line of the order
+    amount: number; // money taken off the order / given back
+    tender?: TenderType; // refunds only: how the money was given back
+    totalsAfter?: OrderTotalsUpdate; // voids only
+    cupsBreakdown: Record<string, number>; // cups going back to stock
+    ingredientUsage: IngredientUsage; // ingredients going back to stock
+    reasonCode: RefundReasonCode;
+    reasonNote: string;
+    requestedBy: string;
+    approvedBy: string;
+    timestamp: string;
+    synced?: boolean;
+}
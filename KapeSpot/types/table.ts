@@ -0,0 +1,34 @@
+// A dine-in table on the floor map. x and y place its top-left corner as a percentage of the
+// map's width and height, so the same layout fits every tablet.
+export interface DiningTable {
+    id: string;
+    name: string; // printed on receipts and order cards, e.g. "T4"
+    seats: number;
+    x: number;
+    y: number;
+    shape: 'square' | 'round';
+}
+
+export interface FloorLayout {
+    tables: DiningTable[];
+    updated_at?: string;
+}
+
+// free       - no open order at the table
+// occupied   - an order is still being prepared
+// needs_bill - every item has been served; the table is waiting to be cleared
+export type TableStatus = 'free' | 'occupied' | 'needs_bill';
+
+// What the floor map needs from an open order, whether it came from Firestore or pendingReceipts
+export interface TableOrder {
+    orderId: string;
+    firebaseId?: string;
+    idempotencyKey?: string;
+    customerName: string;
+    total: number;
+    status: 'unpaid' | 'paid' | 'cancelled';
+    allItemsReady?: boolean;
+    tableId?: string;
+    tableName?: string;
+    timestamp: string;
+}
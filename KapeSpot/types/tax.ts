@@ -0,0 +1,27 @@
+export interface TaxProfile {
+    vatRegistered: boolean;
+    vatRate: number; // percent, e.g. 12
+    pricesIncludeVat: boolean; // menu prices already include VAT
+    tin: string; // printed on receipts
+    exemptCategories: string[]; // category names sold VAT-exempt
+    exemptItemCodes: string[]; // item codes sold VAT-exempt
+    serviceChargeRate: number; // percent, 0 disables it
+    serviceChargeDineInOnly: boolean;
+    updated_at?: string;
+}
+
+export interface TaxLine {
+    lineId: string;
+    code?: string;
+    category?: string;
+    price: number;
+    quantity: number;
+}
+
+export interface TaxBreakdown {
+    vatableSales: number; // VAT-exclusive amount subject to VAT
+    vatAmount: number;
+    vatExemptSales: number; // Senior/PWD share plus exempt items
+    serviceCharge: number;
+    total: number;
+}